@@ -4,30 +4,69 @@ import { ThreeScene } from './components/ThreeScene';
 import { Controls } from './components/Controls';
 import { Analysis } from './components/Analysis';
 import { Assistant } from './components/Assistant';
-import { DesignParams, SimulationResult, Tab } from './types';
-import { calculatePhysics } from './services/physicsEngine';
-import { LayoutGrid, MessageSquare, Settings } from 'lucide-react';
+import { OptimizerPanel } from './components/OptimizerPanel';
+import { SweepPanel } from './components/SweepPanel';
+import { DesignLibrary } from './components/DesignLibrary';
+import { TelemetryPanel } from './components/TelemetryPanel';
+import { useTelemetry } from './components/useTelemetry';
+import { nextComparisonColor } from './components/ComparisonView';
+import { ComparedDesign, DesignParams, LineTrainSolution, ModelSettings, SavedDesign, SimulationResult, Tab, TestLog, TimeSimulationResult } from './types';
+import { calculatePhysics, DEFAULT_DESIGN_PARAMS, DEFAULT_MODEL_SETTINGS } from './services/physicsEngine';
+import { solveLineTrain } from './services/lineTrainSolver';
+import { measuredResults } from './services/telemetryModel';
+import { LayoutGrid, MessageSquare, Settings, Target, FolderOpen, Grid3x3, Radio } from 'lucide-react';
 import clsx from 'clsx';
 
-const DEFAULT_PARAMS: DesignParams = {
-  bladeLength: 1.2,
-  bladeChord: 0.15,
-  bladePitch: 4.0,
-  rotorMass: 1.5,
-  lineTension: 200, // Initial static tension
-  lineAngle: 50, // degrees
-  windSpeed: 10,
-  hubDiameter: 0.05,
-  rotorTilt: -10 // Default aligned
-};
-
 const App: React.FC = () => {
-  const [params, setParams] = useState<DesignParams>(DEFAULT_PARAMS);
+  const [params, setParams] = useState<DesignParams>(DEFAULT_DESIGN_PARAMS);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(DEFAULT_MODEL_SETTINGS);
   const [activeTab, setActiveTab] = useState<Tab>(Tab.DESIGN);
+  const [playback, setPlayback] = useState<TimeSimulationResult | null>(null);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [comparison, setComparison] = useState<ComparedDesign[]>([]);
+  const [testLog, setTestLog] = useState<TestLog | null>(null);
 
   const results: SimulationResult = useMemo(() => {
-    return calculatePhysics(params);
-  }, [params]);
+    return calculatePhysics(params, modelSettings);
+  }, [params, modelSettings]);
+
+  // Rotors stacked on the line, when the design has more than its own
+  const train: LineTrainSolution | null = useMemo(() => {
+    return modelSettings.lineTrain.enabled ? solveLineTrain(params, modelSettings) : null;
+  }, [params, modelSettings]);
+
+  // The rig's live values, when a telemetry stream is running, drive the 3D view and overlay
+  const telemetry = useTelemetry(params, modelSettings);
+  const { sample: liveSample, predicted: livePrediction } = telemetry.feed;
+  const liveResults: SimulationResult | null = useMemo(() => {
+    return liveSample && livePrediction ? measuredResults(livePrediction, liveSample, params.bladeLength) : null;
+  }, [liveSample, livePrediction, params.bladeLength]);
+  const sceneResults = liveResults ?? results;
+
+  const comparisonResults: SimulationResult[] = useMemo(() => {
+    return comparison.map(d => calculatePhysics(d.params, d.modelSettings));
+  }, [comparison]);
+
+  const pinCurrentDesign = () => {
+    setComparison(prev => [...prev, {
+      id: `pin-${Date.now()}`,
+      name: `Pinned ${prev.length + 1}`,
+      color: nextComparisonColor(prev),
+      params,
+      modelSettings
+    }]);
+  };
+
+  const compareSavedDesign = (design: SavedDesign) => {
+    setComparison(prev => prev.some(d => d.id === design.id) ? prev : [...prev, {
+      id: design.id,
+      name: design.name,
+      color: nextComparisonColor(prev),
+      params: design.params,
+      modelSettings: design.modelSettings
+    }]);
+    setActiveTab(Tab.ANALYSIS);
+  };
 
   return (
     <div className="flex h-screen flex-col bg-slate-950 text-slate-100 font-sans">
@@ -43,47 +82,130 @@ const App: React.FC = () => {
           </h1>
         </div>
         
-        <div className="flex items-center gap-2 bg-slate-800 p-1 rounded-lg">
-          <TabButton 
-            active={activeTab === Tab.DESIGN} 
-            onClick={() => setActiveTab(Tab.DESIGN)} 
-            icon={<Settings className="w-4 h-4" />} 
-            label="Design" 
-          />
+        <div className="flex items-center gap-2">
           <TabButton 
-            active={activeTab === Tab.ANALYSIS} 
-            onClick={() => setActiveTab(Tab.ANALYSIS)} 
-            icon={<LayoutGrid className="w-4 h-4" />} 
-            label="Analysis" 
-          />
-          <TabButton 
-            active={activeTab === Tab.ASSISTANT} 
-            onClick={() => setActiveTab(Tab.ASSISTANT)} 
-            icon={<MessageSquare className="w-4 h-4" />} 
-            label="Assistant" 
+            active={libraryOpen} 
+            onClick={() => setLibraryOpen(!libraryOpen)} 
+            icon={<FolderOpen className="w-4 h-4" />} 
+            label="Library" 
           />
+          <div className="flex items-center gap-2 bg-slate-800 p-1 rounded-lg">
+            <TabButton 
+              active={activeTab === Tab.DESIGN} 
+              onClick={() => setActiveTab(Tab.DESIGN)} 
+              icon={<Settings className="w-4 h-4" />} 
+              label="Design" 
+            />
+            <TabButton 
+              active={activeTab === Tab.ANALYSIS} 
+              onClick={() => setActiveTab(Tab.ANALYSIS)} 
+              icon={<LayoutGrid className="w-4 h-4" />} 
+              label="Analysis" 
+            />
+            <TabButton 
+              active={activeTab === Tab.OPTIMIZE} 
+              onClick={() => setActiveTab(Tab.OPTIMIZE)} 
+              icon={<Target className="w-4 h-4" />} 
+              label="Optimize" 
+            />
+            <TabButton 
+              active={activeTab === Tab.SWEEP} 
+              onClick={() => setActiveTab(Tab.SWEEP)} 
+              icon={<Grid3x3 className="w-4 h-4" />} 
+              label="Sweep" 
+            />
+            <TabButton 
+              active={activeTab === Tab.TELEMETRY} 
+              onClick={() => setActiveTab(Tab.TELEMETRY)} 
+              icon={<Radio className="w-4 h-4" />} 
+              label="Telemetry" 
+            />
+            <TabButton 
+              active={activeTab === Tab.ASSISTANT} 
+              onClick={() => setActiveTab(Tab.ASSISTANT)} 
+              icon={<MessageSquare className="w-4 h-4" />} 
+              label="Assistant" 
+            />
+          </div>
         </div>
       </header>
 
       {/* Main Content Grid */}
       <div className="flex-1 overflow-hidden flex flex-col lg:flex-row">
         
+        {/* Design Library Sidebar */}
+        {libraryOpen && (
+          <div className="flex-none w-full lg:w-[280px] h-1/2 lg:h-full">
+            <DesignLibrary 
+              params={params} 
+              modelSettings={modelSettings} 
+              results={results} 
+              onLoad={(loadedParams, loadedSettings) => { 
+                setParams(loadedParams); 
+                setModelSettings(loadedSettings); 
+              }} 
+              onCompare={compareSavedDesign} 
+            />
+          </div>
+        )}
+        
         {/* Left Panel - Dynamic Content based on Tab */}
         <div className={clsx(
           "flex-none transition-all duration-300 ease-in-out border-r border-slate-800 bg-slate-900/50",
-          activeTab === Tab.ANALYSIS 
-            ? "w-full lg:w-[65%]"  // Expanded width for Analysis
+          activeTab === Tab.ANALYSIS || activeTab === Tab.OPTIMIZE || activeTab === Tab.SWEEP || activeTab === Tab.TELEMETRY
+            ? "w-full lg:w-[65%]"  // Expanded width for Analysis, Optimizer, Sweep and Telemetry
             : activeTab === Tab.ASSISTANT 
               ? "w-full lg:w-[400px]" 
               : "w-full lg:w-[350px]", // Default narrow width for Design
           "flex flex-col h-1/2 lg:h-full"
         )}>
            {activeTab === Tab.DESIGN && (
-             <Controls params={params} onChange={setParams} />
+             <Controls 
+               params={params} 
+               onChange={setParams} 
+               modelSettings={modelSettings} 
+               onModelSettingsChange={setModelSettings} 
+             />
            )}
            {activeTab === Tab.ANALYSIS && (
              <div className="p-4 h-full overflow-hidden">
-                <Analysis currentResults={results} params={params} />
+                <Analysis 
+                  currentResults={results} 
+                  params={params} 
+                  modelSettings={modelSettings} 
+                  onPlayback={setPlayback} 
+                  comparison={comparison} 
+                  comparisonResults={comparisonResults} 
+                  onPinCurrent={pinCurrentDesign} 
+                  onRemoveComparison={(id) => setComparison(prev => prev.filter(d => d.id !== id))} 
+                  train={train} 
+                  testLog={testLog} 
+                  onTestLogChange={setTestLog} 
+                  onCalibrationChange={(calibration) => setModelSettings(prev => ({ ...prev, calibration }))} 
+                />
+             </div>
+           )}
+           {activeTab === Tab.OPTIMIZE && (
+             <div className="p-4 h-full overflow-hidden">
+                <OptimizerPanel 
+                  params={params} 
+                  modelSettings={modelSettings} 
+                  onApply={setParams} 
+                />
+             </div>
+           )}
+           {activeTab === Tab.SWEEP && (
+             <div className="p-4 h-full overflow-hidden">
+                <SweepPanel 
+                  params={params} 
+                  modelSettings={modelSettings} 
+                  currentResults={results} 
+                />
+             </div>
+           )}
+           {activeTab === Tab.TELEMETRY && (
+             <div className="p-4 h-full overflow-hidden">
+                <TelemetryPanel telemetry={telemetry} />
              </div>
            )}
            {activeTab === Tab.ASSISTANT && (
@@ -95,27 +217,42 @@ const App: React.FC = () => {
 
         {/* Center/Right - 3D Viewport */}
         <div className="flex-1 h-1/2 lg:h-full relative bg-slate-950">
-          <ThreeScene params={params} results={results} />
+          <ThreeScene 
+            params={params} 
+            modelSettings={modelSettings} 
+            results={sceneResults} 
+            train={train} 
+            telemetry={liveSample} 
+            playback={playback} 
+            onPlaybackEnd={() => setPlayback(null)} 
+            ghosts={comparison.map((d, i) => ({ ...d, results: comparisonResults[i] }))} 
+          />
           
           {/* Overlay Stats - Hide when in Analysis mode to reduce clutter in the smaller view */}
-          {activeTab !== Tab.ANALYSIS && (
+          {activeTab !== Tab.ANALYSIS && activeTab !== Tab.OPTIMIZE && activeTab !== Tab.SWEEP && (
             <div className="absolute top-4 right-4 bg-slate-900/80 backdrop-blur-md p-4 rounded-lg border border-slate-700 shadow-xl pointer-events-none">
-              <h4 className="text-xs text-slate-400 uppercase font-bold mb-2">Live Simulation</h4>
+              <h4 className="text-xs text-slate-400 uppercase font-bold mb-2">{liveResults ? 'Live Telemetry' : 'Live Simulation'}</h4>
               <div className="grid grid-cols-2 gap-x-8 gap-y-2 text-sm">
                 <span className="text-slate-300">Angle of Attack:</span>
-                <span className="text-white font-mono font-bold text-right">{results.angleOfAttack}°</span>
+                <span className="text-white font-mono font-bold text-right">{sceneResults.angleOfAttack}°</span>
 
                 <span className="text-slate-300">Net Tension:</span>
-                <span className="text-emerald-400 font-mono font-bold text-right">{results.generatedThrust} N</span>
+                <span className="text-emerald-400 font-mono font-bold text-right">
+                  {sceneResults.generatedThrust} N
+                  {livePrediction && <span className="ml-2 text-xs font-normal text-slate-500">model {livePrediction.generatedThrust}</span>}
+                </span>
                 
                 <span className="text-slate-300">Rotor Thrust:</span>
-                <span className="text-green-500 font-mono font-bold text-right">{results.totalRotorThrust} N</span>
+                <span className="text-green-500 font-mono font-bold text-right">{sceneResults.totalRotorThrust} N</span>
 
                 <span className="text-slate-300">RPM:</span>
-                <span className="text-blue-400 font-mono font-bold text-right">{results.rpm}</span>
+                <span className="text-blue-400 font-mono font-bold text-right">
+                  {sceneResults.rpm}
+                  {livePrediction && <span className="ml-2 text-xs font-normal text-slate-500">model {livePrediction.rpm}</span>}
+                </span>
                 
                 <span className="text-slate-300">Tip Speed:</span>
-                <span className="text-yellow-400 font-mono font-bold text-right">{results.tipSpeed} m/s</span>
+                <span className="text-yellow-400 font-mono font-bold text-right">{sceneResults.tipSpeed} m/s</span>
               </div>
             </div>
           )}
@@ -1,18 +1,56 @@
 
 
 import React from 'react';
-import { SimulationResult, DesignParams } from '../types';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
-import { Activity, Zap, TrendingUp, AlertTriangle, ArrowDownRight, Anchor, Wind } from 'lucide-react';
+import { SimulationResult, DesignParams, ModelSettings, AeroModel, TimeSimulationResult, ComparedDesign, BearingType, StructuralStatus, StabilityMode, LineTrainSolution, TestLog, CalibrationSettings } from '../types';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, Line, Scatter, Legend, ReferenceDot } from 'recharts';
+import { Activity, Zap, TrendingUp, AlertTriangle, ArrowDownRight, Anchor, Wind, CircleDot, Bone } from 'lucide-react';
 import { calculatePhysics } from '../services/physicsEngine';
+import { getAirfoil } from '../services/airfoilDatabase';
+import { BEARING_TYPES } from '../services/bearingModel';
+import { BLADE_MATERIALS, MARGINAL_SAFETY_FACTOR } from '../services/structureModel';
+import { CampbellPoint, excitationOrders, findResonances } from '../services/modalModel';
+import { bladeCountOf, HUB_TYPES } from '../services/teeterModel';
+import { STABILITY_MODE_INFO } from '../services/stabilityModel';
+import { buildPerformanceCurve } from '../services/yieldModel';
+import { TimeSimulationView } from './TimeSimulationView';
+import { ComparisonView } from './ComparisonView';
+import { CampbellView } from './CampbellView';
+import { DrivetrainView } from './DrivetrainView';
+import { LineTrainView } from './LineTrainView';
+import { DiskMapView } from './DiskMapView';
+import { YieldView } from './YieldView';
+import { CalibrationView } from './CalibrationView';
 
 interface AnalysisProps {
   currentResults: SimulationResult;
   params: DesignParams;
+  modelSettings: ModelSettings;
+  onPlayback: (result: TimeSimulationResult) => void;
+  comparison: ComparedDesign[];
+  comparisonResults: SimulationResult[];
+  onPinCurrent: () => void;
+  onRemoveComparison: (id: string) => void;
+  train: LineTrainSolution | null;
+  testLog: TestLog | null;
+  onTestLogChange: (log: TestLog | null) => void;
+  onCalibrationChange: (calibration: CalibrationSettings) => void;
 }
 
-const BladeAerodynamicsView: React.FC<{ results: SimulationResult }> = ({ results }) => {
+// Wind range of the performance charts and Campbell diagram, m/s
+const CHART_MIN_WIND = 2;
+const CHART_MAX_WIND = 25;
+
+const MODEL_LABELS: Record<AeroModel, string> = {
+  [AeroModel.BEMT]: 'BEMT',
+  [AeroModel.PCA2]: 'PCA-2'
+};
+
+const BladeAerodynamicsView: React.FC<{ params: DesignParams; results: SimulationResult }> = ({ params, results }) => {
   const { bladeAerodynamics } = results;
+  const airfoil = getAirfoil(params.airfoilId);
+  // Stall limits come from the selected polar at the current Reynolds number
+  const isStalled = bladeAerodynamics.retreatingAoA > bladeAerodynamics.stallAngle;
+  const stallRisk = bladeAerodynamics.retreatingAoA > bladeAerodynamics.stallAngle - 1;
   
   // Create dataset for the velocity comparison chart
   const velocityData = [
@@ -38,7 +76,7 @@ const BladeAerodynamicsView: React.FC<{ results: SimulationResult }> = ({ result
           <div className="bg-slate-900/50 rounded-lg p-4 border border-slate-700 flex flex-col items-center justify-center relative min-h-[100px]">
              <div className="w-full h-16 relative">
                 <svg width="100%" height="100%" viewBox="0 0 100 30" preserveAspectRatio="xMidYMid meet">
-                  {/* NACA 0012 Approximation - Symmetrical */}
+                  {/* Generic section outline */}
                   <path 
                     d="M 5 15 Q 35 5, 95 15 Q 35 25, 5 15" 
                     fill="none" 
@@ -46,7 +84,7 @@ const BladeAerodynamicsView: React.FC<{ results: SimulationResult }> = ({ result
                     strokeWidth="1.5"
                   />
                   <line x1="0" y1="15" x2="100" y2="15" stroke="#475569" strokeDasharray="2 2" />
-                  <text x="50" y="28" fill="#64748b" fontSize="4" textAnchor="middle">NACA 0012 Symmetrical Profile</text>
+                  <text x="50" y="28" fill="#64748b" fontSize="4" textAnchor="middle">{airfoil.name} · Stall {bladeAerodynamics.stallAngle}°</text>
                 </svg>
              </div>
           </div>
@@ -58,6 +96,13 @@ const BladeAerodynamicsView: React.FC<{ results: SimulationResult }> = ({ result
                 
                 <span className="text-slate-400">Inflow Velocity (Up)</span>
                 <span className="text-right font-mono text-indigo-300">+{bladeAerodynamics.inflowVelocity} m/s</span>
+
+                {results.aeroModel === AeroModel.BEMT && (
+                  <>
+                    <span className="text-slate-400">Induced Velocity (Down)</span>
+                    <span className="text-right font-mono text-indigo-300">{bladeAerodynamics.inducedVelocity} m/s</span>
+                  </>
+                )}
                 
                 <div className="col-span-2 h-px bg-slate-700/50 my-1"></div>
 
@@ -105,7 +150,7 @@ const BladeAerodynamicsView: React.FC<{ results: SimulationResult }> = ({ result
                  </div>
                  <div className="text-right">
                     <div className="text-sm font-mono text-white">{bladeAerodynamics.retreatingVelocity} m/s</div>
-                     <div className={`text-xs ${bladeAerodynamics.retreatingAoA > 14 ? 'text-rose-500 font-bold animate-pulse' : 'text-slate-400'}`}>
+                     <div className={`text-xs ${isStalled ? 'text-rose-500 font-bold animate-pulse' : 'text-slate-400'}`}>
                         AoA: {bladeAerodynamics.retreatingAoA}°
                      </div>
                  </div>
@@ -120,17 +165,48 @@ const BladeAerodynamicsView: React.FC<{ results: SimulationResult }> = ({ result
               </div>
            </div>
 
+           {/* Hub response to the asymmetry */}
+           <div className="grid grid-cols-2 gap-x-2 gap-y-0.5 text-xs border-t border-slate-700 pt-2">
+              <span className="text-slate-400">{HUB_TYPES[results.teeter.hubType].motion} Amplitude</span>
+              <span className={`font-mono text-right ${results.teeter.stopContact ? 'text-rose-400 font-bold' : 'text-white'}`}>±{results.teeter.amplitude}°</span>
+              <span className="text-slate-400">Phase Lag</span>
+              <span className="font-mono text-right text-slate-300">{results.teeter.phaseLag}°</span>
+              <span className="text-slate-400">Natural Freq.</span>
+              <span className="font-mono text-right text-slate-300">{results.teeter.naturalFrequency} /rev</span>
+              <span className="text-slate-400">Lock Number</span>
+              <span className="font-mono text-right text-slate-300">{results.teeter.lockNumber}</span>
+              <span className="text-slate-400">1P Hub Moment</span>
+              <span className="font-mono text-right text-slate-300">{results.teeter.hubMoment} N·m</span>
+              <span className="text-slate-400">1P Blade Moment</span>
+              <span className="font-mono text-right text-slate-300">{results.teeter.bladeMoment} N·m</span>
+           </div>
+
            {/* Warnings */}
            <div className="mt-auto text-xs border-t border-slate-700 pt-2">
               <p className="text-[10px] text-slate-500 mb-2 italic leading-tight">
                  AoA = Pitch + arctan(Inflow / V_tan). <br/>
                  Lower V_tan on retreating side results in steeper AoA.
               </p>
+              {!results.converged && (
+                 <div className="text-amber-400 flex items-center gap-1 mb-1">
+                    <AlertTriangle className="w-3 h-3" /> BEMT inflow not fully converged
+                 </div>
+              )}
+              {!results.kite.converged && (
+                 <div className="text-amber-400 flex items-center gap-1 mb-1">
+                    <AlertTriangle className="w-3 h-3" /> Kite and rotor line loads not fully settled
+                 </div>
+              )}
+              {results.teeter.stopContact && (
+                 <div className="text-rose-400 flex items-center gap-1 mb-1">
+                    <AlertTriangle className="w-3 h-3" /> {HUB_TYPES[results.teeter.hubType].motion} Hitting Hub Stops
+                 </div>
+              )}
               {bladeAerodynamics.retreatingVelocity <= 0 ? (
                  <div className="text-rose-400 flex items-center gap-1">
                     <AlertTriangle className="w-3 h-3" /> Reverse Flow Region Detected
                  </div>
-              ) : bladeAerodynamics.retreatingAoA > 15 ? (
+              ) : stallRisk ? (
                  <div className="text-amber-400 flex items-center gap-1">
                     <AlertTriangle className="w-3 h-3" /> Retreating Blade Stall Risk
                  </div>
@@ -147,6 +223,180 @@ const BladeAerodynamicsView: React.FC<{ results: SimulationResult }> = ({ result
 };
 
 
+const BearingView: React.FC<{ modelSettings: ModelSettings; results: SimulationResult }> = ({ modelSettings, results }) => {
+  const { bearing } = results;
+  const settings = modelSettings.bearing;
+  const isBall = settings.type === BearingType.BALL;
+  const lowLife = bearing.l10Hours !== null && bearing.l10Hours < 1000;
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+      <h3 className="text-slate-300 font-semibold text-sm mb-3 flex items-center gap-2">
+        <CircleDot className="w-4 h-4 text-indigo-400" />
+        Line Bearing · {BEARING_TYPES[settings.type].name}
+      </h3>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-x-6 gap-y-1 text-xs">
+        <span className="text-slate-400">Radial Load</span>
+        <span className="font-mono text-right text-white">{bearing.radialLoad} N</span>
+        <span className="text-slate-400">Axial Load</span>
+        <span className="font-mono text-right text-white">{bearing.axialLoad} N</span>
+        <span className="text-slate-400">Friction Torque</span>
+        <span className="font-mono text-right text-white">{bearing.frictionTorque} N·m</span>
+        <span className="text-slate-400">Heat Generated</span>
+        <span className="font-mono text-right text-amber-300">{bearing.heat} W</span>
+        {isBall ? (
+          <>
+            <span className="text-slate-400">L10 Life</span>
+            <span className={`font-mono text-right ${lowLife ? 'text-rose-400 font-bold' : 'text-white'}`}>
+              {bearing.l10Hours !== null ? `${bearing.l10Hours.toLocaleString()} h` : '—'}
+            </span>
+          </>
+        ) : (
+          <>
+            <span className="text-slate-400">PV / Limit</span>
+            <span className={`font-mono text-right ${bearing.pvExceeded ? 'text-rose-400 font-bold' : 'text-white'}`}>
+              {bearing.pv} / {settings.pvLimit} MPa·m/s
+            </span>
+          </>
+        )}
+        <span className="text-slate-400" title="Once spinning; see the time history for self-start from rest">Min Wind to Keep Spinning</span>
+        <span className="font-mono text-right text-white">
+          {bearing.minWindToSpin !== null ? `${bearing.minWindToSpin} m/s` : 'never'}
+        </span>
+      </div>
+      {(bearing.pvExceeded || lowLife || bearing.minWindToSpin === null) && (
+        <div className="text-rose-400 flex items-center gap-1 text-xs mt-2">
+          <AlertTriangle className="w-3 h-3" />
+          {bearing.minWindToSpin === null
+            ? 'Bearing friction exceeds rotor torque at any wind speed'
+            : bearing.pvExceeded ? 'PV limit exceeded: expect overheating and rapid wear' : 'L10 life under 1,000 h'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const STATUS_STYLES: Record<StructuralStatus, { label: string; text: string; fill: string }> = {
+  [StructuralStatus.OK]: { label: 'OK', text: 'text-emerald-400', fill: 'bg-emerald-500' },
+  [StructuralStatus.MARGINAL]: { label: 'Marginal', text: 'text-amber-400', fill: 'bg-amber-500' },
+  [StructuralStatus.OVERSTRESSED]: { label: 'Overstressed', text: 'text-rose-400', fill: 'bg-rose-500' }
+};
+
+const StructureView: React.FC<{ modelSettings: ModelSettings; results: SimulationResult }> = ({ modelSettings, results }) => {
+  const { structure } = results;
+  const status = STATUS_STYLES[structure.status];
+  const sfClass = (sf: number) => sf < 1 ? 'text-rose-400 font-bold' : sf < MARGINAL_SAFETY_FACTOR ? 'text-amber-400' : 'text-emerald-400';
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+      <h3 className="text-slate-300 font-semibold text-sm mb-3 flex items-center gap-2">
+        <Bone className="w-4 h-4 text-indigo-400" />
+        Blade Structure · {BLADE_MATERIALS[modelSettings.structure.material].name}
+        <span className={`ml-auto flex items-center gap-1.5 text-xs font-bold ${status.text}`}>
+          <span className={`w-2.5 h-2.5 rounded-full ${status.fill}`} />
+          {status.label}
+        </span>
+      </h3>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-x-6 gap-y-1 text-xs">
+        <span className="text-slate-400">Centrifugal Tension</span>
+        <span className="font-mono text-right text-white">{structure.centrifugalForce} N</span>
+        <span className="text-slate-400">Centrifugal Stress</span>
+        <span className="font-mono text-right text-white">{structure.centrifugalStress} MPa</span>
+        <span className="text-slate-400">Flap Root Moment</span>
+        <span className="font-mono text-right text-white">{structure.flapMoment} N·m</span>
+        <span className="text-slate-400">Lead-Lag Root Moment</span>
+        <span className="font-mono text-right text-white">{structure.leadLagMoment} N·m</span>
+        <span className="text-slate-400">Alternating Moment</span>
+        <span className="font-mono text-right text-white">±{structure.alternatingMoment} N·m</span>
+        <span className="text-slate-400">Tip Deflection</span>
+        <span className="font-mono text-right text-white">{structure.tipDeflection} mm</span>
+        <span className="text-slate-400">Peak Stress</span>
+        <span className="font-mono text-right text-amber-300">{structure.maxStress} MPa</span>
+        <span className="text-slate-400">SF Yield / Fatigue</span>
+        <span className="font-mono text-right">
+          <span className={sfClass(structure.yieldSafetyFactor)}>{structure.yieldSafetyFactor}</span>
+          <span className="text-slate-500"> / </span>
+          <span className={sfClass(structure.fatigueSafetyFactor)}>{structure.fatigueSafetyFactor}</span>
+        </span>
+      </div>
+      <div className="mt-3">
+        <div className="flex justify-between text-[10px] text-slate-500 mb-1">
+          <span>Root</span>
+          <span>Safety factor along span</span>
+          <span>Tip</span>
+        </div>
+        <div className="flex gap-0.5">
+          {structure.stations.map(station => (
+            <div
+              key={station.r}
+              title={`r = ${station.r} m · ${station.stress} MPa · SF ${station.safetyFactor}`}
+              className={`flex-1 h-3 rounded-sm ${STATUS_STYLES[station.status].fill}`}
+            />
+          ))}
+        </div>
+      </div>
+      {structure.status === StructuralStatus.OVERSTRESSED && (
+        <div className="text-rose-400 flex items-center gap-1 text-xs mt-2">
+          <AlertTriangle className="w-3 h-3" />
+          {structure.yieldSafetyFactor < 1 ? 'Spar overstressed: blade will fail under steady load' : 'Fatigue life below 10⁷ cycles: spar will crack in service'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const StabilityView: React.FC<{ results: SimulationResult }> = ({ results }) => {
+  const { stability } = results;
+  const unstable = stability.modes.filter(mode => !mode.stable);
+  const describe = (mode: StabilityMode) => mode.timeToDouble === null
+    ? 'neutral'
+    : `${mode.stable ? 'halves' : 'doubles'} in ${mode.timeToDouble} s`;
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+      <h3 className="text-slate-300 font-semibold text-sm mb-3 flex items-center gap-2">
+        <Activity className="w-4 h-4 text-indigo-400" />
+        Stability Modes
+        {stability.spinning ? (
+          <span className={`ml-auto text-xs font-bold ${stability.stable ? 'text-emerald-400' : 'text-rose-400'}`}>
+            {stability.stable ? `Stable · min ζ ${stability.minDampingRatio}` : `${unstable.length} unstable`}
+          </span>
+        ) : (
+          <span className="ml-auto text-xs font-bold text-slate-400">Not spinning</span>
+        )}
+      </h3>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-500 text-left">
+            <th className="font-medium pb-1">Mode</th>
+            <th className="font-medium pb-1 text-right">Eigenvalue</th>
+            <th className="font-medium pb-1 text-right">Damping ζ</th>
+            <th className="font-medium pb-1 text-right">Period</th>
+            <th className="font-medium pb-1 text-right">Amplitude</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {stability.modes.map((mode, i) => (
+            <tr key={i} className={mode.stable ? 'text-slate-300' : 'text-rose-400 font-bold'}>
+              <td className="font-sans py-0.5">{STABILITY_MODE_INFO[mode.kind].name}</td>
+              <td className="text-right">{mode.real}{mode.imag > 0 ? ` ± ${mode.imag}i` : ''}</td>
+              <td className="text-right">{mode.dampingRatio}</td>
+              <td className="text-right">{mode.period !== null ? `${mode.period} s` : '—'}</td>
+              <td className="text-right">{describe(mode)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {unstable.map((mode, i) => (
+        <div key={i} className="text-rose-400 flex items-start gap-1 text-xs mt-2">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          <span><span className="font-bold">{STABILITY_MODE_INFO[mode.kind].name}:</span> {STABILITY_MODE_INFO[mode.kind].explanation}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 const SystemDeformation: React.FC<{ params: DesignParams; results: SimulationResult }> = ({ params, results }) => {
   const { anchorAnalysis } = results;
   
@@ -155,27 +405,53 @@ const SystemDeformation: React.FC<{ params: DesignParams; results: SimulationRes
   const height = 300;
   const padding = 40;
   
-  // Normalize Coordinates
-  // We want to draw: Anchor(0,0) -> Hub(x1, y1) -> Kite(x2, y2)
-  // X is Downwind distance, Y is Altitude.
-  
-  // Scale factor to fit in view
-  // Let's assume the lower line segment is length 100px for visualization
-  const seg1Len = 100;
-  const angle1Rad = anchorAnalysis.anchorAngle * (Math.PI / 180);
-  const hubX = padding + seg1Len * Math.cos(angle1Rad);
-  const hubY = height - padding - seg1Len * Math.sin(angle1Rad); // Invert Y for SVG
-  
-  // Segment 2 (to Kite)
-  // Assume same length 100px for visual clarity
-  const seg2Len = 100;
-  const angle2Rad = params.lineAngle * (Math.PI / 180);
-  const kiteX = hubX + seg2Len * Math.cos(angle2Rad);
-  const kiteY = hubY - seg2Len * Math.sin(angle2Rad); // Invert Y
-  
+  // Solved line shape, metres -> px. X is Downwind distance, Y is Altitude.
+  // One uniform scale keeps the sag in proportion.
+  const { tether } = results;
+  const allPoints = [...tether.lower.points, ...tether.upper.points];
+  const maxX = Math.max(1, ...allPoints.map(p => p.x));
+  const maxY = Math.max(1, ...allPoints.map(p => p.y));
+  const minX = Math.min(0, ...allPoints.map(p => p.x));
+  const minY = Math.min(0, ...allPoints.map(p => p.y)); // below 0 the system is on the ground
+  const scale = Math.min((width - 2 * padding) / (maxX - minX), (height - 2 * padding) / (maxY - minY));
+  const toSvg = (p: { x: number; y: number }) => ({
+    x: padding + (p.x - minX) * scale,
+    y: height - padding - (p.y - minY) * scale // Invert Y for SVG
+  });
+
+  const hub = toSvg(tether.lower.points[tether.lower.points.length - 1]);
+  const kite = toSvg(tether.upper.points[tether.upper.points.length - 1]);
+  const hubX = hub.x;
+  const hubY = hub.y;
+  const kiteX = kite.x;
+  const kiteY = kite.y;
+
   // Anchor Pos
-  const anchorX = padding;
-  const anchorY = height - padding;
+  const anchor = toSvg({ x: 0, y: 0 });
+  const anchorX = anchor.x;
+  const anchorY = anchor.y;
+
+  // Line colour runs amber -> red with local tension
+  const tensions = allPoints.map(p => p.tension);
+  const minTension = Math.min(...tensions);
+  const maxTension = Math.max(...tensions);
+  const tensionColor = (t: number) => {
+    const f = maxTension > minTension ? (t - minTension) / (maxTension - minTension) : 0;
+    return `rgb(${Math.round(251 - 12 * f)}, ${Math.round(191 - 123 * f)}, ${Math.round(36 + 32 * f)})`;
+  };
+  const lineSegments = (points: typeof allPoints, dashed: boolean) => points.slice(1).map((p, i) => {
+    const a = toSvg(points[i]);
+    const b = toSvg(p);
+    return (
+      <line
+        key={i}
+        x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+        stroke={tensionColor((points[i].tension + p.tension) / 2)}
+        strokeWidth="2"
+        strokeDasharray={dashed ? '4 2' : undefined}
+      />
+    );
+  });
 
   // Analysis Calculations
   const totalVerticalForce = anchorAnalysis.lowerLineTensionY;
@@ -192,18 +468,18 @@ const SystemDeformation: React.FC<{ params: DesignParams; results: SimulationRes
         <svg width="100%" height="100%" viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet">
             
             {/* Ground Line */}
-            <line x1="0" y1={height - padding} x2={width} y2={height - padding} stroke="#475569" strokeWidth="2" />
+            <line x1="0" y1={anchorY} x2={width} y2={anchorY} stroke="#475569" strokeWidth="2" />
             <text x={width - padding} y={height - 10} fill="#64748b" fontSize="10" textAnchor="end">Downwind Distance</text>
             
             {/* Anchor Point */}
             <circle cx={anchorX} cy={anchorY} r="4" fill="#fbbf24" />
             <text x={anchorX} y={anchorY + 20} fill="#fbbf24" fontSize="12" textAnchor="middle">Anchor</text>
             
-            {/* Lower Line */}
-            <line x1={anchorX} y1={anchorY} x2={hubX} y2={hubY} stroke="#fbbf24" strokeWidth="2" />
+            {/* Lower Line (solved catenary) */}
+            <g>{lineSegments(tether.lower.points, false)}</g>
             
-            {/* Upper Line */}
-            <line x1={hubX} y1={hubY} x2={kiteX} y2={kiteY} stroke="#fbbf24" strokeWidth="2" strokeDasharray="4 2" />
+            {/* Upper Line (solved catenary) */}
+            <g>{lineSegments(tether.upper.points, true)}</g>
             <text x={kiteX} y={kiteY - 10} fill="#fbbf24" fontSize="12" textAnchor="middle">To Kite</text>
 
             {/* Hub Point */}
@@ -272,7 +548,27 @@ const SystemDeformation: React.FC<{ params: DesignParams; results: SimulationRes
               <div className="col-span-2 h-px bg-slate-700 my-1"></div>
 
                <span className="text-slate-500">Kite Angle:</span>
-               <span className="text-slate-500 font-mono">{params.lineAngle}°</span>
+               <span className="text-slate-500 font-mono">{results.kite.lineAngle}°</span>
+
+               <span className="text-slate-500">Kite Pull:</span>
+               <span className="text-slate-500 font-mono">{results.kite.lineTension} N</span>
+
+              <div className="col-span-2 h-px bg-slate-700 my-1"></div>
+
+              <span className="text-slate-400">Hub Height:</span>
+              <span className="text-white font-mono">{tether.hubHeight} m</span>
+
+              <span className="text-slate-400">Lower Line Stretch:</span>
+              <span className="text-white font-mono">{tether.lower.stretch} m</span>
+
+              <span className="text-slate-400">Loaded Length:</span>
+              <span className="text-white font-mono">{(tether.lower.stretchedLength + tether.upper.stretchedLength).toFixed(1)} m</span>
+
+              <span className="text-slate-400">Max Sag:</span>
+              <span className="text-white font-mono">{Math.max(tether.lower.sag, tether.upper.sag).toFixed(2)} m</span>
+
+              <span className="text-slate-400">Line Tension:</span>
+              <span className="text-amber-400 font-mono">{minTension.toFixed(0)}–{maxTension.toFixed(0)} N</span>
             </div>
         </div>
 
@@ -281,21 +577,94 @@ const SystemDeformation: React.FC<{ params: DesignParams; results: SimulationRes
   );
 };
 
-export const Analysis: React.FC<AnalysisProps> = ({ currentResults, params }) => {
+export const Analysis: React.FC<AnalysisProps> = ({
+  currentResults,
+  params,
+  modelSettings,
+  onPlayback,
+  comparison,
+  comparisonResults,
+  onPinCurrent,
+  onRemoveComparison,
+  train,
+  testLog,
+  onTestLogChange,
+  onCalibrationChange
+}) => {
   
-  // Generate data for Wind Speed vs Thrust curve
-  const performanceData = React.useMemo(() => {
-    const data = [];
-    for (let w = 2; w <= 25; w += 2) {
-      const res = calculatePhysics({ ...params, windSpeed: w });
-      data.push({
-        wind: w,
-        thrust: res.generatedThrust,
-        rpm: res.rpm
-      });
-    }
-    return data;
-  }, [params]);
+  // The other aerodynamic model is swept alongside for side-by-side comparison,
+  // unless other designs are being compared
+  const compareModel = modelSettings.aeroModel === AeroModel.BEMT ? AeroModel.PCA2 : AeroModel.BEMT;
+  const showModelComparison = comparison.length === 0;
+
+  // Power curve shared by the drivetrain, yield and performance views
+  const powerCurve = React.useMemo(() => buildPerformanceCurve(params, modelSettings), [params, modelSettings]);
+
+  // Wind Speed vs Thrust and RPM, with the natural frequencies for the Campbell diagram
+  const chartCurve = React.useMemo(
+    () => powerCurve.filter(p => p.windSpeed >= CHART_MIN_WIND && p.windSpeed <= CHART_MAX_WIND),
+    [powerCurve]
+  );
+  const campbellPoints = React.useMemo<CampbellPoint[]>(
+    () => chartCurve.map(p => ({ windSpeed: p.windSpeed, rpm: p.rpm, modes: p.modes })),
+    [chartCurve]
+  );
+
+  // The other model and compared designs are swept after the page has drawn,
+  // a wind at a time, and the sweep is dropped if the inputs change meanwhile
+  const [overlays, setOverlays] = React.useState<Record<string, number>[]>([]);
+  React.useEffect(() => {
+    let stale = false;
+    setOverlays([]);
+    if (!showModelComparison && comparison.length === 0) return;
+    const sweep = async () => {
+      const points: Record<string, number>[] = [];
+      for (const { windSpeed: w } of chartCurve) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (stale) return;
+        const point: Record<string, number> = { wind: w };
+        if (showModelComparison) {
+          const alt = calculatePhysics({ ...params, windSpeed: w }, { ...modelSettings, aeroModel: compareModel });
+          point.compareThrust = alt.generatedThrust;
+          point.compareRpm = alt.rpm;
+        }
+        comparison.forEach(d => {
+          const other = calculatePhysics({ ...d.params, windSpeed: w }, d.modelSettings);
+          point[`thrust_${d.id}`] = other.generatedThrust;
+          point[`rpm_${d.id}`] = other.rpm;
+        });
+        points.push(point);
+      }
+      setOverlays(points);
+    };
+    sweep();
+    return () => { stale = true; };
+  }, [chartCurve, params, modelSettings, compareModel, comparison, showModelComparison]);
+
+  const performanceData = React.useMemo(
+    () => chartCurve.map(p => ({
+      ...overlays.find(o => o.wind === p.windSpeed),
+      wind: p.windSpeed,
+      thrust: p.thrust,
+      lineTension: p.lineTension,
+      rpm: p.rpm
+    })),
+    [chartCurve, overlays]
+  );
+
+  const bladeCount = bladeCountOf(params);
+  const orders = React.useMemo(() => excitationOrders(bladeCount), [bladeCount]);
+  const resonances = React.useMemo(() => findResonances(campbellPoints, orders), [campbellPoints, orders]);
+
+  // Measured points from the test log, overlaid on the model curves. The log's
+  // tension is in the line below the rotor, so it goes against the model's.
+  const measuredData = React.useMemo(
+    () => (testLog?.points ?? []).map(p => ({ wind: p.windSpeed, measuredTension: p.lineTension, measuredRpm: p.rpm })),
+    [testLog]
+  );
+  const modelName = modelSettings.calibration.enabled
+    ? `${MODEL_LABELS[modelSettings.aeroModel]} (${modelSettings.calibration.name})`
+    : MODEL_LABELS[modelSettings.aeroModel];
 
   return (
     <div className="h-full flex flex-col gap-4 overflow-y-auto pr-2 pb-20">
@@ -338,48 +707,124 @@ export const Analysis: React.FC<AnalysisProps> = ({ currentResults, params }) =>
             <SystemDeformation params={params} results={currentResults} />
           </div>
           <div className="lg:col-span-1 min-h-[300px] h-full">
-            <BladeAerodynamicsView results={currentResults} />
+            <BladeAerodynamicsView params={params} results={currentResults} />
           </div>
        </div>
 
+      {/* Blade conditions over the whole disk */}
+      <DiskMapView params={params} results={currentResults} />
+
+      <StabilityView results={currentResults} />
+
+      <BearingView modelSettings={modelSettings} results={currentResults} />
+
+      <StructureView modelSettings={modelSettings} results={currentResults} />
+
+      {/* Design Comparison */}
+      <ComparisonView 
+        currentResults={currentResults} 
+        designs={comparison} 
+        designResults={comparisonResults} 
+        onPinCurrent={onPinCurrent} 
+        onRemove={onRemoveComparison} 
+      />
+
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 flex-1 min-h-[300px]">
         <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col">
           <h3 className="text-slate-300 font-semibold mb-4 text-sm">Thrust vs Wind Speed</h3>
           <div className="flex-1 w-full min-h-[200px]">
             <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={performanceData}>
+              <ComposedChart data={performanceData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-                <XAxis dataKey="wind" stroke="#94a3b8" label={{ value: 'Wind (m/s)', position: 'insideBottom', offset: -5 }} />
+                <XAxis dataKey="wind" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" label={{ value: 'Wind (m/s)', position: 'insideBottom', offset: -5 }} />
                 <YAxis stroke="#94a3b8" label={{ value: 'Thrust (N)', angle: -90, position: 'insideLeft' }} />
                 <Tooltip 
                   contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
                   itemStyle={{ color: '#10b981' }}
                 />
-                <Line type="monotone" dataKey="thrust" stroke="#10b981" strokeWidth={2} dot={false} />
-              </LineChart>
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Line type="monotone" dataKey="thrust" name={modelName} stroke="#10b981" strokeWidth={2} dot={false} />
+                {showModelComparison && (
+                  <Line type="monotone" dataKey="compareThrust" name={MODEL_LABELS[compareModel]} stroke="#64748b" strokeWidth={1.5} strokeDasharray="5 3" dot={false} />
+                )}
+                {comparison.map(d => (
+                  <Line key={d.id} type="monotone" dataKey={`thrust_${d.id}`} name={d.name} stroke={d.color} strokeWidth={1.5} strokeDasharray="5 3" dot={false} />
+                ))}
+                {testLog && (
+                  <Line type="monotone" dataKey="lineTension" name={`${modelName} line tension`} stroke="#f59e0b" strokeWidth={1.5} dot={false} />
+                )}
+                {testLog && (
+                  <Scatter data={measuredData} dataKey="measuredTension" name="Measured line tension" fill="#f59e0b" isAnimationActive={false} />
+                )}
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
         </div>
 
         <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col">
-          <h3 className="text-slate-300 font-semibold mb-4 text-sm">RPM vs Wind Speed</h3>
+          <h3 className="text-slate-300 font-semibold mb-4 text-sm flex items-center justify-between">
+            RPM vs Wind Speed
+            {resonances.length > 0 && (
+              <span className="text-rose-400 text-xs flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3" /> {resonances.length} resonance crossing{resonances.length > 1 ? 's' : ''}
+              </span>
+            )}
+          </h3>
           <div className="flex-1 w-full min-h-[200px]">
              <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={performanceData}>
+              <ComposedChart data={performanceData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-                <XAxis dataKey="wind" stroke="#94a3b8" label={{ value: 'Wind (m/s)', position: 'insideBottom', offset: -5 }} />
+                <XAxis dataKey="wind" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" label={{ value: 'Wind (m/s)', position: 'insideBottom', offset: -5 }} />
                 <YAxis stroke="#94a3b8" label={{ value: 'RPM', angle: -90, position: 'insideLeft' }} />
                 <Tooltip 
                   contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
                   itemStyle={{ color: '#3b82f6' }}
                 />
-                <Line type="monotone" dataKey="rpm" stroke="#3b82f6" strokeWidth={2} dot={false} />
-              </LineChart>
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Line type="monotone" dataKey="rpm" name={modelName} stroke="#3b82f6" strokeWidth={2} dot={false} />
+                {showModelComparison && (
+                  <Line type="monotone" dataKey="compareRpm" name={MODEL_LABELS[compareModel]} stroke="#64748b" strokeWidth={1.5} strokeDasharray="5 3" dot={false} />
+                )}
+                {comparison.map(d => (
+                  <Line key={d.id} type="monotone" dataKey={`rpm_${d.id}`} name={d.name} stroke={d.color} strokeWidth={1.5} strokeDasharray="5 3" dot={false} />
+                ))}
+                {testLog && (
+                  <Scatter data={measuredData} dataKey="measuredRpm" name="Measured" fill="#f59e0b" isAnimationActive={false} />
+                )}
+                {/* Resonance crossings from the Campbell diagram */}
+                {resonances.map((c, i) => (
+                  <ReferenceDot key={i} x={c.windSpeed} y={c.rpm} r={5} fill="#ef4444" stroke="white" />
+                ))}
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
         </div>
       </div>
+
+      {/* Rotors stacked on the line */}
+      {train && <LineTrainView train={train} modelSettings={modelSettings} />}
+
+      {/* Rotor and line dynamics */}
+      <CampbellView points={campbellPoints} crossings={resonances} orders={orders} />
+
+      {/* Ground-station power */}
+      <DrivetrainView params={params} modelSettings={modelSettings} results={currentResults} curve={powerCurve} />
+
+      {/* Annual energy at a site */}
+      <YieldView curve={powerCurve} />
+
+      {/* Test data and model calibration */}
+      <CalibrationView 
+        params={params} 
+        modelSettings={modelSettings} 
+        testLog={testLog} 
+        onTestLogChange={onTestLogChange} 
+        onCalibrationChange={onCalibrationChange} 
+      />
+
+      {/* Time-domain Simulation */}
+      <TimeSimulationView params={params} modelSettings={modelSettings} onPlayback={onPlayback} />
     </div>
   );
 };
@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { AeroModel, CalibrationFactors, CalibrationResult, CalibrationSettings, DesignParams, ModelSettings, TestLog } from '../types';
+import { AlertTriangle, Check, Crosshair, Play, Upload, X } from 'lucide-react';
+import clsx from 'clsx';
+import { CALIBRATION_FACTORS, parseTestLog } from '../services/calibrationModel';
+import { runCalibration } from '../services/calibrationSolver';
+
+interface CalibrationViewProps {
+  params: DesignParams;
+  modelSettings: ModelSettings;
+  testLog: TestLog | null;
+  onTestLogChange: (log: TestLog | null) => void;
+  onCalibrationChange: (calibration: CalibrationSettings) => void;
+}
+
+const MODEL_NAMES: Record<AeroModel, string> = {
+  [AeroModel.BEMT]: 'BEMT',
+  [AeroModel.PCA2]: 'PCA-2'
+};
+
+export const CalibrationView: React.FC<CalibrationViewProps> = ({ params, modelSettings, testLog, onTestLogChange, onCalibrationChange }) => {
+  const { calibration } = modelSettings;
+  const [fitted, setFitted] = useState<(keyof CalibrationFactors)[]>(['tipSpeedScale', 'liftScale', 'dragScale', 'efficiencyScale']);
+  const [name, setName] = useState(calibration.name);
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const running = progress !== null;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const log = parseTestLog(await file.text(), file.name, { lineAngle: params.lineAngle, rotorTilt: params.rotorTilt });
+      setError(null);
+      setResult(null);
+      onTestLogChange(log);
+    } catch (err: any) {
+      setError(err.message || 'Could not read the test log.');
+    }
+  };
+
+  const handleRun = async () => {
+    if (!testLog) return;
+    setError(null);
+    setProgress(0);
+    try {
+      setResult(await runCalibration(params, modelSettings, testLog, fitted, setProgress));
+    } catch (err: any) {
+      setError(err.message || 'Calibration failed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const toggleFactor = (key: keyof CalibrationFactors) => {
+    setFitted(fitted.includes(key) ? fitted.filter(k => k !== key) : [...fitted, key]);
+  };
+
+  const applyResult = () => {
+    if (!result) return;
+    onCalibrationChange({ enabled: true, name: name.trim() || calibration.name, factors: result.factors, fit: result.after.summary });
+  };
+
+  const hasPower = testLog?.points.some(p => p.power !== null) ?? false;
+  const fit = calibration.fit;
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-slate-300 font-semibold text-sm flex items-center gap-2">
+          <Crosshair className="w-4 h-4 text-indigo-400" />
+          Test Data & Calibration
+        </h3>
+        <button
+          onClick={handleRun}
+          disabled={running || !testLog}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-md text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Play className="w-3 h-3" /> {running ? `Fitting ${Math.round((progress ?? 0) * 100)}%` : 'Run Calibration'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 text-xs">
+        {/* Log, factors and the model in use */}
+        <div className="flex flex-col gap-3">
+          <div className="flex gap-2">
+            <label className="flex-1 flex items-center justify-center gap-2 px-2 py-1.5 rounded-md text-xs font-medium bg-slate-700 text-slate-300 border border-slate-600 hover:bg-slate-600 cursor-pointer transition-colors">
+              <Upload className="w-3 h-3" /> Import Test Log
+              <input type="file" accept=".csv,.txt,.json" className="hidden" onChange={handleImport} />
+            </label>
+            {testLog && (
+              <button
+                onClick={() => { onTestLogChange(null); setResult(null); }}
+                className="px-2 py-1.5 rounded-md bg-slate-700 text-slate-300 border border-slate-600 hover:bg-slate-600 transition-colors"
+                title="Clear test log"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+          {testLog ? (
+            <p className="text-slate-400">
+              <span className="text-white">{testLog.name}</span>: {testLog.points.length} points{hasPower ? ', with power' : ''}.
+            </p>
+          ) : (
+            <p className="text-slate-500 italic">
+              CSV or JSON with wind, rpm and tension columns; angle, tilt and power are optional.
+            </p>
+          )}
+          {error && (
+            <p className="text-rose-400 flex items-center gap-1"><AlertTriangle className="w-3 h-3 flex-none" /> {error}</p>
+          )}
+
+          <div className="text-slate-400 uppercase font-semibold tracking-wider">Fit Factors</div>
+          {(Object.keys(CALIBRATION_FACTORS) as (keyof CalibrationFactors)[]).map(key => (
+            <label key={key} className="flex items-center gap-2 text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={fitted.includes(key)}
+                onChange={() => toggleFactor(key)}
+                className="accent-indigo-500"
+              />
+              {CALIBRATION_FACTORS[key].label}
+              {key === 'efficiencyScale' && testLog && !hasPower && <span className="text-slate-500">(needs power)</span>}
+            </label>
+          ))}
+
+          <div className="bg-slate-900/50 p-3 rounded border border-slate-700 flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <span className="text-slate-300 font-medium">{calibration.name}</span>
+              <button
+                onClick={() => onCalibrationChange({ ...calibration, enabled: !calibration.enabled })}
+                disabled={!fit}
+                className={clsx(
+                  "px-2 py-1 rounded-md text-xs font-medium transition-colors border disabled:opacity-50 disabled:cursor-not-allowed",
+                  calibration.enabled
+                    ? "bg-indigo-600 text-white border-indigo-500"
+                    : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+                )}
+              >
+                {calibration.enabled ? 'In Use' : 'Off'}
+              </button>
+            </div>
+            {fit ? (
+              <>
+                <div className="grid grid-cols-[1fr_auto] gap-y-0.5">
+                  {(Object.keys(CALIBRATION_FACTORS) as (keyof CalibrationFactors)[]).map(key => (
+                    <React.Fragment key={key}>
+                      <span className="text-slate-400">{CALIBRATION_FACTORS[key].label}</span>
+                      <span className="font-mono text-right text-white">×{calibration.factors[key].toFixed(3)}</span>
+                    </React.Fragment>
+                  ))}
+                </div>
+                <p className="text-slate-500">
+                  Fitted to {fit.logName} ({fit.pointCount} points, {MODEL_NAMES[fit.aeroModel]}).
+                </p>
+                {fit.aeroModel !== modelSettings.aeroModel && (
+                  <p className="text-amber-400 flex items-center gap-1">
+                    <AlertTriangle className="w-3 h-3 flex-none" /> Fitted with a different aerodynamic model.
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-slate-500 italic">No calibrated model yet; the engine runs uncalibrated.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Fit outcome */}
+        <div className="flex flex-col gap-3">
+          {result ? (
+            <>
+              <div className="bg-slate-900/50 p-3 rounded border border-slate-700 grid grid-cols-[1fr_auto_auto] gap-x-3 gap-y-1">
+                <span className="text-slate-500">RMS Error</span>
+                <span className="text-slate-500 text-right">Before</span>
+                <span className="text-slate-500 text-right">After</span>
+
+                <span className="text-slate-400">RPM</span>
+                <span className="font-mono text-right text-slate-300">{result.before.summary.rpmRms}</span>
+                <span className="font-mono text-right text-emerald-400">{result.after.summary.rpmRms}</span>
+
+                <span className="text-slate-400">Tension (N)</span>
+                <span className="font-mono text-right text-slate-300">{result.before.summary.tensionRms}</span>
+                <span className="font-mono text-right text-emerald-400">{result.after.summary.tensionRms}</span>
+
+                {result.after.summary.powerRms !== null && (
+                  <>
+                    <span className="text-slate-400">Power (W)</span>
+                    <span className="font-mono text-right text-slate-300">{result.before.summary.powerRms}</span>
+                    <span className="font-mono text-right text-emerald-400">{result.after.summary.powerRms}</span>
+                  </>
+                )}
+              </div>
+
+              <div className="bg-slate-900/50 p-3 rounded border border-slate-700 grid grid-cols-[1fr_auto] gap-y-0.5">
+                {result.fitted.map(key => (
+                  <React.Fragment key={key}>
+                    <span className="text-slate-400">{CALIBRATION_FACTORS[key].label}</span>
+                    <span className="font-mono text-right text-indigo-300">×{result.factors[key].toFixed(3)}</span>
+                  </React.Fragment>
+                ))}
+                <span className="text-slate-500">Iterations</span>
+                <span className="font-mono text-right text-slate-400">{result.iterations}</span>
+              </div>
+
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white"
+                  placeholder="Model name"
+                />
+                <button
+                  onClick={applyResult}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium bg-emerald-600 text-white hover:bg-emerald-500 transition-colors"
+                >
+                  <Check className="w-3 h-3" /> Use Model
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-slate-500 italic">
+              Least-squares fit of the model's empirical factors to the log. Each point is simulated at its
+              own wind, line angle and tilt, without wind shear, and its tension is compared with the
+              model's line tension just below the rotor.
+            </p>
+          )}
+        </div>
+
+        {/* Residuals per point */}
+        <div className="overflow-auto max-h-[280px]">
+          {result && (
+            <table className="w-full text-right font-mono">
+              <thead className="text-slate-500 sticky top-0 bg-slate-800">
+                <tr>
+                  <th className="font-normal text-left">Wind</th>
+                  <th className="font-normal">RPM</th>
+                  <th className="font-normal">ΔRPM</th>
+                  <th className="font-normal">ΔT (N)</th>
+                  {result.after.summary.powerRms !== null && <th className="font-normal">ΔP (W)</th>}
+                </tr>
+              </thead>
+              <tbody className="text-slate-300">
+                {result.after.residuals.map((r, i) => (
+                  <tr key={i}>
+                    <td className="text-left">{r.point.windSpeed}</td>
+                    <td>{r.point.rpm}</td>
+                    <td>{(r.rpm - r.point.rpm).toFixed(0)}</td>
+                    <td>{(r.lineTension - r.point.lineTension).toFixed(1)}</td>
+                    {result.after.summary.powerRms !== null && (
+                      <td>{r.point.power !== null ? (r.power - r.point.power).toFixed(0) : '–'}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
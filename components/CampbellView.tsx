@@ -0,0 +1,79 @@
+import React from 'react';
+import { ModalFrequencies, ResonanceCrossing } from '../types';
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, ReferenceDot, Legend } from 'recharts';
+import { AlertTriangle, Vibrate } from 'lucide-react';
+import { CampbellPoint, MODE_LABELS } from '../services/modalModel';
+
+const MODE_COLORS: Record<keyof ModalFrequencies, string> = {
+  flap: '#38bdf8',
+  lag: '#a78bfa',
+  teeter: '#f59e0b',
+  hubWhirl: '#f472b6',
+  lowerLine: '#34d399',
+  upperLine: '#2dd4bf'
+};
+
+interface CampbellViewProps {
+  points: CampbellPoint[];
+  crossings: ResonanceCrossing[];
+  orders: number[]; // rotor harmonics drawn as excitation rays
+}
+
+/**
+ * Campbell diagram: natural frequencies against rotor RPM over the wind sweep,
+ * with the 1P, blade-passing and twice blade-passing excitation rays.
+ * Crossings are marked in red.
+ */
+export const CampbellView: React.FC<CampbellViewProps> = ({ points, crossings, orders }) => {
+  const modes = Object.keys(MODE_LABELS) as (keyof ModalFrequencies)[];
+
+  const data = React.useMemo(() => {
+    const spinning = points.filter(p => p.rpm > 0).sort((a, b) => a.rpm - b.rpm);
+    const rows: Record<string, number>[] = [{ rpm: 0 }];
+    spinning.forEach(p => rows.push({ rpm: p.rpm, wind: p.windSpeed, ...p.modes }));
+    rows.forEach(row => orders.forEach(n => { row[`p${n}`] = parseFloat(((n * row.rpm) / 60).toFixed(2)); }));
+    return rows;
+  }, [points, orders]);
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col">
+      <h3 className="text-slate-300 font-semibold mb-4 text-sm flex items-center gap-2">
+        <Vibrate className="w-4 h-4 text-indigo-400" />
+        Campbell Diagram
+      </h3>
+      <div className="w-full h-[280px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            <XAxis dataKey="rpm" type="number" stroke="#94a3b8" label={{ value: 'Rotor RPM', position: 'insideBottom', offset: -5 }} />
+            <YAxis stroke="#94a3b8" label={{ value: 'Frequency (Hz)', angle: -90, position: 'insideLeft' }} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
+              labelFormatter={(rpm) => `${rpm} rpm`}
+            />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            {orders.map(n => (
+              <Line key={n} type="linear" dataKey={`p${n}`} name={`${n}P`} stroke="#64748b" strokeWidth={1} strokeDasharray="5 3" dot={false} />
+            ))}
+            {modes.map(mode => (
+              <Line key={mode} type="monotone" dataKey={mode} name={MODE_LABELS[mode]} stroke={MODE_COLORS[mode]} strokeWidth={2} dot={false} />
+            ))}
+            {crossings.map((c, i) => (
+              <ReferenceDot key={i} x={c.rpm} y={c.frequency} r={5} fill="#ef4444" stroke="white" />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="mt-3 text-xs space-y-1">
+        {crossings.length === 0 ? (
+          <div className="text-slate-500">No mode crosses {orders.map(n => `${n}P`).join(', ')} across the wind range.</div>
+        ) : crossings.map((c, i) => (
+          <div key={i} className="text-rose-400 flex items-center gap-1">
+            <AlertTriangle className="w-3 h-3" />
+            {MODE_LABELS[c.mode]} meets {c.order}P at {c.rpm} rpm ({c.frequency} Hz, wind {c.windSpeed} m/s)
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+
+import React from 'react';
+import { ComparedDesign, SimulationResult } from '../types';
+import { GitCompare, Pin, X } from 'lucide-react';
+
+export const COMPARISON_COLORS = ['#f472b6', '#a3e635', '#facc15', '#c084fc', '#fb923c', '#2dd4bf'];
+
+/**
+ * First palette colour not already used by a compared design.
+ */
+export const nextComparisonColor = (designs: ComparedDesign[]): string =>
+  COMPARISON_COLORS.find(c => !designs.some(d => d.color === c)) ?? COMPARISON_COLORS[designs.length % COMPARISON_COLORS.length];
+
+// Scalar leaves of a result as dotted paths; arrays (line shapes) are skipped
+function flattenResult(value: unknown, prefix = ''): [string, number | string | boolean][] {
+  if (value === null || value === undefined || Array.isArray(value)) return [];
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).flatMap(([key, v]) =>
+      flattenResult(v, prefix ? `${prefix}.${key}` : key)
+    );
+  }
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+    return [[prefix, value]];
+  }
+  return [];
+}
+
+interface ComparisonViewProps {
+  currentResults: SimulationResult;
+  designs: ComparedDesign[];
+  designResults: SimulationResult[];
+  onPinCurrent: () => void;
+  onRemove: (id: string) => void;
+}
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ currentResults, designs, designResults, onPinCurrent, onRemove }) => {
+  const currentRows = flattenResult(currentResults);
+  const others = designResults.map(r => new Map(flattenResult(r)));
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-slate-300 font-semibold text-sm flex items-center gap-2">
+          <GitCompare className="w-4 h-4 text-pink-400" />
+          Design Comparison
+        </h3>
+        <button
+          onClick={onPinCurrent}
+          className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors"
+        >
+          <Pin className="w-3 h-3" /> Pin Current Design
+        </button>
+      </div>
+
+      {/* Compared designs */}
+      <div className="flex flex-wrap gap-2 mb-3">
+        {designs.length === 0 && (
+          <p className="text-xs text-slate-500 italic">
+            Pin the current design or choose Compare in the design library to overlay designs.
+          </p>
+        )}
+        {designs.map(d => (
+          <span key={d.id} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full text-xs border border-slate-600 bg-slate-900/50 text-slate-200">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: d.color }} />
+            {d.name}
+            <button onClick={() => onRemove(d.id)} className="text-slate-500 hover:text-rose-400">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {/* Diff table */}
+      {designs.length > 0 && (
+        <div className="overflow-x-auto max-h-[320px] overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-slate-800">
+              <tr className="text-slate-500 text-left">
+                <th className="font-normal pr-3 py-1">Field</th>
+                <th className="font-normal pr-3">Current</th>
+                {designs.map(d => (
+                  <th key={d.id} className="font-normal pr-3" style={{ color: d.color }}>{d.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {currentRows.map(([field, value]) => (
+                <tr key={field} className="border-t border-slate-700/50">
+                  <td className="pr-3 py-0.5 text-slate-400">{field}</td>
+                  <td className="pr-3 font-mono text-slate-200">{String(value)}</td>
+                  {others.map((other, i) => {
+                    const v = other.get(field);
+                    if (typeof v === 'number' && typeof value === 'number') {
+                      const delta = v - value;
+                      const relative = Math.abs(value) > 1e-9 ? delta / Math.abs(value) : (delta === 0 ? 0 : 1);
+                      const changed = Math.abs(relative) > 0.01;
+                      return (
+                        <td key={designs[i].id} className={`pr-3 font-mono ${changed ? 'bg-amber-900/20' : ''}`}>
+                          <span className="text-slate-200">{v}</span>
+                          {changed && (
+                            <span className={`ml-1 ${delta > 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                              ({delta > 0 ? '+' : ''}{parseFloat(delta.toFixed(2))}{Math.abs(value) > 1e-9 ? `, ${delta > 0 ? '+' : ''}${(relative * 100).toFixed(0)}%` : ''})
+                            </span>
+                          )}
+                        </td>
+                      );
+                    }
+                    const changed = v !== value;
+                    return (
+                      <td key={designs[i].id} className={`pr-3 font-mono text-slate-200 ${changed ? 'bg-amber-900/20' : ''}`}>
+                        {String(v ?? '—')}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
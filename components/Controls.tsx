@@ -1,19 +1,141 @@
 
-import React from 'react';
-import { DesignParams } from '../types';
-import { Sliders, Wind, Ruler, Compass } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { AeroModel, AtmosphereSettings, BearingSettings, BearingType, BladeMaterial, BladePlanform, DesignParams, DrivetrainMode, DrivetrainSettings, HubType, KitePreset, KiteSettings, LineMaterial, LineTrainSettings, ModelSettings, PlanformDistribution, ShearModel, SparSection, StabilitySettings, StructureSettings, TeeterSettings, TetherSettings, TipShape, TrainRotor, TurbulenceModel, WindFieldSettings } from '../types';
+import { Sliders, Wind, Ruler, Compass, Cpu, Feather, Upload, Waves, Plus, Trash2, Cable, Plane, Scale, CircleDot, Bone, Cog, Spline, Layers, Copy } from 'lucide-react';
+import clsx from 'clsx';
+import { listAirfoils, parsePolarFile, registerAirfoil } from '../services/airfoilDatabase';
+import { getHubWindSpeed, getRotorHeight } from '../services/windField';
+import { LINE_MATERIALS, tetherForMaterial } from '../services/tetherModel';
+import { KITE_PRESETS } from '../services/kiteModel';
+import { BEARING_TYPES, bearingForType } from '../services/bearingModel';
+import { BLADE_MATERIALS, structureForMaterial } from '../services/structureModel';
+import { DRIVETRAIN_MODE_INFO } from '../services/drivetrainModel';
+import { bladeCountOf, HUB_TYPES, hubTypeFor } from '../services/teeterModel';
+import { normalizeControlPoints, planformForDistribution, TIP_SHAPES } from '../services/planformModel';
+import { newTrainRotor, rotorGeometryOf } from '../services/lineTrainModel';
+import { PlanformEditor } from './PlanformEditor';
+import { getRotorAtmosphere, resolveLineLoads } from '../services/physicsEngine';
 
 interface ControlsProps {
   params: DesignParams;
   onChange: (newParams: DesignParams) => void;
+  modelSettings: ModelSettings;
+  onModelSettingsChange: (newSettings: ModelSettings) => void;
 }
 
-export const Controls: React.FC<ControlsProps> = ({ params, onChange }) => {
+const AERO_MODEL_OPTIONS: { value: AeroModel; label: string }[] = [
+  { value: AeroModel.BEMT, label: 'BEMT Solver' },
+  { value: AeroModel.PCA2, label: 'PCA-2 Empirical' }
+];
+
+const PLANFORM_OPTIONS: { value: PlanformDistribution; label: string }[] = [
+  { value: PlanformDistribution.LINEAR, label: 'Linear' },
+  { value: PlanformDistribution.SPLINE, label: 'Spline' }
+];
+
+const SHEAR_OPTIONS: { value: ShearModel; label: string }[] = [
+  { value: ShearModel.NONE, label: 'Uniform' },
+  { value: ShearModel.POWER_LAW, label: 'Power Law' },
+  { value: ShearModel.LOG_LAW, label: 'Log Law' }
+];
+
+const TURBULENCE_OPTIONS: { value: TurbulenceModel; label: string }[] = [
+  { value: TurbulenceModel.NONE, label: 'Steady' },
+  { value: TurbulenceModel.KAIMAL, label: 'Kaimal' },
+  { value: TurbulenceModel.VON_KARMAN, label: 'von Kármán' }
+];
+
+export const Controls: React.FC<ControlsProps> = ({ params, onChange, modelSettings, onModelSettingsChange }) => {
   
+  // Derived each render so polars registered elsewhere (e.g. a loaded design) appear
+  const airfoils = listAirfoils();
+  const [importError, setImportError] = useState<string | null>(null);
+
   const handleChange = (key: keyof DesignParams, value: number) => {
     onChange({ ...params, [key]: value });
   };
 
+  const wind = modelSettings.wind;
+  const handleWindChange = (changes: Partial<WindFieldSettings>) => {
+    onModelSettingsChange({ ...modelSettings, wind: { ...wind, ...changes } });
+  };
+
+  const kite = modelSettings.kite;
+  const handleKiteChange = (changes: Partial<KiteSettings>) => {
+    onModelSettingsChange({ ...modelSettings, kite: { ...kite, ...changes } });
+  };
+  const { params: lineParams, kite: kiteState } = useMemo(
+    () => resolveLineLoads(params, modelSettings),
+    [params, modelSettings]
+  );
+
+  const tether = modelSettings.tether;
+  const handleTetherChange = (changes: Partial<TetherSettings>) => {
+    onModelSettingsChange({ ...modelSettings, tether: { ...tether, ...changes } });
+  };
+
+  const lineTrain = modelSettings.lineTrain;
+  const lineLength = tether.lowerLength + tether.upperLength;
+  const handleLineTrainChange = (changes: Partial<LineTrainSettings>) => {
+    onModelSettingsChange({ ...modelSettings, lineTrain: { ...lineTrain, ...changes } });
+  };
+  const handleTrainRotorChange = (id: string, changes: Partial<TrainRotor>) => {
+    handleLineTrainChange({ rotors: lineTrain.rotors.map(r => r.id === id ? { ...r, ...changes } : r) });
+  };
+
+  const teeter = modelSettings.teeter;
+  const bladeCount = bladeCountOf(params);
+  const hubType = hubTypeFor(bladeCount, teeter.hubType);
+  const handleTeeterChange = (changes: Partial<TeeterSettings>) => {
+    onModelSettingsChange({ ...modelSettings, teeter: { ...teeter, ...changes } });
+  };
+
+  const atmosphere = modelSettings.atmosphere;
+  const handleAtmosphereChange = (changes: Partial<AtmosphereSettings>) => {
+    onModelSettingsChange({ ...modelSettings, atmosphere: { ...atmosphere, ...changes } });
+  };
+  const rotorAir = getRotorAtmosphere(lineParams, modelSettings);
+
+  const stability = modelSettings.stability;
+  const handleStabilityChange = (changes: Partial<StabilitySettings>) => {
+    onModelSettingsChange({ ...modelSettings, stability: { ...stability, ...changes } });
+  };
+
+  const structure = modelSettings.structure;
+  const handleStructureChange = (changes: Partial<StructureSettings>) => {
+    onModelSettingsChange({ ...modelSettings, structure: { ...structure, ...changes } });
+  };
+
+  const planform = params.planform;
+  const handlePlanformChange = (changes: Partial<BladePlanform>) => {
+    onChange({ ...params, planform: { ...planform, ...changes } });
+  };
+
+  const drivetrain = modelSettings.drivetrain;
+  const handleDrivetrainChange = (changes: Partial<DrivetrainSettings>) => {
+    onModelSettingsChange({ ...modelSettings, drivetrain: { ...drivetrain, ...changes } });
+  };
+
+  const bearing = modelSettings.bearing;
+  const handleBearingChange = (changes: Partial<BearingSettings>) => {
+    onModelSettingsChange({ ...modelSettings, bearing: { ...bearing, ...changes } });
+  };
+
+  const handlePolarImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const airfoil = parsePolarFile(await file.text(), file.name.replace(/\.[^.]+$/, ''));
+      registerAirfoil(airfoil);
+      setImportError(null);
+      onChange({ ...params, airfoilId: airfoil.id });
+    } catch (err: any) {
+      setImportError(err.message || 'Could not read polar file.');
+    }
+  };
+
   return (
     <div className="space-y-6 p-4 bg-slate-800 rounded-lg shadow-lg h-full overflow-y-auto border border-slate-700">
       <h2 className="text-xl font-bold text-white flex items-center gap-2 mb-4 border-b border-slate-700 pb-2">
@@ -34,16 +156,22 @@ export const Controls: React.FC<ControlsProps> = ({ params, onChange }) => {
           onChange={(v) => handleChange('bladeLength', v)} 
         />
         <ControlInput 
-          label="Blade Chord" 
+          label="Root Chord" 
           value={params.bladeChord} 
           min={0.05} max={0.4} step={0.01} unit="m"
           onChange={(v) => handleChange('bladeChord', v)} 
         />
         <ControlInput 
-          label="Blade Pitch" 
+          label="Blade Pitch (75% span)" 
           value={params.bladePitch} 
           min={-5} max={15} step={0.5} unit="deg"
           onChange={(v) => handleChange('bladePitch', v)} 
+        />
+        <ControlInput 
+          label="Blade Count" 
+          value={params.bladeCount} 
+          min={2} max={6} step={1} unit="blades"
+          onChange={(v) => handleChange('bladeCount', Math.round(v))} 
         />
          <ControlInput 
           label="Rotor Mass" 
@@ -55,6 +183,109 @@ export const Controls: React.FC<ControlsProps> = ({ params, onChange }) => {
 
       <div className="border-t border-slate-700 my-4"></div>
 
+      {/* Planform Group */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Spline className="w-4 h-4" /> Blade Planform
+        </h3>
+
+        <div className="grid grid-cols-2 gap-2">
+          {PLANFORM_OPTIONS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => onChange({ ...params, planform: planformForDistribution(value, planform) })}
+              className={clsx(
+                "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border",
+                planform.distribution === value
+                  ? "bg-indigo-600 text-white border-indigo-500"
+                  : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <PlanformEditor params={params} onChange={(next) => onChange({ ...params, planform: next })} />
+
+        {planform.distribution === PlanformDistribution.LINEAR && (
+          <>
+            <ControlInput 
+              label="Taper Ratio (tip / root)" 
+              value={planform.taperRatio} 
+              min={0.1} max={2} step={0.05} unit=""
+              onChange={(v) => handlePlanformChange({ taperRatio: v })} 
+            />
+            <ControlInput 
+              label="Twist (root to tip)" 
+              value={planform.twist} 
+              min={-30} max={30} step={0.5} unit="deg"
+              onChange={(v) => handlePlanformChange({ twist: v })} 
+            />
+          </>
+        )}
+        <ControlInput 
+          label="Root Cut-out" 
+          value={planform.rootCutout} 
+          min={0.05} max={0.5} step={0.01} unit="R"
+          onChange={(v) => handlePlanformChange({ rootCutout: v, controlPoints: normalizeControlPoints(planform.controlPoints, v) })} 
+        />
+
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(TIP_SHAPES) as TipShape[]).map(shape => (
+            <button
+              key={shape}
+              onClick={() => handlePlanformChange({ tipShape: shape })}
+              className={clsx(
+                "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border",
+                planform.tipShape === shape
+                  ? "bg-indigo-600 text-white border-indigo-500"
+                  : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+              )}
+            >
+              {TIP_SHAPES[shape].name}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 italic">
+          Chord is relative to the root chord and twist to the blade pitch; drag the spline points to reshape the blade.
+        </p>
+      </div>
+
+      <div className="border-t border-slate-700 my-4"></div>
+
+      {/* Airfoil Group */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Feather className="w-4 h-4" /> Airfoil Section
+        </h3>
+
+        <select
+          value={params.airfoilId}
+          onChange={(e) => onChange({ ...params, airfoilId: e.target.value })}
+          className="w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+        >
+          {airfoils.map(airfoil => (
+            <option key={airfoil.id} value={airfoil.id}>
+              {airfoil.name}{airfoil.builtIn ? '' : ` (imported, ${airfoil.polars.length} Re)`}
+            </option>
+          ))}
+        </select>
+
+        <label className="flex items-center justify-center gap-2 px-2 py-1.5 rounded-md text-xs font-medium bg-slate-700 text-slate-300 border border-slate-600 hover:bg-slate-600 cursor-pointer transition-colors">
+          <Upload className="w-3 h-3" /> Import XFOIL / XFLR5 Polar
+          <input type="file" accept=".txt,.dat,.pol,.csv" className="hidden" onChange={handlePolarImport} />
+        </label>
+        {importError && (
+          <p className="text-xs text-rose-400">{importError}</p>
+        )}
+        <p className="text-xs text-slate-500 italic">
+          Polars are interpolated in angle of attack and Reynolds number. Stall limits come from the selected section.
+        </p>
+      </div>
+
+      <div className="border-t border-slate-700 my-4"></div>
+
       {/* Control / Bearing Group */}
       <div className="space-y-4">
         <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
@@ -70,6 +301,358 @@ export const Controls: React.FC<ControlsProps> = ({ params, onChange }) => {
         <p className="text-xs text-slate-500 italic">
           Positive tilts rotor back (increasing angle of attack). Negative tilts forward.
         </p>
+        <ControlInput 
+          label="Mast Height" 
+          value={stability.mastHeight} 
+          min={0} max={1} step={0.01} unit="m"
+          onChange={(v) => handleStabilityChange({ mastHeight: v })} 
+        />
+        <ControlInput 
+          label="Control Stiffness" 
+          value={stability.controlStiffness} 
+          min={0} max={500} step={1} unit="N·m/rad"
+          onChange={(v) => handleStabilityChange({ controlStiffness: v })} 
+        />
+        <ControlInput 
+          label="Control Damping" 
+          value={stability.controlDamping} 
+          min={0} max={20} step={0.1} unit="N·m·s/rad"
+          onChange={(v) => handleStabilityChange({ controlDamping: v })} 
+        />
+        <p className="text-xs text-slate-500 italic">
+          The tilt linkage holds the rotor against its weight and H-force acting above the bearing.
+        </p>
+      </div>
+
+      <div className="border-t border-slate-700 my-4"></div>
+
+      {/* Hub Group */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Scale className="w-4 h-4" /> Hub
+        </h3>
+
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(HUB_TYPES) as HubType[]).map(type => (
+            <button
+              key={type}
+              title={HUB_TYPES[type].description}
+              disabled={hubTypeFor(bladeCount, type) !== type}
+              onClick={() => handleTeeterChange({ hubType: type })}
+              className={clsx(
+                "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border disabled:opacity-40 disabled:cursor-not-allowed",
+                hubType === type
+                  ? "bg-indigo-600 text-white border-indigo-500"
+                  : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+              )}
+            >
+              {HUB_TYPES[type].name}
+            </button>
+          ))}
+        </div>
+
+        <ControlInput 
+          label="Blade Mass Share" 
+          value={teeter.bladeMassFraction} 
+          min={0.3} max={0.95} step={0.05} unit="of rotor"
+          onChange={(v) => handleTeeterChange({ bladeMassFraction: v })} 
+        />
+        <ControlInput 
+          label="Tip Weight Share" 
+          value={teeter.tipMassFraction} 
+          min={0} max={0.5} step={0.05} unit="of blade"
+          onChange={(v) => handleTeeterChange({ tipMassFraction: v })} 
+        />
+        {hubType !== HubType.ARTICULATED && (
+          <ControlInput 
+            label="Undersling" 
+            value={teeter.undersling} 
+            min={0} max={0.05} step={0.001} unit="m"
+            onChange={(v) => handleTeeterChange({ undersling: v })} 
+          />
+        )}
+        <ControlInput 
+          label="Delta-3" 
+          value={teeter.delta3} 
+          min={0} max={45} step={1} unit="deg"
+          onChange={(v) => handleTeeterChange({ delta3: v })} 
+        />
+        {hubType === HubType.ARTICULATED && (
+          <ControlInput 
+            label="Hinge Offset" 
+            value={teeter.hingeOffset} 
+            min={0} max={0.2} step={0.01} unit="of radius"
+            onChange={(v) => handleTeeterChange({ hingeOffset: v })} 
+          />
+        )}
+        <ControlInput 
+          label="Stop Angle" 
+          value={teeter.stopAngle} 
+          min={2} max={20} step={0.5} unit="deg"
+          onChange={(v) => handleTeeterChange({ stopAngle: v })} 
+        />
+        <p className="text-xs text-slate-500 italic">
+          {HUB_TYPES[hubType].description} Tip weights raise flap inertia; delta-3 stiffens flapping and reduces its amplitude.
+        </p>
+      </div>
+
+      <div className="border-t border-slate-700 my-4"></div>
+
+      {/* Blade Structure Group */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Bone className="w-4 h-4" /> Blade Structure
+        </h3>
+
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(BLADE_MATERIALS) as BladeMaterial[]).map(material => (
+            <button
+              key={material}
+              onClick={() => onModelSettingsChange({ ...modelSettings, structure: structureForMaterial(material, structure) })}
+              className={clsx(
+                "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border",
+                structure.material === material
+                  ? "bg-indigo-600 text-white border-indigo-500"
+                  : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+              )}
+            >
+              {BLADE_MATERIALS[material].name}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {[
+            { section: SparSection.RECTANGULAR, label: 'Rectangular Spar' },
+            { section: SparSection.TUBE, label: 'Tube Spar' }
+          ].map(({ section, label }) => (
+            <button
+              key={section}
+              onClick={() => handleStructureChange({ sparSection: section })}
+              className={clsx(
+                "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border",
+                structure.sparSection === section
+                  ? "bg-indigo-600 text-white border-indigo-500"
+                  : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {structure.sparSection === SparSection.RECTANGULAR ? (
+          <>
+            <ControlInput 
+              label="Spar Width (chordwise)" 
+              value={structure.sparWidth} 
+              min={2} max={200} step={1} unit="mm"
+              onChange={(v) => handleStructureChange({ sparWidth: v })} 
+            />
+            <ControlInput 
+              label="Spar Depth (flapwise)" 
+              value={structure.sparHeight} 
+              min={2} max={60} step={0.5} unit="mm"
+              onChange={(v) => handleStructureChange({ sparHeight: v })} 
+            />
+          </>
+        ) : (
+          <>
+            <ControlInput 
+              label="Tube Outer Diameter" 
+              value={structure.sparHeight} 
+              min={2} max={60} step={0.5} unit="mm"
+              onChange={(v) => handleStructureChange({ sparHeight: v })} 
+            />
+            <ControlInput 
+              label="Tube Wall" 
+              value={structure.sparWall} 
+              min={0.2} max={20} step={0.1} unit="mm"
+              onChange={(v) => handleStructureChange({ sparWall: v })} 
+            />
+          </>
+        )}
+        <ControlInput 
+          label="Elastic Modulus" 
+          value={structure.elasticModulus} 
+          min={0.5} max={250} step={0.5} unit="GPa"
+          onChange={(v) => handleStructureChange({ elasticModulus: v })} 
+        />
+        <ControlInput 
+          label="Yield / Ultimate Strength" 
+          value={structure.yieldStrength} 
+          min={5} max={3000} step={5} unit="MPa"
+          onChange={(v) => handleStructureChange({ yieldStrength: v })} 
+        />
+        <ControlInput 
+          label="Fatigue Strength" 
+          value={structure.fatigueStrength} 
+          min={1} max={1500} step={1} unit="MPa"
+          onChange={(v) => handleStructureChange({ fatigueStrength: v })} 
+        />
+        <p className="text-xs text-slate-500 italic">
+          The spar is taken to carry all blade loads; the skin and core are ignored.
+        </p>
+      </div>
+
+      <div className="border-t border-slate-700 my-4"></div>
+
+      {/* Line Bearing Group */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <CircleDot className="w-4 h-4" /> Line Bearing
+        </h3>
+
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(BEARING_TYPES) as BearingType[]).map(type => (
+            <button
+              key={type}
+              title={BEARING_TYPES[type].name}
+              onClick={() => onModelSettingsChange({ ...modelSettings, bearing: bearingForType(type, bearing) })}
+              className={clsx(
+                "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border",
+                bearing.type === type
+                  ? "bg-indigo-600 text-white border-indigo-500"
+                  : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+              )}
+            >
+              {BEARING_TYPES[type].name.split(' (')[0]}
+            </button>
+          ))}
+        </div>
+
+        <ControlInput 
+          label="Bore (Hub Diameter)" 
+          value={params.hubDiameter} 
+          min={0.01} max={0.2} step={0.005} unit="m"
+          onChange={(v) => handleChange('hubDiameter', v)} 
+        />
+        <ControlInput 
+          label="Bearing Width" 
+          value={bearing.width} 
+          min={0.005} max={0.2} step={0.005} unit="m"
+          onChange={(v) => handleBearingChange({ width: v })} 
+        />
+        <ControlInput 
+          label="Friction Coefficient" 
+          value={bearing.frictionCoefficient} 
+          min={0} max={0.3} step={0.0005} unit="μ"
+          onChange={(v) => handleBearingChange({ frictionCoefficient: v })} 
+        />
+        {bearing.type === BearingType.BALL ? (
+          <ControlInput 
+            label="Dynamic Load Rating C" 
+            value={bearing.dynamicLoadRating} 
+            min={1000} max={100000} step={500} unit="N"
+            onChange={(v) => handleBearingChange({ dynamicLoadRating: v })} 
+          />
+        ) : (
+          <ControlInput 
+            label="PV Limit" 
+            value={bearing.pvLimit} 
+            min={0.05} max={3} step={0.05} unit="MPa·m/s"
+            onChange={(v) => handleBearingChange({ pvLimit: v })} 
+          />
+        )}
+      </div>
+
+      <div className="border-t border-slate-700 my-4"></div>
+
+      {/* Drivetrain Group */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Cog className="w-4 h-4" /> Drivetrain
+        </h3>
+
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(DRIVETRAIN_MODE_INFO) as DrivetrainMode[]).map(mode => (
+            <button
+              key={mode}
+              title={DRIVETRAIN_MODE_INFO[mode].description}
+              onClick={() => handleDrivetrainChange({ mode })}
+              className={clsx(
+                "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border",
+                drivetrain.mode === mode
+                  ? "bg-indigo-600 text-white border-indigo-500"
+                  : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+              )}
+            >
+              {DRIVETRAIN_MODE_INFO[mode].name}
+            </button>
+          ))}
+        </div>
+
+        {drivetrain.mode === DrivetrainMode.ROTARY ? (
+          <ControlInput 
+            label="Line Transmission Efficiency" 
+            value={drivetrain.transmissionEfficiency} 
+            min={0.1} max={1} step={0.01} unit=""
+            onChange={(v) => handleDrivetrainChange({ transmissionEfficiency: v })} 
+          />
+        ) : (
+          <>
+            <ControlInput 
+              label="Drum Radius" 
+              value={drivetrain.drumRadius} 
+              min={0.01} max={0.5} step={0.005} unit="m"
+              onChange={(v) => handleDrivetrainChange({ drumRadius: v })} 
+            />
+            <ControlInput 
+              label="Reel-out Speed" 
+              value={drivetrain.reelOutSpeed} 
+              min={0} max={15} step={0.1} unit="m/s"
+              onChange={(v) => handleDrivetrainChange({ reelOutSpeed: v })} 
+            />
+            <ControlInput 
+              label="Reel-in Speed" 
+              value={drivetrain.reelInSpeed} 
+              min={0.1} max={20} step={0.1} unit="m/s"
+              onChange={(v) => handleDrivetrainChange({ reelInSpeed: v })} 
+            />
+            <ControlInput 
+              label="Reel-in Tension" 
+              value={drivetrain.reelInTension} 
+              min={0} max={1} step={0.01} unit="× out"
+              onChange={(v) => handleDrivetrainChange({ reelInTension: v })} 
+            />
+          </>
+        )}
+        <ControlInput 
+          label="Gear Ratio" 
+          value={drivetrain.gearRatio} 
+          min={0.5} max={50} step={0.5} unit=":1"
+          onChange={(v) => handleDrivetrainChange({ gearRatio: v })} 
+        />
+        <ControlInput 
+          label="Gearbox Efficiency" 
+          value={drivetrain.gearboxEfficiency} 
+          min={0.1} max={1} step={0.01} unit=""
+          onChange={(v) => handleDrivetrainChange({ gearboxEfficiency: v })} 
+        />
+        <ControlInput 
+          label="Generator Constant" 
+          value={drivetrain.generatorConstant} 
+          min={0.005} max={2} step={0.005} unit="V·s/rad"
+          onChange={(v) => handleDrivetrainChange({ generatorConstant: v })} 
+        />
+        <ControlInput 
+          label="Winding Resistance" 
+          value={drivetrain.windingResistance} 
+          min={0.01} max={20} step={0.01} unit="Ω"
+          onChange={(v) => handleDrivetrainChange({ windingResistance: v })} 
+        />
+        <ControlInput 
+          label="Battery Voltage" 
+          value={drivetrain.batteryVoltage} 
+          min={1} max={400} step={1} unit="V"
+          onChange={(v) => handleDrivetrainChange({ batteryVoltage: v })} 
+        />
+        <ControlInput 
+          label="Converter Efficiency" 
+          value={drivetrain.converterEfficiency} 
+          min={0.1} max={1} step={0.01} unit=""
+          onChange={(v) => handleDrivetrainChange({ converterEfficiency: v })} 
+        />
       </div>
 
       <div className="border-t border-slate-700 my-4"></div>
@@ -86,14 +669,463 @@ export const Controls: React.FC<ControlsProps> = ({ params, onChange }) => {
           min={0} max={30} step={0.5} unit="m/s"
           onChange={(v) => handleChange('windSpeed', v)} 
         />
-         <ControlInput 
+        <ControlInput 
+          label="Site Elevation" 
+          value={atmosphere.elevation} 
+          min={-400} max={6000} step={50} unit="m"
+          onChange={(v) => handleAtmosphereChange({ elevation: v })} 
+        />
+        <ControlInput 
+          label="Temperature (ISA +)" 
+          value={atmosphere.temperatureOffset} 
+          min={-50} max={40} step={1} unit="°C"
+          onChange={(v) => handleAtmosphereChange({ temperatureOffset: v })} 
+        />
+        <ControlInput 
+          label="Pressure (ISA +)" 
+          value={atmosphere.pressureOffset} 
+          min={-80} max={80} step={1} unit="hPa"
+          onChange={(v) => handleAtmosphereChange({ pressureOffset: v })} 
+        />
+        <ControlInput 
+          label="Relative Humidity" 
+          value={atmosphere.relativeHumidity} 
+          min={0} max={100} step={5} unit="%"
+          onChange={(v) => handleAtmosphereChange({ relativeHumidity: v })} 
+        />
+
+        <div className="bg-slate-900/50 p-2 rounded border border-slate-700 text-xs grid grid-cols-2 gap-y-1">
+          <span className="text-slate-400">At rotor height</span>
+          <span className="font-mono text-right text-slate-300">{rotorAir.temperature.toFixed(1)} °C · {rotorAir.pressure.toFixed(0)} hPa</span>
+          <span className="text-slate-400">Air Density</span>
+          <span className="font-mono text-right text-indigo-300">{rotorAir.density.toFixed(3)} kg/m³</span>
+          <span className="text-slate-400">Density Altitude</span>
+          <span className="font-mono text-right text-indigo-300">{Math.round(rotorAir.densityAltitude)} m</span>
+        </div>
+      </div>
+
+      <div className="border-t border-slate-700 my-4"></div>
+
+      {/* Kite Group */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Plane className="w-4 h-4" /> Lifter Kite
+        </h3>
+
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(KITE_PRESETS) as (keyof typeof KITE_PRESETS)[]).map(preset => (
+            <button
+              key={preset}
+              onClick={() => {
+                const { name, ...shape } = KITE_PRESETS[preset];
+                handleKiteChange({ preset, ...shape });
+              }}
+              className={clsx(
+                "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border",
+                kite.preset === preset
+                  ? "bg-indigo-600 text-white border-indigo-500"
+                  : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+              )}
+            >
+              {KITE_PRESETS[preset].name}
+            </button>
+          ))}
+        </div>
+
+        <ControlInput 
+          label="Kite Area" 
+          value={kite.area} 
+          min={0.5} max={15} step={0.1} unit="m²"
+          onChange={(v) => handleKiteChange({ preset: KitePreset.CUSTOM, area: v })} 
+        />
+        <ControlInput 
+          label="Kite CL" 
+          value={kite.liftCoefficient} 
+          min={0.2} max={1.5} step={0.05} unit=""
+          onChange={(v) => handleKiteChange({ preset: KitePreset.CUSTOM, liftCoefficient: v })} 
+        />
+        <ControlInput 
+          label="Kite CD" 
+          value={kite.dragCoefficient} 
+          min={0.05} max={1.0} step={0.01} unit=""
+          onChange={(v) => handleKiteChange({ preset: KitePreset.CUSTOM, dragCoefficient: v })} 
+        />
+        <ControlInput 
+          label="Kite Mass" 
+          value={kite.mass} 
+          min={0.05} max={5} step={0.05} unit="kg"
+          onChange={(v) => handleKiteChange({ preset: KitePreset.CUSTOM, mass: v })} 
+        />
+
+        <div className="bg-slate-900/50 p-2 rounded border border-slate-700 text-xs grid grid-cols-[1fr_auto] gap-y-1">
+          <span className="text-slate-400">Kite pull</span>
+          <span className="font-mono text-indigo-300">{kiteState.pull} N</span>
+          <span className="text-slate-400">Kite elevation</span>
+          <span className="font-mono text-indigo-300">{kiteState.elevation}°</span>
+          {!kiteState.airborne && (
+            <span className="col-span-2 text-rose-400">Lift does not carry the kite's weight at this wind.</span>
+          )}
+        </div>
+
+        {/* Overrides: fix the line loads at the hub instead of using the kite */}
+        <OverrideToggle
+          label="Override Line Tension"
+          checked={kite.overrideLineTension}
+          onChange={(v) => handleKiteChange({ overrideLineTension: v })}
+        />
+        <ControlInput 
+          label="Line Tension at Hub" 
+          value={kite.overrideLineTension ? params.lineTension : kiteState.lineTension} 
+          min={0} max={1000} step={5} unit="N"
+          disabled={!kite.overrideLineTension}
+          onChange={(v) => handleChange('lineTension', v)} 
+        />
+        <OverrideToggle
+          label="Override Line Elevation"
+          checked={kite.overrideLineAngle}
+          onChange={(v) => handleKiteChange({ overrideLineAngle: v })}
+        />
+        <ControlInput 
           label="Line Elevation" 
-          value={params.lineAngle} 
+          value={kite.overrideLineAngle ? params.lineAngle : kiteState.lineAngle} 
           min={5} max={85} step={1} unit="deg"
+          disabled={!kite.overrideLineAngle}
           onChange={(v) => handleChange('lineAngle', v)} 
         />
         <p className="text-xs text-slate-500 italic">
-          Angle of the kite line relative to the ground (0° = Horizontal, 90° = Vertical).
+          Angle of the kite line at the hub relative to the ground (0° = Horizontal, 90° = Vertical). Follows the kite unless overridden.
+        </p>
+      </div>
+
+      <div className="border-t border-slate-700 my-4"></div>
+
+      {/* Wind Field Group */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Waves className="w-4 h-4" /> Wind Field
+        </h3>
+
+        <ControlInput 
+          label="Reference Height" 
+          value={wind.referenceHeight} 
+          min={1} max={100} step={1} unit="m"
+          onChange={(v) => handleWindChange({ referenceHeight: v })} 
+        />
+
+        <div className="grid grid-cols-3 gap-2">
+          {SHEAR_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => handleWindChange({ shearModel: option.value })}
+              className={clsx(
+                "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border",
+                wind.shearModel === option.value
+                  ? "bg-indigo-600 text-white border-indigo-500"
+                  : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {wind.shearModel === ShearModel.POWER_LAW && (
+          <ControlInput 
+            label="Shear Exponent α" 
+            value={wind.shearExponent} 
+            min={0.05} max={0.4} step={0.01} unit=""
+            onChange={(v) => handleWindChange({ shearExponent: v })} 
+          />
+        )}
+        {wind.shearModel === ShearModel.LOG_LAW && (
+          <ControlInput 
+            label="Roughness Length z₀" 
+            value={wind.roughnessLength} 
+            min={0.0002} max={1} step={0.0002} unit="m"
+            onChange={(v) => handleWindChange({ roughnessLength: v })} 
+          />
+        )}
+
+        <div className="grid grid-cols-3 gap-2">
+          {TURBULENCE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => handleWindChange({ turbulenceModel: option.value })}
+              className={clsx(
+                "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border",
+                wind.turbulenceModel === option.value
+                  ? "bg-indigo-600 text-white border-indigo-500"
+                  : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {wind.turbulenceModel !== TurbulenceModel.NONE && (
+          <>
+            <ControlInput 
+              label="Turbulence Intensity" 
+              value={wind.turbulenceIntensity} 
+              min={0} max={0.4} step={0.01} unit=""
+              onChange={(v) => handleWindChange({ turbulenceIntensity: v })} 
+            />
+            <ControlInput 
+              label="Random Seed" 
+              value={wind.seed} 
+              min={1} max={100} step={1} unit=""
+              onChange={(v) => handleWindChange({ seed: v })} 
+            />
+          </>
+        )}
+
+        {/* Discrete gusts (1-cosine) */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm text-slate-300">
+            <span>Gusts</span>
+            <button
+              onClick={() => handleWindChange({ gusts: [...wind.gusts, { startTime: 5, duration: 4, amplitude: 3 }] })}
+              className="flex items-center gap-1 px-2 py-0.5 rounded-md text-xs bg-slate-700 text-slate-300 border border-slate-600 hover:bg-slate-600 transition-colors"
+            >
+              <Plus className="w-3 h-3" /> Add
+            </button>
+          </div>
+          {wind.gusts.map((gust, i) => (
+            <div key={i} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-1 items-center text-xs">
+              {(['startTime', 'duration', 'amplitude'] as const).map(key => (
+                <input
+                  key={key}
+                  type="number"
+                  step={0.5}
+                  value={gust[key]}
+                  title={key === 'startTime' ? 'Start (s)' : key === 'duration' ? 'Duration (s)' : 'Amplitude (m/s)'}
+                  onChange={(e) => handleWindChange({
+                    gusts: wind.gusts.map((g, j) => j === i ? { ...g, [key]: parseFloat(e.target.value) || 0 } : g)
+                  })}
+                  className="w-full bg-slate-700 border border-slate-600 rounded px-1 py-0.5 font-mono text-slate-200 focus:outline-none focus:border-indigo-500"
+                />
+              ))}
+              <button
+                onClick={() => handleWindChange({ gusts: wind.gusts.filter((_, j) => j !== i) })}
+                className="text-slate-500 hover:text-rose-400"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          {wind.gusts.length > 0 && (
+            <p className="text-xs text-slate-500">Start (s) · Duration (s) · Amplitude (m/s)</p>
+          )}
+        </div>
+
+        <div className="bg-slate-900/50 p-2 rounded border border-slate-700 text-xs flex justify-between">
+          <span className="text-slate-400">Rotor height {getRotorHeight(lineParams, modelSettings.tether.lowerLength).toFixed(1)} m</span>
+          <span className="font-mono text-indigo-300">{getHubWindSpeed(lineParams, modelSettings).toFixed(2)} m/s</span>
+        </div>
+        <p className="text-xs text-slate-500 italic">
+          Wind Speed is taken at the reference height. Turbulence and gusts drive the time-domain simulation.
+        </p>
+      </div>
+
+      <div className="border-t border-slate-700 my-4"></div>
+
+      {/* Tether Group */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Cable className="w-4 h-4" /> Tether
+        </h3>
+
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(LINE_MATERIALS) as LineMaterial[]).map(material => (
+            <button
+              key={material}
+              onClick={() => onModelSettingsChange({ ...modelSettings, tether: tetherForMaterial(material, tether.diameter, tether) })}
+              className={clsx(
+                "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border",
+                tether.material === material
+                  ? "bg-indigo-600 text-white border-indigo-500"
+                  : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+              )}
+            >
+              {LINE_MATERIALS[material].name.split(' ')[0]}
+            </button>
+          ))}
+        </div>
+
+        <ControlInput 
+          label="Line Diameter" 
+          value={tether.diameter} 
+          min={0.5} max={8} step={0.1} unit="mm"
+          onChange={(v) => onModelSettingsChange({ ...modelSettings, tether: tetherForMaterial(tether.material, v, tether) })} 
+        />
+        <ControlInput 
+          label="Linear Density" 
+          value={tether.linearDensity} 
+          min={0.1} max={50} step={0.1} unit="g/m"
+          onChange={(v) => handleTetherChange({ linearDensity: v })} 
+        />
+        <ControlInput 
+          label="Elastic Modulus" 
+          value={tether.elasticModulus} 
+          min={0.5} max={120} step={0.5} unit="GPa"
+          onChange={(v) => handleTetherChange({ elasticModulus: v })} 
+        />
+        <ControlInput 
+          label="Line Drag Cd" 
+          value={tether.dragCoefficient} 
+          min={0.5} max={1.5} step={0.05} unit=""
+          onChange={(v) => handleTetherChange({ dragCoefficient: v })} 
+        />
+        <ControlInput 
+          label="Lower Line (Anchor to Hub)" 
+          value={tether.lowerLength} 
+          min={2} max={200} step={1} unit="m"
+          onChange={(v) => handleTetherChange({ lowerLength: v })} 
+        />
+        <ControlInput 
+          label="Upper Line (Hub to Kite)" 
+          value={tether.upperLength} 
+          min={2} max={200} step={1} unit="m"
+          onChange={(v) => handleTetherChange({ upperLength: v })} 
+        />
+        <p className="text-xs text-slate-500 italic">
+          Material and diameter set density, modulus and drag; adjust them to match a specific line.
+        </p>
+      </div>
+
+      <div className="border-t border-slate-700 my-4"></div>
+
+      {/* Line Train Group */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Layers className="w-4 h-4" /> Line Train
+        </h3>
+
+        <OverrideToggle
+          label="Stack more rotors on the line"
+          checked={lineTrain.enabled}
+          onChange={(v) => handleLineTrainChange({ enabled: v })}
+        />
+
+        {lineTrain.enabled && (
+          <>
+            <div className="flex items-center justify-between text-sm text-slate-300">
+              <span>Extra Rotors</span>
+              <button
+                onClick={() => handleLineTrainChange({ rotors: [...lineTrain.rotors, newTrainRotor(params, modelSettings)] })}
+                className="flex items-center gap-1 px-2 py-0.5 rounded-md text-xs bg-slate-700 text-slate-300 border border-slate-600 hover:bg-slate-600 transition-colors"
+              >
+                <Plus className="w-3 h-3" /> Add
+              </button>
+            </div>
+
+            {lineTrain.rotors.map(rotor => (
+              <div key={rotor.id} className="bg-slate-900/50 p-3 rounded border border-slate-700 space-y-3">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-semibold text-slate-300">{rotor.name}</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleTrainRotorChange(rotor.id, { geometry: rotorGeometryOf(params) })}
+                      title="Copy the design rotor's geometry"
+                      className="text-slate-500 hover:text-indigo-300"
+                    >
+                      <Copy className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => handleLineTrainChange({ rotors: lineTrain.rotors.filter(r => r.id !== rotor.id) })}
+                      className="text-slate-500 hover:text-rose-400"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+                <ControlInput 
+                  label="Position (from anchor)" 
+                  value={rotor.position} 
+                  min={0.5} max={lineLength - 0.5} step={0.5} unit="m"
+                  onChange={(v) => handleTrainRotorChange(rotor.id, { position: v })} 
+                />
+                <ControlInput 
+                  label="Blade Length" 
+                  value={rotor.geometry.bladeLength} 
+                  min={0.2} max={3.0} step={0.1} unit="m"
+                  onChange={(v) => handleTrainRotorChange(rotor.id, { geometry: { ...rotor.geometry, bladeLength: v } })} 
+                />
+                <ControlInput 
+                  label="Root Chord" 
+                  value={rotor.geometry.bladeChord} 
+                  min={0.05} max={0.4} step={0.01} unit="m"
+                  onChange={(v) => handleTrainRotorChange(rotor.id, { geometry: { ...rotor.geometry, bladeChord: v } })} 
+                />
+                <ControlInput 
+                  label="Blade Pitch (75% span)" 
+                  value={rotor.geometry.bladePitch} 
+                  min={-5} max={15} step={0.5} unit="deg"
+                  onChange={(v) => handleTrainRotorChange(rotor.id, { geometry: { ...rotor.geometry, bladePitch: v } })} 
+                />
+                <ControlInput 
+                  label="Blade Count" 
+                  value={rotor.geometry.bladeCount} 
+                  min={2} max={6} step={1} unit="blades"
+                  onChange={(v) => handleTrainRotorChange(rotor.id, { geometry: { ...rotor.geometry, bladeCount: Math.round(v) } })} 
+                />
+              </div>
+            ))}
+
+            <OverrideToggle
+              label="Wake interference from upwind rotors"
+              checked={lineTrain.wakeInterference}
+              onChange={(v) => handleLineTrainChange({ wakeInterference: v })}
+            />
+            {lineTrain.wakeInterference && (
+              <ControlInput 
+                label="Wake Expansion" 
+                value={lineTrain.wakeExpansion} 
+                min={0.02} max={0.3} step={0.01} unit="m/m"
+                onChange={(v) => handleLineTrainChange({ wakeExpansion: v })} 
+              />
+            )}
+          </>
+        )}
+        <p className="text-xs text-slate-500 italic">
+          The design rotor sits at the end of the lower line. Extra rotors start as copies of it; the rest of their geometry follows the copy.
+        </p>
+      </div>
+
+      <div className="border-t border-slate-700 my-4"></div>
+
+      {/* Model Group */}
+      <div className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+          <Cpu className="w-4 h-4" /> Aerodynamic Model
+        </h3>
+
+        <div className="grid grid-cols-2 gap-2">
+          {AERO_MODEL_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onModelSettingsChange({ ...modelSettings, aeroModel: option.value })}
+              className={clsx(
+                "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border",
+                modelSettings.aeroModel === option.value
+                  ? "bg-indigo-600 text-white border-indigo-500"
+                  : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {modelSettings.aeroModel === AeroModel.BEMT && (
+          <ControlInput 
+            label="Radial Stations" 
+            value={modelSettings.radialStations} 
+            min={5} max={50} step={1} unit=""
+            onChange={(v) => onModelSettingsChange({ ...modelSettings, radialStations: v })} 
+          />
+        )}
+        <p className="text-xs text-slate-500 italic">
+          BEMT integrates blade elements and solves autorotation RPM from zero rotor torque. PCA-2 uses the NASA disk coefficient curves.
         </p>
       </div>
     </div>
@@ -107,9 +1139,10 @@ const ControlInput: React.FC<{
   max: number;
   step: number;
   unit: string;
+  disabled?: boolean;
   onChange: (val: number) => void;
-}> = ({ label, value, min, max, step, unit, onChange }) => (
-  <div className="flex flex-col gap-1">
+}> = ({ label, value, min, max, step, unit, disabled, onChange }) => (
+  <div className={clsx("flex flex-col gap-1", disabled && "opacity-50")}>
     <div className="flex justify-between text-sm text-slate-300">
       <span>{label}</span>
       <span className="font-mono text-indigo-300">{value} {unit}</span>
@@ -120,8 +1153,25 @@ const ControlInput: React.FC<{
       max={max}
       step={step}
       value={value}
+      disabled={disabled}
       onChange={(e) => onChange(parseFloat(e.target.value))}
-      className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-indigo-500 hover:accent-indigo-400"
+      className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-indigo-500 hover:accent-indigo-400 disabled:cursor-not-allowed"
     />
   </div>
-);
\ No newline at end of file
+);
+
+const OverrideToggle: React.FC<{
+  label: string;
+  checked: boolean;
+  onChange: (val: boolean) => void;
+}> = ({ label, checked, onChange }) => (
+  <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="accent-indigo-500"
+    />
+    {label}
+  </label>
+);
@@ -0,0 +1,181 @@
+
+import React, { useEffect, useState } from 'react';
+import { DesignParams, ModelSettings, SavedDesign, SimulationResult } from '../types';
+import { FolderOpen, Save, Copy, Trash2, Download, Upload, GitCompare } from 'lucide-react';
+import {
+  createSavedDesign,
+  deleteDesign,
+  duplicateDesign,
+  listDesigns,
+  parseDesignFile,
+  saveDesign,
+  toDesignDocument
+} from '../services/designLibrary';
+
+interface DesignLibraryProps {
+  params: DesignParams;
+  modelSettings: ModelSettings;
+  results: SimulationResult;
+  onLoad: (params: DesignParams, modelSettings: ModelSettings) => void;
+  onCompare: (design: SavedDesign) => void;
+}
+
+export const DesignLibrary: React.FC<DesignLibraryProps> = ({ params, modelSettings, results, onLoad, onCompare }) => {
+  const [designs, setDesigns] = useState<SavedDesign[]>([]);
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setDesigns(await listDesigns());
+    } catch (err: any) {
+      setError(err.message || 'Could not read the design library.');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleSave = async () => {
+    await saveDesign(createSavedDesign(name, notes, params, modelSettings, results));
+    setName('');
+    setNotes('');
+    refresh();
+  };
+
+  const handleLoad = (design: SavedDesign) => {
+    setWarnings([]);
+    setError(null);
+    onLoad(design.params, design.modelSettings);
+  };
+
+  const handleDuplicate = async (design: SavedDesign) => {
+    await duplicateDesign(design);
+    refresh();
+  };
+
+  const handleDelete = async (design: SavedDesign) => {
+    if (!window.confirm(`Delete "${design.name}"?`)) return;
+    await deleteDesign(design.id);
+    refresh();
+  };
+
+  const handleExport = (design: SavedDesign) => {
+    const blob = new Blob([JSON.stringify(toDesignDocument(design), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${design.name.replace(/[^a-z0-9-_]+/gi, '_')}.gyrokite.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { design, warnings } = parseDesignFile(await file.text());
+      await saveDesign(design);
+      setWarnings(warnings);
+      setError(null);
+      onLoad(design.params, design.modelSettings);
+      refresh();
+    } catch (err: any) {
+      setError(err.message || 'Could not read design file.');
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4 bg-slate-800 h-full overflow-y-auto border-r border-slate-700">
+      <h2 className="text-lg font-bold text-white flex items-center gap-2 border-b border-slate-700 pb-2">
+        <FolderOpen className="w-5 h-5 text-indigo-400" />
+        Design Library
+      </h2>
+
+      {/* Save current design */}
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={name}
+          placeholder="Design name"
+          onChange={(e) => setName(e.target.value)}
+          className="w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+        />
+        <textarea
+          value={notes}
+          placeholder="Notes"
+          rows={2}
+          onChange={(e) => setNotes(e.target.value)}
+          className="w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-indigo-500 resize-none"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={handleSave}
+            className="flex items-center justify-center gap-1 px-2 py-1.5 rounded-md text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-500 transition-colors"
+          >
+            <Save className="w-3 h-3" /> Save Current
+          </button>
+          <label className="flex items-center justify-center gap-1 px-2 py-1.5 rounded-md text-xs font-medium bg-slate-700 text-slate-300 border border-slate-600 hover:bg-slate-600 cursor-pointer transition-colors">
+            <Upload className="w-3 h-3" /> Import JSON
+            <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          </label>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-rose-400">{error}</p>}
+      {warnings.length > 0 && (
+        <div className="text-xs text-amber-300 bg-amber-900/20 border border-amber-800/50 rounded p-2 space-y-1">
+          <div className="font-semibold">Loaded with adjustments:</div>
+          {warnings.map((w, i) => <div key={i}>{w}</div>)}
+        </div>
+      )}
+
+      {/* Saved designs */}
+      <div className="space-y-2">
+        {designs.length === 0 && (
+          <p className="text-xs text-slate-500 italic">No saved designs yet.</p>
+        )}
+        {designs.map(design => (
+          <div key={design.id} className="bg-slate-900/50 border border-slate-700 rounded-md p-2 text-xs">
+            <button onClick={() => handleLoad(design)} className="w-full text-left group">
+              <div className="font-semibold text-slate-200 group-hover:text-indigo-300">{design.name}</div>
+              <div className="text-slate-500">{new Date(design.updatedAt).toLocaleString()}</div>
+              {design.notes && <div className="text-slate-400 mt-1 line-clamp-2">{design.notes}</div>}
+              {design.results && (
+                <div className="text-slate-500 font-mono mt-1">
+                  {design.results.rpm} RPM · {design.results.generatedThrust} N
+                </div>
+              )}
+            </button>
+            <div className="flex gap-1 mt-2 justify-end">
+              <IconButton title="Compare" onClick={() => onCompare(design)}><GitCompare className="w-3 h-3" /></IconButton>
+              <IconButton title="Duplicate" onClick={() => handleDuplicate(design)}><Copy className="w-3 h-3" /></IconButton>
+              <IconButton title="Export JSON" onClick={() => handleExport(design)}><Download className="w-3 h-3" /></IconButton>
+              <IconButton title="Delete" onClick={() => handleDelete(design)} danger><Trash2 className="w-3 h-3" /></IconButton>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const IconButton: React.FC<{
+  title: string;
+  onClick: () => void;
+  danger?: boolean;
+  children: React.ReactNode;
+}> = ({ title, onClick, danger, children }) => (
+  <button
+    title={title}
+    onClick={onClick}
+    className={`p-1 rounded bg-slate-700 text-slate-300 transition-colors ${danger ? 'hover:bg-rose-700' : 'hover:bg-slate-600'}`}
+  >
+    {children}
+  </button>
+);
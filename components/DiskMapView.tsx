@@ -0,0 +1,228 @@
+import React from 'react';
+import { DesignParams, SimulationResult } from '../types';
+import { AlertTriangle, Disc } from 'lucide-react';
+import { DiskMap, DiskMapPoint, solveDiskMap } from '../services/diskMapModel';
+
+interface DiskMapViewProps {
+  params: DesignParams;
+  results: SimulationResult;
+}
+
+interface Quantity {
+  key: string;
+  label: string;
+  unit: string;
+  value: (p: DiskMapPoint) => number;
+  format: (v: number) => string;
+  ceiling?: (map: DiskMap) => number; // top of the colour scale, where the extremes would swamp it
+}
+
+const QUANTITIES: Quantity[] = [
+  { key: 'velocity', label: 'Local Velocity', unit: 'm/s', value: p => p.velocity, format: v => v.toFixed(0) },
+  { key: 'mach', label: 'Mach Number', unit: '', value: p => p.mach, format: v => v.toFixed(3) },
+  {
+    key: 'aoa',
+    label: 'Angle of Attack',
+    unit: '°',
+    value: p => p.angleOfAttack,
+    format: v => v.toFixed(1),
+    // Sections near the reverse-flow circle see very high angles; keep the scale on the working range
+    ceiling: map => 1.5 * Math.max(...map.points.flat().map(p => p.stallAngle))
+  },
+  { key: 'reynolds', label: 'Reynolds Number', unit: '×10⁵', value: p => p.reynolds / 1e5, format: v => v.toFixed(1) },
+  { key: 'cl', label: 'Lift Coefficient', unit: '', value: p => p.liftCoefficient, format: v => v.toFixed(2) }
+];
+
+const RINGS = 12;
+const SECTORS = 48;
+const CONTOUR_LEVELS = 4;
+
+// Plot area, in SVG units
+const SIZE = 200;
+const CENTRE = SIZE / 2;
+const PLOT_RADIUS = 80;
+
+const REVERSE_FLOW_FILL = '#475569';
+const STALL_STROKE = '#f59e0b';
+const REVERSE_STROKE = '#f43f5e';
+
+// Blue through green to red as t goes from 0 to 1
+const heatColor = (t: number) => `hsl(${240 * (1 - Math.min(1, Math.max(0, t)))}, 85%, 50%)`;
+
+// Azimuth 0 downwind to the right, the advancing side (90°) at the top
+const toPlot = (span: number, azimuth: number): [number, number] => [
+  CENTRE + span * PLOT_RADIUS * Math.cos(azimuth),
+  CENTRE - span * PLOT_RADIUS * Math.sin(azimuth)
+];
+
+// Span and azimuth at a fractional grid position, azimuth wrapping once round
+const gridToPlot = (map: DiskMap, i: number, j: number): [number, number] => {
+  const i0 = Math.min(Math.floor(i), map.spans.length - 2);
+  const span = map.spans[i0] + (i - i0) * (map.spans[i0 + 1] - map.spans[i0]);
+  return toPlot(span, (2 * Math.PI * j) / map.azimuths.length);
+};
+
+/**
+ * Marching squares over the polar grid, wrapping in azimuth. Returns the
+ * segments where the field crosses zero, in fractional grid coordinates,
+ * skipping cells with a masked corner.
+ */
+const zeroContour = (field: number[][], masked?: boolean[][]): [number, number, number, number][] => {
+  const segments: [number, number, number, number][] = [];
+  const sectors = field[0].length;
+  for (let i = 0; i < field.length - 1; i++) {
+    for (let j = 0; j < sectors; j++) {
+      const jn = (j + 1) % sectors;
+      if (masked && (masked[i][j] || masked[i][jn] || masked[i + 1][jn] || masked[i + 1][j])) continue;
+      // Corners anticlockwise from (i, j), with the edges between them
+      const corners: [number, number, number][] = [
+        [i, j, field[i][j]],
+        [i, j + 1, field[i][jn]],
+        [i + 1, j + 1, field[i + 1][jn]],
+        [i + 1, j, field[i + 1][j]]
+      ];
+      const crossings: [number, number][] = [];
+      corners.forEach(([ia, ja, a], k) => {
+        const [ib, jb, b] = corners[(k + 1) % 4];
+        if ((a < 0) !== (b < 0)) {
+          const t = a / (a - b);
+          crossings.push([ia + t * (ib - ia), ja + t * (jb - ja)]);
+        }
+      });
+      for (let k = 0; k + 1 < crossings.length; k += 2) {
+        segments.push([crossings[k][0], crossings[k][1], crossings[k + 1][0], crossings[k + 1][1]]);
+      }
+    }
+  }
+  return segments;
+};
+
+const DiskPlot: React.FC<{ map: DiskMap; quantity: Quantity }> = ({ map, quantity }) => {
+  const values = map.points.map(row => row.map(quantity.value));
+  // Colour range over the sections in normal flow; reverse flow is greyed out
+  const normal = map.points.flatMap((row, i) => row.flatMap((p, j) => p.reverseFlow ? [] : [values[i][j]]));
+  const min = normal.length > 0 ? Math.min(...normal) : 0;
+  const max = normal.length > 0 ? Math.min(Math.max(...normal), quantity.ceiling?.(map) ?? Infinity) : 1;
+  const span = Math.max(max - min, 1e-9);
+  const sectors = map.azimuths.length;
+
+  const cells: React.ReactNode[] = [];
+  for (let i = 0; i < map.spans.length - 1; i++) {
+    for (let j = 0; j < sectors; j++) {
+      const jn = (j + 1) % sectors;
+      const corners = [map.points[i][j], map.points[i][jn], map.points[i + 1][jn], map.points[i + 1][j]];
+      const reversed = corners.filter(p => p.reverseFlow).length > 2;
+      const mean = (values[i][j] + values[i][jn] + values[i + 1][jn] + values[i + 1][j]) / 4;
+      const [x1, y1] = toPlot(map.spans[i], map.azimuths[j]);
+      const [x2, y2] = toPlot(map.spans[i], (2 * Math.PI * (j + 1)) / sectors);
+      const [x3, y3] = toPlot(map.spans[i + 1], (2 * Math.PI * (j + 1)) / sectors);
+      const [x4, y4] = toPlot(map.spans[i + 1], map.azimuths[j]);
+      const fill = reversed ? REVERSE_FLOW_FILL : heatColor((mean - min) / span);
+      cells.push(<path key={`${i}:${j}`} d={`M${x1},${y1} L${x2},${y2} L${x3},${y3} L${x4},${y4} Z`} fill={fill} stroke={fill} strokeWidth={0.3} />);
+    }
+  }
+
+  // Evenly spaced iso-lines between the ends of the colour range, left out of reverse flow
+  const reverse = map.points.map(row => row.map(p => p.reverseFlow));
+  const isolines = Array.from({ length: CONTOUR_LEVELS }, (_, k) => min + ((k + 1) * span) / (CONTOUR_LEVELS + 1))
+    .flatMap(level => zeroContour(values.map(row => row.map(v => v - level)), reverse));
+  // Stall boundary: the margin to each section's own stall angle, with reverse flow kept on the unstalled side
+  const stallLines = zeroContour(map.points.map(row => row.map(p => p.reverseFlow ? -1 : Math.abs(p.angleOfAttack) - p.stallAngle)));
+
+  const segment = ([i1, j1, i2, j2]: [number, number, number, number]) => {
+    const [x1, y1] = gridToPlot(map, i1, j1);
+    const [x2, y2] = gridToPlot(map, i2, j2);
+    return `M${x1},${y1} L${x2},${y2}`;
+  };
+
+  // Reverse-flow circle: diameter mu R on the retreating side
+  const reverseRadius = (map.reverseFlowDiameter / 2) * PLOT_RADIUS;
+
+  return (
+    <div className="bg-slate-900/50 rounded border border-slate-700 p-2 flex flex-col">
+      <div className="text-xs text-slate-400 mb-1">{quantity.label}</div>
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full">
+        {cells}
+        <circle cx={CENTRE} cy={CENTRE} r={map.spans[0] * PLOT_RADIUS} fill="#0f172a" stroke="#334155" />
+        <circle cx={CENTRE} cy={CENTRE} r={PLOT_RADIUS} fill="none" stroke="#334155" />
+        <path d={isolines.map(segment).join(' ')} stroke="#0f172a" strokeOpacity={0.5} strokeWidth={0.6} fill="none" />
+        <path d={stallLines.map(segment).join(' ')} stroke={STALL_STROKE} strokeWidth={1.8} fill="none" />
+        {reverseRadius > 0 && (
+          <circle cx={CENTRE} cy={CENTRE + reverseRadius} r={reverseRadius} fill="none" stroke={REVERSE_STROKE} strokeWidth={1.2} strokeDasharray="3 2" />
+        )}
+        <text x={SIZE - 4} y={CENTRE - 3} fill="#94a3b8" fontSize={8} textAnchor="end">0°</text>
+        <text x={CENTRE} y={9} fill="#94a3b8" fontSize={8} textAnchor="middle">90° adv</text>
+        <text x={CENTRE} y={SIZE - 2} fill="#94a3b8" fontSize={8} textAnchor="middle">270° ret</text>
+      </svg>
+      <div className="h-1.5 rounded mt-1" style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(heatColor).join(', ')})` }} />
+      <div className="flex justify-between font-mono text-[10px] text-slate-400 mt-0.5">
+        <span>{quantity.format(min)}</span>
+        <span>{quantity.unit}</span>
+        <span>{quantity.format(max)}</span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Blade operating conditions over the whole disk, seen from above with the
+ * wind blowing left to right: local velocity, Mach, angle of attack,
+ * Reynolds number and lift coefficient by azimuth and radius. Amber outlines
+ * where sections pass their stall angle, dashed red the reverse-flow circle.
+ */
+export const DiskMapView: React.FC<DiskMapViewProps> = ({ params, results }) => {
+  const map = React.useMemo(() => solveDiskMap(params, results, RINGS, SECTORS), [params, results]);
+  const peak = map.peakAngleOfAttack;
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col">
+      <h3 className="text-slate-300 font-semibold mb-4 text-sm flex items-center gap-2">
+        <Disc className="w-4 h-4 text-indigo-400" />
+        Rotor Disk Maps
+        <span className="text-slate-500 font-normal text-xs ml-auto">Wind →</span>
+      </h3>
+
+      {results.rpm === 0 ? (
+        <div className="text-rose-400 flex items-center gap-1 text-xs">
+          <AlertTriangle className="w-3 h-3" /> Rotor not spinning
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-3">
+            {QUANTITIES.map(quantity => <DiskPlot key={quantity.key} map={map} quantity={quantity} />)}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-4 text-xs">
+            <div className="bg-slate-900/50 p-3 rounded border border-slate-700">
+              <div className="text-slate-400">Stalled Area</div>
+              <div className={map.stalledFraction > 0 ? "font-mono text-lg text-amber-400" : "font-mono text-lg text-white"}>
+                {(map.stalledFraction * 100).toFixed(1)}%
+              </div>
+            </div>
+            <div className="bg-slate-900/50 p-3 rounded border border-slate-700">
+              <div className="text-slate-400">Reverse Flow Area</div>
+              <div className="font-mono text-lg text-white">{(map.reverseFlowFraction * 100).toFixed(1)}%</div>
+              <div className="text-slate-500">circle to r/R {map.reverseFlowDiameter.toFixed(2)}</div>
+            </div>
+            <div className="bg-slate-900/50 p-3 rounded border border-slate-700">
+              <div className="text-slate-400">Peak Angle of Attack</div>
+              <div className="font-mono text-lg text-white">{peak.value.toFixed(1)}°</div>
+              <div className="text-slate-500">
+                at {((peak.azimuth * 180) / Math.PI).toFixed(0)}°, r/R {peak.span.toFixed(2)}
+              </div>
+            </div>
+            <div className="bg-slate-900/50 p-3 rounded border border-slate-700">
+              <div className="text-slate-400">Advancing Tip Mach</div>
+              <div className="font-mono text-lg text-white">
+                {Math.max(...map.points[map.points.length - 1].map(p => p.mach)).toFixed(3)}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+      <p className="text-xs text-slate-500 italic mt-2">
+        Sections are evaluated in the skewed-wake inflow without flapping; each is checked against the stall angle of its own Reynolds number. Reverse flow is greyed out.
+      </p>
+    </div>
+  );
+};
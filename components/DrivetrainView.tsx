@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { DesignParams, DrivetrainMode, ModelSettings, SimulationResult } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { AlertTriangle, Cog } from 'lucide-react';
+import { DRIVETRAIN_MODE_INFO } from '../services/drivetrainModel';
+import { findOptimumLoading, PerformancePoint } from '../services/yieldModel';
+
+interface DrivetrainViewProps {
+  params: DesignParams;
+  modelSettings: ModelSettings;
+  results: SimulationResult;
+  curve: PerformancePoint[]; // the design's steady performance against wind
+}
+
+export const DrivetrainView: React.FC<DrivetrainViewProps> = ({ params, modelSettings, results, curve }) => {
+  const { drivetrain } = results;
+  const isPumping = drivetrain.mode === DrivetrainMode.PUMPING;
+
+  const optimum = useMemo(() => findOptimumLoading(params, modelSettings), [params, modelSettings]);
+
+  const currentLoading = isPumping ? modelSettings.drivetrain.reelOutSpeed : modelSettings.drivetrain.gearRatio;
+  const loadingLabel = isPumping ? 'Best Reel-out Speed' : 'Best Gear Ratio';
+  const loadingUnit = isPumping ? ' m/s' : ':1';
+
+  const warning = drivetrain.electricalPower < 0
+    ? 'Reel-in takes more energy than reel-out generates'
+    : !drivetrain.cutIn && results.rpm > 0
+      ? (isPumping ? 'Winding losses exceed the generated voltage' : 'Generator voltage below the battery: not charging')
+      : null;
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col">
+      <h3 className="text-slate-300 font-semibold text-sm mb-3 flex items-center gap-2">
+        <Cog className="w-4 h-4 text-indigo-400" />
+        Drivetrain · {DRIVETRAIN_MODE_INFO[drivetrain.mode].name}
+      </h3>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="flex flex-col gap-2 text-xs">
+          <div className="grid grid-cols-[1fr_auto] gap-y-1">
+            <span className="text-slate-400">{isPumping ? 'Reel-out Power' : 'Shaft Power'}</span>
+            <span className="font-mono text-right text-white">{drivetrain.shaftPower} W</span>
+            {isPumping && (
+              <>
+                <span className="text-slate-400">Reel-out Tension</span>
+                <span className="font-mono text-right text-white">{drivetrain.lineTension} N</span>
+              </>
+            )}
+            <span className="text-slate-400">Generator</span>
+            <span className="font-mono text-right text-white">{drivetrain.generatorRpm} rpm · {drivetrain.generatorTorque} N·m</span>
+            <span className="text-slate-400">Charge Current</span>
+            <span className="font-mono text-right text-white">{drivetrain.current} A</span>
+            <span className="text-slate-400">{isPumping ? 'Cycle Power' : 'Electrical Power'}</span>
+            <span className="font-mono text-right text-emerald-400">{drivetrain.electricalPower} W</span>
+            <span className="text-slate-400">Efficiency</span>
+            <span className="font-mono text-right text-white">{(drivetrain.efficiency * 100).toFixed(1)}%</span>
+          </div>
+
+          <div className="bg-slate-900/50 p-3 rounded border border-slate-700 grid grid-cols-[1fr_auto] gap-y-1">
+            <span className="text-slate-400">{loadingLabel}</span>
+            <span className="font-mono text-right text-indigo-300">{optimum.loading}{loadingUnit}</span>
+            <span className="text-slate-400">Power There</span>
+            <span className="font-mono text-right text-emerald-400">{optimum.electricalPower} W</span>
+            {!isPumping && (
+              <>
+                <span className="text-slate-400">Rotor RPM There</span>
+                <span className="font-mono text-right text-white">{optimum.rpm}</span>
+              </>
+            )}
+            <span className="text-slate-400">Current Setting</span>
+            <span className="font-mono text-right text-white">{currentLoading}{loadingUnit}</span>
+          </div>
+
+          {warning && (
+            <div className="text-rose-400 flex items-center gap-1 text-xs">
+              <AlertTriangle className="w-3 h-3" /> {warning}
+            </div>
+          )}
+          <p className="text-slate-500 italic">{DRIVETRAIN_MODE_INFO[drivetrain.mode].description}</p>
+        </div>
+
+        {/* Electrical and input power against wind */}
+        <div className="lg:col-span-2 min-h-[240px]">
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={curve}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="windSpeed" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" label={{ value: 'Wind (m/s)', position: 'insideBottom', offset: -5 }} />
+              <YAxis stroke="#94a3b8" label={{ value: 'Power (W)', angle: -90, position: 'insideLeft' }} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <Line type="monotone" dataKey="shaftPower" name={isPumping ? 'Reel-out' : 'Shaft'} stroke="#64748b" strokeWidth={1.5} strokeDasharray="5 3" dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="power" name="Electrical" stroke="#10b981" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <ReferenceLine x={params.windSpeed} stroke="#6366f1" strokeDasharray="3 3" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import { DrivetrainMode, LineTrainSolution, ModelSettings } from '../types';
+import { AlertTriangle, Layers } from 'lucide-react';
+import clsx from 'clsx';
+import { DESIGN_ROTOR_ID } from '../services/lineTrainModel';
+
+interface LineTrainViewProps {
+  train: LineTrainSolution;
+  modelSettings: ModelSettings;
+}
+
+/**
+ * Every rotor on the line with the load it flies in and what it adds, from
+ * the anchor up to the kite.
+ */
+export const LineTrainView: React.FC<LineTrainViewProps> = ({ train, modelSettings }) => {
+  const isPumping = modelSettings.drivetrain.mode === DrivetrainMode.PUMPING;
+  const stopped = train.rotors.filter(r => r.result.rpm === 0);
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col">
+      <h3 className="text-slate-300 font-semibold text-sm mb-3 flex items-center gap-2">
+        <Layers className="w-4 h-4 text-indigo-400" />
+        Line Train · {train.rotors.length} Rotors
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-xs">
+        <div className="bg-slate-900/50 p-3 rounded border border-slate-700">
+          <div className="text-slate-400">Added Tension</div>
+          <div className="font-mono text-lg text-white">{train.totalThrust} N</div>
+        </div>
+        <div className="bg-slate-900/50 p-3 rounded border border-slate-700">
+          <div className="text-slate-400">{isPumping ? 'Winch Cycle Power' : 'Electrical Power'}</div>
+          <div className="font-mono text-lg text-emerald-400">{train.totalPower} W</div>
+        </div>
+        <div className="bg-slate-900/50 p-3 rounded border border-slate-700">
+          <div className="text-slate-400">Anchor Load</div>
+          <div className="font-mono text-lg text-white">{train.anchorTension} N</div>
+          <div className="text-slate-500">at {train.anchorAngle}°</div>
+        </div>
+        <div className="bg-slate-900/50 p-3 rounded border border-slate-700">
+          <div className="text-slate-400">Kite Pull</div>
+          <div className="font-mono text-lg text-white">{train.kite.pull} N</div>
+          <div className="text-slate-500">line weight {train.lineWeight} N</div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-400 border-b border-slate-700">
+              <th className="text-left font-medium py-1 pr-2">Rotor</th>
+              <th className="text-right font-medium py-1 px-2">Position</th>
+              <th className="text-right font-medium py-1 px-2">Height</th>
+              <th className="text-right font-medium py-1 px-2">Wind</th>
+              <th className="text-right font-medium py-1 px-2">Wake Loss</th>
+              <th className="text-right font-medium py-1 px-2">Line Above</th>
+              <th className="text-right font-medium py-1 px-2">RPM</th>
+              <th className="text-right font-medium py-1 px-2">Added Tension</th>
+              {!isPumping && <th className="text-right font-medium py-1 px-2">Power</th>}
+              <th className="text-right font-medium py-1 pl-2">Stability</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...train.rotors].reverse().map(rotor => (
+              <tr key={rotor.id} className={clsx("border-b border-slate-700/50", rotor.id === DESIGN_ROTOR_ID ? "text-indigo-200" : "text-slate-300")}>
+                <td className="py-1 pr-2">{rotor.name}</td>
+                <td className="text-right font-mono py-1 px-2">{rotor.position} m</td>
+                <td className="text-right font-mono py-1 px-2">{rotor.y.toFixed(1)} m</td>
+                <td className="text-right font-mono py-1 px-2">{rotor.result.hubWindSpeed} m/s</td>
+                <td className={clsx("text-right font-mono py-1 px-2", rotor.wakeDeficit > 0.05 && "text-amber-400")}>
+                  {(rotor.wakeDeficit * 100).toFixed(1)}%
+                </td>
+                <td className="text-right font-mono py-1 px-2">{rotor.lineTension} N · {rotor.lineAngle}°</td>
+                <td className="text-right font-mono py-1 px-2">{rotor.result.rpm}</td>
+                <td className="text-right font-mono py-1 px-2">{rotor.result.generatedThrust} N</td>
+                {!isPumping && <td className="text-right font-mono py-1 px-2 text-emerald-400">{rotor.result.powerOutput} W</td>}
+                <td className={clsx("text-right font-mono py-1 pl-2", !rotor.result.stability.stable && "text-rose-400")}>
+                  {rotor.result.stabilityScore}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {stopped.length > 0 && (
+        <div className="text-rose-400 flex items-center gap-1 text-xs mt-3">
+          <AlertTriangle className="w-3 h-3" /> Not spinning: {stopped.map(r => r.name).join(', ')}
+        </div>
+      )}
+      <p className="text-xs text-slate-500 italic mt-2">
+        Listed from the kite down. Each rotor flies in the line tension and angle above it and adds its lift, drag and weight to the line below.
+      </p>
+    </div>
+  );
+};
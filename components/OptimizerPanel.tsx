@@ -0,0 +1,347 @@
+
+import React, { useState } from 'react';
+import {
+  DesignParams,
+  ModelSettings,
+  OptimizationObjective,
+  OptimizationProblem,
+  OptimizationResult,
+  OptimizerMethod,
+  ParamBound
+} from '../types';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Target, Play, Check } from 'lucide-react';
+import clsx from 'clsx';
+import { runOptimization, DEFAULT_OPTIMIZATION_PROBLEM, OBJECTIVE_INFO } from '../services/optimizer';
+
+interface OptimizerPanelProps {
+  params: DesignParams;
+  modelSettings: ModelSettings;
+  onApply: (params: DesignParams) => void;
+}
+
+export const PARAM_LABELS: Record<ParamBound['key'], string> = {
+  bladeLength: 'Blade Length (m)',
+  bladeChord: 'Blade Chord (m)',
+  bladePitch: 'Blade Pitch (°)',
+  bladeCount: 'Blade Count',
+  rotorMass: 'Rotor Mass (kg)',
+  lineTension: 'Line Tension (N)',
+  lineAngle: 'Line Elevation (°)',
+  windSpeed: 'Wind Speed (m/s)',
+  hubDiameter: 'Hub Diameter (m)',
+  rotorTilt: 'Rotor Tilt (°)'
+};
+
+const METHOD_OPTIONS: { value: OptimizerMethod; label: string }[] = [
+  { value: OptimizerMethod.GENETIC, label: 'Genetic (NSGA-II)' },
+  { value: OptimizerMethod.NELDER_MEAD, label: 'Nelder-Mead' }
+];
+
+const MAX_ROWS = 25;
+
+export const OptimizerPanel: React.FC<OptimizerPanelProps> = ({ params, modelSettings, onApply }) => {
+  const [problem, setProblem] = useState<OptimizationProblem>(DEFAULT_OPTIMIZATION_PROBLEM);
+  const [result, setResult] = useState<OptimizationResult | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const running = progress !== null;
+
+  const handleRun = async () => {
+    setError(null);
+    setProgress(0);
+    try {
+      setResult(await runOptimization(params, modelSettings, problem, setProgress));
+    } catch (err: any) {
+      setError(err.message || 'Optimisation failed.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const toggleObjective = (objective: OptimizationObjective) => {
+    const objectives = problem.objectives.includes(objective)
+      ? problem.objectives.filter(o => o !== objective)
+      : [...problem.objectives, objective];
+    setProblem({ ...problem, objectives });
+  };
+
+  const updateBound = (index: number, changes: Partial<ParamBound>) => {
+    setProblem({ ...problem, bounds: problem.bounds.map((b, i) => (i === index ? { ...b, ...changes } : b)) });
+  };
+
+  // Plot the first two objectives against each other (or the first against RPM)
+  const [xObjective, yObjective] = problem.objectives;
+  const front = result?.paretoFront ?? [];
+  const chartData = front.map(c => ({
+    x: xObjective ? c.objectives[xObjective] : 0,
+    y: yObjective ? c.objectives[yObjective] : c.rpm
+  }));
+
+  return (
+    <div className="h-full overflow-y-auto space-y-4 pr-2">
+      <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-slate-300 font-semibold text-sm flex items-center gap-2">
+            <Target className="w-4 h-4 text-indigo-400" />
+            Design Optimizer
+          </h3>
+          <button
+            onClick={handleRun}
+            disabled={running}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-md text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Play className="w-3 h-3" /> {running ? `Running ${Math.round((progress ?? 0) * 100)}%` : 'Run Optimizer'}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 text-xs">
+          {/* Objectives, method and constraints */}
+          <div className="space-y-3">
+            <div className="text-slate-400 uppercase font-semibold tracking-wider">Objectives</div>
+            {(Object.keys(OBJECTIVE_INFO) as OptimizationObjective[]).map(objective => (
+              <label key={objective} className="flex items-center gap-2 text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={problem.objectives.includes(objective)}
+                  onChange={() => toggleObjective(objective)}
+                  className="accent-indigo-500"
+                />
+                {OBJECTIVE_INFO[objective].maximise ? 'Maximise' : 'Minimise'} {OBJECTIVE_INFO[objective].label}
+              </label>
+            ))}
+
+            <div className="text-slate-400 uppercase font-semibold tracking-wider pt-2">Method</div>
+            <div className="grid grid-cols-2 gap-2">
+              {METHOD_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setProblem({ ...problem, method: option.value })}
+                  className={clsx(
+                    "px-2 py-1.5 rounded-md font-medium transition-colors border",
+                    problem.method === option.value
+                      ? "bg-indigo-600 text-white border-indigo-500"
+                      : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <NumberField
+              label={problem.method === OptimizerMethod.GENETIC ? 'Population' : 'Simplex runs × 4'}
+              value={problem.populationSize}
+              step={4}
+              onChange={(v) => setProblem({ ...problem, populationSize: Math.max(4, Math.round(v)) })}
+            />
+            <NumberField
+              label={problem.method === OptimizerMethod.GENETIC ? 'Generations' : 'Iterations per run'}
+              value={problem.iterations}
+              step={5}
+              onChange={(v) => setProblem({ ...problem, iterations: Math.max(1, Math.round(v)) })}
+            />
+            <NumberField
+              label="Seed"
+              value={problem.seed}
+              step={1}
+              onChange={(v) => setProblem({ ...problem, seed: Math.round(v) })}
+            />
+
+            <div className="text-slate-400 uppercase font-semibold tracking-wider pt-2">Constraints</div>
+            <OptionalField
+              label="Stability Score ≥"
+              value={problem.constraints.minStabilityScore}
+              fallback={60}
+              onChange={(v) => setProblem({ ...problem, constraints: { ...problem.constraints, minStabilityScore: v } })}
+            />
+            <OptionalField
+              label="Tip Speed ≤ (m/s)"
+              value={problem.constraints.maxTipSpeed}
+              fallback={80}
+              onChange={(v) => setProblem({ ...problem, constraints: { ...problem.constraints, maxTipSpeed: v } })}
+            />
+            <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={problem.constraints.noReverseFlow}
+                onChange={(e) => setProblem({ ...problem, constraints: { ...problem.constraints, noReverseFlow: e.target.checked } })}
+                className="accent-indigo-500"
+              />
+              No reverse flow at 75% span
+            </label>
+          </div>
+
+          {/* Parameter bounds */}
+          <div className="lg:col-span-2">
+            <div className="text-slate-400 uppercase font-semibold tracking-wider mb-2">Parameter Bounds</div>
+            <div className="grid grid-cols-[auto_1fr_80px_80px_70px] gap-x-2 gap-y-1 items-center">
+              <span></span>
+              <span className="text-slate-500">Parameter</span>
+              <span className="text-slate-500">Min</span>
+              <span className="text-slate-500">Max</span>
+              <span className="text-slate-500 text-right">Current</span>
+              {problem.bounds.map((bound, i) => (
+                <React.Fragment key={bound.key}>
+                  <input
+                    type="checkbox"
+                    checked={bound.enabled}
+                    onChange={(e) => updateBound(i, { enabled: e.target.checked })}
+                    className="accent-indigo-500"
+                  />
+                  <span className={bound.enabled ? 'text-slate-300' : 'text-slate-500'}>{PARAM_LABELS[bound.key]}</span>
+                  <input
+                    type="number"
+                    value={bound.min}
+                    disabled={!bound.enabled}
+                    onChange={(e) => updateBound(i, { min: parseFloat(e.target.value) || 0 })}
+                    className="w-full bg-slate-700 border border-slate-600 rounded px-1 py-0.5 font-mono text-slate-200 disabled:opacity-40"
+                  />
+                  <input
+                    type="number"
+                    value={bound.max}
+                    disabled={!bound.enabled}
+                    onChange={(e) => updateBound(i, { max: parseFloat(e.target.value) || 0 })}
+                    className="w-full bg-slate-700 border border-slate-600 rounded px-1 py-0.5 font-mono text-slate-200 disabled:opacity-40"
+                  />
+                  <span className="text-slate-400 font-mono text-right">{parseFloat(params[bound.key].toFixed(3))}</span>
+                </React.Fragment>
+              ))}
+            </div>
+            {(!modelSettings.kite.overrideLineAngle || !modelSettings.kite.overrideLineTension) && (
+              <p className="text-slate-500 italic mt-2">
+                Line tension and elevation follow the kite model unless overridden in the design controls
+                or optimised here, which overrides the kite model for the run.
+              </p>
+            )}
+            {error && <p className="text-rose-400 mt-2">{error}</p>}
+          </div>
+        </div>
+      </div>
+
+      {/* Pareto front */}
+      {result && (
+        <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+          <h3 className="text-slate-300 font-semibold text-sm mb-1">Pareto Front</h3>
+          <p className="text-xs text-slate-500 mb-4">
+            {front.length} non-dominated designs from {result.evaluations} evaluations ({result.feasibleCount} feasible).
+          </p>
+
+          {front.length === 0 ? (
+            <p className="text-xs text-rose-400">No design met every constraint. Relax the constraints or widen the bounds.</p>
+          ) : (
+            <>
+              <div className="h-[220px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                    <XAxis
+                      dataKey="x" type="number" stroke="#94a3b8" domain={['auto', 'auto']}
+                      name={xObjective ? OBJECTIVE_INFO[xObjective].label : ''}
+                      label={{ value: xObjective ? `${OBJECTIVE_INFO[xObjective].label} (${OBJECTIVE_INFO[xObjective].unit})` : '', position: 'insideBottom', offset: -5 }}
+                    />
+                    <YAxis
+                      dataKey="y" type="number" stroke="#94a3b8" domain={['auto', 'auto']}
+                      name={yObjective ? OBJECTIVE_INFO[yObjective].label : 'RPM'}
+                      label={{ value: yObjective ? `${OBJECTIVE_INFO[yObjective].label} (${OBJECTIVE_INFO[yObjective].unit})` : 'RPM', angle: -90, position: 'insideLeft' }}
+                    />
+                    <Tooltip contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }} />
+                    <Scatter data={chartData} fill="#818cf8" isAnimationActive={false} />
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="overflow-x-auto mt-4">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-slate-500 text-left">
+                      {problem.bounds.filter(b => b.enabled).map(b => (
+                        <th key={b.key} className="font-normal pr-2">{PARAM_LABELS[b.key]}</th>
+                      ))}
+                      <th className="font-normal pr-2">Thrust</th>
+                      <th className="font-normal pr-2">Power</th>
+                      <th className="font-normal pr-2">Anchor</th>
+                      <th className="font-normal pr-2">Stability</th>
+                      <th className="font-normal pr-2">Tip</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {front.slice(0, MAX_ROWS).map((c, i) => (
+                      <tr key={i} className="border-t border-slate-700/50 font-mono text-slate-300">
+                        {problem.bounds.filter(b => b.enabled).map(b => (
+                          <td key={b.key} className="pr-2 py-1">{c.params[b.key].toFixed(2)}</td>
+                        ))}
+                        <td className="pr-2 text-emerald-400">{c.generatedThrust} N</td>
+                        <td className="pr-2">{c.powerOutput} W</td>
+                        <td className="pr-2 text-amber-400">{c.anchorTension} N</td>
+                        <td className="pr-2">{c.stabilityScore}</td>
+                        <td className="pr-2">{c.tipSpeed}</td>
+                        <td className="text-right">
+                          <button
+                            onClick={() => onApply(c.params)}
+                            className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-slate-700 text-slate-200 hover:bg-indigo-600 transition-colors font-sans"
+                          >
+                            <Check className="w-3 h-3" /> Apply
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {front.length > MAX_ROWS && (
+                  <p className="text-xs text-slate-500 mt-2">Showing {MAX_ROWS} of {front.length} designs.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  step: number;
+  onChange: (val: number) => void;
+}> = ({ label, value, step, onChange }) => (
+  <div className="flex items-center justify-between gap-2 text-slate-300">
+    <span>{label}</span>
+    <input
+      type="number"
+      value={value}
+      step={step}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      className="w-20 bg-slate-700 border border-slate-600 rounded px-1 py-0.5 font-mono text-slate-200"
+    />
+  </div>
+);
+
+// Numeric constraint that can be switched off (null)
+const OptionalField: React.FC<{
+  label: string;
+  value: number | null;
+  fallback: number;
+  onChange: (val: number | null) => void;
+}> = ({ label, value, fallback, onChange }) => (
+  <div className="flex items-center justify-between gap-2 text-slate-300">
+    <label className="flex items-center gap-2 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={value !== null}
+        onChange={(e) => onChange(e.target.checked ? fallback : null)}
+        className="accent-indigo-500"
+      />
+      {label}
+    </label>
+    <input
+      type="number"
+      value={value ?? fallback}
+      disabled={value === null}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      className="w-20 bg-slate-700 border border-slate-600 rounded px-1 py-0.5 font-mono text-slate-200 disabled:opacity-40"
+    />
+  </div>
+);
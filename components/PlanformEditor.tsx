@@ -0,0 +1,182 @@
+import React, { useRef, useState } from 'react';
+import { BladePlanform, DesignParams, PlanformControlPoint, PlanformDistribution } from '../types';
+import { Plus, Trash2 } from 'lucide-react';
+import { normalizeControlPoints, planformProperties, planformSection } from '../services/planformModel';
+
+interface PlanformEditorProps {
+  params: DesignParams;
+  onChange: (planform: BladePlanform) => void;
+}
+
+// Drawing area, in SVG units
+const WIDTH = 280;
+const PAD = 10;
+const CHORD_TOP = 8;
+const CHORD_HEIGHT = 90;
+const TWIST_TOP = 112;
+const TWIST_HEIGHT = 60;
+const TWIST_RANGE = 20; // degrees either side of the centre line
+const OUTLINE_STEPS = 48;
+
+const spanToX = (span: number) => PAD + span * (WIDTH - 2 * PAD);
+const xToSpan = (x: number) => (x - PAD) / (WIDTH - 2 * PAD);
+const twistToY = (twist: number) => TWIST_TOP + TWIST_HEIGHT / 2 - (twist / TWIST_RANGE) * (TWIST_HEIGHT / 2);
+const yToTwist = (y: number) => ((TWIST_TOP + TWIST_HEIGHT / 2 - y) / (TWIST_HEIGHT / 2)) * TWIST_RANGE;
+
+/**
+ * Top view of the blade (quarter-chord line straight, leading edge up) over
+ * its twist distribution. In spline mode the control points can be dragged:
+ * the chord handles sit on the trailing edge, the twist handles on the curve.
+ */
+export const PlanformEditor: React.FC<PlanformEditorProps> = ({ params, onChange }) => {
+  const { planform } = params;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<{ index: number; kind: 'chord' | 'twist' } | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const editable = planform.distribution === PlanformDistribution.SPLINE;
+
+  // Chord as a fraction of the root chord, twist relative to bladePitch
+  const samples = Array.from({ length: OUTLINE_STEPS + 1 }, (_, i) => {
+    const span = planform.rootCutout + ((1 - planform.rootCutout) * i) / OUTLINE_STEPS;
+    const section = planformSection(planform, params.bladeLength, 1, 0, span);
+    return { span, chord: section.chord, twist: section.pitch };
+  });
+  const maxChord = Math.max(1.5, ...samples.map(s => s.chord * 1.1), ...planform.controlPoints.map(p => p.chord * 1.1));
+  const chordScale = CHORD_HEIGHT / maxChord;
+  const axisY = CHORD_TOP + 0.25 * CHORD_HEIGHT;
+  const leadingY = (chord: number) => axisY - 0.25 * chord * chordScale;
+  const trailingY = (chord: number) => axisY + 0.75 * chord * chordScale;
+
+  const outline = [
+    ...samples.map(s => `${spanToX(s.span)},${leadingY(s.chord)}`),
+    ...[...samples].reverse().map(s => `${spanToX(s.span)},${trailingY(s.chord)}`)
+  ].join(' ');
+  const twistPath = samples.map(s => `${spanToX(s.span)},${twistToY(s.twist)}`).join(' ');
+  const properties = planformProperties(params);
+
+  const updatePoints = (points: PlanformControlPoint[]) => {
+    onChange({ ...planform, controlPoints: normalizeControlPoints(points, planform.rootCutout) });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag || !svgRef.current) return;
+    const box = svgRef.current.getBoundingClientRect();
+    const x = ((e.clientX - box.left) / box.width) * WIDTH;
+    const y = ((e.clientY - box.top) / box.height) * (TWIST_TOP + TWIST_HEIGHT + 8);
+    const points = planform.controlPoints.map(p => ({ ...p }));
+    const point = points[drag.index];
+    const pinned = drag.index === 0 || drag.index === points.length - 1;
+
+    if (drag.kind === 'chord') {
+      point.chord = parseFloat(Math.max(0.05, (y - axisY) / (0.75 * chordScale)).toFixed(3));
+      if (!pinned) {
+        // Stay between the neighbours so dragging never reorders the points
+        const lo = points[drag.index - 1].span + 0.01;
+        const hi = points[drag.index + 1].span - 0.01;
+        point.span = parseFloat(Math.min(hi, Math.max(lo, xToSpan(x))).toFixed(3));
+      }
+    } else {
+      point.twist = parseFloat(Math.max(-TWIST_RANGE, Math.min(TWIST_RANGE, yToTwist(y))).toFixed(1));
+    }
+    updatePoints(points);
+  };
+
+  // New point in the middle of the widest gap, on the current curve
+  const addPoint = () => {
+    const points = planform.controlPoints;
+    let gap = 0;
+    points.slice(1).forEach((p, i) => {
+      if (p.span - points[i].span > points[gap + 1].span - points[gap].span) gap = i;
+    });
+    const span = (points[gap].span + points[gap + 1].span) / 2;
+    const section = planformSection(planform, 0, 1, 0, span);
+    updatePoints([...points, { span: parseFloat(span.toFixed(3)), chord: parseFloat(section.chord.toFixed(3)), twist: parseFloat(section.pitch.toFixed(1)) }]);
+    setSelected(null);
+  };
+
+  const removePoint = () => {
+    if (selected === null || selected === 0 || selected === planform.controlPoints.length - 1) return;
+    updatePoints(planform.controlPoints.filter((_, i) => i !== selected));
+    setSelected(null);
+  };
+
+  return (
+    <div className="bg-slate-900/50 p-2 rounded border border-slate-700 text-xs space-y-2">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${TWIST_TOP + TWIST_HEIGHT + 8}`}
+        className="w-full touch-none select-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDrag(null)}
+        onPointerLeave={() => setDrag(null)}
+      >
+        {/* Root shank inboard of the aerofoil */}
+        <line x1={spanToX(0)} y1={axisY} x2={spanToX(planform.rootCutout)} y2={axisY} stroke="#64748b" strokeWidth={3} />
+        <polygon points={outline} fill="#38bdf8" fillOpacity={0.25} stroke="#38bdf8" strokeWidth={1} />
+        <line x1={spanToX(0)} y1={axisY} x2={spanToX(1)} y2={axisY} stroke="#475569" strokeDasharray="2 2" />
+        <text x={PAD} y={CHORD_TOP + CHORD_HEIGHT} fill="#94a3b8" fontSize={8}>chord</text>
+
+        {/* Twist, zero line dashed */}
+        <rect x={PAD} y={TWIST_TOP} width={WIDTH - 2 * PAD} height={TWIST_HEIGHT} fill="none" stroke="#334155" />
+        <line x1={PAD} y1={twistToY(0)} x2={WIDTH - PAD} y2={twistToY(0)} stroke="#475569" strokeDasharray="2 2" />
+        <polyline points={twistPath} fill="none" stroke="#f59e0b" strokeWidth={1.5} />
+        <text x={PAD + 2} y={TWIST_TOP + 9} fill="#94a3b8" fontSize={8}>twist ±{TWIST_RANGE}°</text>
+
+        {editable && planform.controlPoints.map((p, i) => (
+          <g key={i}>
+            <circle
+              cx={spanToX(p.span)}
+              cy={trailingY(p.chord)}
+              r={4}
+              fill={selected === i ? '#f8fafc' : '#6366f1'}
+              stroke="white"
+              className="cursor-move"
+              onPointerDown={(e) => { e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId); setDrag({ index: i, kind: 'chord' }); setSelected(i); }}
+            />
+            <circle
+              cx={spanToX(p.span)}
+              cy={twistToY(p.twist)}
+              r={3.5}
+              fill={selected === i ? '#f8fafc' : '#f59e0b'}
+              stroke="white"
+              className="cursor-ns-resize"
+              onPointerDown={(e) => { e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId); setDrag({ index: i, kind: 'twist' }); setSelected(i); }}
+            />
+          </g>
+        ))}
+      </svg>
+
+      {editable && (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={addPoint}
+            className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-700 text-slate-300 border border-slate-600 hover:bg-slate-600 transition-colors"
+          >
+            <Plus className="w-3 h-3" /> Point
+          </button>
+          <button
+            onClick={removePoint}
+            disabled={selected === null || selected === 0 || selected === planform.controlPoints.length - 1}
+            className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-700 text-slate-300 border border-slate-600 hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="w-3 h-3" /> Remove
+          </button>
+          {selected !== null && planform.controlPoints[selected] && (
+            <span className="font-mono text-slate-400 ml-auto">
+              r {planform.controlPoints[selected].span.toFixed(2)} · c {planform.controlPoints[selected].chord.toFixed(2)} · θ {planform.controlPoints[selected].twist.toFixed(1)}°
+            </span>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-y-1">
+        <span className="text-slate-400">Tip Chord</span>
+        <span className="font-mono text-right text-slate-300">{properties.tipChord.toFixed(3)} m</span>
+        <span className="text-slate-400">Mean Chord</span>
+        <span className="font-mono text-right text-slate-300">{properties.meanChord.toFixed(3)} m</span>
+        <span className="text-slate-400">Blade Area</span>
+        <span className="font-mono text-right text-indigo-300">{properties.area.toFixed(3)} m²</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,340 @@
+
+import React, { useMemo, useRef, useState } from 'react';
+import { DesignParams, ModelSettings, NumericDesignParam, SimulationResult, SweepAxis, SweepResult, SweepSpec } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Grid3x3, Play, Square, Download } from 'lucide-react';
+import clsx from 'clsx';
+import {
+  contourSegments,
+  countSweepPoints,
+  DEFAULT_SWEEP_SPEC,
+  listMetrics,
+  MAX_SWEEP_POINTS,
+  runSweepInWorker,
+  sweepToCsv
+} from '../services/sweepEngine';
+import { PARAM_LABELS } from './OptimizerPanel';
+
+interface SweepPanelProps {
+  params: DesignParams;
+  modelSettings: ModelSettings;
+  currentResults: SimulationResult;
+}
+
+const SWEEP_PARAMS = Object.keys(PARAM_LABELS) as NumericDesignParam[];
+
+const CONTOUR_LEVELS = 6;
+
+// Viridis, sampled at five stops
+const COLOR_STOPS: [number, number, number][] = [
+  [68, 1, 84],
+  [59, 82, 139],
+  [33, 145, 140],
+  [94, 201, 98],
+  [253, 231, 37]
+];
+
+const colorAt = (t: number): string => {
+  const x = Math.max(0, Math.min(1, t)) * (COLOR_STOPS.length - 1);
+  const i = Math.min(COLOR_STOPS.length - 2, Math.floor(x));
+  const f = x - i;
+  const [r, g, b] = COLOR_STOPS[i].map((c, k) => Math.round(c + f * (COLOR_STOPS[i + 1][k] - c)));
+  return `rgb(${r},${g},${b})`;
+};
+
+const formatValue = (v: number) => (Number.isFinite(v) ? parseFloat(v.toPrecision(4)).toString() : '—');
+
+export const SweepPanel: React.FC<SweepPanelProps> = ({ params, modelSettings, currentResults }) => {
+  const [spec, setSpec] = useState<SweepSpec>(DEFAULT_SWEEP_SPEC);
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  const metrics = useMemo(() => listMetrics(currentResults), [currentResults]);
+  const running = progress !== null;
+
+  let pointCount: number | null = null;
+  try {
+    pointCount = countSweepPoints(spec);
+  } catch {
+    pointCount = null;
+  }
+
+  const handleRun = async () => {
+    setError(null);
+    setProgress(0);
+    const run = runSweepInWorker(params, modelSettings, spec, setProgress);
+    cancelRef.current = run.cancel;
+    try {
+      setResult(await run.promise);
+    } catch (err: any) {
+      setError(err.message || 'Sweep failed.');
+    } finally {
+      cancelRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    const blob = new Blob([sweepToCsv(result)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sweep_${result.spec.metric}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const updateAxis = (axis: 'x' | 'y', changes: Partial<SweepAxis>) => {
+    const current = spec[axis];
+    if (current) setSpec({ ...spec, [axis]: { ...current, ...changes } });
+  };
+
+  const setDimensions = (twoD: boolean) => {
+    setSpec({ ...spec, y: twoD ? (spec.y ?? DEFAULT_SWEEP_SPEC.y) : null });
+  };
+
+  return (
+    <div className="h-full overflow-y-auto space-y-4 pr-2">
+      <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-slate-300 font-semibold text-sm flex items-center gap-2">
+            <Grid3x3 className="w-4 h-4 text-indigo-400" />
+            Parameter Sweep
+          </h3>
+          <div className="flex gap-2">
+            {result && !running && (
+              <button
+                onClick={handleExport}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-md text-xs font-medium bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors"
+              >
+                <Download className="w-3 h-3" /> Export CSV
+              </button>
+            )}
+            {running ? (
+              <button
+                onClick={() => cancelRef.current?.()}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-md text-xs font-medium bg-rose-700 text-white hover:bg-rose-600 transition-colors"
+              >
+                <Square className="w-3 h-3" /> Cancel {Math.round((progress ?? 0) * 100)}%
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                disabled={pointCount === null || pointCount > MAX_SWEEP_POINTS}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-md text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Play className="w-3 h-3" /> Run Sweep
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 text-xs">
+          <div className="space-y-3">
+            <div className="text-slate-400 uppercase font-semibold tracking-wider">Dimensions</div>
+            <div className="grid grid-cols-2 gap-2">
+              {[false, true].map(twoD => (
+                <button
+                  key={String(twoD)}
+                  onClick={() => setDimensions(twoD)}
+                  className={clsx(
+                    "px-2 py-1.5 rounded-md font-medium transition-colors border",
+                    (spec.y !== null) === twoD
+                      ? "bg-indigo-600 text-white border-indigo-500"
+                      : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+                  )}
+                >
+                  {twoD ? '2D Heatmap' : '1D Line'}
+                </button>
+              ))}
+            </div>
+
+            <div className="text-slate-400 uppercase font-semibold tracking-wider pt-2">Output Metric</div>
+            <select
+              value={spec.metric}
+              onChange={(e) => setSpec({ ...spec, metric: e.target.value })}
+              className="w-full bg-slate-700 border border-slate-600 rounded px-1 py-1 font-mono text-slate-200"
+            >
+              {metrics.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+
+            <p className={clsx(pointCount !== null && pointCount > MAX_SWEEP_POINTS ? 'text-rose-400' : 'text-slate-500')}>
+              {pointCount === null ? 'Invalid range.' : `${pointCount} points (limit ${MAX_SWEEP_POINTS}).`}
+            </p>
+          </div>
+
+          <div className="lg:col-span-2 space-y-3">
+            <AxisEditor label="X Axis" axis={spec.x} onChange={(c) => updateAxis('x', c)} />
+            {spec.y && <AxisEditor label="Y Axis" axis={spec.y} onChange={(c) => updateAxis('y', c)} />}
+            {[spec.x.key, spec.y?.key].some(k => k === 'lineAngle' || k === 'lineTension') && (
+              <p className="text-slate-500 italic">
+                Swept line tension or elevation overrides the kite model for the sweep.
+              </p>
+            )}
+            {error && <p className="text-rose-400">{error}</p>}
+          </div>
+        </div>
+      </div>
+
+      {result && (
+        <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+          <h3 className="text-slate-300 font-semibold text-sm mb-1">{result.spec.metric}</h3>
+          <p className="text-xs text-slate-500 mb-4">
+            Range {formatValue(result.min)} to {formatValue(result.max)}
+            {result.spec.y && ` · contours every ${formatValue((result.max - result.min) / (CONTOUR_LEVELS + 1))}`}
+          </p>
+          {result.spec.y ? <Heatmap result={result} /> : <SweepLine result={result} />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AxisEditor: React.FC<{
+  label: string;
+  axis: SweepAxis;
+  onChange: (changes: Partial<SweepAxis>) => void;
+}> = ({ label, axis, onChange }) => (
+  <div className="grid grid-cols-[60px_1fr_70px_70px_70px] gap-2 items-center">
+    <span className="text-slate-400 uppercase font-semibold tracking-wider">{label}</span>
+    <select
+      value={axis.key}
+      onChange={(e) => onChange({ key: e.target.value as NumericDesignParam })}
+      className="bg-slate-700 border border-slate-600 rounded px-1 py-1 text-slate-200"
+    >
+      {SWEEP_PARAMS.map(key => <option key={key} value={key}>{PARAM_LABELS[key]}</option>)}
+    </select>
+    {(['min', 'max', 'step'] as const).map(field => (
+      <label key={field} className="flex flex-col text-slate-500">
+        {field}
+        <input
+          type="number"
+          value={axis[field]}
+          onChange={(e) => onChange({ [field]: parseFloat(e.target.value) || 0 })}
+          className="bg-slate-700 border border-slate-600 rounded px-1 py-0.5 font-mono text-slate-200"
+        />
+      </label>
+    ))}
+  </div>
+);
+
+const SweepLine: React.FC<{ result: SweepResult }> = ({ result }) => {
+  const data = result.xValues.map((x, i) => ({ x, value: result.values[0][i] }));
+  return (
+    <div className="h-[300px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" label={{ value: PARAM_LABELS[result.spec.x.key], position: 'insideBottom', offset: -5 }} />
+          <YAxis stroke="#94a3b8" domain={['auto', 'auto']} />
+          <Tooltip contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }} />
+          <Line type="monotone" dataKey="value" name={result.spec.metric} stroke="#818cf8" strokeWidth={2} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+// Grid cells drawn at their sample points, with iso-lines over the top
+const Heatmap: React.FC<{ result: SweepResult }> = ({ result }) => {
+  const [hover, setHover] = useState<{ col: number; row: number } | null>(null);
+  const { xValues, yValues, values, min, max, spec } = result;
+  const cols = xValues.length;
+  const rows = yValues.length;
+  const span = max - min || 1;
+
+  const width = 560;
+  const height = 320;
+  const pad = { left: 50, right: 70, top: 10, bottom: 40 };
+  const plotW = width - pad.left - pad.right;
+  const plotH = height - pad.top - pad.bottom;
+  const cellW = plotW / cols;
+  const cellH = plotH / rows;
+
+  // Grid coordinates (column, row) to SVG, row 0 at the bottom
+  const toX = (c: number) => pad.left + (c + 0.5) * cellW;
+  const toY = (r: number) => pad.top + plotH - (r + 0.5) * cellH;
+
+  const contours = useMemo(() => {
+    return Array.from({ length: CONTOUR_LEVELS }, (_, k) => {
+      const level = min + ((k + 1) / (CONTOUR_LEVELS + 1)) * span;
+      return { level, segments: contourSegments(values, level) };
+    });
+  }, [values, min, span]);
+
+  const xTicks = xValues.map((v, i) => ({ v, i })).filter((_, i) => i % Math.ceil(cols / 8) === 0);
+  const yTicks = yValues.map((v, i) => ({ v, i })).filter((_, i) => i % Math.ceil(rows / 8) === 0);
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" onMouseLeave={() => setHover(null)}>
+        {values.map((row, r) => row.map((v, c) => (
+          <rect
+            key={`${r}-${c}`}
+            x={pad.left + c * cellW}
+            y={pad.top + plotH - (r + 1) * cellH}
+            width={cellW + 0.5}
+            height={cellH + 0.5}
+            fill={Number.isFinite(v) ? colorAt((v - min) / span) : '#1e293b'}
+            onMouseEnter={() => setHover({ col: c, row: r })}
+          />
+        )))}
+
+        {contours.map(({ level, segments }) => (
+          <g key={level} stroke="#f8fafc" strokeOpacity={0.7} strokeWidth={1}>
+            {segments.map((s, i) => (
+              <line key={i} x1={toX(s.x1)} y1={toY(s.y1)} x2={toX(s.x2)} y2={toY(s.y2)} />
+            ))}
+          </g>
+        ))}
+
+        {hover && (
+          <rect
+            x={pad.left + hover.col * cellW}
+            y={pad.top + plotH - (hover.row + 1) * cellH}
+            width={cellW}
+            height={cellH}
+            fill="none"
+            stroke="#f8fafc"
+            strokeWidth={1.5}
+            pointerEvents="none"
+          />
+        )}
+
+        {/* Axes */}
+        <rect x={pad.left} y={pad.top} width={plotW} height={plotH} fill="none" stroke="#475569" />
+        {xTicks.map(({ v, i }) => (
+          <text key={i} x={toX(i)} y={pad.top + plotH + 14} fill="#94a3b8" fontSize="10" textAnchor="middle">{formatValue(v)}</text>
+        ))}
+        {yTicks.map(({ v, i }) => (
+          <text key={i} x={pad.left - 6} y={toY(i) + 3} fill="#94a3b8" fontSize="10" textAnchor="end">{formatValue(v)}</text>
+        ))}
+        <text x={pad.left + plotW / 2} y={height - 6} fill="#94a3b8" fontSize="11" textAnchor="middle">{PARAM_LABELS[spec.x.key]}</text>
+        {spec.y && (
+          <text x={12} y={pad.top + plotH / 2} fill="#94a3b8" fontSize="11" textAnchor="middle" transform={`rotate(-90 12 ${pad.top + plotH / 2})`}>
+            {PARAM_LABELS[spec.y.key]}
+          </text>
+        )}
+
+        {/* Colour bar */}
+        {Array.from({ length: 40 }, (_, k) => (
+          <rect key={k} x={width - pad.right + 16} y={pad.top + plotH - ((k + 1) / 40) * plotH} width={12} height={plotH / 40 + 0.5} fill={colorAt(k / 39)} />
+        ))}
+        {contours.map(({ level }) => (
+          <line key={level} x1={width - pad.right + 14} x2={width - pad.right + 30} y1={pad.top + plotH - ((level - min) / span) * plotH} y2={pad.top + plotH - ((level - min) / span) * plotH} stroke="#f8fafc" strokeOpacity={0.7} />
+        ))}
+        <text x={width - pad.right + 32} y={pad.top + 8} fill="#94a3b8" fontSize="10">{formatValue(max)}</text>
+        <text x={width - pad.right + 32} y={pad.top + plotH} fill="#94a3b8" fontSize="10">{formatValue(min)}</text>
+      </svg>
+
+      {hover && spec.y && (
+        <div className="absolute top-2 left-14 bg-slate-900/90 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 pointer-events-none">
+          {spec.x.key} {formatValue(xValues[hover.col])} · {spec.y.key} {formatValue(yValues[hover.row])} → {formatValue(values[hover.row][hover.col])}
+        </div>
+      )}
+    </div>
+  );
+};
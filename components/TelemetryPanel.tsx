@@ -0,0 +1,269 @@
+import React, { useMemo, useState } from 'react';
+import { TelemetrySource, TelemetryStatus } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { AlertTriangle, Circle, Plug, Radio, Square, Unplug, Upload } from 'lucide-react';
+import clsx from 'clsx';
+import { formatRecording, HISTORY_SECONDS, parseRecording, telemetryErrors } from '../services/telemetryModel';
+import { lineTensionAtRotor } from '../services/tetherModel';
+import { serialSupported } from '../services/telemetryLink';
+import { TelemetryControls } from './useTelemetry';
+
+interface TelemetryPanelProps {
+  telemetry: TelemetryControls;
+}
+
+const BAUD_RATES = [9600, 38400, 57600, 115200, 230400];
+
+const STATUS_INFO: Record<TelemetryStatus, { label: string; color: string }> = {
+  [TelemetryStatus.IDLE]: { label: 'Disconnected', color: 'text-slate-400' },
+  [TelemetryStatus.CONNECTING]: { label: 'Connecting…', color: 'text-amber-400' },
+  [TelemetryStatus.LIVE]: { label: 'Live', color: 'text-emerald-400' },
+  [TelemetryStatus.ERROR]: { label: 'Error', color: 'text-rose-400' }
+};
+
+export const TelemetryPanel: React.FC<TelemetryPanelProps> = ({ telemetry }) => {
+  const { feed } = telemetry;
+  const [source, setSource] = useState<TelemetrySource.WEBSOCKET | TelemetrySource.SERIAL>(TelemetrySource.WEBSOCKET);
+  const [url, setUrl] = useState('ws://localhost:8787');
+  const [baudRate, setBaudRate] = useState(115200);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const connected = feed.status === TelemetryStatus.LIVE || feed.status === TelemetryStatus.CONNECTING;
+  const errors = useMemo(() => telemetryErrors(feed.history), [feed.history]);
+  const { sample, predicted } = feed;
+
+  const handleConnect = () => {
+    if (connected) {
+      telemetry.disconnect();
+    } else if (source === TelemetrySource.WEBSOCKET) {
+      telemetry.connectWebSocket(url.trim());
+    } else {
+      telemetry.connectSerial(baudRate);
+    }
+  };
+
+  const handleRecord = () => {
+    if (!feed.recording) {
+      telemetry.startRecording();
+      return;
+    }
+    const name = `telemetry_${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    const recording = telemetry.stopRecording(name);
+    if (!recording) return;
+    const blob = new Blob([formatRecording(recording)], { type: 'text/plain' });
+    const objectUrl = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = `${name}.log`;
+    link.click();
+    URL.revokeObjectURL(objectUrl);
+  };
+
+  const handleReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const recording = parseRecording(await file.text(), file.name);
+      setImportError(null);
+      telemetry.replay(recording);
+    } catch (err: any) {
+      setImportError(err.message || 'Could not read the recording.');
+    }
+  };
+
+  const sources = [
+    { value: TelemetrySource.WEBSOCKET, label: 'WebSocket' },
+    { value: TelemetrySource.SERIAL, label: 'Web Serial' }
+  ] as const;
+
+  return (
+    <div className="h-full flex flex-col gap-4 overflow-y-auto pr-2 pb-20">
+      <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-slate-300 font-semibold text-sm flex items-center gap-2">
+            <Radio className="w-4 h-4 text-indigo-400" />
+            Rig Telemetry
+          </h3>
+          <span className={clsx("text-xs font-medium", STATUS_INFO[feed.status].color)}>
+            {STATUS_INFO[feed.status].label}
+            {feed.status === TelemetryStatus.LIVE && feed.source === TelemetrySource.REPLAY ? ' · replay' : ''}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 text-xs">
+          {/* Connection */}
+          <div className="flex flex-col gap-3">
+            <div className="grid grid-cols-2 gap-2">
+              {sources.map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setSource(value)}
+                  disabled={connected || (value === TelemetrySource.SERIAL && !serialSupported())}
+                  className={clsx(
+                    "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border disabled:opacity-50 disabled:cursor-not-allowed",
+                    source === value
+                      ? "bg-indigo-600 text-white border-indigo-500"
+                      : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {source === TelemetrySource.WEBSOCKET ? (
+              <input
+                type="text"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                disabled={connected}
+                className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white font-mono disabled:opacity-50"
+                placeholder="ws://localhost:8787"
+              />
+            ) : (
+              <select
+                value={baudRate}
+                onChange={(e) => setBaudRate(parseInt(e.target.value))}
+                disabled={connected}
+                className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white disabled:opacity-50"
+              >
+                {BAUD_RATES.map(rate => <option key={rate} value={rate}>{rate} baud</option>)}
+              </select>
+            )}
+
+            <button
+              onClick={handleConnect}
+              className={clsx(
+                "flex items-center justify-center gap-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors",
+                connected ? "bg-slate-700 text-slate-200 hover:bg-slate-600" : "bg-indigo-600 text-white hover:bg-indigo-500"
+              )}
+            >
+              {connected ? <><Unplug className="w-3 h-3" /> Disconnect</> : <><Plug className="w-3 h-3" /> Connect</>}
+            </button>
+            {feed.error && (
+              <p className="text-rose-400 flex items-center gap-1"><AlertTriangle className="w-3 h-3 flex-none" /> {feed.error}</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={handleRecord}
+                className={clsx(
+                  "flex items-center justify-center gap-1 px-2 py-1.5 rounded-md text-xs font-medium transition-colors border",
+                  feed.recording
+                    ? "bg-rose-600 text-white border-rose-500 hover:bg-rose-500"
+                    : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+                )}
+              >
+                {feed.recording
+                  ? <><Square className="w-3 h-3" /> Save ({feed.recordedCount})</>
+                  : <><Circle className="w-3 h-3" /> Record</>}
+              </button>
+              <label className="flex items-center justify-center gap-1 px-2 py-1.5 rounded-md text-xs font-medium bg-slate-700 text-slate-300 border border-slate-600 hover:bg-slate-600 cursor-pointer transition-colors">
+                <Upload className="w-3 h-3" /> Replay
+                <input type="file" accept=".log,.txt,.csv" className="hidden" onChange={handleReplay} />
+              </label>
+            </div>
+            {importError && (
+              <p className="text-rose-400">{importError}</p>
+            )}
+
+            <p className="text-slate-500 italic leading-tight">
+              One sample per line, e.g. <span className="font-mono not-italic">t=12.3,rpm=380,ten=95,wind=8.1,ang=61,roll=1,pitch=-10</span>.
+              Serial ports can also come in over WebSocket through <span className="font-mono not-italic">npm run telemetry</span>,
+              which streams mock data when given no port.
+            </p>
+          </div>
+
+          {/* Measured against predicted */}
+          <div className="lg:col-span-2 flex flex-col gap-3">
+            {sample && predicted ? (
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
+                <ReadingCard label="RPM" measured={sample.rpm} predicted={predicted.rpm} unit="rpm" />
+                <ReadingCard label="Line Tension" measured={sample.lineTension} predicted={lineTensionAtRotor(predicted.tether)} unit="N" />
+                <ReadingCard label="Wind" measured={sample.windSpeed} unit="m/s" />
+                <ReadingCard label="Line Angle" measured={sample.lineAngle} unit="°" />
+              </div>
+            ) : (
+              <p className="text-slate-500 italic">
+                No data yet. The 3D view follows the rig while connected; predictions run the current design and model at
+                the measured wind and line angle, with the kite model supplying the tension.
+              </p>
+            )}
+
+            {sample && (
+              <div className="bg-slate-900/50 p-3 rounded border border-slate-700 grid grid-cols-[auto_1fr_auto_1fr_auto_1fr] gap-x-3 gap-y-1">
+                <span className="text-slate-400">Roll</span>
+                <span className="font-mono text-white">{sample.roll.toFixed(1)}°</span>
+                <span className="text-slate-400">Pitch</span>
+                <span className="font-mono text-white">{sample.pitch.toFixed(1)}°</span>
+                <span className="text-slate-400">t</span>
+                <span className="font-mono text-slate-300">{sample.time.toFixed(1)} s</span>
+
+                <span className="text-slate-400">RMS ΔRPM</span>
+                <span className="font-mono text-slate-300">{errors?.rpm ?? '–'}</span>
+                <span className="text-slate-400">RMS ΔT</span>
+                <span className="font-mono text-slate-300">{errors ? `${errors.tension} N` : '–'}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Rolling charts */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 min-h-[260px]">
+        <TelemetryChart title="RPM" data={feed.history} measuredKey="rpm" predictedKey="predictedRpm" color="#3b82f6" />
+        <TelemetryChart title="Line Tension (N)" data={feed.history} measuredKey="lineTension" predictedKey="predictedTension" color="#10b981" />
+      </div>
+      <p className="text-[10px] text-slate-500 italic">
+        Charts hold the last {HISTORY_SECONDS} s. Measured values are solid, the model's dashed.
+      </p>
+    </div>
+  );
+};
+
+const ReadingCard: React.FC<{ label: string; measured: number; predicted?: number; unit: string }> = ({ label, measured, predicted, unit }) => {
+  const error = predicted !== undefined && predicted !== 0 ? ((measured - predicted) / predicted) * 100 : null;
+  return (
+    <div className="bg-slate-900/50 p-3 rounded border border-slate-700">
+      <div className="text-slate-400 mb-1">{label}</div>
+      <div className="font-mono text-lg text-white">{measured.toFixed(unit === 'rpm' ? 0 : 1)} <span className="text-xs text-slate-500">{unit}</span></div>
+      {predicted !== undefined && (
+        <div className="font-mono text-slate-400">
+          model {predicted.toFixed(unit === 'rpm' ? 0 : 1)}
+          {error !== null && (
+            <span className={clsx("ml-1", Math.abs(error) > 15 ? "text-rose-400" : "text-slate-500")}>
+              ({error > 0 ? '+' : ''}{error.toFixed(0)}%)
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TelemetryChart: React.FC<{
+  title: string;
+  data: object[];
+  measuredKey: string;
+  predictedKey: string;
+  color: string;
+}> = ({ title, data, measuredKey, predictedKey, color }) => (
+  <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col">
+    <h3 className="text-slate-300 font-semibold mb-4 text-sm">{title}</h3>
+    <div className="flex-1 w-full min-h-[200px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+          <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" tickFormatter={(t: number) => t.toFixed(0)} label={{ value: 'Time (s)', position: 'insideBottom', offset: -5 }} />
+          <YAxis stroke="#94a3b8" />
+          <Tooltip contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }} />
+          <Legend wrapperStyle={{ fontSize: 11 }} />
+          <Line type="monotone" dataKey={measuredKey} name="Measured" stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} />
+          <Line type="monotone" dataKey={predictedKey} name="Model" stroke="#94a3b8" strokeWidth={1.5} strokeDasharray="5 3" dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
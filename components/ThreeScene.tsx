@@ -1,40 +1,469 @@
 
-import React, { useRef, useMemo } from 'react';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
-import { OrbitControls, PerspectiveCamera, Grid, Environment, Text } from '@react-three/drei';
+import { OrbitControls, PerspectiveCamera, Grid, Environment, Text, Line } from '@react-three/drei';
 import * as THREE from 'three';
-import { DesignParams, SimulationResult } from '../types';
+import { DesignParams, HubType, LineTrainSolution, ModelSettings, SimulationResult, StructuralStatus, TelemetrySample, TetherPoint, TimeSample, TimeSimulationResult } from '../types';
+import { Radio, Square, Wind } from 'lucide-react';
+import clsx from 'clsx';
+import { planformSection } from '../services/planformModel';
+import { bladeCountOf } from '../services/teeterModel';
+import { DESIGN_ROTOR_ID } from '../services/lineTrainModel';
+import { DiskField, diskField, DiskPoint, flowVelocity, RotorFlow, rotorFlowFor, seedPoint, traceStreamline, Vec3 } from '../services/rotorFlowModel';
 
 interface SceneProps {
   params: DesignParams;
+  modelSettings: ModelSettings;
   results: SimulationResult;
+  playback?: TimeSimulationResult | null;
+  onPlaybackEnd?: () => void;
+  ghosts?: GhostDesign[];
+  train?: LineTrainSolution | null;
+  telemetry?: TelemetrySample | null; // live rig sample; results then carry its measured values
 }
 
-const RotorAssembly: React.FC<SceneProps> = ({ params, results }) => {
+// A compared design drawn as a translucent rotor on the same hub
+interface GhostDesign {
+  id: string;
+  color: string;
+  params: DesignParams;
+  results: SimulationResult;
+}
+
+/**
+ * Linearly interpolated time history sample at time t.
+ */
+function sampleAt(history: TimeSample[], t: number): TimeSample {
+  const dt = history.length > 1 ? history[1].time - history[0].time : 1;
+  const x = Math.max(0, t / dt);
+  const i = Math.min(history.length - 1, Math.floor(x));
+  const next = history[Math.min(history.length - 1, i + 1)];
+  const f = x - i;
+  const a = history[i];
+  return {
+    ...a,
+    rpm: a.rpm + f * (next.rpm - a.rpm),
+    teeterAngle: a.teeterAngle + f * (next.teeterAngle - a.teeterAngle),
+    teeterAmplitude: a.teeterAmplitude + f * (next.teeterAmplitude - a.teeterAmplitude),
+    hubOffset: a.hubOffset + f * (next.hubOffset - a.hubOffset),
+    windSpeed: a.windSpeed + f * (next.windSpeed - a.windSpeed)
+  };
+}
+
+// Blade span colours by spar status: overstressed spans stand out on the rotor
+const STATION_COLORS: Record<StructuralStatus, string> = {
+  [StructuralStatus.OK]: '#38bdf8',
+  [StructuralStatus.MARGINAL]: '#f59e0b',
+  [StructuralStatus.OVERSTRESSED]: '#ef4444'
+};
+
+// Blade mesh: distance from the spin axis to the blade root, section resolution
+const HUB_OFFSET = 0.1;
+const PROFILE_POINTS = 10; // per surface
+const LOFT_STATIONS = 40;
+const PROFILE_THICKNESS = 0.12; // symmetric NACA 00xx stand-in for any aerofoil
+const ROOT_FAIRING_CHORD = 0.35; // fraction of root chord where the blade meets the hub
+
+// NACA four-digit symmetric half-thickness at x/c
+const halfThickness = (x: number) =>
+  5 * PROFILE_THICKNESS * (0.2969 * Math.sqrt(x) - 0.126 * x - 0.3516 * x * x + 0.2843 * x * x * x - 0.1015 * x * x * x * x);
+
+/**
+ * Lofts a blade along +X from the hub through its planform: chord and twist
+ * from the spline or linear distribution, pitch axis at the quarter chord,
+ * leading edge towards -Z. bladePitch is left to the mesh rotation so the
+ * geometry only carries the twist. colorAt gives per-ring vertex colours.
+ */
+const loftBladeGeometry = (params: DesignParams, colorAt?: (span: number) => THREE.Color): THREE.BufferGeometry => {
+  const { planform, bladeLength, bladeChord } = params;
+  const root = planform.rootCutout;
+
+  // Closed profile, trailing edge -> upper surface -> leading edge -> lower surface
+  const profile: [number, number][] = [];
+  for (let i = 0; i < PROFILE_POINTS; i++) {
+    const x = 0.5 * (1 + Math.cos((Math.PI * i) / PROFILE_POINTS));
+    profile.push([x, halfThickness(x)]);
+  }
+  for (let i = 0; i < PROFILE_POINTS; i++) {
+    const x = 0.5 * (1 - Math.cos((Math.PI * i) / PROFILE_POINTS));
+    profile.push([x, -halfThickness(x)]);
+  }
+
+  const spans = [0, ...Array.from({ length: LOFT_STATIONS + 1 }, (_, i) => root + ((1 - root) * i) / LOFT_STATIONS)];
+  const positions: number[] = [];
+  const colors: number[] = [];
+  spans.forEach((span, ring) => {
+    const section = ring === 0
+      ? { chord: bladeChord * ROOT_FAIRING_CHORD, pitch: planformSection(planform, bladeLength, bladeChord, 0, root).pitch }
+      : planformSection(planform, bladeLength, bladeChord, 0, span);
+    const twist = THREE.MathUtils.degToRad(section.pitch);
+    const cos = Math.cos(twist);
+    const sin = Math.sin(twist);
+    const color = colorAt?.(span);
+    profile.forEach(([x, t]) => {
+      const z = (x - 0.25) * section.chord;
+      const y = t * section.chord;
+      positions.push(HUB_OFFSET + span * bladeLength, y * cos - z * sin, y * sin + z * cos);
+      if (color) colors.push(color.r, color.g, color.b);
+    });
+  });
+
+  const n = profile.length;
+  const indices: number[] = [];
+  for (let ring = 0; ring < spans.length - 1; ring++) {
+    for (let i = 0; i < n; i++) {
+      const a = ring * n + i;
+      const b = ring * n + ((i + 1) % n);
+      const c = a + n;
+      const d = b + n;
+      indices.push(a, c, b, b, c, d);
+    }
+  }
+  // End caps as fans from the first profile point
+  const tip = (spans.length - 1) * n;
+  for (let i = 1; i < n - 1; i++) {
+    indices.push(0, i, i + 1);
+    indices.push(tip, tip + i + 1, tip + i);
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  if (colors.length > 0) geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+};
+
+// Blades evenly spaced around the hub, the first along +X
+const bladeAzimuths = (bladeCount: number) => Array.from({ length: bladeCount }, (_, k) => (2 * Math.PI * k) / bladeCount);
+
+// Wind arrow length in scene units for a wind speed in m/s
+const windArrowLength = (windSpeed: number) => Math.min(Math.max(windSpeed * 0.3, 0.3), 6);
+
+// A rotor drawn by its blades alone: compared designs (translucent) and the other rotors of a line train
+const SpinningRotor: React.FC<{ params: DesignParams; rpm: number; lineAngle: number; color: string; ghost?: boolean }> = ({
+  params,
+  rpm,
+  lineAngle,
+  color,
+  ghost = false
+}) => {
+  const bladesRef = useRef<THREE.Group>(null);
+  const bladeGeo = useMemo(() => loftBladeGeometry(params), [params]);
+  const azimuths = bladeAzimuths(bladeCountOf(params));
+
+  useFrame((_, delta) => {
+    if (bladesRef.current) bladesRef.current.rotation.y += ((rpm * 2 * Math.PI) / 60) * delta;
+  });
+
+  return (
+    <group rotation={[THREE.MathUtils.degToRad(lineAngle - 90), 0, 0]}>
+      {!ghost && (
+        <mesh>
+          <sphereGeometry args={[0.1, 16, 16]} />
+          <meshStandardMaterial color="#94a3b8" metalness={1.0} roughness={0.1} />
+        </mesh>
+      )}
+      <group rotation={[THREE.MathUtils.degToRad(-params.rotorTilt || 0), 0, 0]}>
+        <group ref={bladesRef}>
+          {azimuths.map(azimuth => (
+            <group key={azimuth} rotation={[0, azimuth, 0]}>
+              <mesh geometry={bladeGeo} rotation={[THREE.MathUtils.degToRad(params.bladePitch), 0, 0]}>
+                {ghost
+                  ? <meshStandardMaterial color={color} transparent opacity={0.3} depthWrite={false} side={THREE.DoubleSide} />
+                  : <meshStandardMaterial color={color} side={THREE.DoubleSide} />}
+              </mesh>
+            </group>
+          ))}
+        </group>
+      </group>
+    </group>
+  );
+};
+
+// What the flow layer draws: air moving through the rotor, and the disk coloured by what the blades see
+type FlowMode = 'off' | 'streamlines' | 'particles';
+type DiskColoring = 'off' | 'induced' | 'aoa';
+
+interface FlowView {
+  mode: FlowMode;
+  disk: DiskColoring;
+  reverseFlow: boolean;
+}
+
+const DISK_RINGS = 16;
+const DISK_SECTORS = 72;
+const STREAMLINE_SEEDS = 5; // per side of the seed grid
+const STREAMLINE_LENGTH = 6; // rotor radii
+const STREAMLINE_STEP = 0.05; // rotor radii
+const PARTICLE_COUNT = 400;
+const PARTICLE_TIME_SCALE = 0.15; // slow motion, so single particles can be followed
+const WAKE_LENGTH = 4; // rotor radii downstream of the hub before a particle starts again
+
+// Disk frame (x downwind in the disk plane, y advancing side, z rotor axis) to the rotor group's axes
+const toScene = (p: Vec3) => new THREE.Vector3(-p.y, p.z, -p.x);
+
+// Blue through green to red as t goes from 0 to 1
+const heatColor = (t: number) => new THREE.Color().setHSL(0.66 * (1 - Math.min(1, Math.max(0, t))), 0.85, 0.5);
+const REVERSE_FLOW_COLOR = new THREE.Color('#64748b');
+
+interface DiskScale {
+  min: number;
+  max: number;
+  unit: string;
+}
+
+// Induced velocity over its own range; angle of attack from zero up to the section stall angle
+const diskScaleFor = (field: DiskField, coloring: DiskColoring, stallAngle: number): DiskScale => {
+  if (coloring === 'aoa') return { min: 0, max: stallAngle, unit: '°' };
+  const values = field.points.flat().map(p => p.inducedVelocity);
+  return { min: Math.min(...values), max: Math.max(...values), unit: 'm/s' };
+};
+
+const diskValue = (point: DiskPoint, coloring: DiskColoring) =>
+  coloring === 'aoa' ? point.angleOfAttack : point.inducedVelocity;
+
+// Particles start anywhere from the seed patch to the end of the wake
+const spawnParticle = (flow: RotorFlow, spread: number): Vec3 => {
+  const angle = Math.random() * 2 * Math.PI;
+  const r = Math.sqrt(Math.random());
+  const seed = seedPoint(flow, r * Math.cos(angle), r * Math.sin(angle));
+  const ahead = spread * Math.random() * flow.radius;
+  return { x: seed.x + ahead * flow.wakeAxis.x, y: seed.y, z: seed.z + ahead * flow.wakeAxis.z };
+};
+
+/**
+ * Flow through the rotor, drawn in the (non-spinning) rotor frame: streamlines
+ * or slowed-down particles through the wake model, the disk coloured by local
+ * induced velocity or blade angle of attack, and the retreating-side region
+ * where the blades meet the air trailing edge first. Blade radii map as the
+ * blade mesh does, from the hub offset.
+ */
+const FlowLayer: React.FC<{ flow: RotorFlow; field: DiskField | null; scale: DiskScale | null; view: FlowView }> = ({
+  flow,
+  field,
+  scale,
+  view
+}) => {
+  const particleState = useRef<Vec3[]>([]);
+  const particleGeo = useMemo(() => {
+    particleState.current = Array.from({ length: PARTICLE_COUNT }, () => spawnParticle(flow, WAKE_LENGTH + 2));
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(new Float32Array(PARTICLE_COUNT * 3), 3));
+    return geometry;
+  }, [flow]);
+
+  useFrame((_, delta) => {
+    if (view.mode !== 'particles') return;
+    const dt = Math.min(delta, 0.05) * PARTICLE_TIME_SCALE;
+    const position = particleGeo.getAttribute('position') as THREE.BufferAttribute;
+    particleState.current = particleState.current.map((p, i) => {
+      const v = flowVelocity(flow, p);
+      let next = { x: p.x + v.x * dt, y: p.y + v.y * dt, z: p.z + v.z * dt };
+      const along = next.x * flow.wakeAxis.x + next.z * flow.wakeAxis.z;
+      if (along > WAKE_LENGTH * flow.radius) next = spawnParticle(flow, 0);
+      const scene = toScene(next);
+      position.setXYZ(i, scene.x, scene.y, scene.z);
+      return next;
+    });
+    position.needsUpdate = true;
+  });
+
+  const streamlines = useMemo(() => {
+    if (view.mode !== 'streamlines') return [];
+    const grid = Array.from({ length: STREAMLINE_SEEDS }, (_, i) => -1 + (2 * i) / (STREAMLINE_SEEDS - 1));
+    const freeSpeed = Math.hypot(flow.freeStream.x, flow.freeStream.z);
+    const slow = new THREE.Color('#22d3ee');
+    return grid.flatMap(u => grid.filter(v => u * u + v * v <= 1.05).map(v => {
+      const line = traceStreamline(flow, seedPoint(flow, u, v), STREAMLINE_LENGTH * flow.radius, STREAMLINE_STEP * flow.radius);
+      return {
+        key: `${u}:${v}`,
+        points: line.points.map(toScene),
+        // White in the free stream, cyan where the rotor has slowed the air
+        colors: line.speeds.map(speed => {
+          const c = new THREE.Color('white').lerp(slow, Math.min(1, (freeSpeed - speed) / Math.max(2 * flow.inducedVelocity, 0.1)));
+          return [c.r, c.g, c.b] as [number, number, number];
+        })
+      };
+    }));
+  }, [flow, view.mode]);
+
+  const diskGeo = useMemo(() => {
+    if (!field || !scale || view.disk === 'off') return null;
+    const positions: number[] = [];
+    const colors: number[] = [];
+    field.spans.forEach((span, i) => field.azimuths.forEach((azimuth, j) => {
+      const r = HUB_OFFSET + span * flow.radius;
+      const p = toScene({ x: r * Math.cos(azimuth), y: r * Math.sin(azimuth), z: 0.01 });
+      positions.push(p.x, p.y, p.z);
+      const point = field.points[i][j];
+      const color = point.reverseFlow
+        ? REVERSE_FLOW_COLOR
+        : heatColor((diskValue(point, view.disk) - scale.min) / Math.max(scale.max - scale.min, 1e-6));
+      colors.push(color.r, color.g, color.b);
+    }));
+    const sectors = field.azimuths.length;
+    const indices: number[] = [];
+    for (let i = 0; i < field.spans.length - 1; i++) {
+      for (let j = 0; j < sectors; j++) {
+        const a = i * sectors + j;
+        const b = i * sectors + ((j + 1) % sectors);
+        indices.push(a, b, a + sectors, b, b + sectors, a + sectors);
+      }
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    geometry.setIndex(indices);
+    return geometry;
+  }, [field, scale, view.disk, flow.radius]);
+
+  // Blade sections in reverse flow: r < -mu R sin(psi) on the retreating half
+  const reverseOutline = useMemo(() => {
+    const diameter = flow.omega > 0 ? flow.freeStream.x / flow.omega : 0;
+    const outline = (r: (azimuth: number) => number) => Array.from({ length: 49 }, (_, k) => {
+      const azimuth = Math.PI + (Math.PI * k) / 48;
+      return toScene({ x: r(azimuth) * Math.cos(azimuth), y: r(azimuth) * Math.sin(azimuth), z: 0.02 });
+    });
+    // Out along the boundary, back round the blade roots
+    return [
+      ...outline(azimuth => HUB_OFFSET + Math.min(-diameter * Math.sin(azimuth), flow.radius)),
+      ...outline(() => HUB_OFFSET).reverse()
+    ];
+  }, [flow]);
+
+  return (
+    <group>
+      {view.mode === 'particles' && (
+        <points geometry={particleGeo}>
+          <pointsMaterial color="#e0f2fe" size={0.04} transparent opacity={0.8} depthWrite={false} />
+        </points>
+      )}
+      {streamlines.map(line => (
+        <Line key={line.key} points={line.points} vertexColors={line.colors} lineWidth={1} transparent opacity={0.7} />
+      ))}
+      {diskGeo && (
+        <mesh geometry={diskGeo}>
+          <meshBasicMaterial vertexColors transparent opacity={0.6} side={THREE.DoubleSide} depthWrite={false} />
+        </mesh>
+      )}
+      {view.reverseFlow && flow.omega > 0 && (
+        <>
+          <Line points={reverseOutline} color="#f43f5e" lineWidth={2} />
+          <Text position={toScene({ x: 0, y: -(HUB_OFFSET + flow.radius + 0.3), z: 0.05 })} fontSize={0.15} color="#f43f5e">
+            {`Reverse flow · μ ${flow.advanceRatio}`}
+          </Text>
+        </>
+      )}
+    </group>
+  );
+};
+
+interface AssemblyProps extends SceneProps {
+  flow: RotorFlow;
+  field: DiskField | null;
+  scale: DiskScale | null;
+  flowView: FlowView;
+}
+
+const RotorAssembly: React.FC<AssemblyProps> = ({
+  params,
+  modelSettings,
+  results,
+  playback,
+  onPlaybackEnd,
+  ghosts = [],
+  train = null,
+  telemetry = null,
+  flow,
+  field,
+  scale,
+  flowView
+}) => {
   const rotorRef = useRef<THREE.Group>(null);
   const bladesRef = useRef<THREE.Group>(null);
+  const flapRefs = useRef<(THREE.Group | null)[]>([]);
+  const hubRef = useRef<THREE.Group>(null);
+  const windArrowRef = useRef<THREE.ArrowHelper>(null);
+  const playbackTime = useRef(0);
   
   const rotationSpeed = (results.rpm * 2 * Math.PI) / 60;
+  const azimuths = bladeAzimuths(bladeCountOf(params));
+  const { hubType } = results.teeter;
+  // Hinged blades pivot at the hinge offset, the others about the hub centre
+  const hingeRadius = hubType === HubType.ARTICULATED ? modelSettings.teeter.hingeOffset * params.bladeLength : 0;
+  const stopColor = results.teeter.stopContact ? "red" : "#f59e0b";
+
+  useEffect(() => {
+    playbackTime.current = 0;
+  }, [playback]);
 
   useFrame((state, delta) => {
-    if (bladesRef.current) {
-      // Spin around Y axis (Rotor Axis)
-      bladesRef.current.rotation.y += rotationSpeed * delta;
-      
-      // Teetering simulation (Rocking around X axis - Blade Span)
-      // Teeter roughly 5 degrees max, synchronized with rotation
-      const teeterAmplitude = THREE.MathUtils.degToRad(5); 
-      const azim = bladesRef.current.rotation.y;
-      bladesRef.current.rotation.x = Math.sin(azim) * teeterAmplitude;
+    if (!bladesRef.current) return;
+
+    if (playback && playback.history.length > 0) {
+      // Replay the time-domain simulation in real time
+      playbackTime.current += delta;
+      const last = playback.history[playback.history.length - 1];
+      if (playbackTime.current > last.time) {
+        onPlaybackEnd?.();
+        return;
+      }
+      const sample = sampleAt(playback.history, playbackTime.current);
+      bladesRef.current.rotation.y += ((sample.rpm * 2 * Math.PI) / 60) * delta;
+      setFlap(sample.teeterAmplitude);
+      if (hubRef.current) hubRef.current.position.z = sample.hubOffset;
+      windArrowRef.current?.setLength(windArrowLength(sample.windSpeed));
+      return;
     }
+
+    if (hubRef.current) hubRef.current.position.z = 0;
+    windArrowRef.current?.setLength(windArrowLength(results.hubWindSpeed));
+
+    // Spin around Y axis (Rotor Axis)
+    bladesRef.current.rotation.y += rotationSpeed * delta;
+    
+    setFlap(results.teeter.amplitude);
   });
 
-  // Re-orient blade geometry for Y-Axis spin
-  // Length along X, Thickness along Y, Chord along Z
-  const bladeGeo = useMemo(() => new THREE.BoxGeometry(params.bladeLength, 0.02, params.bladeChord), [params.bladeLength, params.bladeChord]);
+  // Each blade flaps once per rev, lagging the lift asymmetry (peak at azimuth 90°). On a
+  // teeter pin or gimbal this is the whole disk tilting; hinged blades do it one by one.
+  const setFlap = (amplitudeDeg: number) => {
+    if (!bladesRef.current) return;
+    const lag = THREE.MathUtils.degToRad(results.teeter.phaseLag - 90);
+    const psi = bladesRef.current.rotation.y;
+    azimuths.forEach((azimuth, k) => {
+      const flap = flapRefs.current[k];
+      if (flap) flap.rotation.z = THREE.MathUtils.degToRad(amplitudeDeg) * Math.sin(psi + azimuth - lag);
+    });
+  };
+
+  // Lofted blade for Y-Axis spin: length along X, thickness along Y, chord along Z,
+  // coloured along the span by the spar status of the structural stations
+  const stations = results.structure.stations;
+  const bladeGeo = useMemo(() => {
+    const colors = stations.map(station => new THREE.Color(STATION_COLORS[station.status]));
+    return loftBladeGeometry(params, span => colors[Math.min(colors.length - 1, Math.floor(span * colors.length))]);
+  }, [params, stations]);
   const hubGeo = useMemo(() => new THREE.CylinderGeometry(0.1, 0.1, 0.2, 32), []);
   const sphereBearingGeo = useMemo(() => new THREE.SphereGeometry(0.15, 32, 32), []);
 
+  // Solved tether shape in world space, hub at the origin, downwind along -Z. A line
+  // train replaces the two segments with its own, anchor to kite.
+  const trainHub = train?.rotors.find(r => r.id === DESIGN_ROTOR_ID) ?? null;
+  const tetherGeos = useMemo(() => {
+    const hub = trainHub ?? results.tether.lower.points[results.tether.lower.points.length - 1];
+    const toCurve = (points: TetherPoint[]) => new THREE.CatmullRomCurve3(
+      points.map(p => new THREE.Vector3(0, p.y - hub.y, -(p.x - hub.x)))
+    );
+    const segments = train ? train.segments : [results.tether.lower, results.tether.upper];
+    return {
+      segments: segments.map(segment => new THREE.TubeGeometry(toCurve(segment.points), 64, 0.01, 8, false)),
+      lowerLabel: toCurve(segments[0].points).getPointAt(0.85),
+      upperLabel: toCurve(segments[segments.length - 1].points).getPointAt(0.15)
+    };
+  }, [results.tether, train, trainHub]);
+
   const scaleFactor = 0.1; // Scale N to visual units
   const thrustLength = Math.min(results.totalRotorThrust * scaleFactor, 5);
   const generatedThrustLength = Math.min(results.generatedThrust * scaleFactor, 5);
@@ -66,42 +495,45 @@ const RotorAssembly: React.FC<SceneProps> = ({ params, results }) => {
         </Text>
       </group>
 
-      {/* LINE GROUP: Rotates Y-Axis (Up) to match Elevation */}
-      {/* Elevation 90 (Vert) -> Rot 0. Elevation 0 (Horiz/Downwind) -> Rot -90 X */}
-      <group rotation={[THREE.MathUtils.degToRad(params.lineAngle - 90), 0, 0]}>
-        
-        {/* Lower Kite Line (To Ground Anchor) */}
-        <mesh position={[0, -10, 0]} rotation={[0, 0, 0]}>
-          <cylinderGeometry args={[0.01, 0.01, 20, 16]} />
-          <meshStandardMaterial color="#fbbf24" /> {/* Amber line */}
-        </mesh>
-        
-        {/* Upper Kite Line (To Kite) */}
-        <mesh position={[0, 10, 0]} rotation={[0, 0, 0]}>
-          <cylinderGeometry args={[0.01, 0.01, 20, 16]} />
+      {/* GHOSTS: Compared designs */}
+      {ghosts.map(ghost => (
+        <SpinningRotor
+          key={ghost.id}
+          params={ghost.params}
+          rpm={ghost.results.rpm}
+          lineAngle={ghost.results.kite.lineAngle}
+          color={ghost.color}
+          ghost
+        />
+      ))}
+
+      {/* LINE TRAIN: the other rotors, placed along the solved line relative to this one */}
+      {train && trainHub && train.rotors.filter(r => r.id !== DESIGN_ROTOR_ID).map(rotor => (
+        <group key={rotor.id} position={[0, rotor.y - trainHub.y, -(rotor.x - trainHub.x)]}>
+          <SpinningRotor params={rotor.params} rpm={rotor.result.rpm} lineAngle={rotor.lineAngle} color="#cbd5e1" />
+          <Text position={[0.4, 0.4, 0]} fontSize={0.25} color="#cbd5e1" anchorX="left">
+            {`${rotor.name}\n${rotor.result.rpm} rpm · ${rotor.result.generatedThrust} N`}
+          </Text>
+        </group>
+      ))}
+
+      {/* TETHER: Solved catenary, drawn in world space */}
+      {tetherGeos.segments.map((geometry, i) => (
+        <mesh key={i} geometry={geometry}>
           <meshStandardMaterial color="#fbbf24" /> {/* Amber line */}
         </mesh>
+      ))}
+      <Text position={[0.2, tetherGeos.lowerLabel.y, tetherGeos.lowerLabel.z]} fontSize={0.2} color="#fbbf24" anchorX="left">
+        To Anchor
+      </Text>
+      <Text position={[0.2, tetherGeos.upperLabel.y, tetherGeos.upperLabel.z]} fontSize={0.2} color="#fbbf24" anchorX="left">
+        To Kite
+      </Text>
 
-        {/* Static Line Label (Lower Section) */}
-        <Text 
-          position={[0.2, -3, 0]} 
-          fontSize={0.2} 
-          color="#fbbf24"
-          anchorX="left"
-        >
-          To Anchor
-        </Text>
+      {/* LINE GROUP: Rotates Y-Axis (Up) to match Elevation */}
+      {/* Elevation 90 (Vert) -> Rot 0. Elevation 0 (Horiz/Downwind) -> Rot -90 X */}
+      <group rotation={[THREE.MathUtils.degToRad(results.kite.lineAngle - 90), 0, 0]}>
         
-        {/* Kite Label (Upper Section) */}
-        <Text 
-          position={[0.2, 5, 0]} 
-          fontSize={0.2} 
-          color="#fbbf24"
-          anchorX="left"
-        >
-          To Kite
-        </Text>
-
         {/* Added Tension Vector - Orange - Along Line Axis (+Y) */}
         {results.generatedThrust > 0 && (
           <>
@@ -118,71 +550,87 @@ const RotorAssembly: React.FC<SceneProps> = ({ params, results }) => {
           </>
         )}
 
-        {/* Spherical Bearing (Pivot Point) */}
-        <mesh geometry={sphereBearingGeo} position={[0,0,0]}>
-           <meshStandardMaterial color="#94a3b8" metalness={1.0} roughness={0.1} />
-        </mesh>
+        {/* HUB GROUP: Rides the line, offset perpendicular to it during playback */}
+        <group ref={hubRef}>
+          {/* Spherical Bearing (Pivot Point) */}
+          <mesh geometry={sphereBearingGeo} position={[0,0,0]}>
+             <meshStandardMaterial color="#94a3b8" metalness={1.0} roughness={0.1} />
+          </mesh>
 
-        {/* ROTOR GROUP: Tilts Rotor Axis relative to Line */}
-        {/* Positive Tilt = Tilt Back (Top moves -Z) = Negative X Rotation */}
-        <group rotation={[THREE.MathUtils.degToRad(-params.rotorTilt || 0), 0, 0]}>
-          
-          <group ref={bladesRef}>
-            {/* Hub - Default Cylinder is Y-aligned */}
-            <mesh geometry={hubGeo}>
-              <meshStandardMaterial color="#94a3b8" metalness={0.8} roughness={0.2} />
-            </mesh>
-
-            {/* Blade 1 - Extends +X */}
-            <mesh 
-              geometry={bladeGeo} 
-              position={[params.bladeLength / 2 + 0.1, 0, 0]} 
-              // Pitch rotates around Blade Span (X)
-              rotation={[THREE.MathUtils.degToRad(params.bladePitch), 0, 0]}
-            >
-               <meshStandardMaterial color="#38bdf8" />
-            </mesh>
-
-            {/* Blade 2 - Extends -X */}
-            <mesh 
-              geometry={bladeGeo} 
-              position={[-params.bladeLength / 2 - 0.1, 0, 0]} 
-              // Pitch rotates around Blade Span (X).
-              rotation={[THREE.MathUtils.degToRad(params.bladePitch), 0, 0]} 
-            >
-               <meshStandardMaterial color="#38bdf8" />
-            </mesh>
+          {/* ROTOR GROUP: Tilts Rotor Axis relative to Line */}
+          {/* Positive Tilt = Tilt Back (Top moves -Z) = Negative X Rotation; live telemetry uses the IMU pitch and roll */}
+          <group rotation={telemetry
+            ? [THREE.MathUtils.degToRad(-telemetry.pitch), 0, THREE.MathUtils.degToRad(telemetry.roll)]
+            : [THREE.MathUtils.degToRad(-params.rotorTilt || 0), 0, 0]}>
             
-            {/* Teeter Pin Visual (X-axis pin) */}
-            <mesh position={[0, 0, 0]} rotation={[0, 0, Math.PI/2]}>
-               <cylinderGeometry args={[0.02, 0.02, 0.25, 16]} />
-               <meshStandardMaterial color="red" />
-            </mesh>
-          </group>
+            <group ref={bladesRef}>
+              {/* Hub - Default Cylinder is Y-aligned */}
+              <mesh geometry={hubGeo}>
+                <meshStandardMaterial color="#94a3b8" metalness={0.8} roughness={0.2} />
+              </mesh>
 
-          {/* Total Rotor Thrust Vector - Green - Along Rotor Axis (+Y) */}
-          {results.totalRotorThrust > 0 && (
-            <>
-              {/* Offset slightly in X to distinguish from Line Tension vector if angles are small */}
-              <arrowHelper args={[new THREE.Vector3(0, 1, 0), new THREE.Vector3(0.05, 0.2, 0), thrustLength, 0x10b981]} />
-              <Text 
-                position={[0.3, 0.2 + thrustLength / 2, 0]} 
-                fontSize={0.25} 
-                color="#10b981"
-                anchorX="left"
-                anchorY="middle"
-              >
-                {`Total Rotor Thrust\n${results.totalRotorThrust} N`}
-              </Text>
-            </>
-          )}
+              {/* FLAP GROUPS: each blade flaps about Z (across its span) at the pin, gimbal or its hinge */}
+              {azimuths.map((azimuth, k) => (
+                <group key={azimuth} rotation={[0, azimuth, 0]}>
+                  <group ref={el => { flapRefs.current[k] = el; }} position={[hingeRadius, 0, 0]}>
+                    {/* Pitch rotates around the span (X) */}
+                    <mesh geometry={bladeGeo} position={[-hingeRadius, 0, 0]} rotation={[THREE.MathUtils.degToRad(params.bladePitch), 0, 0]}>
+                      <meshStandardMaterial vertexColors side={THREE.DoubleSide} />
+                    </mesh>
+                  </group>
+                  {/* Flapping hinge pin, red when the blade reaches the hub stops */}
+                  {hubType === HubType.ARTICULATED && (
+                    <mesh position={[hingeRadius, 0, 0]} rotation={[Math.PI/2, 0, 0]}>
+                      <cylinderGeometry args={[0.015, 0.015, 0.12, 12]} />
+                      <meshStandardMaterial color={stopColor} />
+                    </mesh>
+                  )}
+                </group>
+              ))}
 
+              {/* Teeter Pin Visual (Z-axis pin), red when the blades reach the hub stops */}
+              {hubType === HubType.TEETERING && (
+                <mesh position={[0, 0, 0]} rotation={[Math.PI/2, 0, 0]}>
+                   <cylinderGeometry args={[0.02, 0.02, 0.25, 16]} />
+                   <meshStandardMaterial color={stopColor} />
+                </mesh>
+              )}
+              {/* Gimbal ring around the hub */}
+              {hubType === HubType.GIMBAL && (
+                <mesh rotation={[Math.PI/2, 0, 0]}>
+                   <torusGeometry args={[0.14, 0.015, 12, 40]} />
+                   <meshStandardMaterial color={stopColor} />
+                </mesh>
+              )}
+            </group>
+
+            {/* FLOW: wake and disk colouring, fixed in the rotor frame while the blades spin through it */}
+            <FlowLayer flow={flow} field={field} scale={scale} view={flowView} />
+
+            {/* Total Rotor Thrust Vector - Green - Along Rotor Axis (+Y) */}
+            {results.totalRotorThrust > 0 && (
+              <>
+                {/* Offset slightly in X to distinguish from Line Tension vector if angles are small */}
+                <arrowHelper args={[new THREE.Vector3(0, 1, 0), new THREE.Vector3(0.05, 0.2, 0), thrustLength, 0x10b981]} />
+                <Text 
+                  position={[0.3, 0.2 + thrustLength / 2, 0]} 
+                  fontSize={0.25} 
+                  color="#10b981"
+                  anchorX="left"
+                  anchorY="middle"
+                >
+                  {`Total Rotor Thrust\n${results.totalRotorThrust} N`}
+                </Text>
+              </>
+            )}
+
+          </group>
         </group>
       </group>
 
       {/* Wind Vector (Global Horizontal) */}
-      <arrowHelper args={[new THREE.Vector3(0, 0, -1), new THREE.Vector3(0, 0, 5), 3, 0xffffff]} />
-      <Text position={[0, 0.5, 4]} fontSize={0.3} color="white">Wind Direction</Text>
+      <arrowHelper ref={windArrowRef} args={[new THREE.Vector3(0, 0, -1), new THREE.Vector3(0, 0, 5), windArrowLength(results.hubWindSpeed), 0xffffff]} />
+      <Text position={[0, 0.5, 4]} fontSize={0.3} color="white">{`Wind at Rotor ${results.hubWindSpeed} m/s`}</Text>
 
       {/* AoA Visual Guide */}
       <Text position={[2, 2, 0]} fontSize={0.25} color="white" anchorX="left">
@@ -194,6 +642,22 @@ const RotorAssembly: React.FC<SceneProps> = ({ params, results }) => {
 };
 
 export const ThreeScene: React.FC<SceneProps> = (props) => {
+  const [flowView, setFlowView] = useState<FlowView>({ mode: 'off', disk: 'off', reverseFlow: false });
+  const flow = useMemo(() => rotorFlowFor(props.params, props.results), [props.params, props.results]);
+  const field = useMemo(
+    () => flowView.disk === 'off' ? null : diskField(flow, props.params, DISK_RINGS, DISK_SECTORS),
+    [flow, props.params, flowView.disk]
+  );
+  const scale = useMemo(
+    () => field ? diskScaleFor(field, flowView.disk, props.results.bladeAerodynamics.stallAngle) : null,
+    [field, flowView.disk, props.results.bladeAerodynamics.stallAngle]
+  );
+
+  const optionClass = (active: boolean) => clsx(
+    "px-2 py-0.5 rounded border transition-colors",
+    active ? "bg-indigo-600 text-white border-indigo-500" : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+  );
+
   return (
     <div className="w-full h-full bg-slate-900 rounded-lg overflow-hidden shadow-inner">
       <Canvas>
@@ -205,7 +669,7 @@ export const ThreeScene: React.FC<SceneProps> = (props) => {
         
         <Environment preset="city" />
         
-        <RotorAssembly {...props} />
+        <RotorAssembly {...props} flow={flow} field={field} scale={scale} flowView={flowView} />
         
         <Grid 
           position={[0, -2, 0]} 
@@ -219,6 +683,67 @@ export const ThreeScene: React.FC<SceneProps> = (props) => {
           fadeDistance={30}
         />
       </Canvas>
+      {props.telemetry && !props.playback && (
+        <div className="absolute top-4 left-4 flex items-center gap-2 bg-slate-900/80 backdrop-blur-md px-3 py-2 rounded-lg border border-emerald-700 text-xs text-slate-300 shadow-xl">
+          <Radio className="w-3 h-3 text-emerald-400" />
+          <span>Live telemetry · {props.telemetry.time.toFixed(1)} s</span>
+        </div>
+      )}
+      {props.playback && (
+        <div className="absolute top-4 left-4 flex items-center gap-3 bg-slate-900/80 backdrop-blur-md px-3 py-2 rounded-lg border border-indigo-700 text-xs text-slate-300 shadow-xl">
+          <span>
+            Time history playback · {props.playback.history[props.playback.history.length - 1].time} s
+          </span>
+          <button
+            onClick={props.onPlaybackEnd}
+            className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors"
+          >
+            <Square className="w-3 h-3" /> Stop
+          </button>
+        </div>
+      )}
+      <div className="absolute bottom-4 right-4 bg-slate-900/80 backdrop-blur-md px-3 py-2 rounded-lg border border-slate-700 text-xs text-slate-300 shadow-xl space-y-2">
+        <div className="flex items-center gap-1">
+          <Wind className="w-3 h-3 text-indigo-400 mr-1" />
+          <span className="w-10 text-slate-400">Flow</span>
+          {([['off', 'Off'], ['streamlines', 'Streamlines'], ['particles', 'Particles']] as [FlowMode, string][]).map(([mode, label]) => (
+            <button key={mode} onClick={() => setFlowView({ ...flowView, mode })} className={optionClass(flowView.mode === mode)}>
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="w-10 ml-4 text-slate-400">Disk</span>
+          {([['off', 'Off'], ['induced', 'Induced'], ['aoa', 'AoA']] as [DiskColoring, string][]).map(([disk, label]) => (
+            <button key={disk} onClick={() => setFlowView({ ...flowView, disk })} className={optionClass(flowView.disk === disk)}>
+              {label}
+            </button>
+          ))}
+        </div>
+        {scale && (
+          <div className="ml-4">
+            <div className="h-2 rounded" style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(t => `#${heatColor(t).getHexString()}`).join(', ')})` }} />
+            <div className="flex justify-between font-mono text-slate-400 mt-0.5">
+              <span>{scale.min.toFixed(1)} {scale.unit}</span>
+              <span>{flowView.disk === 'aoa' ? 'stall ' : ''}{scale.max.toFixed(1)} {scale.unit}</span>
+            </div>
+          </div>
+        )}
+        <label className="flex items-center gap-2 ml-4 text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={flowView.reverseFlow}
+            onChange={(e) => setFlowView({ ...flowView, reverseFlow: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          Reverse-flow region
+        </label>
+        {flowView.mode !== 'off' && (
+          <div className="ml-4 font-mono text-slate-500">
+            μ {flow.advanceRatio} · v̄ {flow.inducedVelocity.toFixed(2)} m/s · skew {flow.skewAngle.toFixed(0)}°
+          </div>
+        )}
+      </div>
       <div className="absolute bottom-4 left-4 text-xs text-slate-400 pointer-events-none">
         <p>Left Click: Rotate • Right Click: Pan • Scroll: Zoom</p>
       </div>
@@ -0,0 +1,174 @@
+
+import React, { useState, useMemo } from 'react';
+import { AeroModel, DesignParams, ModelSettings, RunStatistics, TimeSimulationOptions, TimeSimulationResult, TurbulenceModel } from '../types';
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, ReferenceLine, Legend } from 'recharts';
+import { Timer, Play, CircleCheck, CircleX, AlertTriangle } from 'lucide-react';
+import { runFlightSimulation, DEFAULT_TIME_SIMULATION_OPTIONS } from '../services/flightSimulator';
+
+interface TimeSimulationViewProps {
+  params: DesignParams;
+  modelSettings: ModelSettings;
+  onPlayback: (result: TimeSimulationResult) => void;
+}
+
+export const TimeSimulationView: React.FC<TimeSimulationViewProps> = ({ params, modelSettings, onPlayback }) => {
+  const [options, setOptions] = useState<TimeSimulationOptions>(DEFAULT_TIME_SIMULATION_OPTIONS);
+
+  const result = useMemo(
+    () => runFlightSimulation(params, modelSettings, options),
+    [params, modelSettings, options]
+  );
+
+  // Thin the history for the chart; playback uses the full record
+  const chartData = useMemo(
+    () => result.history.filter((_, i) => i % 4 === 0),
+    [result]
+  );
+
+  const isUnsteady = modelSettings.wind.turbulenceModel !== TurbulenceModel.NONE || modelSettings.wind.gusts.length > 0;
+  // The time history always integrates the uncalibrated BEMT rotor
+  const differsFromSteady = modelSettings.aeroModel !== AeroModel.BEMT || modelSettings.calibration.enabled;
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-slate-300 font-semibold text-sm flex items-center gap-2">
+          <Timer className="w-4 h-4 text-sky-400" />
+          Spin-up Time History (RK4, BEMT)
+        </h3>
+        <button
+          onClick={() => onPlayback(result)}
+          className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-500 transition-colors"
+        >
+          <Play className="w-3 h-3" /> Play in 3D
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+        {/* Run settings & outcome */}
+        <div className="flex flex-col gap-3 text-xs">
+          <SimInput
+            label="Initial RPM"
+            value={options.initialRpm}
+            min={0} max={1500} step={50}
+            onChange={(v) => setOptions({ ...options, initialRpm: v })}
+          />
+          <p className="text-slate-500 italic">
+            Bearing friction follows the Line Bearing settings.
+          </p>
+          {differsFromSteady && (
+            <p className="text-amber-400 flex items-start gap-1">
+              <AlertTriangle className="w-3 h-3 flex-none mt-0.5" />
+              Runs the uncalibrated BEMT rotor, so it can differ from the steady results of the selected model.
+            </p>
+          )}
+
+          <div className="bg-slate-900/50 p-3 rounded border border-slate-700 grid grid-cols-[1fr_auto] gap-y-1">
+            <span className="text-slate-400">Steady RPM:</span>
+            <span className="text-blue-400 font-mono text-right">{result.steadyRpm}</span>
+
+            <span className="text-slate-400">Spin-up (90%):</span>
+            <span className="text-white font-mono text-right">{result.spinUpTime !== null ? `${result.spinUpTime} s` : '—'}</span>
+
+            <span className="text-slate-400">Overshoot:</span>
+            <span className="text-white font-mono text-right">{result.overshoot}%</span>
+          </div>
+
+          <div className="bg-slate-900/50 p-3 rounded border border-slate-700 grid grid-cols-4 gap-x-2 gap-y-1">
+            <span className="text-slate-500"></span>
+            <span className="text-slate-500 text-right">Mean</span>
+            <span className="text-slate-500 text-right">P95</span>
+            <span className="text-slate-500 text-right">Peak</span>
+            <StatRow label="RPM" stats={result.statistics.rpm} />
+            <StatRow label="Line (N)" stats={result.statistics.lineTension} />
+            <StatRow label="Wind (m/s)" stats={result.statistics.windSpeed} />
+          </div>
+
+          {!result.selfStarting && result.steadyRpm > 0 && (
+            <div className="text-amber-400 flex flex-col gap-1">
+              <span className="flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3 flex-none" /> Does not self-start: needs prerotation above {result.prerotationRpm} RPM
+              </span>
+              {options.initialRpm < result.prerotationRpm && (
+                <button
+                  onClick={() => setOptions({ ...options, initialRpm: Math.min(1500, Math.ceil(result.prerotationRpm / 50) * 50) })}
+                  className="self-start px-2 py-1 rounded-md text-xs font-medium bg-slate-700 text-slate-300 border border-slate-600 hover:bg-slate-600 transition-colors"
+                >
+                  Start from {Math.min(1500, Math.ceil(result.prerotationRpm / 50) * 50)} RPM
+                </button>
+              )}
+            </div>
+          )}
+
+          {result.autorotationReached ? (
+            <div className="text-emerald-400 flex items-center gap-1">
+              <CircleCheck className="w-3 h-3" /> Autorotation reached
+            </div>
+          ) : (
+            <div className="text-rose-400 flex items-center gap-1">
+              <CircleX className="w-3 h-3" /> Does not reach autorotation{options.initialRpm === 0 ? ' from rest' : ''}
+            </div>
+          )}
+        </div>
+
+        {/* RPM & teeter history */}
+        <div className="lg:col-span-3 min-h-[220px]">
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="time" stroke="#94a3b8" type="number" domain={[0, options.duration]} label={{ value: 'Time (s)', position: 'insideBottom', offset: -5 }} />
+              <YAxis yAxisId="rpm" stroke="#94a3b8" label={{ value: 'RPM', angle: -90, position: 'insideLeft' }} />
+              <YAxis yAxisId="teeter" orientation="right" stroke="#94a3b8" label={{ value: 'Teeter (°)', angle: 90, position: 'insideRight' }} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              {result.steadyRpm > 0 && (
+                <ReferenceLine yAxisId="rpm" y={result.steadyRpm} stroke="#64748b" strokeDasharray="4 2" />
+              )}
+              <Line yAxisId="rpm" type="monotone" dataKey="rpm" name="RPM" stroke="#3b82f6" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line yAxisId="teeter" type="monotone" dataKey="teeterAngle" name="Teeter" stroke="#f59e0b" strokeWidth={1} dot={false} isAnimationActive={false} />
+              {isUnsteady && (
+                <Line yAxisId="teeter" type="monotone" dataKey="windSpeed" name="Wind (m/s)" stroke="#14b8a6" strokeWidth={1} dot={false} isAnimationActive={false} />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const StatRow: React.FC<{ label: string; stats: RunStatistics }> = ({ label, stats }) => (
+  <>
+    <span className="text-slate-400">{label}</span>
+    <span className="text-white font-mono text-right">{stats.mean}</span>
+    <span className="text-white font-mono text-right">{stats.p95}</span>
+    <span className="text-amber-300 font-mono text-right">{stats.peak}</span>
+  </>
+);
+
+const SimInput: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (val: number) => void;
+}> = ({ label, value, min, max, step, onChange }) => (
+  <div className="flex flex-col gap-1">
+    <div className="flex justify-between text-slate-300">
+      <span>{label}</span>
+      <span className="font-mono text-indigo-300">{value}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-indigo-500 hover:accent-indigo-400"
+    />
+  </div>
+);
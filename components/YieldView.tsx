@@ -0,0 +1,151 @@
+import React, { useState, useMemo } from 'react';
+import { WindDistribution, YieldOptions } from '../types';
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, Bar, Line, Legend } from 'recharts';
+import { BatteryCharging, Upload } from 'lucide-react';
+import clsx from 'clsx';
+import { DEFAULT_YIELD_OPTIONS, estimateYield, parseWindHistogram, PerformancePoint } from '../services/yieldModel';
+
+interface YieldViewProps {
+  curve: PerformancePoint[]; // the design's steady performance against wind
+}
+
+export const YieldView: React.FC<YieldViewProps> = ({ curve }) => {
+  const [options, setOptions] = useState<YieldOptions>(DEFAULT_YIELD_OPTIONS);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const result = useMemo(() => estimateYield(curve, options), [curve, options]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const measured = parseWindHistogram(await file.text());
+      setImportError(null);
+      setOptions({ ...options, distribution: WindDistribution.MEASURED, measured });
+    } catch (err: any) {
+      setImportError(err.message || 'Could not read wind data.');
+    }
+  };
+
+  const distributions = [
+    { value: WindDistribution.WEIBULL, label: 'Weibull' },
+    { value: WindDistribution.MEASURED, label: 'Measured' }
+  ];
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex flex-col">
+      <h3 className="text-slate-300 font-semibold text-sm mb-4 flex items-center gap-2">
+        <BatteryCharging className="w-4 h-4 text-emerald-400" />
+        Energy Yield
+      </h3>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+        {/* Site distribution & outcome */}
+        <div className="flex flex-col gap-3 text-xs">
+          <div className="grid grid-cols-2 gap-2">
+            {distributions.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setOptions({ ...options, distribution: value })}
+                disabled={value === WindDistribution.MEASURED && options.measured.length === 0}
+                className={clsx(
+                  "px-2 py-1.5 rounded-md text-xs font-medium transition-colors border disabled:opacity-50 disabled:cursor-not-allowed",
+                  options.distribution === value
+                    ? "bg-indigo-600 text-white border-indigo-500"
+                    : "bg-slate-700 text-slate-300 border-slate-600 hover:bg-slate-600"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {options.distribution === WindDistribution.WEIBULL ? (
+            <>
+              <YieldInput label="Weibull k" value={options.weibullK} min={1} max={4} step={0.1} onChange={(v) => setOptions({ ...options, weibullK: v })} />
+              <YieldInput label="Weibull c (m/s)" value={options.weibullC} min={2} max={15} step={0.5} onChange={(v) => setOptions({ ...options, weibullC: v })} />
+            </>
+          ) : (
+            <p className="text-slate-400">{options.measured.length} bins from imported data.</p>
+          )}
+
+          <label className="flex items-center justify-center gap-2 px-2 py-1.5 rounded-md text-xs font-medium bg-slate-700 text-slate-300 border border-slate-600 hover:bg-slate-600 cursor-pointer transition-colors">
+            <Upload className="w-3 h-3" /> Import Wind CSV
+            <input type="file" accept=".csv,.txt" className="hidden" onChange={handleImport} />
+          </label>
+          {importError && (
+            <p className="text-rose-400">{importError}</p>
+          )}
+
+          <YieldInput label="Payload Thrust (N)" value={options.payloadThrust} min={0} max={1000} step={10} onChange={(v) => setOptions({ ...options, payloadThrust: v })} />
+          <YieldInput label="Over-speed Limit (rpm)" value={options.overspeedRpm} min={100} max={3000} step={50} onChange={(v) => setOptions({ ...options, overspeedRpm: v })} />
+
+          <div className="bg-slate-900/50 p-3 rounded border border-slate-700 grid grid-cols-[1fr_auto] gap-y-1">
+            <span className="text-slate-400">Annual Energy:</span>
+            <span className="text-emerald-400 font-mono text-right">{result.annualEnergy} kWh</span>
+
+            <span className="text-slate-400">Mean Power:</span>
+            <span className="text-white font-mono text-right">{result.meanPower} W</span>
+
+            <span className="text-slate-400">Capacity Factor:</span>
+            <span className="text-white font-mono text-right">{(result.capacityFactor * 100).toFixed(1)}%</span>
+
+            <span className="text-slate-400">Hours ≥ Payload:</span>
+            <span className="text-white font-mono text-right">{result.hoursAbovePayload} h</span>
+
+            <span className="text-slate-400">Hours Over-speed:</span>
+            <span className={`font-mono text-right ${result.hoursOverspeed > 0 ? 'text-rose-400 font-bold' : 'text-white'}`}>{result.hoursOverspeed} h</span>
+          </div>
+          <p className="text-slate-500 italic">
+            Wind bins are at the reference height; hours are per year.
+          </p>
+        </div>
+
+        {/* Distribution & energy per bin */}
+        <div className="lg:col-span-3 min-h-[260px]">
+          <ResponsiveContainer width="100%" height={260}>
+            <ComposedChart data={result.bins}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+              <XAxis dataKey="speed" stroke="#94a3b8" label={{ value: 'Wind (m/s)', position: 'insideBottom', offset: -5 }} />
+              <YAxis yAxisId="hours" stroke="#94a3b8" label={{ value: 'Hours / yr', angle: -90, position: 'insideLeft' }} />
+              <YAxis yAxisId="energy" orientation="right" stroke="#94a3b8" label={{ value: 'kWh / yr', angle: 90, position: 'insideRight' }} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1e293b', border: 'none', borderRadius: '8px' }}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <Bar yAxisId="hours" dataKey="hours" name="Hours" fill="#6366f1" isAnimationActive={false} />
+              <Line yAxisId="energy" type="monotone" dataKey="energy" name="Energy" stroke="#10b981" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const YieldInput: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (val: number) => void;
+}> = ({ label, value, min, max, step, onChange }) => (
+  <div className="flex flex-col gap-1">
+    <div className="flex justify-between text-slate-300">
+      <span>{label}</span>
+      <span className="font-mono text-indigo-300">{value}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-indigo-500 hover:accent-indigo-400"
+    />
+  </div>
+);
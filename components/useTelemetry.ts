@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  DesignParams,
+  ModelSettings,
+  SimulationResult,
+  TelemetryPoint,
+  TelemetryRecording,
+  TelemetrySample,
+  TelemetrySource,
+  TelemetryStatus
+} from '../types';
+import { simulateTestPoint } from '../services/calibrationSolver';
+import { calibrationFactorsOf } from '../services/calibrationModel';
+import { completeSample, HISTORY_SECONDS, parseTelemetryLine, PartialSample, telemetryPoint } from '../services/telemetryModel';
+import { LinkHandlers, openReplayLink, openSerialLink, openWebSocketLink, TelemetryLink } from '../services/telemetryLink';
+
+// The model runs on the newest sample at this rate, not on every line
+const UPDATE_MS = 250;
+
+export interface TelemetryFeed {
+  source: TelemetrySource | null;
+  status: TelemetryStatus;
+  error: string | null;
+  sample: TelemetrySample | null; // newest complete sample
+  predicted: SimulationResult | null; // the model at that sample's wind, angle and tension
+  history: TelemetryPoint[]; // last HISTORY_SECONDS of measured against predicted
+  recording: boolean;
+  recordedCount: number;
+}
+
+const IDLE_FEED: TelemetryFeed = {
+  source: null,
+  status: TelemetryStatus.IDLE,
+  error: null,
+  sample: null,
+  predicted: null,
+  history: [],
+  recording: false,
+  recordedCount: 0
+};
+
+/**
+ * One telemetry connection for the whole app, so it lives on while the
+ * panel is closed. Lines are parsed as they arrive and recorded in full; the
+ * model prediction and the React state follow at UPDATE_MS.
+ */
+export const useTelemetry = (params: DesignParams, modelSettings: ModelSettings) => {
+  const [feed, setFeed] = useState<TelemetryFeed>(IDLE_FEED);
+  const linkRef = useRef<TelemetryLink | null>(null);
+  const fieldsRef = useRef<PartialSample>({});
+  const latestRef = useRef<TelemetrySample | null>(null);
+  const startRef = useRef(0);
+  const recordRef = useRef<{ startedAt: string; samples: TelemetrySample[] } | null>(null);
+  const designRef = useRef({ params, modelSettings });
+  designRef.current = { params, modelSettings };
+
+  const handleLine = (line: string) => {
+    const fields = parseTelemetryLine(line, fieldsRef.current);
+    if (!fields) return;
+    fieldsRef.current = fields;
+    const sample = completeSample(fields, fields.time !== undefined, (performance.now() - startRef.current) / 1000);
+    if (!sample) return;
+    latestRef.current = sample;
+    recordRef.current?.samples.push(sample);
+  };
+
+  // Predict for the newest sample and move the charts on
+  useEffect(() => {
+    if (feed.status !== TelemetryStatus.LIVE) return;
+    let shown: TelemetrySample | null = null;
+    const timer = setInterval(() => {
+      const sample = latestRef.current;
+      if (!sample || sample === shown) return;
+      shown = sample;
+      const { params, modelSettings } = designRef.current;
+      const predicted = simulateTestPoint(
+        params,
+        modelSettings,
+        { windSpeed: sample.windSpeed, rpm: sample.rpm, lineTension: sample.lineTension, lineAngle: sample.lineAngle, rotorTilt: params.rotorTilt, power: null },
+        calibrationFactorsOf(modelSettings)
+      );
+      setFeed(prev => ({
+        ...prev,
+        sample,
+        predicted,
+        history: [...prev.history.filter(p => p.time > sample.time - HISTORY_SECONDS && p.time < sample.time), telemetryPoint(sample, predicted)],
+        recordedCount: recordRef.current?.samples.length ?? prev.recordedCount
+      }));
+    }, UPDATE_MS);
+    return () => clearInterval(timer);
+  }, [feed.status]);
+
+  // Close the link with the app
+  useEffect(() => () => linkRef.current?.close(), []);
+
+  const handlers: LinkHandlers = {
+    onOpen: () => setFeed(prev => ({ ...prev, status: TelemetryStatus.LIVE })),
+    onLine: handleLine,
+    onClose: (error) => {
+      linkRef.current = null;
+      latestRef.current = null;
+      setFeed(prev => ({
+        ...prev,
+        status: error ? TelemetryStatus.ERROR : TelemetryStatus.IDLE,
+        error,
+        sample: null,
+        predicted: null
+      }));
+    }
+  };
+
+  const open = async (source: TelemetrySource, connect: () => TelemetryLink | Promise<TelemetryLink>) => {
+    linkRef.current?.close();
+    linkRef.current = null;
+    fieldsRef.current = {};
+    latestRef.current = null;
+    startRef.current = performance.now();
+    setFeed(prev => ({ ...IDLE_FEED, source, status: TelemetryStatus.CONNECTING, recording: prev.recording, recordedCount: prev.recordedCount }));
+    try {
+      linkRef.current = await connect();
+    } catch (err: any) {
+      setFeed(prev => ({ ...prev, status: TelemetryStatus.ERROR, error: err.message || 'Could not connect.' }));
+    }
+  };
+
+  const disconnect = () => {
+    linkRef.current?.close();
+    linkRef.current = null;
+    latestRef.current = null;
+    setFeed(prev => ({ ...prev, status: TelemetryStatus.IDLE, error: null, sample: null, predicted: null }));
+  };
+
+  const startRecording = () => {
+    recordRef.current = { startedAt: new Date().toISOString(), samples: [] };
+    setFeed(prev => ({ ...prev, recording: true, recordedCount: 0 }));
+  };
+
+  const stopRecording = (name: string): TelemetryRecording | null => {
+    const record = recordRef.current;
+    recordRef.current = null;
+    setFeed(prev => ({ ...prev, recording: false }));
+    return record && record.samples.length > 0 ? { name, startedAt: record.startedAt, samples: record.samples } : null;
+  };
+
+  return {
+    feed,
+    connectWebSocket: (url: string) => open(TelemetrySource.WEBSOCKET, () => openWebSocketLink(url, handlers)),
+    connectSerial: (baudRate: number) => open(TelemetrySource.SERIAL, () => openSerialLink(baudRate, handlers)),
+    replay: (recording: TelemetryRecording) => open(TelemetrySource.REPLAY, () => openReplayLink(recording, handlers)),
+    disconnect,
+    startRecording,
+    stopRecording
+  };
+};
+
+export type TelemetryControls = ReturnType<typeof useTelemetry>;
@@ -0,0 +1,152 @@
+// Local WebSocket server for the Telemetry tab. It streams the rig line
+// protocol (see services/telemetryModel.ts) to every connected client:
+//
+//   node scripts/telemetry-server.mjs                      mock rig data
+//   node scripts/telemetry-server.mjs --serial /dev/ttyACM0 bridge a serial port
+//   node scripts/telemetry-server.mjs --replay session.log  loop a recording
+//   node scripts/telemetry-server.mjs --port 8787 --rate 20
+//
+// The serial bridge reads the device as a file, so set its baud rate first,
+// e.g. `stty -F /dev/ttyACM0 115200 raw` (macOS: `stty -f`). No packages
+// are needed beyond Node itself.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { createReadStream, readFileSync } from 'node:fs';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && args[i + 1] ? args[i + 1] : fallback;
+};
+
+const port = parseInt(option('port', '8787'), 10);
+const rate = parseFloat(option('rate', '20')); // mock samples per second
+const serialPath = option('serial', null);
+const replayPath = option('replay', null);
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const clients = new Set();
+
+// A single unmasked text frame, as servers send them
+const textFrame = (text) => {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x81, length])
+    : length < 65536
+      ? Buffer.from([0x81, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x81, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(length)); return b; })()]);
+  return Buffer.concat([header, payload]);
+};
+
+// One protocol line per frame, newline included
+const broadcast = (line) => {
+  const frame = textFrame(`${line}\n`);
+  clients.forEach(socket => socket.write(frame));
+};
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('GyroKite telemetry: connect with a WebSocket.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  clients.add(socket);
+  console.log(`client connected (${clients.size})`);
+
+  // Clients only ever send a close frame (opcode 8); answer it and hang up
+  socket.on('data', (data) => {
+    if ((data[0] & 0x0f) === 0x8) {
+      socket.end(Buffer.from([0x88, 0]));
+    }
+  });
+  const drop = () => {
+    if (clients.delete(socket)) console.log(`client left (${clients.size})`);
+  };
+  socket.on('close', drop);
+  socket.on('error', drop);
+});
+
+// Gusty wind and a rotor that lags it, tuned near the default design
+const startMock = () => {
+  const dt = 1 / rate;
+  let t = 0;
+  let rpm = 300;
+  setInterval(() => {
+    t += dt;
+    const wind = Math.max(2, 8 + 1.5 * Math.sin(0.21 * t) + 0.8 * Math.sin(0.77 * t + 1) + 0.3 * (Math.random() - 0.5));
+    const targetRpm = 430 * (1 - Math.exp(-wind / 3.5));
+    rpm += (targetRpm - rpm) * Math.min(1, dt / 1.5);
+    const tension = 1.1 * wind * wind + 20 + 3 * (Math.random() - 0.5);
+    const angle = 55 + 8 * (1 - Math.exp(-wind / 5)) + 1.5 * Math.sin(0.4 * t);
+    const roll = 2 * Math.sin(0.7 * t);
+    const pitch = -10 + 1.5 * Math.sin(0.5 * t + 2);
+    broadcast(
+      `t=${t.toFixed(3)},rpm=${rpm.toFixed(0)},ten=${tension.toFixed(1)},wind=${wind.toFixed(2)},` +
+      `ang=${angle.toFixed(1)},roll=${roll.toFixed(1)},pitch=${pitch.toFixed(1)}`
+    );
+  }, 1000 / rate);
+};
+
+// Pass the port's lines through as they come
+const startSerialBridge = () => {
+  let buffer = '';
+  const stream = createReadStream(serialPath, { encoding: 'utf8' });
+  stream.on('data', (chunk) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    lines.filter(line => line.trim()).forEach(broadcast);
+  });
+  stream.on('error', (err) => {
+    console.error(`serial: ${err.message}`);
+    process.exit(1);
+  });
+  stream.on('end', () => {
+    console.error('serial: port closed');
+    process.exit(1);
+  });
+};
+
+// Loop a recording at its own timing
+const startReplay = () => {
+  const lines = readFileSync(replayPath, 'utf8').split(/\r?\n/).filter(line => line.trim() && !line.startsWith('#'));
+  const timeOf = (line) => parseFloat(/(?:^|,)\s*t=([-\d.eE+]+)/.exec(line)?.[1] ?? 'NaN');
+  const times = lines.map(timeOf);
+  if (lines.length === 0 || times.some(v => !Number.isFinite(v))) {
+    console.error('replay: every line needs t=');
+    process.exit(1);
+  }
+  const duration = times[times.length - 1] - times[0];
+  let started = Date.now();
+  let index = 0;
+  setInterval(() => {
+    const elapsed = (Date.now() - started) / 1000;
+    while (index < lines.length && times[index] - times[0] <= elapsed) broadcast(lines[index++]);
+    if (index >= lines.length && elapsed > duration) {
+      started = Date.now();
+      index = 0;
+    }
+  }, 20);
+};
+
+server.listen(port, () => {
+  const mode = serialPath ? `bridging ${serialPath}` : replayPath ? `replaying ${replayPath}` : `mock rig at ${rate} Hz`;
+  console.log(`telemetry on ws://localhost:${port}, ${mode}`);
+  if (serialPath) startSerialBridge();
+  else if (replayPath) startReplay();
+  else startMock();
+});
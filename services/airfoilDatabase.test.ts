@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { parsePolarFile, registerAirfoil } from './airfoilDatabase';
+
+const XFOIL_POLAR = `
+ XFOIL         Version 6.99
+
+ Calculated polar for: Test Foil 12
+
+ 1 1 Reynolds number fixed          Mach number fixed
+
+ xtrf =   1.000 (top)        1.000 (bottom)
+ Mach =   0.000     Re =     0.200 e 6     Ncrit =   9.000
+
+  alpha    CL        CD       CDp       CM     Top_Xtr  Bot_Xtr
+ ------- -------- --------- --------- -------- -------- --------
+  -2.000  -0.2200   0.00650   0.00120  -0.0010   0.7000   0.5000
+   0.000   0.0000   0.00600   0.00100   0.0000   0.6000   0.6000
+   2.000   0.2200   0.00650   0.00120   0.0010   0.5000   0.7000
+`;
+
+describe('parsePolarFile', () => {
+  it('reads the name, Reynolds number and alpha/CL/CD/CM columns of an XFOIL polar', () => {
+    const airfoil = parsePolarFile(XFOIL_POLAR);
+    expect(airfoil.name).toBe('Test Foil 12');
+    expect(airfoil.builtIn).toBe(false);
+    expect(airfoil.polars).toHaveLength(1);
+    expect(airfoil.polars[0].reynolds).toBe(200000);
+    expect(airfoil.polars[0].points).toEqual([
+      { alpha: -2, cl: -0.22, cd: 0.0065, cm: -0.001 },
+      { alpha: 0, cl: 0, cd: 0.006, cm: 0 },
+      { alpha: 2, cl: 0.22, cd: 0.0065, cm: 0.001 }
+    ]);
+  });
+
+  it('reads plain and e-notation Reynolds numbers and sorts several polars by them', () => {
+    const text = [
+      'Re = 1.0e6',
+      'alpha,CL,CD',
+      '0,0.1,0.01',
+      'Re = 50000',
+      'alpha CL CD',
+      '0 0.05 0.02'
+    ].join('\n');
+    const airfoil = parsePolarFile(text, 'Two Polars');
+    expect(airfoil.polars.map(p => p.reynolds)).toEqual([50000, 1000000]);
+    expect(airfoil.polars[1].points[0]).toEqual({ alpha: 0, cl: 0.1, cd: 0.01, cm: 0 });
+  });
+
+  it('sorts rows by alpha, keeps the first of a repeated angle and skips rows without finite values', () => {
+    const text = [
+      'Re = 100000',
+      'alpha CL CD',
+      '4 0.4 0.02',
+      '0 0.0 0.01',
+      '4 0.9 0.09',
+      '2 NaN 0.01',
+      '------- ------ ------'
+    ].join('\n');
+    const { polars } = parsePolarFile(text);
+    expect(polars[0].points.map(p => [p.alpha, p.cl])).toEqual([[0, 0], [4, 0.4]]);
+  });
+
+  it('gives a second import of the same name a free id', () => {
+    const first = parsePolarFile(XFOIL_POLAR);
+    expect(first.id).toBe('imported-test-foil-12-1');
+    registerAirfoil(first);
+    expect(parsePolarFile(XFOIL_POLAR).id).toBe('imported-test-foil-12-2');
+  });
+
+  it('refuses text without a polar', () => {
+    expect(() => parsePolarFile('alpha CL CD\n0 0 0.01')).toThrow(/No polar data found/);
+  });
+});
@@ -0,0 +1,303 @@
+
+import { Airfoil, PolarPoint, ReynoldsPolar } from '../types';
+
+// --- Built-in Section Data ---
+// Representative polars reconstructed from published section characteristics
+// (Abbott & von Doenhoff; Sheldahl & Klimas, SAND80-2114) at typical small-rotor Reynolds numbers.
+
+interface SectionCharacteristics {
+  reynolds: number;
+  alpha0: number; // zero-lift angle, degrees
+  clMax: number;
+  stallAlpha: number; // degrees
+  cd0: number;
+  cm0: number;
+}
+
+const LIFT_SLOPE_PER_DEG = 0.105;
+const POLAR_ALPHA_MIN = -16;
+const POLAR_ALPHA_MAX = 24;
+
+function syntheticPolar(section: SectionCharacteristics): ReynoldsPolar {
+  const { reynolds, alpha0, clMax, stallAlpha, cd0, cm0 } = section;
+  // Negative stall mirrors positive stall about the zero-lift angle
+  const clMin = -(clMax - 2 * LIFT_SLOPE_PER_DEG * Math.abs(alpha0));
+  const negStallAlpha = alpha0 - (stallAlpha - alpha0);
+  // Cambered sections centre their drag bucket on a small positive CL
+  const clOptimum = alpha0 < 0 ? 0.15 : 0;
+
+  const points: PolarPoint[] = [];
+  for (let alpha = POLAR_ALPHA_MIN; alpha <= POLAR_ALPHA_MAX; alpha++) {
+    const linear = LIFT_SLOPE_PER_DEG * (alpha - alpha0);
+    let cl: number;
+    let stallDepth = 0;
+
+    if (alpha > stallAlpha) {
+      stallDepth = alpha - stallAlpha;
+      cl = clMax * (1 - 0.35 * Math.min(1, stallDepth / 4));
+    } else if (alpha < negStallAlpha) {
+      stallDepth = negStallAlpha - alpha;
+      cl = clMin * (1 - 0.35 * Math.min(1, stallDepth / 4));
+    } else {
+      // Linear up to 70% of the limit, then a parabolic roll-off that peaks at the stall angle
+      const limit = linear >= 0 ? clMax : -clMin;
+      const stallDelta = linear >= 0 ? stallAlpha - alpha0 : alpha0 - negStallAlpha;
+      const linearEnd = Math.min((0.7 * limit) / LIFT_SLOPE_PER_DEG, stallDelta);
+      const delta = Math.abs(alpha - alpha0);
+      if (delta <= linearEnd) {
+        cl = linear;
+      } else {
+        const t = (delta - linearEnd) / (stallDelta - linearEnd);
+        const clEnd = LIFT_SLOPE_PER_DEG * linearEnd;
+        cl = Math.sign(linear) * (clEnd + (limit - clEnd) * (1 - (1 - t) * (1 - t)));
+      }
+    }
+
+    const cd = cd0 + 0.01 * Math.pow(cl - clOptimum, 2) + 0.035 * stallDepth;
+    const cm = cm0 - (stallDepth > 0 ? 0.01 * stallDepth * Math.sign(alpha - alpha0) : 0);
+    points.push({ alpha, cl, cd, cm });
+  }
+  return { reynolds, points };
+}
+
+function builtInAirfoil(id: string, name: string, sections: SectionCharacteristics[]): Airfoil {
+  return { id, name, builtIn: true, polars: sections.map(syntheticPolar) };
+}
+
+const FLAT_PLATE_POINTS: PolarPoint[] = [];
+for (let alpha = POLAR_ALPHA_MIN; alpha <= POLAR_ALPHA_MAX; alpha++) {
+  const a = alpha * (Math.PI / 180);
+  // Thin plate: lift slope close to 2*pi, early leading-edge stall near 6 deg
+  const attached = 0.1 * alpha;
+  const separated = 1.1 * Math.sin(2 * a);
+  const cl = Math.abs(alpha) <= 6 ? attached : Math.sign(alpha) * Math.max(0.5, Math.abs(separated));
+  FLAT_PLATE_POINTS.push({
+    alpha,
+    cl,
+    cd: 0.02 + 1.8 * Math.pow(Math.sin(a), 2),
+    cm: Math.abs(alpha) > 6 ? -0.1 * cl : 0
+  });
+}
+
+export const DEFAULT_AIRFOIL_ID = 'naca0012';
+
+const BUILT_IN_AIRFOILS: Airfoil[] = [
+  builtInAirfoil('naca0012', 'NACA 0012', [
+    { reynolds: 1e5, alpha0: 0, clMax: 0.85, stallAlpha: 10, cd0: 0.0130, cm0: 0 },
+    { reynolds: 3e5, alpha0: 0, clMax: 1.05, stallAlpha: 12, cd0: 0.0095, cm0: 0 },
+    { reynolds: 1e6, alpha0: 0, clMax: 1.30, stallAlpha: 14, cd0: 0.0065, cm0: 0 },
+    { reynolds: 3e6, alpha0: 0, clMax: 1.50, stallAlpha: 16, cd0: 0.0058, cm0: 0 }
+  ]),
+  builtInAirfoil('naca0015', 'NACA 0015', [
+    { reynolds: 1e5, alpha0: 0, clMax: 0.90, stallAlpha: 11, cd0: 0.0140, cm0: 0 },
+    { reynolds: 3e5, alpha0: 0, clMax: 1.10, stallAlpha: 13, cd0: 0.0100, cm0: 0 },
+    { reynolds: 1e6, alpha0: 0, clMax: 1.35, stallAlpha: 15, cd0: 0.0068, cm0: 0 },
+    { reynolds: 3e6, alpha0: 0, clMax: 1.55, stallAlpha: 17, cd0: 0.0062, cm0: 0 }
+  ]),
+  builtInAirfoil('naca23012', 'NACA 23012', [
+    { reynolds: 1e5, alpha0: -1.2, clMax: 1.00, stallAlpha: 11, cd0: 0.0120, cm0: -0.010 },
+    { reynolds: 3e5, alpha0: -1.2, clMax: 1.25, stallAlpha: 13, cd0: 0.0090, cm0: -0.010 },
+    { reynolds: 1e6, alpha0: -1.2, clMax: 1.50, stallAlpha: 15, cd0: 0.0065, cm0: -0.010 },
+    { reynolds: 3e6, alpha0: -1.2, clMax: 1.70, stallAlpha: 17, cd0: 0.0060, cm0: -0.010 }
+  ]),
+  { id: 'flatplate', name: 'Flat Plate', builtIn: true, polars: [{ reynolds: 1e5, points: FLAT_PLATE_POINTS }] }
+];
+
+// Imported polars live for the session alongside the built-ins
+const importedAirfoils = new Map<string, Airfoil>();
+
+export const listAirfoils = (): Airfoil[] => [...BUILT_IN_AIRFOILS, ...importedAirfoils.values()];
+
+/**
+ * Looks up an airfoil by id, falling back to NACA 0012 for unknown ids.
+ */
+export const getAirfoil = (id: string): Airfoil => {
+  return BUILT_IN_AIRFOILS.find(a => a.id === id)
+    || importedAirfoils.get(id)
+    || BUILT_IN_AIRFOILS[0];
+};
+
+export const registerAirfoil = (airfoil: Airfoil): void => {
+  importedAirfoils.set(airfoil.id, airfoil);
+};
+
+/**
+ * First "<base>-n" id not taken by a built-in or imported airfoil.
+ */
+export const freeAirfoilId = (base: string): string => {
+  let n = 1;
+  while (BUILT_IN_AIRFOILS.some(a => a.id === `${base}-${n}`) || importedAirfoils.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+};
+
+// --- XFOIL / XFLR5 Polar Parsing ---
+
+/**
+ * Parses the plain-text polar export from XFOIL or XFLR5 (whitespace or comma
+ * separated). A file may hold several polars; each "Re =" header starts a new one. Rows
+ * without three numbers are skipped, and repeated angles keep their first row.
+ */
+export const parsePolarFile = (text: string, fallbackName = 'Imported Airfoil'): Airfoil => {
+  let name = fallbackName;
+  const polars: ReynoldsPolar[] = [];
+  let reynolds: number | null = null;
+  let columns: { alpha: number, cl: number, cd: number, cm: number } | null = null;
+  let points: PolarPoint[] = [];
+
+  const flush = () => {
+    if (reynolds !== null && points.length > 0) {
+      const sorted = [...points].sort((a, b) => a.alpha - b.alpha);
+      polars.push({ reynolds, points: sorted.filter((p, i) => i === 0 || p.alpha > sorted[i - 1].alpha) });
+    }
+    points = [];
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const nameMatch = line.match(/Calculated polar for:\s*(.+)$/i);
+    if (nameMatch) {
+      name = nameMatch[1].trim();
+      continue;
+    }
+
+    // "Re = 1.000 e 6" as XFOIL writes it, or a plain "Re = 1000000" / "Re = 1.0e6"
+    const reMatch = line.match(/\bRe\s*=\s*(\d*\.?\d+(?:\s*e\s*[+-]?\d+)?)/i);
+    if (reMatch) {
+      flush();
+      const re = Number(reMatch[1].replace(/\s+/g, ''));
+      reynolds = Number.isFinite(re) && re > 0 ? re : null;
+      columns = null;
+      continue;
+    }
+
+    const tokens = line.split(/[\s,;]+/).filter(Boolean);
+    const header = tokens.map(t => t.toLowerCase());
+    if (header.includes('alpha') && header.includes('cl')) {
+      columns = {
+        alpha: header.indexOf('alpha'),
+        cl: header.indexOf('cl'),
+        cd: header.indexOf('cd'),
+        cm: header.indexOf('cm')
+      };
+      continue;
+    }
+
+    if (!columns || reynolds === null) continue;
+    const values = tokens.map(Number);
+    if (values.filter(Number.isFinite).length < 3) continue; // dashes under the header, footers
+    const point = {
+      alpha: values[columns.alpha],
+      cl: values[columns.cl],
+      cd: columns.cd >= 0 ? values[columns.cd] : 0,
+      cm: columns.cm >= 0 ? values[columns.cm] : 0
+    };
+    if (Object.values(point).every(Number.isFinite)) points.push(point);
+  }
+  flush();
+
+  if (polars.length === 0) {
+    throw new Error('No polar data found. Expected an XFOIL/XFLR5 polar with a "Re =" line and an alpha/CL/CD table.');
+  }
+
+  polars.sort((a, b) => a.reynolds - b.reynolds);
+  // First free id for the name, so a new import never replaces a loaded one
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  return { id: freeAirfoilId(`imported-${slug}`), name, builtIn: false, polars };
+};
+
+// --- Interpolation ---
+
+function flatPlate(alpha: number): { cl: number, cd: number } {
+  const a = alpha * (Math.PI / 180);
+  const s = Math.sin(a);
+  return { cl: 1.1 * Math.sin(2 * a), cd: 0.02 + 1.8 * s * s };
+}
+
+const POST_TABLE_BLEND = 10; // degrees over which table edges blend into the flat plate
+
+function interpolateAlpha(polar: ReynoldsPolar, alpha: number): { cl: number, cd: number } {
+  const pts = polar.points;
+  const first = pts[0];
+  const last = pts[pts.length - 1];
+
+  // Outside the tabulated range (deep stall, reverse flow) blend to flat-plate behaviour
+  if (alpha < first.alpha || alpha > last.alpha) {
+    const edge = alpha < first.alpha ? first : last;
+    const t = Math.min(1, Math.abs(alpha - edge.alpha) / POST_TABLE_BLEND);
+    const fp = flatPlate(alpha);
+    return { cl: edge.cl * (1 - t) + fp.cl * t, cd: edge.cd * (1 - t) + fp.cd * t };
+  }
+
+  // Binary search for the segment
+  let lo = 0;
+  let hi = pts.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (pts[mid].alpha <= alpha) lo = mid;
+    else hi = mid;
+  }
+  const p1 = pts[lo];
+  const p2 = pts[hi];
+  const t = p2.alpha === p1.alpha ? 0 : (alpha - p1.alpha) / (p2.alpha - p1.alpha);
+  return {
+    cl: p1.cl + t * (p2.cl - p1.cl),
+    cd: p1.cd + t * (p2.cd - p1.cd)
+  };
+}
+
+/**
+ * Brackets a Reynolds number between the airfoil's polars; interpolation is
+ * linear in log(Re) and clamped to the outermost polars.
+ */
+function bracketReynolds(airfoil: Airfoil, reynolds: number): { lower: ReynoldsPolar, upper: ReynoldsPolar, t: number } {
+  const polars = airfoil.polars;
+  if (polars.length === 1 || reynolds <= polars[0].reynolds) {
+    return { lower: polars[0], upper: polars[0], t: 0 };
+  }
+  const last = polars[polars.length - 1];
+  if (reynolds >= last.reynolds) {
+    return { lower: last, upper: last, t: 0 };
+  }
+  let i = 0;
+  while (polars[i + 1].reynolds < reynolds) i++;
+  const lower = polars[i];
+  const upper = polars[i + 1];
+  const t = (Math.log(reynolds) - Math.log(lower.reynolds)) / (Math.log(upper.reynolds) - Math.log(lower.reynolds));
+  return { lower, upper, t };
+}
+
+/**
+ * Section lift and drag at any angle of attack (degrees, wrapped to ±180)
+ * and Reynolds number.
+ */
+export const lookupCoefficients = (airfoil: Airfoil, alpha: number, reynolds: number): { cl: number, cd: number } => {
+  const a = ((alpha + 180) % 360 + 360) % 360 - 180;
+  const { lower, upper, t } = bracketReynolds(airfoil, reynolds);
+  const c1 = interpolateAlpha(lower, a);
+  if (t === 0) return c1;
+  const c2 = interpolateAlpha(upper, a);
+  return {
+    cl: c1.cl + t * (c2.cl - c1.cl),
+    cd: c1.cd + t * (c2.cd - c1.cd)
+  };
+};
+
+function polarStallAngle(polar: ReynoldsPolar): number {
+  // First CL peak above zero incidence (post-stall lift can recover at high alpha)
+  const pts = polar.points;
+  let i = pts.findIndex(p => p.alpha >= 0);
+  if (i < 0) return pts[pts.length - 1].alpha;
+  while (i < pts.length - 1 && pts[i + 1].cl >= pts[i].cl) i++;
+  return pts[i].alpha;
+}
+
+/**
+ * Positive stall angle (alpha at the first CL peak) at a given Reynolds number, in degrees.
+ */
+export const getStallAngle = (airfoil: Airfoil, reynolds: number): number => {
+  const { lower, upper, t } = bracketReynolds(airfoil, reynolds);
+  const s1 = polarStallAngle(lower);
+  return s1 + t * (polarStallAngle(upper) - s1);
+};
@@ -0,0 +1,71 @@
+import { AtmosphereSettings, AtmosphereState } from '../types';
+
+export const DEFAULT_ATMOSPHERE: AtmosphereSettings = {
+  elevation: 0,
+  temperatureOffset: 0,
+  pressureOffset: 0,
+  relativeHumidity: 0
+};
+
+// ISA troposphere
+const SEA_LEVEL_TEMPERATURE = 288.15; // K
+const SEA_LEVEL_PRESSURE = 101325; // Pa
+const SEA_LEVEL_DENSITY = 1.225; // kg/m^3
+const LAPSE_RATE = 0.0065; // K/m
+const GAS_CONSTANT_DRY = 287.058; // J/(kg K)
+const GAS_CONSTANT_VAPOUR = 461.495; // J/(kg K)
+const GRAVITY = 9.80665;
+const PRESSURE_EXPONENT = GRAVITY / (GAS_CONSTANT_DRY * LAPSE_RATE);
+const MIN_TEMPERATURE = 180; // K, keeps the lapse laws positive at extreme offsets
+
+const isaTemperature = (altitude: number) => SEA_LEVEL_TEMPERATURE - LAPSE_RATE * altitude;
+const isaPressure = (altitude: number) => SEA_LEVEL_PRESSURE * Math.pow(isaTemperature(altitude) / SEA_LEVEL_TEMPERATURE, PRESSURE_EXPONENT);
+
+// Saturation vapour pressure over water (Buck), Pa
+const saturationVapourPressure = (celsius: number) =>
+  611.21 * Math.exp((18.678 - celsius / 234.5) * (celsius / (257.14 + celsius)));
+
+// Dynamic viscosity of air (Sutherland), Pa·s
+const dynamicViscosity = (kelvin: number) => (1.458e-6 * Math.pow(kelvin, 1.5)) / (kelvin + 110.4);
+
+const HEAT_CAPACITY_RATIO = 1.4;
+
+/**
+ * Speed of sound in dry air at a temperature in deg C, m/s.
+ */
+export const speedOfSound = (celsius: number): number =>
+  Math.sqrt(HEAT_CAPACITY_RATIO * GAS_CONSTANT_DRY * (celsius + 273.15));
+
+/**
+ * ISA altitude at which the standard atmosphere has this density.
+ */
+export const densityAltitude = (density: number): number =>
+  (SEA_LEVEL_TEMPERATURE / LAPSE_RATE) * (1 - Math.pow(density / SEA_LEVEL_DENSITY, 1 / (PRESSURE_EXPONENT - 1)));
+
+/**
+ * Air at a height above the launch site. The site's temperature and pressure
+ * are ISA at its elevation plus the offsets; above the site temperature falls
+ * at the ISA lapse rate and pressure follows hydrostatically. Humidity is held
+ * as relative humidity, and the water vapour it adds lowers the density.
+ */
+export const atmosphereAt = (settings: AtmosphereSettings, heightAboveSite: number): AtmosphereState => {
+  const siteTemperature = Math.max(MIN_TEMPERATURE, isaTemperature(settings.elevation) + settings.temperatureOffset);
+  const sitePressure = Math.max(1000, isaPressure(settings.elevation) + settings.pressureOffset * 100);
+
+  const height = Math.max(0, heightAboveSite);
+  const temperature = Math.max(MIN_TEMPERATURE, siteTemperature - LAPSE_RATE * height);
+  const pressure = sitePressure * Math.pow(temperature / siteTemperature, PRESSURE_EXPONENT);
+
+  const celsius = temperature - 273.15;
+  const vapourPressure = Math.min((settings.relativeHumidity / 100) * saturationVapourPressure(celsius), pressure);
+  const density = (pressure - vapourPressure) / (GAS_CONSTANT_DRY * temperature) + vapourPressure / (GAS_CONSTANT_VAPOUR * temperature);
+
+  return {
+    altitude: settings.elevation + height,
+    temperature: celsius,
+    pressure: pressure / 100,
+    density,
+    kinematicViscosity: dynamicViscosity(temperature) / density,
+    densityAltitude: densityAltitude(density)
+  };
+};
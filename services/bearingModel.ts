@@ -0,0 +1,156 @@
+import { BearingSettings, BearingSolution, BearingType, DesignParams } from '../types';
+import { evaluateRotor, RotorCondition, RotorLoads } from './bemtSolver';
+
+type BearingProperties = Pick<BearingSettings, 'frictionCoefficient' | 'dynamicLoadRating' | 'pvLimit'>;
+
+// Typical line-riding bearings at a 50 mm bore. Friction is referred to the bore.
+export const BEARING_TYPES: Record<BearingType, BearingProperties & { name: string }> = {
+  [BearingType.PLAIN_BUSHING]: { name: 'Plain Bushing (PTFE composite)', frictionCoefficient: 0.1, dynamicLoadRating: 0, pvLimit: 1.0 },
+  [BearingType.BALL]: { name: 'Deep Groove Ball', frictionCoefficient: 0.0015, dynamicLoadRating: 20000, pvLimit: 0 },
+  [BearingType.SPHERICAL_PLAIN]: { name: 'Spherical Plain (PTFE lined)', frictionCoefficient: 0.06, dynamicLoadRating: 0, pvLimit: 0.8 }
+};
+
+function bearingProperties(type: BearingType): BearingProperties {
+  const { frictionCoefficient, dynamicLoadRating, pvLimit } = BEARING_TYPES[type];
+  return { frictionCoefficient, dynamicLoadRating, pvLimit };
+}
+
+export const DEFAULT_BEARING: BearingSettings = {
+  type: BearingType.PLAIN_BUSHING,
+  width: 0.03,
+  ...bearingProperties(BearingType.PLAIN_BUSHING)
+};
+
+/**
+ * Bearing settings for a type, keeping the current width.
+ */
+export const bearingForType = (type: BearingType, current: BearingSettings): BearingSettings => ({
+  ...current,
+  type,
+  ...bearingProperties(type)
+});
+
+// Wind search range and the tip speed ratios checked for a driving torque
+const MAX_SPIN_WIND = 40;
+const SPIN_WIND_TOLERANCE = 0.05;
+const SPIN_TSR_GRID = [1, 2, 3, 4, 5, 6, 7, 8, 10, 12];
+
+/**
+ * Rotor forces resolved across and along the line. The rotor axis sits at
+ * rotorTilt to the line, so thrust tilted off the line shows up as radial load
+ * together with the H-force and the rotor's weight.
+ */
+export const lineBearingLoads = (lift: number, drag: number, weight: number, lineAngleDeg: number): { radial: number; axial: number } => {
+  const lineRad = lineAngleDeg * (Math.PI / 180);
+  return {
+    radial: Math.abs((lift - weight) * Math.cos(lineRad) - drag * Math.sin(lineRad)),
+    axial: Math.abs((lift - weight) * Math.sin(lineRad) + drag * Math.cos(lineRad))
+  };
+};
+
+/**
+ * Same as lineBearingLoads, from rotor-axis loads at disk angle of attack alphaDeg.
+ */
+export const rotorBearingLoads = (loads: Pick<RotorLoads, 'thrust' | 'hForce'>, alphaDeg: number, weight: number, lineAngleDeg: number) => {
+  const alphaRad = alphaDeg * (Math.PI / 180);
+  const lift = loads.thrust * Math.cos(alphaRad) - loads.hForce * Math.sin(alphaRad);
+  const drag = loads.thrust * Math.sin(alphaRad) + loads.hForce * Math.cos(alphaRad);
+  return lineBearingLoads(lift, drag, weight, lineAngleDeg);
+};
+
+/**
+ * Equivalent load: radial plus thrust-collar load for plain bearings, the
+ * ISO 281 combination (X = 0.56, Y = 1.5) for ball bearings.
+ */
+export const equivalentBearingLoad = (bearing: BearingSettings, radial: number, axial: number): number => {
+  if (bearing.type === BearingType.BALL) return Math.max(radial, 0.56 * radial + 1.5 * axial);
+  return radial + axial;
+};
+
+export const bearingFrictionTorque = (bearing: BearingSettings, hubDiameter: number, radial: number, axial: number): number => {
+  return bearing.frictionCoefficient * equivalentBearingLoad(bearing, radial, axial) * (hubDiameter / 2);
+};
+
+/**
+ * Lowest wind at which autorotation can be held against bearing friction:
+ * some rotor speed must leave driving torque after friction. Rotor loads are
+ * taken from BEMT at the reference wind and scaled with V^2; the rotor's
+ * weight does not scale, so heavy rotors on high-friction bearings need more
+ * wind to keep turning. The rotor is taken as already turning: a rotor that
+ * stalls at low tip speed ratios can hold autorotation here yet not start
+ * from rest, which the flight simulator reports as its prerotation speed.
+ */
+export const minimumWindToSpin = (
+  params: DesignParams,
+  bearing: BearingSettings,
+  cond: RotorCondition,
+  weight: number
+): number | null => {
+  const refWind = Math.max(cond.windSpeed, 1);
+  const refCond = { ...cond, windSpeed: refWind };
+  const curve = SPIN_TSR_GRID.map(tsr => evaluateRotor(refCond, (tsr * refWind) / cond.radius));
+
+  const margin = (wind: number) => {
+    const scale = Math.pow(wind / refWind, 2);
+    return Math.max(...curve.map(loads => {
+      const { radial, axial } = rotorBearingLoads(
+        { thrust: loads.thrust * scale, hForce: loads.hForce * scale },
+        cond.alphaDeg,
+        weight,
+        params.lineAngle
+      );
+      return loads.torque * scale - bearingFrictionTorque(bearing, params.hubDiameter, radial, axial);
+    }));
+  };
+
+  if (margin(MAX_SPIN_WIND) <= 0) return null;
+  let lo = 0;
+  let hi = MAX_SPIN_WIND;
+  while (hi - lo > SPIN_WIND_TOLERANCE) {
+    const mid = (lo + hi) / 2;
+    if (margin(mid) > 0) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+};
+
+/**
+ * Bearing duty at the operating point: friction torque and heat, PV against
+ * the plain-bearing limit (pressure on the projected bore area, sliding speed
+ * at the bore) and L10 life for ball bearings.
+ */
+export const solveBearing = (
+  params: DesignParams,
+  bearing: BearingSettings,
+  radial: number,
+  axial: number,
+  omega: number,
+  minWindToSpin: number | null
+): BearingSolution => {
+  const equivalentLoad = equivalentBearingLoad(bearing, radial, axial);
+  const frictionTorque = omega > 0 ? bearingFrictionTorque(bearing, params.hubDiameter, radial, axial) : 0;
+  const heat = frictionTorque * omega;
+
+  const pressure = radial / Math.max(params.hubDiameter * bearing.width, 1e-9) / 1e6; // MPa
+  const slidingSpeed = omega * (params.hubDiameter / 2);
+  const pv = pressure * slidingSpeed;
+  const isBall = bearing.type === BearingType.BALL;
+
+  let l10Hours: number | null = null;
+  if (isBall && omega > 0 && equivalentLoad > 0) {
+    const rpm = (omega * 60) / (2 * Math.PI);
+    l10Hours = (Math.pow(bearing.dynamicLoadRating / equivalentLoad, 3) * 1e6) / (60 * rpm);
+  }
+
+  return {
+    radialLoad: parseFloat(radial.toFixed(2)),
+    axialLoad: parseFloat(axial.toFixed(2)),
+    equivalentLoad: parseFloat(equivalentLoad.toFixed(2)),
+    frictionTorque: parseFloat(frictionTorque.toFixed(3)),
+    heat: parseFloat(heat.toFixed(2)),
+    pv: parseFloat(pv.toFixed(4)),
+    pvExceeded: !isBall && pv > bearing.pvLimit,
+    l10Hours: l10Hours !== null ? Math.round(Math.min(l10Hours, 1e9)) : null,
+    minWindToSpin: minWindToSpin !== null ? parseFloat(minWindToSpin.toFixed(1)) : null
+  };
+};
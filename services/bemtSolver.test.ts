@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRotor, findRoot, solveAutorotation } from './bemtSolver';
+import { buildRotorCondition, DEFAULT_DESIGN_PARAMS, DEFAULT_MODEL_SETTINGS } from './physicsEngine';
+
+describe('findRoot', () => {
+  it('finds the root of a bracketed function', () => {
+    const f = (x: number) => x * x * x - 2;
+    const root = findRoot(f, 0, 2, f(0), f(2), 1e-9, 100);
+    expect(root.converged).toBe(true);
+    expect(root.x).toBeCloseTo(Math.cbrt(2), 8);
+  });
+
+  it('reports when it runs out of iterations', () => {
+    const f = (x: number) => Math.exp(x) - 10;
+    const root = findRoot(f, 0, 10, f(0), f(10), 1e-12, 2);
+    expect(root.converged).toBe(false);
+    expect(root.iterations).toBe(2);
+  });
+});
+
+describe('solveAutorotation', () => {
+  const cond = buildRotorCondition(DEFAULT_DESIGN_PARAMS, DEFAULT_MODEL_SETTINGS);
+
+  it('spins the default rotor where its torque falls through zero', () => {
+    const solution = solveAutorotation(cond);
+    expect(solution.converged).toBe(true);
+    expect(solution.omega).toBeGreaterThan(0);
+    const step = 0.02 * solution.omega;
+    expect(evaluateRotor(cond, solution.omega - step).torque).toBeGreaterThan(0);
+    expect(evaluateRotor(cond, solution.omega + step).torque).toBeLessThan(0);
+  });
+
+  it('spins slower against a resisting torque', () => {
+    const free = solveAutorotation(cond);
+    const loaded = solveAutorotation(cond, () => 0.5);
+    expect(loaded.omega).toBeGreaterThan(0);
+    expect(loaded.omega).toBeLessThan(free.omega);
+  });
+
+  it('stays at rest without wind or against a torque it cannot overcome', () => {
+    expect(solveAutorotation({ ...cond, windSpeed: 0 }).omega).toBe(0);
+    expect(solveAutorotation(cond, () => 1e6).omega).toBe(0);
+  });
+});
@@ -0,0 +1,289 @@
+
+import { Airfoil, BladePlanform } from '../types';
+import { lookupCoefficients } from './airfoilDatabase';
+import { planformSection } from './planformModel';
+
+/**
+ * Radial-station Blade Element Momentum Theory (BEMT) solver for an
+ * autorotating rotor in oblique flow.
+ *
+ * Frame: the rotor axis points "up" through the disk. The free stream is split into
+ * a component through the disk (vPerp, from below in autorotation) and a component
+ * in the disk plane (vPar, pointing downwind). Azimuth psi = 0 has the blade pointing
+ * downwind, psi = 90 deg is the advancing side.
+ */
+
+export interface RotorCondition {
+  radius: number; // m
+  chord: number; // m, at the root of the aerofoil
+  pitchDeg: number; // blade pitch relative to the disk plane at 75% span, degrees
+  planform: BladePlanform; // chord and twist along the span
+  bladeCount: number;
+  windSpeed: number; // m/s
+  alphaDeg: number; // disk angle of attack (wind below the disk plane is positive)
+  airDensity: number; // kg/m^3
+  kinematicViscosity: number; // m^2/s
+  airfoil: Airfoil;
+  radialStations: number;
+}
+
+export interface StationResult {
+  r: number; // m
+  inducedVelocity: number; // m/s
+  converged: boolean;
+}
+
+export interface RotorLoads {
+  thrust: number; // N, along rotor axis
+  torque: number; // N·m, positive drives the rotor
+  hForce: number; // N, in-plane drag (positive downwind)
+  inducedVelocity: number; // m/s, area-weighted mean
+  stations: StationResult[];
+  converged: boolean;
+}
+
+export interface AutorotationSolution extends RotorLoads {
+  omega: number; // rad/s, 0 when no autorotative equilibrium exists
+  iterations: number;
+}
+
+// Geometry / numerics
+const TIP_LOSS = 0.97; // Prandtl-style tip loss: no lift outboard of B*R
+const AZIMUTH_STEPS = 24;
+const INFLOW_TOLERANCE = 1e-4; // m/s
+const INFLOW_MAX_ITER = 40;
+const OMEGA_TOLERANCE = 1e-3; // rad/s
+const OMEGA_MAX_ITER = 40;
+const TSR_SCAN_MAX = 20;
+const TSR_SCAN_STEPS = 20;
+
+interface ElementLoads {
+  dT: number; // thrust per unit span, averaged over the revolution for all blades
+  dQ: number; // driving torque per unit span
+  dH: number; // in-plane H-force per unit span
+}
+
+/**
+ * Integrates one annulus around the azimuth for a given induced velocity.
+ */
+function annulusLoads(
+  cond: RotorCondition,
+  omega: number,
+  r: number,
+  vi: number,
+  liftActive: boolean
+): ElementLoads {
+  const alphaRad = cond.alphaDeg * (Math.PI / 180);
+  const vPerp = cond.windSpeed * Math.sin(alphaRad);
+  const vPar = cond.windSpeed * Math.cos(alphaRad);
+  const section = planformSection(cond.planform, cond.radius, cond.chord, cond.pitchDeg, r / cond.radius);
+  const pitchRad = section.pitch * (Math.PI / 180);
+  const uP = vPerp - vi;
+
+  let sumT = 0;
+  let sumQ = 0;
+  let sumH = 0;
+
+  for (let k = 0; k < AZIMUTH_STEPS; k++) {
+    const psi = (2 * Math.PI * k) / AZIMUTH_STEPS;
+    const sinPsi = Math.sin(psi);
+    const uT = omega * r + vPar * sinPsi;
+    const w = Math.sqrt(uT * uT + uP * uP);
+    if (w < 1e-9) continue;
+
+    const phi = Math.atan2(uP, uT);
+    const reynolds = (w * section.chord) / cond.kinematicViscosity;
+    const { cl, cd } = lookupCoefficients(cond.airfoil, (pitchRad + phi) * (180 / Math.PI), reynolds);
+    const qc = 0.5 * cond.airDensity * w * section.chord;
+    const liftCoef = liftActive ? cl : 0;
+
+    // Force components in the blade frame (per unit span)
+    // fz: along rotor axis. fx: in-plane, opposing blade motion.
+    const fz = qc * (liftCoef * uT + cd * uP);
+    const fx = qc * (cd * uT - liftCoef * uP);
+
+    sumT += fz;
+    sumQ += -fx * r;
+    sumH += fx * sinPsi;
+  }
+
+  const scale = cond.bladeCount / AZIMUTH_STEPS;
+  return { dT: sumT * scale, dQ: sumQ * scale, dH: sumH * scale };
+}
+
+/**
+ * Annulus momentum thrust per unit span (Glauert), with Buhl's empirical
+ * correction once the axial induction passes 0.4 (turbulent wake state).
+ */
+function momentumThrust(cond: RotorCondition, r: number, vi: number): number {
+  const alphaRad = cond.alphaDeg * (Math.PI / 180);
+  const vPerp = cond.windSpeed * Math.sin(alphaRad);
+  const vPar = cond.windSpeed * Math.cos(alphaRad);
+  const annulus = 2 * Math.PI * r;
+
+  const uRes = Math.sqrt(vPar * vPar + (vPerp - vi) * (vPerp - vi));
+  const glauert = 2 * cond.airDensity * annulus * vi * uRes;
+
+  const v = cond.windSpeed;
+  if (v > 0 && vi / v > 0.4) {
+    const a = vi / v;
+    const ct = 8 / 9 + (4 - 40 / 9) * a + (50 / 9 - 4) * a * a;
+    return Math.max(glauert, 0.5 * cond.airDensity * v * v * annulus * ct);
+  }
+  return glauert;
+}
+
+/**
+ * Illinois (modified regula falsi) root finder on a bracket [lo, hi] with
+ * f(lo) and f(hi) of opposite sign.
+ */
+export function findRoot(
+  f: (x: number) => number,
+  lo: number,
+  hi: number,
+  fLo: number,
+  fHi: number,
+  tolerance: number,
+  maxIter: number
+): { x: number, iterations: number, converged: boolean } {
+  let side = 0;
+  let x = lo;
+  for (let i = 1; i <= maxIter; i++) {
+    x = (lo * fHi - hi * fLo) / (fHi - fLo);
+    const fx = f(x);
+    if (Math.abs(hi - lo) < tolerance || fx === 0) {
+      return { x, iterations: i, converged: true };
+    }
+    if (Math.sign(fx) === Math.sign(fHi)) {
+      hi = x;
+      fHi = fx;
+      if (side === 1) fLo /= 2;
+      side = 1;
+    } else {
+      lo = x;
+      fLo = fx;
+      if (side === -1) fHi /= 2;
+      side = -1;
+    }
+    if (Math.abs(fx) < 1e-9) {
+      return { x, iterations: i, converged: true };
+    }
+  }
+  return { x, iterations: maxIter, converged: false };
+}
+
+/**
+ * Solves the induced velocity at one station by iterating on the
+ * blade-element / momentum thrust residual until it converges.
+ */
+function solveStation(
+  cond: RotorCondition,
+  omega: number,
+  r: number,
+  liftActive: boolean
+): { loads: ElementLoads, vi: number, converged: boolean } {
+  const vRef = Math.max(cond.windSpeed, 1e-3);
+  const residual = (vi: number) => annulusLoads(cond, omega, r, vi, liftActive).dT - momentumThrust(cond, r, vi);
+
+  const fLo = residual(-vRef);
+  const fHi = residual(vRef);
+  if (Math.sign(fLo) === Math.sign(fHi)) {
+    // No bracket: the momentum balance has no solution in range, keep the closer bound
+    const vi = Math.abs(fLo) < Math.abs(fHi) ? -vRef : vRef;
+    return { loads: annulusLoads(cond, omega, r, vi, liftActive), vi, converged: false };
+  }
+
+  const root = findRoot(residual, -vRef, vRef, fLo, fHi, INFLOW_TOLERANCE, INFLOW_MAX_ITER);
+  return { loads: annulusLoads(cond, omega, r, root.x, liftActive), vi: root.x, converged: root.converged };
+}
+
+/**
+ * Evaluates rotor thrust, torque and H-force at a fixed rotor speed by
+ * integrating the converged radial stations.
+ */
+export function evaluateRotor(cond: RotorCondition, omega: number): RotorLoads {
+  const n = Math.max(1, Math.round(cond.radialStations));
+  const r0 = cond.planform.rootCutout * cond.radius;
+  const dr = (cond.radius - r0) / n;
+
+  let thrust = 0;
+  let torque = 0;
+  let hForce = 0;
+  let viArea = 0;
+  let area = 0;
+  let converged = true;
+  const stations: StationResult[] = [];
+
+  for (let i = 0; i < n; i++) {
+    const r = r0 + (i + 0.5) * dr;
+    const liftActive = r <= TIP_LOSS * cond.radius;
+    const station = solveStation(cond, omega, r, liftActive);
+
+    thrust += station.loads.dT * dr;
+    torque += station.loads.dQ * dr;
+    hForce += station.loads.dH * dr;
+    viArea += station.vi * r * dr;
+    area += r * dr;
+    converged = converged && station.converged;
+    stations.push({ r, inducedVelocity: station.vi, converged: station.converged });
+  }
+
+  return {
+    thrust,
+    torque,
+    hForce,
+    inducedVelocity: area > 0 ? viArea / area : 0,
+    stations,
+    converged
+  };
+}
+
+/**
+ * Finds the autorotation rotor speed: the stable zero of net rotor torque
+ * (torque falling through zero as speed increases). resistingTorque, e.g.
+ * bearing friction, is subtracted from the aerodynamic torque.
+ */
+export function solveAutorotation(
+  cond: RotorCondition,
+  resistingTorque: (loads: RotorLoads, omega: number) => number = () => 0
+): AutorotationSolution {
+  const idle: AutorotationSolution = {
+    ...evaluateRotor(cond, 0),
+    omega: 0,
+    iterations: 0
+  };
+  if (cond.windSpeed <= 0 || cond.radius <= 0) return idle;
+
+  const omegaAt = (tsr: number) => (tsr * cond.windSpeed) / cond.radius;
+
+  const torqueAt = (omega: number) => {
+    const loads = evaluateRotor(cond, omega);
+    return loads.torque - resistingTorque(loads, omega);
+  };
+
+  // Scan down from high tip speed ratio for the first bracket where torque
+  // changes from driving (below) to retarding (above): the stable equilibrium.
+  let bracket: [number, number, number, number] | null = null;
+  let upperTorque = torqueAt(omegaAt(TSR_SCAN_MAX));
+  for (let i = TSR_SCAN_STEPS - 1; i >= 0; i--) {
+    const lowerOmega = omegaAt((TSR_SCAN_MAX * i) / TSR_SCAN_STEPS);
+    const lowerTorque = torqueAt(lowerOmega);
+    if (lowerTorque > 0 && upperTorque <= 0) {
+      bracket = [lowerOmega, omegaAt((TSR_SCAN_MAX * (i + 1)) / TSR_SCAN_STEPS), lowerTorque, upperTorque];
+      break;
+    }
+    upperTorque = lowerTorque;
+  }
+  if (!bracket) return idle;
+
+  const [lo, hi, qLo, qHi] = bracket;
+  const root = findRoot(torqueAt, lo, hi, qLo, qHi, OMEGA_TOLERANCE, OMEGA_MAX_ITER);
+  const loads = evaluateRotor(cond, root.x);
+
+  return {
+    ...loads,
+    omega: root.x,
+    iterations: root.iterations,
+    converged: loads.converged && root.converged
+  };
+}
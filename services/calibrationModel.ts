@@ -0,0 +1,111 @@
+import { CalibrationFactors, CalibrationSettings, ModelSettings, TestLog, TestPoint } from '../types';
+
+export const UNCALIBRATED: CalibrationFactors = {
+  tipSpeedScale: 1,
+  liftScale: 1,
+  dragScale: 1,
+  efficiencyScale: 1
+};
+
+export const DEFAULT_CALIBRATION: CalibrationSettings = {
+  enabled: false,
+  name: 'Calibrated model',
+  factors: UNCALIBRATED,
+  fit: null
+};
+
+export const CALIBRATION_FACTORS: Record<keyof CalibrationFactors, { label: string; min: number; max: number }> = {
+  tipSpeedScale: { label: 'Tip Speed Ratio', min: 0.3, max: 3 },
+  liftScale: { label: 'Lift Coefficients', min: 0.2, max: 3 },
+  dragScale: { label: 'Drag Coefficients', min: 0.2, max: 3 },
+  efficiencyScale: { label: 'Drivetrain Efficiency', min: 0.1, max: 1.5 }
+};
+
+/**
+ * The factors the engine applies: the calibrated model's when it is switched
+ * on, otherwise none.
+ */
+export const calibrationFactorsOf = (settings: ModelSettings): CalibrationFactors =>
+  settings.calibration.enabled ? settings.calibration.factors : UNCALIBRATED;
+
+// Column names accepted in CSV headers and JSON keys, lower-cased without separators or units
+const COLUMN_ALIASES: Record<keyof TestPoint, string[]> = {
+  windSpeed: ['wind', 'windspeed', 'v', 'u'],
+  rpm: ['rpm', 'rotorrpm'],
+  lineTension: ['tension', 'linetension', 'load', 'force', 'thrust'],
+  lineAngle: ['angle', 'lineangle', 'elevation'],
+  rotorTilt: ['tilt', 'rotortilt'],
+  power: ['power', 'electricalpower', 'watts']
+};
+
+const columnFor = (name: string): keyof TestPoint | null => {
+  const key = name.toLowerCase().replace(/\(.*?\)|\[.*?\]/g, '').replace(/[^a-z]/g, '');
+  const match = (Object.keys(COLUMN_ALIASES) as (keyof TestPoint)[]).find(column => COLUMN_ALIASES[column].includes(key));
+  return match ?? null;
+};
+
+const toTestPoint = (row: Partial<Record<keyof TestPoint, number>>, defaults: Pick<TestPoint, 'lineAngle' | 'rotorTilt'>, label: string): TestPoint => {
+  const value = (column: keyof TestPoint) => row[column];
+  for (const column of ['windSpeed', 'rpm', 'lineTension'] as const) {
+    const v = value(column);
+    if (v === undefined || !Number.isFinite(v)) throw new Error(`Test data ${label}: missing or invalid ${column}.`);
+  }
+  const point: TestPoint = {
+    windSpeed: value('windSpeed')!,
+    rpm: value('rpm')!,
+    lineTension: value('lineTension')!,
+    lineAngle: Number.isFinite(value('lineAngle')) ? value('lineAngle')! : defaults.lineAngle,
+    rotorTilt: Number.isFinite(value('rotorTilt')) ? value('rotorTilt')! : defaults.rotorTilt,
+    power: Number.isFinite(value('power')) ? value('power')! : null
+  };
+  if (point.windSpeed <= 0 || point.rpm < 0 || point.lineTension < 0) {
+    throw new Error(`Test data ${label}: wind must be positive, RPM and tension not negative.`);
+  }
+  return point;
+};
+
+/**
+ * Reads a test log: CSV (comma, semicolon or tab separated) with a header
+ * row, or JSON as an array of rows or { name, points }. Wind, RPM and line
+ * tension are required; angle and tilt fall back to the design's when the
+ * log leaves them out, and power is optional.
+ */
+export const parseTestLog = (text: string, fileName: string, defaults: Pick<TestPoint, 'lineAngle' | 'rotorTilt'>): TestLog => {
+  const trimmed = text.trim();
+  let points: TestPoint[];
+  let name = fileName;
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed);
+    const rows: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.points) ? data.points : [];
+    if (!Array.isArray(data) && typeof data?.name === 'string') name = data.name;
+    points = rows.map((raw, i) => {
+      const row: Partial<Record<keyof TestPoint, number>> = {};
+      if (raw && typeof raw === 'object') {
+        Object.entries(raw).forEach(([key, v]) => {
+          const column = columnFor(key);
+          if (column) row[column] = Number(v);
+        });
+      }
+      return toTestPoint(row, defaults, `row ${i + 1}`);
+    });
+  } else {
+    const lines = trimmed.split(/\r?\n/).filter(line => line.trim() && !line.trim().startsWith('#'));
+    const split = (line: string) => line.split(/[,;\t]/).map(cell => cell.trim());
+    const header = lines.length > 0 ? split(lines[0]).map(columnFor) : [];
+    if (!header.includes('windSpeed') || !header.includes('rpm') || !header.includes('lineTension')) {
+      throw new Error('Test log header needs wind, rpm and tension columns (angle, tilt and power optional).');
+    }
+    points = lines.slice(1).map((line, i) => {
+      const row: Partial<Record<keyof TestPoint, number>> = {};
+      split(line).forEach((cell, c) => {
+        const column = header[c];
+        if (column) row[column] = parseFloat(cell);
+      });
+      return toTestPoint(row, defaults, `row ${i + 1}`);
+    });
+  }
+
+  if (points.length === 0) throw new Error('No test points found in the log.');
+  return { name, points };
+};
@@ -0,0 +1,201 @@
+import {
+  CalibrationFactors,
+  CalibrationFit,
+  CalibrationResidual,
+  CalibrationResult,
+  DesignParams,
+  ModelSettings,
+  ShearModel,
+  TestLog,
+  TestPoint
+} from '../types';
+import { calculatePhysics } from './physicsEngine';
+import { CALIBRATION_FACTORS, calibrationFactorsOf } from './calibrationModel';
+import { lineTensionAtRotor } from './tetherModel';
+
+const MAX_ITERATIONS = 8;
+const MAX_STEP_TRIES = 3;
+const DIFFERENCE_STEP = 0.02; // on each factor, for the Jacobian
+const PRIOR_WEIGHT = 0.05; // pull towards 1 for factors the data can't separate
+const TOLERANCE = 1e-4; // relative fall in cost to carry on
+
+// Let the browser paint between model runs
+const yieldToUi = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const rms = (values: number[]) => values.length > 0 ? Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length) : 0;
+
+/**
+ * The design as it flew at a test point: the logged wind at the rotor (no
+ * shear), line angle and tilt. The kite model supplies the line tension, so
+ * the measured tension stays free to be compared with lineTensionAtRotor.
+ */
+export const simulateTestPoint = (params: DesignParams, settings: ModelSettings, point: TestPoint, factors: CalibrationFactors) =>
+  calculatePhysics(
+    { ...params, windSpeed: point.windSpeed, lineAngle: point.lineAngle, rotorTilt: point.rotorTilt },
+    {
+      ...settings,
+      wind: { ...settings.wind, shearModel: ShearModel.NONE },
+      kite: { ...settings.kite, overrideLineTension: false, overrideLineAngle: true },
+      calibration: { ...settings.calibration, enabled: true, factors }
+    }
+  );
+
+const summarise = (log: TestLog, settings: ModelSettings, residuals: CalibrationResidual[]): CalibrationFit => {
+  const powered = residuals.filter(r => r.point.power !== null);
+  return {
+    summary: {
+      logName: log.name,
+      aeroModel: settings.aeroModel,
+      pointCount: residuals.length,
+      rpmRms: parseFloat(rms(residuals.map(r => r.rpm - r.point.rpm)).toFixed(1)),
+      tensionRms: parseFloat(rms(residuals.map(r => r.lineTension - r.point.lineTension)).toFixed(2)),
+      powerRms: powered.length > 0 ? parseFloat(rms(powered.map(r => r.power - r.point.power!)).toFixed(2)) : null
+    },
+    residuals
+  };
+};
+
+/**
+ * The model against every point of a log with the given factors.
+ */
+export const evaluateTestLog = (params: DesignParams, settings: ModelSettings, log: TestLog, factors: CalibrationFactors): CalibrationFit =>
+  summarise(log, settings, log.points.map(point => {
+    const result = simulateTestPoint(params, settings, point, factors);
+    return { point, rpm: result.rpm, lineTension: lineTensionAtRotor(result.tether), power: result.powerOutput };
+  }));
+
+// Solves a x = b for a small dense system by Gaussian elimination with partial pivoting
+const solveLinear = (a: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    if (Math.abs(m[col][col]) < 1e-12) return new Array(n).fill(0);
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let c = r + 1; c < n; c++) sum -= m[r][c] * x[c];
+    x[r] = sum / m[r][r];
+  }
+  return x;
+};
+
+/**
+ * Least-squares fit of the calibration factors to a test log by
+ * Levenberg-Marquardt with a finite-difference Jacobian. RPM, tension and
+ * (when logged) power residuals are each divided by the RMS of their
+ * measurements so they weigh alike, and a light prior keeps factors the data
+ * can't tell apart near 1. Each model run covers every point of the log, so
+ * the fit yields to the UI between runs.
+ */
+export const runCalibration = async (
+  params: DesignParams,
+  settings: ModelSettings,
+  log: TestLog,
+  fitted: (keyof CalibrationFactors)[],
+  onProgress?: (fraction: number) => void
+): Promise<CalibrationResult> => {
+  if (log.points.length === 0) throw new Error('The test log has no points.');
+  const free = fitted.filter(key => key !== 'efficiencyScale' || log.points.some(p => p.power !== null));
+  if (free.length === 0) throw new Error('Choose at least one factor the log can fit (efficiency needs a power column).');
+
+  // Start from the model in use
+  const start = calibrationFactorsOf(settings);
+  const rpmScale = Math.max(rms(log.points.map(p => p.rpm)), 1);
+  const tensionScale = Math.max(rms(log.points.map(p => p.lineTension)), 1);
+  const powered = log.points.filter(p => p.power !== null);
+  const powerScale = Math.max(rms(powered.map(p => p.power!)), 1);
+
+  // Efficiency can't be scaled past 100% at the most efficient logged point
+  const peakEfficiency = free.includes('efficiencyScale')
+    ? Math.max(...powered.map(p => simulateTestPoint(params, settings, p, { ...start, efficiencyScale: 1 }).drivetrain.efficiency))
+    : 0;
+  const upperBound = (key: keyof CalibrationFactors) =>
+    key === 'efficiencyScale' && peakEfficiency > 0
+      ? Math.min(CALIBRATION_FACTORS[key].max, 1 / peakEfficiency)
+      : CALIBRATION_FACTORS[key].max;
+
+  const totalRuns = 1 + MAX_ITERATIONS * (free.length + MAX_STEP_TRIES);
+  let runs = 0;
+  const toFactors = (x: number[]): CalibrationFactors => {
+    const factors = { ...start };
+    free.forEach((key, i) => {
+      factors[key] = Math.max(CALIBRATION_FACTORS[key].min, Math.min(upperBound(key), x[i]));
+    });
+    return factors;
+  };
+  const evaluate = async (x: number[]) => {
+    const fit = evaluateTestLog(params, settings, log, toFactors(x));
+    const r: number[] = [];
+    fit.residuals.forEach(res => {
+      r.push((res.rpm - res.point.rpm) / rpmScale, (res.lineTension - res.point.lineTension) / tensionScale);
+      if (res.point.power !== null) r.push((res.power - res.point.power) / powerScale);
+    });
+    x.forEach(v => r.push(PRIOR_WEIGHT * (v - 1)));
+    runs++;
+    onProgress?.(Math.min(runs / totalRuns, 1));
+    await yieldToUi();
+    return { fit, r, cost: r.reduce((sum, v) => sum + v * v, 0) };
+  };
+
+  let x = free.map(key => start[key]);
+  let current = await evaluate(x);
+  const before = current.fit;
+  let lambda = 1e-2;
+  let iterations = 0;
+
+  for (; iterations < MAX_ITERATIONS; iterations++) {
+    // Forward-difference Jacobian, one column per free factor
+    const jacobian: number[][] = current.r.map(() => new Array(free.length).fill(0));
+    for (let k = 0; k < free.length; k++) {
+      const h = DIFFERENCE_STEP * Math.max(Math.abs(x[k]), 0.1);
+      const stepped = await evaluate(x.map((v, i) => (i === k ? v + h : v)));
+      stepped.r.forEach((v, row) => { jacobian[row][k] = (v - current.r[row]) / h; });
+    }
+    const normal = free.map((_, i) => free.map((_, j) => jacobian.reduce((sum, row) => sum + row[i] * row[j], 0)));
+    const gradient = free.map((_, i) => jacobian.reduce((sum, row, n) => sum + row[i] * current.r[n], 0));
+
+    let improved = false;
+    for (let attempt = 0; attempt < MAX_STEP_TRIES; attempt++) {
+      const damped = normal.map((row, i) => row.map((v, j) => (i === j ? v * (1 + lambda) + 1e-9 : v)));
+      const step = solveLinear(damped, gradient.map(g => -g));
+      const trial = toFactors(x.map((v, i) => v + step[i]));
+      const next = await evaluate(free.map(key => trial[key]));
+      if (next.cost < current.cost) {
+        const fall = (current.cost - next.cost) / Math.max(current.cost, 1e-12);
+        x = free.map(key => trial[key]);
+        current = next;
+        lambda = Math.max(lambda / 3, 1e-6);
+        improved = fall > TOLERANCE;
+        break;
+      }
+      lambda *= 4;
+    }
+    if (!improved) {
+      iterations++;
+      break;
+    }
+  }
+
+  onProgress?.(1);
+  const factors = toFactors(x);
+  return {
+    factors: {
+      tipSpeedScale: parseFloat(factors.tipSpeedScale.toFixed(4)),
+      liftScale: parseFloat(factors.liftScale.toFixed(4)),
+      dragScale: parseFloat(factors.dragScale.toFixed(4)),
+      efficiencyScale: parseFloat(factors.efficiencyScale.toFixed(4))
+    },
+    fitted: free,
+    before,
+    after: current.fit,
+    iterations
+  };
+};
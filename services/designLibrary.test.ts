@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { DESIGN_SCHEMA_VERSION, readDesignDocument } from './designLibrary';
+import { DEFAULT_DESIGN_PARAMS, DEFAULT_MODEL_SETTINGS } from './physicsEngine';
+import { getAirfoil } from './airfoilDatabase';
+
+const document = (design: Record<string, unknown>, schemaVersion: unknown = DESIGN_SCHEMA_VERSION) => ({
+  format: 'gyrokite-design',
+  schemaVersion,
+  design: { name: 'Test', params: DEFAULT_DESIGN_PARAMS, modelSettings: DEFAULT_MODEL_SETTINGS, ...design }
+});
+
+const embeddedAirfoil = (id: string, cl: number) => ({
+  id,
+  name: 'Embedded',
+  polars: [{ reynolds: 100000, points: [{ alpha: 0, cl: 0, cd: 0.01 }, { alpha: 5, cl, cd: 0.02 }] }]
+});
+
+describe('readDesignDocument', () => {
+  it('reads a current document without warnings', () => {
+    const { design, warnings } = readDesignDocument(document({}));
+    expect(warnings).toEqual([]);
+    expect(design.name).toBe('Test');
+    expect(design.params).toEqual(DEFAULT_DESIGN_PARAMS);
+  });
+
+  it('migrates a bare v0 parameter object', () => {
+    const { design } = readDesignDocument({ ...DEFAULT_DESIGN_PARAMS, windSpeed: 7 });
+    expect(design.name).toBe('Imported design');
+    expect(design.params.windSpeed).toBe(7);
+  });
+
+  it('migrates a v1 document, filling later settings with their defaults', () => {
+    const { bladeCount, planform, ...v1Params } = DEFAULT_DESIGN_PARAMS;
+    const { design, warnings } = readDesignDocument({
+      format: 'gyrokite-design',
+      schemaVersion: 1,
+      design: {
+        name: 'Old',
+        params: v1Params,
+        modelSettings: { aeroModel: DEFAULT_MODEL_SETTINGS.aeroModel },
+        results: { rpm: 1 }
+      }
+    });
+    expect(warnings).toEqual([]);
+    expect(design.params.bladeCount).toBe(bladeCount);
+    expect(design.params.planform).toEqual(planform);
+    expect(design.modelSettings.bearing).toEqual(DEFAULT_MODEL_SETTINGS.bearing);
+    expect(design.results).toBeUndefined();
+  });
+
+  it.each([1.5, -1, 0, '2', null])('rejects schema version %j', version => {
+    expect(() => readDesignDocument(document({}, version))).toThrow(/schema version .* is not supported/);
+  });
+
+  it('rejects documents from a newer schema', () => {
+    expect(() => readDesignDocument(document({}, DESIGN_SCHEMA_VERSION + 1))).toThrow(/newer version/);
+  });
+
+  it('rejects documents without design parameters', () => {
+    expect(() => readDesignDocument(document({ params: 'none' }))).toThrow(/Design parameters are missing/);
+  });
+
+  it('clamps out-of-range values with a warning', () => {
+    const { design, warnings } = readDesignDocument(document({ params: { ...DEFAULT_DESIGN_PARAMS, bladeLength: 99 } }));
+    expect(design.params.bladeLength).toBeLessThan(99);
+    expect(warnings.some(w => w.includes('bladeLength'))).toBe(true);
+  });
+
+  it('registers an embedded airfoil only once the design has validated', () => {
+    const airfoil = embeddedAirfoil('test-embedded', 0.5);
+    expect(() => readDesignDocument(document({ params: 'none', airfoil }))).toThrow();
+    expect(getAirfoil('test-embedded').id).not.toBe('test-embedded');
+
+    const { design } = readDesignDocument(document({ params: { ...DEFAULT_DESIGN_PARAMS, airfoilId: 'test-embedded' }, airfoil }));
+    expect(design.params.airfoilId).toBe('test-embedded');
+    expect(getAirfoil('test-embedded').id).toBe('test-embedded');
+  });
+
+  it('loads a different airfoil with a taken id under a free one', () => {
+    const params = { ...DEFAULT_DESIGN_PARAMS, airfoilId: 'test-clash' };
+    readDesignDocument(document({ params, airfoil: embeddedAirfoil('test-clash', 0.5) }));
+    const { design, warnings } = readDesignDocument(document({ params, airfoil: embeddedAirfoil('test-clash', 0.7) }));
+    expect(design.params.airfoilId).toBe('test-clash-1');
+    expect(warnings.some(w => w.includes('test-clash-1'))).toBe(true);
+    expect(getAirfoil('test-clash').polars[0].points[1].cl).toBe(0.5);
+    expect(getAirfoil('test-clash-1').polars[0].points[1].cl).toBe(0.7);
+  });
+});
@@ -0,0 +1,639 @@
+
+import {
+  AeroModel,
+  Airfoil,
+  BearingType,
+  BladeMaterial,
+  BladePlanform,
+  CalibrationFactors,
+  CalibrationFitSummary,
+  DesignDocument,
+  DesignParams,
+  DiscreteGust,
+  DrivetrainMode,
+  HubType,
+  KitePreset,
+  LineMaterial,
+  ModelSettings,
+  NumericDesignParam,
+  PlanformControlPoint,
+  PlanformDistribution,
+  PolarPoint,
+  ReynoldsPolar,
+  SavedDesign,
+  ShearModel,
+  SparSection,
+  SimulationResult,
+  TipShape,
+  TrainRotor,
+  TurbulenceModel
+} from '../types';
+import { calculatePhysics, DEFAULT_DESIGN_PARAMS, DEFAULT_MODEL_SETTINGS } from './physicsEngine';
+import { DEFAULT_AIRFOIL_ID, freeAirfoilId, getAirfoil, registerAirfoil } from './airfoilDatabase';
+import { DEFAULT_PLANFORM, normalizeControlPoints } from './planformModel';
+import { rotorGeometryOf } from './lineTrainModel';
+import { CALIBRATION_FACTORS } from './calibrationModel';
+
+export const DESIGN_SCHEMA_VERSION = 2;
+
+// Allowed ranges, matching the design controls. Loaded values outside are clamped.
+export const PARAM_LIMITS: Record<NumericDesignParam, { min: number; max: number }> = {
+  bladeLength: { min: 0.2, max: 3.0 },
+  bladeChord: { min: 0.05, max: 0.4 },
+  bladePitch: { min: -5, max: 15 },
+  bladeCount: { min: 2, max: 6 },
+  rotorMass: { min: 0.1, max: 5.0 },
+  lineTension: { min: 0, max: 1000 },
+  lineAngle: { min: 5, max: 85 },
+  windSpeed: { min: 0, max: 30 },
+  hubDiameter: { min: 0.01, max: 0.2 },
+  rotorTilt: { min: -20, max: 20 }
+};
+
+/**
+ * Upgrade steps, keyed by the version they upgrade from. When DesignParams or
+ * ModelSettings gain a field, bump DESIGN_SCHEMA_VERSION and add a step that
+ * fills it for older documents. Fields still missing after migration fall
+ * back to defaults during validation.
+ */
+const MIGRATIONS: Record<number, (doc: any) => any> = {
+  // v0: a bare DesignParams object, or a design saved before the document format
+  0: (doc) => {
+    const params = doc.params ?? doc;
+    return {
+      format: 'gyrokite-design',
+      schemaVersion: 1,
+      exportedAt: new Date().toISOString(),
+      design: {
+        name: doc.name ?? 'Imported design',
+        notes: doc.notes ?? '',
+        params: { airfoilId: DEFAULT_AIRFOIL_ID, ...params },
+        modelSettings: doc.modelSettings ?? {}
+      }
+    };
+  },
+  // v1: blade count and planform, and the hub, bearing, structure, stability,
+  // atmosphere, drivetrain, line train and calibration settings, take the
+  // defaults they were introduced with. The stored results came from the
+  // older model and are recomputed.
+  1: (doc) => {
+    if (!isObject(doc.design)) return { ...doc, schemaVersion: 2 };
+    const { results, ...design } = doc.design;
+    const d = DEFAULT_MODEL_SETTINGS;
+    return {
+      ...doc,
+      schemaVersion: 2,
+      design: {
+        ...design,
+        params: isObject(design.params)
+          ? { bladeCount: DEFAULT_DESIGN_PARAMS.bladeCount, planform: DEFAULT_DESIGN_PARAMS.planform, ...design.params }
+          : design.params,
+        modelSettings: {
+          teeter: d.teeter,
+          bearing: d.bearing,
+          structure: d.structure,
+          stability: d.stability,
+          atmosphere: d.atmosphere,
+          drivetrain: d.drivetrain,
+          lineTrain: d.lineTrain,
+          calibration: d.calibration,
+          ...(isObject(design.modelSettings) ? design.modelSettings : {})
+        }
+      }
+    };
+  }
+};
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+function clampNumber(value: unknown, fallback: number, min: number, max: number, label: string, warnings: string[]): number {
+  if (value === undefined) {
+    warnings.push(`${label} missing, using ${fallback}.`);
+    return fallback;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${label} is not a number.`);
+  }
+  if (value < min || value > max) {
+    const clamped = Math.max(min, Math.min(max, value));
+    warnings.push(`${label} ${value} out of range, clamped to ${clamped}.`);
+    return clamped;
+  }
+  return value;
+}
+
+function pickEnum<T extends string>(value: unknown, allowed: Record<string, T>, fallback: T, label: string, warnings: string[]): T {
+  if (Object.values(allowed).includes(value as T)) return value as T;
+  if (value !== undefined) warnings.push(`${label} "${String(value)}" unknown, using ${fallback}.`);
+  return fallback;
+}
+
+/**
+ * Blade planform merged over the default. Control points that aren't
+ * numbers are dropped; fewer than two fall back to the default set.
+ */
+const validatePlanform = (raw: unknown, warnings: string[]): BladePlanform => {
+  const d = DEFAULT_PLANFORM;
+  const src = { ...d, ...(isObject(raw) ? raw : {}) };
+  const rootCutout = clampNumber(src.rootCutout, d.rootCutout, 0.05, 0.5, 'planform.rootCutout', warnings);
+
+  let controlPoints = d.controlPoints;
+  if (Array.isArray(src.controlPoints)) {
+    const valid = src.controlPoints.filter((p: unknown) =>
+      isObject(p) && [p.span, p.chord, p.twist].every(v => typeof v === 'number' && Number.isFinite(v))
+    );
+    if (valid.length < src.controlPoints.length) warnings.push('Invalid planform control points dropped.');
+    if (valid.length >= 2) {
+      controlPoints = valid.map((p: PlanformControlPoint) => ({
+        span: p.span,
+        chord: Math.min(p.chord, 3),
+        twist: Math.max(-30, Math.min(30, p.twist))
+      }));
+    } else {
+      warnings.push('Planform needs at least two control points, using the default set.');
+    }
+  }
+
+  return {
+    distribution: pickEnum(src.distribution, PlanformDistribution, d.distribution, 'planform.distribution', warnings),
+    taperRatio: clampNumber(src.taperRatio, d.taperRatio, 0.1, 2, 'planform.taperRatio', warnings),
+    twist: clampNumber(src.twist, d.twist, -30, 30, 'planform.twist', warnings),
+    rootCutout,
+    tipShape: pickEnum(src.tipShape, TipShape, d.tipShape, 'planform.tipShape', warnings),
+    controlPoints: normalizeControlPoints(controlPoints, rootCutout)
+  };
+};
+
+/**
+ * Extra rotors on the line. Each geometry is checked like a design's, over
+ * the default design so only the rotor's own fields are needed.
+ */
+const validateTrainRotors = (raw: unknown, warnings: string[], embedded?: EmbeddedAirfoil): TrainRotor[] => {
+  if (!Array.isArray(raw)) return [];
+  const valid = raw.filter(r => isObject(r) && isObject(r.geometry));
+  if (valid.length < raw.length) warnings.push('Line train rotors without geometry dropped.');
+  return valid.map((r, i) => {
+    const label = `lineTrain.rotors[${i}]`;
+    const geometry = validateDesignParams({ ...DEFAULT_DESIGN_PARAMS, ...r.geometry }, warnings, embedded);
+    return {
+      id: typeof r.id === 'string' ? r.id : `rotor-${i + 1}`,
+      name: typeof r.name === 'string' ? r.name : `Rotor ${i + 2}`,
+      position: clampNumber(r.position, 10, 0.5, 400, `${label}.position`, warnings),
+      geometry: rotorGeometryOf(geometry)
+    };
+  });
+};
+
+/**
+ * Checks design parameters from an outside source. Non-numeric values are
+ * rejected; missing ones take defaults and out-of-range ones are clamped.
+ * The airfoil must be loaded already or be the document's embedded one.
+ */
+export const validateDesignParams = (raw: unknown, warnings: string[], embedded?: EmbeddedAirfoil): DesignParams => {
+  if (!isObject(raw)) throw new Error('Design parameters are missing.');
+
+  const params = { ...DEFAULT_DESIGN_PARAMS };
+  (Object.keys(PARAM_LIMITS) as NumericDesignParam[]).forEach(key => {
+    const { min, max } = PARAM_LIMITS[key];
+    params[key] = clampNumber(raw[key], DEFAULT_DESIGN_PARAMS[key], min, max, key, warnings);
+  });
+  params.bladeCount = Math.round(params.bladeCount);
+
+  params.planform = validatePlanform(raw.planform, warnings);
+
+  params.airfoilId = typeof raw.airfoilId === 'string' ? raw.airfoilId : DEFAULT_AIRFOIL_ID;
+  if (embedded && params.airfoilId === embedded.savedId) {
+    params.airfoilId = embedded.airfoil.id;
+  } else if (getAirfoil(params.airfoilId).id !== params.airfoilId) {
+    warnings.push(`Airfoil "${params.airfoilId}" not available, using ${DEFAULT_AIRFOIL_ID}.`);
+    params.airfoilId = DEFAULT_AIRFOIL_ID;
+  }
+  return params;
+};
+
+/**
+ * Discrete gusts for the time simulation. Entries that aren't objects are
+ * dropped; their fields are checked like any other number.
+ */
+const validateGusts = (raw: unknown, warnings: string[]): DiscreteGust[] => {
+  if (!Array.isArray(raw)) return [];
+  const valid = raw.filter(isObject);
+  if (valid.length < raw.length) warnings.push('Invalid wind gusts dropped.');
+  return valid.map((g, i) => ({
+    startTime: clampNumber(g.startTime, 5, 0, 600, `wind.gusts[${i}].startTime`, warnings),
+    duration: clampNumber(g.duration, 4, 0.1, 60, `wind.gusts[${i}].duration`, warnings),
+    amplitude: clampNumber(g.amplitude, 3, -20, 20, `wind.gusts[${i}].amplitude`, warnings)
+  }));
+};
+
+const calibrationFactor = (factors: Record<string, unknown>, key: keyof CalibrationFactors, warnings: string[]): number => {
+  const { min, max } = CALIBRATION_FACTORS[key];
+  return clampNumber(factors[key], DEFAULT_MODEL_SETTINGS.calibration.factors[key], min, max, `calibration.factors.${key}`, warnings);
+};
+
+/**
+ * Fit statistics saved with a calibrated model. A summary that doesn't read
+ * cleanly is dropped rather than repaired; it only describes the fit.
+ */
+const validateCalibrationFit = (raw: unknown, warnings: string[]): CalibrationFitSummary | null => {
+  if (raw === null || raw === undefined) return null;
+  const numeric = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+  if (
+    !isObject(raw) ||
+    typeof raw.logName !== 'string' ||
+    !Object.values(AeroModel).includes(raw.aeroModel) ||
+    ![raw.pointCount, raw.rpmRms, raw.tensionRms].every(numeric) ||
+    !(raw.powerRms === null || numeric(raw.powerRms))
+  ) {
+    warnings.push('calibration.fit unreadable, dropped.');
+    return null;
+  }
+  return {
+    logName: raw.logName,
+    aeroModel: raw.aeroModel,
+    pointCount: raw.pointCount,
+    rpmRms: raw.rpmRms,
+    tensionRms: raw.tensionRms,
+    powerRms: raw.powerRms
+  };
+};
+
+/**
+ * Model settings merged over the defaults. Every field is checked like the
+ * design parameters: enums picked from their values, flags read as booleans,
+ * numbers rejected when not numeric and clamped to the control ranges.
+ */
+export const validateModelSettings = (raw: unknown, warnings: string[], embedded?: EmbeddedAirfoil): ModelSettings => {
+  const src = isObject(raw) ? raw : {};
+  const d = DEFAULT_MODEL_SETTINGS;
+  const wind = { ...d.wind, ...(isObject(src.wind) ? src.wind : {}) };
+  const atmosphere = { ...d.atmosphere, ...(isObject(src.atmosphere) ? src.atmosphere : {}) };
+  const tether = { ...d.tether, ...(isObject(src.tether) ? src.tether : {}) };
+  const kite = { ...d.kite, ...(isObject(src.kite) ? src.kite : {}) };
+  const teeter = { ...d.teeter, ...(isObject(src.teeter) ? src.teeter : {}) };
+  const bearing = { ...d.bearing, ...(isObject(src.bearing) ? src.bearing : {}) };
+  const structure = { ...d.structure, ...(isObject(src.structure) ? src.structure : {}) };
+  const stability = { ...d.stability, ...(isObject(src.stability) ? src.stability : {}) };
+  const drivetrain = { ...d.drivetrain, ...(isObject(src.drivetrain) ? src.drivetrain : {}) };
+  const lineTrain = { ...d.lineTrain, ...(isObject(src.lineTrain) ? src.lineTrain : {}) };
+  const calibration = { ...d.calibration, ...(isObject(src.calibration) ? src.calibration : {}) };
+  const factors = { ...d.calibration.factors, ...(isObject(calibration.factors) ? calibration.factors : {}) };
+
+  return {
+    aeroModel: pickEnum(src.aeroModel, AeroModel, d.aeroModel, 'aeroModel', warnings),
+    radialStations: Math.round(clampNumber(src.radialStations ?? d.radialStations, d.radialStations, 5, 50, 'radialStations', warnings)),
+    wind: {
+      shearModel: pickEnum(wind.shearModel, ShearModel, d.wind.shearModel, 'wind.shearModel', warnings),
+      turbulenceModel: pickEnum(wind.turbulenceModel, TurbulenceModel, d.wind.turbulenceModel, 'wind.turbulenceModel', warnings),
+      referenceHeight: clampNumber(wind.referenceHeight, d.wind.referenceHeight, 1, 100, 'wind.referenceHeight', warnings),
+      shearExponent: clampNumber(wind.shearExponent, d.wind.shearExponent, 0.05, 0.4, 'wind.shearExponent', warnings),
+      roughnessLength: clampNumber(wind.roughnessLength, d.wind.roughnessLength, 0.0002, 1, 'wind.roughnessLength', warnings),
+      turbulenceIntensity: clampNumber(wind.turbulenceIntensity, d.wind.turbulenceIntensity, 0, 0.5, 'wind.turbulenceIntensity', warnings),
+      gusts: validateGusts(wind.gusts, warnings),
+      seed: Math.round(clampNumber(wind.seed, d.wind.seed, 1, 100, 'wind.seed', warnings))
+    },
+    atmosphere: {
+      elevation: clampNumber(atmosphere.elevation, d.atmosphere.elevation, -400, 6000, 'atmosphere.elevation', warnings),
+      temperatureOffset: clampNumber(atmosphere.temperatureOffset, d.atmosphere.temperatureOffset, -50, 40, 'atmosphere.temperatureOffset', warnings),
+      pressureOffset: clampNumber(atmosphere.pressureOffset, d.atmosphere.pressureOffset, -80, 80, 'atmosphere.pressureOffset', warnings),
+      relativeHumidity: clampNumber(atmosphere.relativeHumidity, d.atmosphere.relativeHumidity, 0, 100, 'atmosphere.relativeHumidity', warnings)
+    },
+    tether: {
+      material: pickEnum(tether.material, LineMaterial, d.tether.material, 'tether.material', warnings),
+      diameter: clampNumber(tether.diameter, d.tether.diameter, 0.5, 8, 'tether.diameter', warnings),
+      linearDensity: clampNumber(tether.linearDensity, d.tether.linearDensity, 0.1, 50, 'tether.linearDensity', warnings),
+      elasticModulus: clampNumber(tether.elasticModulus, d.tether.elasticModulus, 0.5, 120, 'tether.elasticModulus', warnings),
+      dragCoefficient: clampNumber(tether.dragCoefficient, d.tether.dragCoefficient, 0.5, 1.5, 'tether.dragCoefficient', warnings),
+      lowerLength: clampNumber(tether.lowerLength, d.tether.lowerLength, 2, 200, 'tether.lowerLength', warnings),
+      upperLength: clampNumber(tether.upperLength, d.tether.upperLength, 2, 200, 'tether.upperLength', warnings)
+    },
+    kite: {
+      preset: pickEnum(kite.preset, KitePreset, d.kite.preset, 'kite.preset', warnings),
+      area: clampNumber(kite.area, d.kite.area, 0.5, 15, 'kite.area', warnings),
+      liftCoefficient: clampNumber(kite.liftCoefficient, d.kite.liftCoefficient, 0.2, 1.5, 'kite.liftCoefficient', warnings),
+      dragCoefficient: clampNumber(kite.dragCoefficient, d.kite.dragCoefficient, 0.05, 1, 'kite.dragCoefficient', warnings),
+      mass: clampNumber(kite.mass, d.kite.mass, 0.05, 5, 'kite.mass', warnings),
+      overrideLineTension: kite.overrideLineTension === true,
+      overrideLineAngle: kite.overrideLineAngle === true
+    },
+    teeter: {
+      hubType: pickEnum(teeter.hubType, HubType, d.teeter.hubType, 'teeter.hubType', warnings),
+      bladeMassFraction: clampNumber(teeter.bladeMassFraction, d.teeter.bladeMassFraction, 0.3, 0.95, 'teeter.bladeMassFraction', warnings),
+      tipMassFraction: clampNumber(teeter.tipMassFraction, d.teeter.tipMassFraction, 0, 0.5, 'teeter.tipMassFraction', warnings),
+      undersling: clampNumber(teeter.undersling, d.teeter.undersling, 0, 0.05, 'teeter.undersling', warnings),
+      delta3: clampNumber(teeter.delta3, d.teeter.delta3, 0, 45, 'teeter.delta3', warnings),
+      hingeOffset: clampNumber(teeter.hingeOffset, d.teeter.hingeOffset, 0, 0.2, 'teeter.hingeOffset', warnings),
+      stopAngle: clampNumber(teeter.stopAngle, d.teeter.stopAngle, 2, 20, 'teeter.stopAngle', warnings)
+    },
+    bearing: {
+      type: pickEnum(bearing.type, BearingType, d.bearing.type, 'bearing.type', warnings),
+      frictionCoefficient: clampNumber(bearing.frictionCoefficient, d.bearing.frictionCoefficient, 0, 0.5, 'bearing.frictionCoefficient', warnings),
+      width: clampNumber(bearing.width, d.bearing.width, 0.005, 0.2, 'bearing.width', warnings),
+      dynamicLoadRating: clampNumber(bearing.dynamicLoadRating, d.bearing.dynamicLoadRating, 0, 200000, 'bearing.dynamicLoadRating', warnings),
+      pvLimit: clampNumber(bearing.pvLimit, d.bearing.pvLimit, 0, 10, 'bearing.pvLimit', warnings)
+    },
+    structure: {
+      material: pickEnum(structure.material, BladeMaterial, d.structure.material, 'structure.material', warnings),
+      elasticModulus: clampNumber(structure.elasticModulus, d.structure.elasticModulus, 0.5, 250, 'structure.elasticModulus', warnings),
+      yieldStrength: clampNumber(structure.yieldStrength, d.structure.yieldStrength, 5, 3000, 'structure.yieldStrength', warnings),
+      fatigueStrength: clampNumber(structure.fatigueStrength, d.structure.fatigueStrength, 1, 1500, 'structure.fatigueStrength', warnings),
+      sparSection: pickEnum(structure.sparSection, SparSection, d.structure.sparSection, 'structure.sparSection', warnings),
+      sparWidth: clampNumber(structure.sparWidth, d.structure.sparWidth, 2, 200, 'structure.sparWidth', warnings),
+      sparHeight: clampNumber(structure.sparHeight, d.structure.sparHeight, 2, 60, 'structure.sparHeight', warnings),
+      sparWall: clampNumber(structure.sparWall, d.structure.sparWall, 0.2, 20, 'structure.sparWall', warnings)
+    },
+    stability: {
+      mastHeight: clampNumber(stability.mastHeight, d.stability.mastHeight, 0, 1, 'stability.mastHeight', warnings),
+      controlStiffness: clampNumber(stability.controlStiffness, d.stability.controlStiffness, 0, 500, 'stability.controlStiffness', warnings),
+      controlDamping: clampNumber(stability.controlDamping, d.stability.controlDamping, 0, 20, 'stability.controlDamping', warnings)
+    },
+    drivetrain: {
+      mode: pickEnum(drivetrain.mode, DrivetrainMode, d.drivetrain.mode, 'drivetrain.mode', warnings),
+      transmissionEfficiency: clampNumber(drivetrain.transmissionEfficiency, d.drivetrain.transmissionEfficiency, 0.1, 1, 'drivetrain.transmissionEfficiency', warnings),
+      gearRatio: clampNumber(drivetrain.gearRatio, d.drivetrain.gearRatio, 0.5, 50, 'drivetrain.gearRatio', warnings),
+      gearboxEfficiency: clampNumber(drivetrain.gearboxEfficiency, d.drivetrain.gearboxEfficiency, 0.1, 1, 'drivetrain.gearboxEfficiency', warnings),
+      generatorConstant: clampNumber(drivetrain.generatorConstant, d.drivetrain.generatorConstant, 0.005, 2, 'drivetrain.generatorConstant', warnings),
+      windingResistance: clampNumber(drivetrain.windingResistance, d.drivetrain.windingResistance, 0.01, 20, 'drivetrain.windingResistance', warnings),
+      batteryVoltage: clampNumber(drivetrain.batteryVoltage, d.drivetrain.batteryVoltage, 1, 400, 'drivetrain.batteryVoltage', warnings),
+      converterEfficiency: clampNumber(drivetrain.converterEfficiency, d.drivetrain.converterEfficiency, 0.1, 1, 'drivetrain.converterEfficiency', warnings),
+      drumRadius: clampNumber(drivetrain.drumRadius, d.drivetrain.drumRadius, 0.01, 1, 'drivetrain.drumRadius', warnings),
+      reelOutSpeed: clampNumber(drivetrain.reelOutSpeed, d.drivetrain.reelOutSpeed, 0, 15, 'drivetrain.reelOutSpeed', warnings),
+      reelInSpeed: clampNumber(drivetrain.reelInSpeed, d.drivetrain.reelInSpeed, 0.1, 20, 'drivetrain.reelInSpeed', warnings),
+      reelInTension: clampNumber(drivetrain.reelInTension, d.drivetrain.reelInTension, 0, 1, 'drivetrain.reelInTension', warnings)
+    },
+    lineTrain: {
+      enabled: lineTrain.enabled === true,
+      wakeInterference: lineTrain.wakeInterference !== false,
+      wakeExpansion: clampNumber(lineTrain.wakeExpansion, d.lineTrain.wakeExpansion, 0.02, 0.3, 'lineTrain.wakeExpansion', warnings),
+      rotors: validateTrainRotors(lineTrain.rotors, warnings, embedded)
+    },
+    calibration: {
+      enabled: calibration.enabled === true,
+      name: typeof calibration.name === 'string' && calibration.name.trim() ? calibration.name : d.calibration.name,
+      factors: {
+        tipSpeedScale: calibrationFactor(factors, 'tipSpeedScale', warnings),
+        liftScale: calibrationFactor(factors, 'liftScale', warnings),
+        dragScale: calibrationFactor(factors, 'dragScale', warnings),
+        efficiencyScale: calibrationFactor(factors, 'efficiencyScale', warnings)
+      },
+      fit: validateCalibrationFit(calibration.fit, warnings)
+    }
+  };
+};
+
+let referenceResults: SimulationResult | null = null;
+
+/**
+ * The results snapshot stored with a design, kept only when it has the
+ * current shape: every top-level field of a fresh result, of the same kind,
+ * with numbers finite. It is only shown, never fed back into the model, so
+ * one that doesn't match is dropped rather than repaired.
+ */
+const validateResultsSnapshot = (raw: unknown, warnings: string[]): SimulationResult | undefined => {
+  if (raw === undefined) return undefined;
+  referenceResults ??= calculatePhysics(DEFAULT_DESIGN_PARAMS, DEFAULT_MODEL_SETTINGS);
+  const matches = isObject(raw) && Object.entries(referenceResults).every(([key, ref]) => {
+    const v = raw[key];
+    if (typeof ref === 'number') return typeof v === 'number' && Number.isFinite(v);
+    if (Array.isArray(ref)) return Array.isArray(v);
+    return typeof v === typeof ref && v !== null;
+  });
+  if (!matches) {
+    warnings.push('Saved results snapshot unreadable, dropped.');
+    return undefined;
+  }
+  return raw as SimulationResult;
+};
+
+// An embedded airfoil and the id the document refers to it by, which differs
+// when it was renamed to stay clear of a loaded airfoil
+type EmbeddedAirfoil = { savedId: string; airfoil: Airfoil };
+
+/**
+ * An imported airfoil embedded in a design file. The interpolation needs at
+ * least one polar, each at a finite Reynolds number with finite points in
+ * ascending alpha; anything less is refused here rather than failing inside
+ * the solver. Missing moment coefficients read as zero.
+ */
+const validateEmbeddedAirfoil = (raw: Record<string, any>): Airfoil => {
+  const finite = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+  if (typeof raw.id !== 'string' || !raw.id) throw new Error('airfoil has no id');
+  if (!Array.isArray(raw.polars) || raw.polars.length === 0) throw new Error('airfoil has no polars');
+
+  const polars: ReynoldsPolar[] = raw.polars.map((polar: unknown, i: number) => {
+    if (!isObject(polar) || !finite(polar.reynolds) || polar.reynolds <= 0) {
+      throw new Error(`polar ${i + 1} has no valid Reynolds number`);
+    }
+    if (!Array.isArray(polar.points) || polar.points.length === 0) throw new Error(`polar ${i + 1} has no points`);
+    const points: PolarPoint[] = polar.points.map((p: unknown, j: number) => {
+      if (!isObject(p) || !finite(p.alpha) || !finite(p.cl) || !finite(p.cd)) {
+        throw new Error(`polar ${i + 1} point ${j + 1} is not numeric`);
+      }
+      return { alpha: p.alpha, cl: p.cl, cd: p.cd, cm: finite(p.cm) ? p.cm : 0 };
+    });
+    if (points.some((p, j) => j > 0 && p.alpha <= points[j - 1].alpha)) {
+      throw new Error(`polar ${i + 1} is not in ascending alpha`);
+    }
+    return { reynolds: polar.reynolds, points };
+  });
+
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : raw.id,
+    builtIn: false,
+    polars: polars.sort((a, b) => a.reynolds - b.reynolds)
+  };
+};
+
+/**
+ * Brings any supported document up to the current schema and validates it.
+ * An embedded imported airfoil is checked, and registered once the whole
+ * design has validated so the design resolves its polar; one that fails is
+ * left out and the design falls back to the default airfoil. If a different
+ * airfoil is already loaded under its id it comes in under a free id
+ * instead.
+ */
+export const readDesignDocument = (raw: unknown): { design: SavedDesign; warnings: string[] } => {
+  if (!isObject(raw)) throw new Error('Not a design document.');
+
+  let doc: any = raw;
+  // No version at all is a bare v0 document; anything else must name a schema
+  let version = doc.schemaVersion ?? 0;
+  if (doc.schemaVersion !== undefined && !(Number.isInteger(version) && version >= 1)) {
+    throw new Error(`Design schema version ${JSON.stringify(doc.schemaVersion)} is not supported.`);
+  }
+  if (version > DESIGN_SCHEMA_VERSION) {
+    throw new Error(`Design was saved by a newer version (schema ${version}).`);
+  }
+  while (version < DESIGN_SCHEMA_VERSION) {
+    doc = MIGRATIONS[version](doc);
+    version = doc.schemaVersion;
+  }
+  if (doc.format !== 'gyrokite-design' || !isObject(doc.design)) {
+    throw new Error('Not a design document.');
+  }
+
+  const src = doc.design;
+  const warnings: string[] = [];
+  let embedded: EmbeddedAirfoil | undefined;
+  if (isObject(src.airfoil)) {
+    try {
+      const airfoil = validateEmbeddedAirfoil(src.airfoil);
+      const loaded = getAirfoil(airfoil.id);
+      const sameData = (a: Airfoil, b: Airfoil) =>
+        a.name === b.name && JSON.stringify(a.polars) === JSON.stringify(b.polars);
+      if (loaded.id === airfoil.id && (loaded.builtIn || !sameData(loaded, airfoil))) {
+        const id = freeAirfoilId(airfoil.id);
+        warnings.push(`A different airfoil "${airfoil.id}" is already loaded, so the embedded one was loaded as "${id}".`);
+        embedded = { savedId: airfoil.id, airfoil: { ...airfoil, id } };
+      } else {
+        embedded = { savedId: airfoil.id, airfoil };
+      }
+    } catch (err: any) {
+      warnings.push(`Embedded airfoil unreadable (${err.message}), not loaded.`);
+    }
+  }
+
+  const now = new Date().toISOString();
+  const design: SavedDesign = {
+    id: typeof src.id === 'string' ? src.id : newId(),
+    name: typeof src.name === 'string' && src.name.trim() ? src.name : 'Untitled design',
+    notes: typeof src.notes === 'string' ? src.notes : '',
+    createdAt: typeof src.createdAt === 'string' ? src.createdAt : now,
+    updatedAt: typeof src.updatedAt === 'string' ? src.updatedAt : now,
+    params: validateDesignParams(src.params, warnings, embedded),
+    modelSettings: validateModelSettings(src.modelSettings, warnings, embedded),
+    results: validateResultsSnapshot(src.results, warnings),
+    airfoil: embedded?.airfoil
+  };
+  if (embedded) registerAirfoil(embedded.airfoil);
+  return { design, warnings };
+};
+
+export const parseDesignFile = (text: string): { design: SavedDesign; warnings: string[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  return readDesignDocument(raw);
+};
+
+export const toDesignDocument = (design: SavedDesign): DesignDocument => ({
+  format: 'gyrokite-design',
+  schemaVersion: DESIGN_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  design
+});
+
+export const createSavedDesign = (
+  name: string,
+  notes: string,
+  params: DesignParams,
+  modelSettings: ModelSettings,
+  results: SimulationResult
+): SavedDesign => {
+  const now = new Date().toISOString();
+  const airfoil = getAirfoil(params.airfoilId);
+  return {
+    id: newId(),
+    name: name.trim() || 'Untitled design',
+    notes,
+    createdAt: now,
+    updatedAt: now,
+    params,
+    modelSettings,
+    results,
+    airfoil: airfoil.builtIn ? undefined : airfoil
+  };
+};
+
+// --- Storage: IndexedDB, with localStorage where IndexedDB is unavailable ---
+
+const DB_NAME = 'gyrokite-designer';
+const STORE = 'designs';
+const LOCAL_KEY = 'gyrokite-designer.designs';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'design.id' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function readLocal(): DesignDocument[] {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function writeLocal(docs: DesignDocument[]): void {
+  localStorage.setItem(LOCAL_KEY, JSON.stringify(docs));
+}
+
+/**
+ * All stored designs, migrated to the current schema, newest first.
+ * Records that fail validation are skipped.
+ */
+export const listDesigns = async (): Promise<SavedDesign[]> => {
+  const db = await openDatabase();
+  const docs: unknown[] = db
+    ? await requestToPromise(db.transaction(STORE, 'readonly').objectStore(STORE).getAll())
+    : readLocal();
+
+  const designs: SavedDesign[] = [];
+  for (const doc of docs) {
+    try {
+      designs.push(readDesignDocument(doc).design);
+    } catch {
+      // Unreadable record; leave it in storage untouched
+    }
+  }
+  return designs.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const saveDesign = async (design: SavedDesign): Promise<void> => {
+  const doc = toDesignDocument({ ...design, updatedAt: new Date().toISOString() });
+  const db = await openDatabase();
+  if (db) {
+    await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).put(doc));
+  } else {
+    writeLocal([...readLocal().filter(d => d.design.id !== design.id), doc]);
+  }
+};
+
+export const deleteDesign = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  if (db) {
+    await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(id));
+  } else {
+    writeLocal(readLocal().filter(d => d.design.id !== id));
+  }
+};
+
+export const duplicateDesign = async (design: SavedDesign): Promise<SavedDesign> => {
+  const now = new Date().toISOString();
+  const copy: SavedDesign = { ...design, id: newId(), name: `${design.name} (copy)`, createdAt: now, updatedAt: now };
+  await saveDesign(copy);
+  return copy;
+};
@@ -0,0 +1,79 @@
+import { DesignParams, SimulationResult } from '../types';
+import { getAirfoil, getStallAngle, lookupCoefficients } from './airfoilDatabase';
+import { speedOfSound } from './atmosphereModel';
+import { bladeSection } from './planformModel';
+import { diskField, DiskPoint, reverseFlowCircle, rotorFlowFor } from './rotorFlowModel';
+
+export interface DiskMapPoint extends DiskPoint {
+  mach: number;
+  reynolds: number;
+  liftCoefficient: number;
+  stallAngle: number; // degrees, of the polar at this Reynolds number
+  stalled: boolean; // past stall either way, outside reverse flow
+}
+
+export interface DiskMap {
+  spans: number[]; // span fractions, root cutout to tip
+  azimuths: number[]; // radians, 0 downwind, 90° advancing
+  points: DiskMapPoint[][]; // [span][azimuth]
+  reverseFlowDiameter: number; // span fraction, of the reverse-flow circle (mu)
+  stalledFraction: number; // of the aerofoil disk area
+  reverseFlowFraction: number; // of the aerofoil disk area
+  peakAngleOfAttack: { value: number; span: number; azimuth: number }; // outside reverse flow
+}
+
+/**
+ * Every blade section's operating point round the disk: the local velocity
+ * and angle of attack of the flow model, with the Reynolds number, Mach
+ * number and lift coefficient they give on the section's own chord. Each
+ * point is checked against the stall angle of the polar at its own Reynolds
+ * number rather than the single 75% span value. Area fractions weight each
+ * grid cell by its radius.
+ */
+export const solveDiskMap = (params: DesignParams, results: SimulationResult, rings: number, sectors: number): DiskMap => {
+  const flow = rotorFlowFor(params, results);
+  const field = diskField(flow, params, rings, sectors);
+  const airfoil = getAirfoil(params.airfoilId);
+  const { kinematicViscosity, temperature } = results.atmosphere;
+  const sound = speedOfSound(temperature);
+
+  const points = field.points.map((row, i) => {
+    const chord = bladeSection(params, field.spans[i]).chord;
+    return row.map((point): DiskMapPoint => {
+      const reynolds = (point.velocity * chord) / kinematicViscosity;
+      const stallAngle = getStallAngle(airfoil, reynolds);
+      return {
+        ...point,
+        mach: point.velocity / sound,
+        reynolds,
+        liftCoefficient: lookupCoefficients(airfoil, point.angleOfAttack, reynolds).cl,
+        stallAngle,
+        stalled: !point.reverseFlow && Math.abs(point.angleOfAttack) > stallAngle
+      };
+    });
+  });
+
+  let area = 0;
+  let stalledArea = 0;
+  let reverseArea = 0;
+  let peak = { value: -Infinity, span: 0, azimuth: 0 };
+  points.forEach((row, i) => row.forEach((point, j) => {
+    const weight = field.spans[i];
+    area += weight;
+    if (point.stalled) stalledArea += weight;
+    if (point.reverseFlow) reverseArea += weight;
+    if (!point.reverseFlow && point.angleOfAttack > peak.value) {
+      peak = { value: point.angleOfAttack, span: field.spans[i], azimuth: field.azimuths[j] };
+    }
+  }));
+
+  return {
+    spans: field.spans,
+    azimuths: field.azimuths,
+    points,
+    reverseFlowDiameter: (2 * reverseFlowCircle(flow).radius) / flow.radius,
+    stalledFraction: area > 0 ? stalledArea / area : 0,
+    reverseFlowFraction: area > 0 ? reverseArea / area : 0,
+    peakAngleOfAttack: Number.isFinite(peak.value) ? peak : { value: 0, span: 0, azimuth: 0 }
+  };
+};
@@ -0,0 +1,146 @@
+import { DrivetrainMode, DrivetrainSettings, DrivetrainSolution } from '../types';
+
+export const DEFAULT_DRIVETRAIN: DrivetrainSettings = {
+  mode: DrivetrainMode.ROTARY,
+  transmissionEfficiency: 0.85,
+  gearRatio: 6,
+  gearboxEfficiency: 0.95,
+  generatorConstant: 0.1,
+  windingResistance: 0.5,
+  batteryVoltage: 24,
+  converterEfficiency: 0.95,
+  drumRadius: 0.03,
+  reelOutSpeed: 2,
+  reelInSpeed: 4,
+  reelInTension: 0.2
+};
+
+export const DRIVETRAIN_MODE_INFO: Record<DrivetrainMode, { name: string; description: string }> = {
+  [DrivetrainMode.ROTARY]: {
+    name: 'Rotary',
+    description: 'Rotor torque is carried down the line to a geared generator at the ground station.'
+  },
+  [DrivetrainMode.PUMPING]: {
+    name: 'Pumping',
+    description: 'The winch generates while the line reels out under tension, then motors it back in depowered.'
+  }
+};
+
+export interface GeneratorPoint {
+  emf: number; // V
+  current: number; // A
+  torque: number; // N·m at the generator shaft
+  electricalPower: number; // W into the battery
+}
+
+/**
+ * Permanent-magnet generator charging a battery through a rectifier: no
+ * current flows until the back-EMF exceeds the battery voltage, then the
+ * winding resistance sets the current and with it the braking torque.
+ */
+export const generatorPoint = (settings: DrivetrainSettings, generatorOmega: number): GeneratorPoint => {
+  const k = Math.max(settings.generatorConstant, 1e-6);
+  const emf = k * Math.max(generatorOmega, 0);
+  const current = Math.max(0, (emf - settings.batteryVoltage) / Math.max(settings.windingResistance, 1e-6));
+  return {
+    emf,
+    current,
+    torque: k * current,
+    electricalPower: settings.batteryVoltage * current * settings.converterEfficiency
+  };
+};
+
+/**
+ * Torque the rotary drivetrain takes from the rotor at this speed, with the
+ * gearbox and line transmission losses referred back to the rotor. Zero in
+ * pumping mode, where the rotor spins free.
+ */
+export const rotaryLoadTorque = (settings: DrivetrainSettings, omega: number): number => {
+  if (settings.mode !== DrivetrainMode.ROTARY) return 0;
+  const { torque } = generatorPoint(settings, omega * settings.gearRatio);
+  return (torque * settings.gearRatio) / Math.max(settings.gearboxEfficiency * settings.transmissionEfficiency, 1e-3);
+};
+
+/**
+ * Rotary transmission at the rotor's operating speed.
+ */
+export const solveRotaryDrivetrain = (settings: DrivetrainSettings, omega: number): DrivetrainSolution => {
+  const generatorOmega = omega * settings.gearRatio;
+  const point = generatorPoint(settings, generatorOmega);
+  const shaftPower = rotaryLoadTorque(settings, omega) * omega;
+  return {
+    mode: DrivetrainMode.ROTARY,
+    shaftPower,
+    generatorRpm: (generatorOmega * 60) / (2 * Math.PI),
+    generatorTorque: point.torque,
+    current: point.current,
+    electricalPower: point.electricalPower,
+    efficiency: shaftPower > 0 ? point.electricalPower / shaftPower : 0,
+    lineTension: 0,
+    cutIn: point.current > 0
+  };
+};
+
+/**
+ * Line tension while reeling out. Moving downwind along the line takes
+ * vReelOut·cos(lineAngle) off the wind the rotor and kite see, and the
+ * aerodynamic pull falls with its square (Loyd).
+ */
+export const reelOutTension = (tension: number, windSpeed: number, lineAngle: number, reelOutSpeed: number): number => {
+  if (windSpeed <= 0) return 0;
+  const relative = Math.max(0, 1 - (reelOutSpeed * Math.cos(lineAngle * (Math.PI / 180))) / windSpeed);
+  return tension * relative * relative;
+};
+
+/**
+ * Pumping cycle on a ground winch. The drum drives the generator through the
+ * gearbox while the line reels out at reelOutSpeed, and the same machine motors
+ * it back in at reelInSpeed against reelInTension of the reel-out pull. Both
+ * strokes cover the same length of line, so the cycle-averaged power is
+ * independent of it.
+ */
+export const solvePumpingCycle = (
+  settings: DrivetrainSettings,
+  tension: number, // N at the anchor, line stationary
+  windSpeed: number, // m/s at the rotor
+  lineAngle: number, // degrees, lower line elevation at the anchor
+  reelOutSpeed: number = settings.reelOutSpeed
+): DrivetrainSolution => {
+  const k = Math.max(settings.generatorConstant, 1e-6);
+  const drum = Math.max(settings.drumRadius, 1e-3);
+  const gear = Math.max(settings.gearRatio, 1e-3);
+  const resistance = Math.max(settings.windingResistance, 1e-6);
+  const vOut = Math.max(reelOutSpeed, 0);
+  const vIn = Math.max(settings.reelInSpeed, 0.01);
+
+  // Reel-out: the converter holds the drum speed, the pull sets the current
+  const lineTension = reelOutTension(tension, windSpeed, lineAngle, vOut);
+  const generatorOmega = (vOut / drum) * gear;
+  const generatorTorque = (lineTension * drum * settings.gearboxEfficiency) / gear;
+  const current = generatorTorque / k;
+  const terminalVoltage = k * generatorOmega - current * resistance;
+  const outPower = Math.max(0, terminalVoltage * current) * settings.converterEfficiency;
+
+  // Reel-in: motoring against the depowered pull
+  const inTorque = (lineTension * settings.reelInTension * drum) / (gear * settings.gearboxEfficiency);
+  const inCurrent = inTorque / k;
+  const inPower = ((k * (vIn / drum) * gear + inCurrent * resistance) * inCurrent) / Math.max(settings.converterEfficiency, 1e-3);
+
+  // Stroke times per metre of line
+  const outTime = vOut > 0 ? 1 / vOut : Infinity;
+  const inTime = 1 / vIn;
+  const cyclePower = Number.isFinite(outTime) ? (outPower * outTime - inPower * inTime) / (outTime + inTime) : 0;
+  const shaftPower = lineTension * vOut;
+
+  return {
+    mode: DrivetrainMode.PUMPING,
+    shaftPower,
+    generatorRpm: (generatorOmega * 60) / (2 * Math.PI),
+    generatorTorque,
+    current,
+    electricalPower: cyclePower,
+    efficiency: shaftPower > 0 ? Math.max(cyclePower, 0) / shaftPower : 0,
+    lineTension,
+    cutIn: terminalVoltage > 0
+  };
+};
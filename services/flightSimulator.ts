@@ -0,0 +1,334 @@
+
+import { DesignParams, ModelSettings, RunStatistics, TimeSample, TimeSimulationOptions, TimeSimulationResult } from '../types';
+import { evaluateRotor, RotorCondition } from './bemtSolver';
+import { buildRotorCondition, DEFAULT_MODEL_SETTINGS, resolveLineLoads } from './physicsEngine';
+import { generateWindSeries, windAt } from './windField';
+import { bladeMassProperties } from './teeterModel';
+import { bearingFrictionTorque, lineBearingLoads } from './bearingModel';
+import { rotaryLoadTorque } from './drivetrainModel';
+import { bladeSection } from './planformModel';
+import { solveTether } from './tetherModel';
+
+export const DEFAULT_TIME_SIMULATION_OPTIONS: TimeSimulationOptions = {
+  duration: 20,
+  timeStep: 0.005,
+  sampleInterval: 0.05,
+  initialRpm: 0
+};
+
+const GRAVITY = 9.81;
+const VISCOUS_BEARING_DRAG = 1e-4; // N·m·s
+const STICTION_SPEED = 0.05; // rad/s below which the bearing can hold the rotor
+const LINE_DAMPING_RATIO = 0.05;
+
+// Autorotation counts as reached when the fitted RPM trend over the last
+// SETTLE_WINDOW seconds drifts by less than SETTLE_TOLERANCE of its mean
+const SETTLE_WINDOW = 2; // s
+const SETTLE_TOLERANCE = 0.02;
+
+// Rotor map resolution (tip speed ratio)
+const MAP_TSR_MAX = 20;
+const MAP_POINTS = 41;
+
+
+interface RotorLoadsPoint {
+  thrust: number;
+  torque: number;
+  hForce: number;
+  inducedVelocity: number;
+}
+
+/**
+ * BEMT loads tabulated against tip speed ratio at a reference wind speed.
+ * Loads at another wind speed scale with V^2 (Reynolds effects neglected), so
+ * the map is built once per run instead of solving BEMT inside every RK4 stage.
+ */
+interface RotorMap {
+  refWind: number;
+  radius: number;
+  points: RotorLoadsPoint[]; // at tsr = i * MAP_TSR_MAX / (MAP_POINTS - 1)
+}
+
+export function buildRotorMap(cond: RotorCondition): RotorMap {
+  const points: RotorLoadsPoint[] = [];
+  for (let i = 0; i < MAP_POINTS; i++) {
+    const tsr = (MAP_TSR_MAX * i) / (MAP_POINTS - 1);
+    const loads = evaluateRotor(cond, (tsr * cond.windSpeed) / cond.radius);
+    points.push({
+      thrust: loads.thrust,
+      torque: loads.torque,
+      hForce: loads.hForce,
+      inducedVelocity: loads.inducedVelocity
+    });
+  }
+  return { refWind: cond.windSpeed, radius: cond.radius, points };
+}
+
+export function mapLoads(map: RotorMap, wind: number, omega: number): RotorLoadsPoint {
+  if (map.refWind <= 0) {
+    return { thrust: 0, torque: 0, hForce: 0, inducedVelocity: 0 };
+  }
+  const last = map.points[MAP_POINTS - 1];
+
+  // Rotor spinning in still air: profile drag torque grows with omega^2
+  if (wind <= 1e-6) {
+    const scale = Math.pow((omega * map.radius) / (MAP_TSR_MAX * map.refWind), 2);
+    return { thrust: 0, torque: Math.min(0, last.torque) * scale, hForce: 0, inducedVelocity: 0 };
+  }
+
+  const tsr = (omega * map.radius) / wind;
+  const q = Math.pow(wind / map.refWind, 2);
+  const v = wind / map.refWind;
+
+  if (tsr >= MAP_TSR_MAX) {
+    const scale = q * Math.pow(tsr / MAP_TSR_MAX, 2);
+    return {
+      thrust: last.thrust * q,
+      torque: last.torque * scale,
+      hForce: last.hForce * q,
+      inducedVelocity: last.inducedVelocity * v
+    };
+  }
+
+  const x = (Math.max(0, tsr) / MAP_TSR_MAX) * (MAP_POINTS - 1);
+  const i = Math.min(MAP_POINTS - 2, Math.floor(x));
+  const t = x - i;
+  const a = map.points[i];
+  const b = map.points[i + 1];
+  return {
+    thrust: (a.thrust + t * (b.thrust - a.thrust)) * q,
+    torque: (a.torque + t * (b.torque - a.torque)) * q,
+    hForce: (a.hForce + t * (b.hForce - a.hForce)) * q,
+    inducedVelocity: (a.inducedVelocity + t * (b.inducedVelocity - a.inducedVelocity)) * v
+  };
+}
+
+/**
+ * Mean, 95th percentile and peak of a recorded channel.
+ */
+export const computeRunStatistics = (values: number[]): RunStatistics => {
+  if (values.length === 0) return { mean: 0, p95: 0, peak: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const p95 = sorted[Math.min(sorted.length - 1, Math.floor(0.95 * (sorted.length - 1)))];
+  return {
+    mean: parseFloat(mean.toFixed(2)),
+    p95: parseFloat(p95.toFixed(2)),
+    peak: parseFloat(sorted[sorted.length - 1].toFixed(2))
+  };
+};
+
+// State vector: [azimuth, omega, teeter, teeterRate, hubOffset, hubVelocity]
+type State = [number, number, number, number, number, number];
+
+/**
+ * Integrates rotor spin-up, teeter and hub motion on the line from the given
+ * initial RPM using classical fourth-order Runge-Kutta, driven by the wind field
+ * in settings.wind (shear, turbulence and gusts). Rotor torque always comes
+ * from the BEMT map, whatever settings.aeroModel says, and without calibration
+ * factors.
+ */
+export const runFlightSimulation = (
+  design: DesignParams,
+  settings: ModelSettings = DEFAULT_MODEL_SETTINGS,
+  options: TimeSimulationOptions = DEFAULT_TIME_SIMULATION_OPTIONS
+): TimeSimulationResult => {
+  // Kite pull and elevation are held at their mean-wind equilibrium
+  const { params } = resolveLineLoads(design, settings);
+  const cond = buildRotorCondition(params, settings);
+  const map = buildRotorMap(cond);
+  const windSeries = generateWindSeries(params, settings, options.duration, options.sampleInterval);
+
+  const wind = cond.windSpeed; // mean at rotor height
+  const radius = params.bladeLength;
+  const alphaRad = cond.alphaDeg * (Math.PI / 180);
+  const lineRad = params.lineAngle * (Math.PI / 180);
+  const pitchRad = bladeSection(params, 0.75).pitch * (Math.PI / 180);
+  const { polarInertia, lockNumber, flapFrequencySq } = bladeMassProperties(params, settings.teeter, cond.airDensity);
+  const inertia = Math.max(polarInertia, 1e-6);
+  const weight = params.rotorMass * GRAVITY;
+  const teeterStop = settings.teeter.stopAngle * (Math.PI / 180);
+
+  // Hub on a tensioned string between anchor and kite: lateral stiffness
+  // T(1/a + 1/b), with the rotor's own thrust adding to the kite tension
+  const lower = Math.max(settings.tether.lowerLength, 1);
+  const upper = Math.max(settings.tether.upperLength, 1);
+  const lineStiffness = (thrust: number) => Math.max(params.lineTension + thrust, 1) * (1 / lower + 1 / upper);
+
+  // Force on the hub perpendicular to the line (+ up/upwind) and bearing friction torque
+  const hubLoads = (omega: number, windSpeed: number) => {
+    const loads = mapLoads(map, windSpeed, omega);
+    const lift = loads.thrust * Math.cos(alphaRad) - loads.hForce * Math.sin(alphaRad);
+    const drag = loads.thrust * Math.sin(alphaRad) + loads.hForce * Math.cos(alphaRad);
+    const perpForce = (lift - weight) * Math.cos(lineRad) - drag * Math.sin(lineRad);
+    const { radial, axial } = lineBearingLoads(lift, drag, weight, params.lineAngle);
+    const coulomb = bearingFrictionTorque(settings.bearing, params.hubDiameter, radial, axial);
+    return { loads, lift, drag, perpForce, coulomb };
+  };
+
+  const derivative = (s: State, t: number): State => {
+    const [, omega, beta, betaRate, x, xRate] = s;
+    const windSpeed = windAt(windSeries, t);
+    const vPar = windSpeed * Math.cos(alphaRad);
+    const vPerp = windSpeed * Math.sin(alphaRad);
+    const { loads, perpForce, coulomb } = hubLoads(omega, windSpeed);
+
+    // Rotor speed: aerodynamic torque against bearing friction and generator load
+    let omegaDot: number;
+    if (omega <= STICTION_SPEED && loads.torque <= coulomb) {
+      omegaDot = 0;
+    } else {
+      const friction = coulomb * Math.tanh(omega / STICTION_SPEED) + VISCOUS_BEARING_DRAG * omega;
+      omegaDot = (loads.torque - friction - rotaryLoadTorque(settings.drivetrain, omega)) / inertia;
+    }
+
+    // Teeter: natural frequency nu (undersling and delta-3), aerodynamic
+    // damping gamma*Omega/8, forced by the advancing/retreating lift asymmetry
+    const uP = vPerp - loads.inducedVelocity;
+    const forcing = (lockNumber / 8) * ((4 / 3) * pitchRad * omega * vPar / radius + (vPar * uP) / (radius * radius));
+    const betaDdot = forcing * Math.sin(s[0]) - (lockNumber * omega / 8) * betaRate - flapFrequencySq * omega * omega * beta;
+
+    // Hub lateral motion on the line
+    const k = lineStiffness(loads.thrust);
+    const c = 2 * LINE_DAMPING_RATIO * Math.sqrt(k * params.rotorMass);
+    const xDdot = (perpForce - k * x - c * xRate) / params.rotorMass;
+
+    return [omega, omegaDot, betaRate, betaDdot, xRate, xDdot];
+  };
+
+  const step = (s: State, t: number, dt: number): State => {
+    const add = (a: State, b: State, h: number): State => a.map((v, i) => v + b[i] * h) as State;
+    const k1 = derivative(s, t);
+    const k2 = derivative(add(s, k1, dt / 2), t + dt / 2);
+    const k3 = derivative(add(s, k2, dt / 2), t + dt / 2);
+    const k4 = derivative(add(s, k3, dt), t + dt);
+    const next = s.map((v, i) => v + (dt / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i])) as State;
+
+    next[1] = Math.max(0, next[1]);
+    // Hub stops
+    if (Math.abs(next[2]) > teeterStop) {
+      next[2] = Math.sign(next[2]) * teeterStop;
+      next[3] = 0;
+    }
+    return next;
+  };
+
+  const toRpm = (omega: number) => (omega * 60) / (2 * Math.PI);
+  const record = (time: number, s: State): TimeSample => {
+    const windSpeed = windAt(windSeries, time);
+    const { loads, lift, drag } = hubLoads(s[1], windSpeed);
+
+    // Anchor tension: kite pull plus rotor forces carried down the sagged
+    // line, as in the steady engine
+    const kitePull = { x: params.lineTension * Math.cos(lineRad), y: params.lineTension * Math.sin(lineRad) };
+    const { anchorForce } = solveTether(
+      params,
+      settings,
+      { x: kitePull.x + drag, y: kitePull.y + lift - weight },
+      kitePull,
+      cond.airDensity
+    );
+
+    return {
+      time: parseFloat(time.toFixed(3)),
+      rpm: Math.round(toRpm(s[1])),
+      thrust: parseFloat(loads.thrust.toFixed(2)),
+      teeterAngle: parseFloat((s[2] * (180 / Math.PI)).toFixed(2)),
+      teeterAmplitude: parseFloat((Math.hypot(s[2], s[1] > 1e-3 ? s[3] / s[1] : 0) * (180 / Math.PI)).toFixed(2)),
+      azimuth: s[0] % (2 * Math.PI),
+      hubOffset: parseFloat(s[4].toFixed(4)),
+      windSpeed: parseFloat(windSpeed.toFixed(2)),
+      lineTension: parseFloat(Math.hypot(anchorForce.x, anchorForce.y).toFixed(2))
+    };
+  };
+
+  // --- Integration ---
+  let state: State = [0, (options.initialRpm * 2 * Math.PI) / 60, 0, 0, 0, 0];
+  const history: TimeSample[] = [record(0, state)];
+  const steps = Math.ceil(options.duration / options.timeStep);
+  const samplesEvery = Math.max(1, Math.round(options.sampleInterval / options.timeStep));
+
+  for (let n = 1; n <= steps; n++) {
+    state = step(state, (n - 1) * options.timeStep, options.timeStep);
+    if (n % samplesEvery === 0) history.push(record(n * options.timeStep, state));
+  }
+
+  // --- Equilibrium including friction and generator load ---
+  // Highest rotor speed where net torque falls through zero
+  let steadyOmega = 0;
+  let steadyIndex = 0;
+  const maxOmega = (MAP_TSR_MAX * wind) / radius;
+  const netTorque = (omega: number) => {
+    const { loads, coulomb } = hubLoads(omega, wind);
+    return loads.torque - coulomb - VISCOUS_BEARING_DRAG * omega - rotaryLoadTorque(settings.drivetrain, omega);
+  };
+  for (let i = MAP_POINTS - 1; i > 0 && wind > 0; i--) {
+    const hi = (maxOmega * i) / (MAP_POINTS - 1);
+    const lo = (maxOmega * (i - 1)) / (MAP_POINTS - 1);
+    const qHi = netTorque(hi);
+    const qLo = netTorque(lo);
+    if (qLo > 0 && qHi <= 0) {
+      steadyOmega = lo + (hi - lo) * (qLo / (qLo - qHi));
+      steadyIndex = i - 1;
+      break;
+    }
+  }
+
+  // --- Self-start ---
+  // From rest the bearing holds the rotor until torque beats friction, and
+  // on the way up net torque must stay positive all the way to the
+  // equilibrium. Where it does not, the rotor needs prerotation past the
+  // highest speed below the equilibrium at which net torque falls to zero.
+  let selfStarting = steadyOmega > 0;
+  let prerotationOmega = 0;
+  for (let i = steadyIndex; i > 0 && steadyOmega > 0; i--) {
+    const hi = (maxOmega * i) / (MAP_POINTS - 1);
+    const lo = (maxOmega * (i - 1)) / (MAP_POINTS - 1);
+    const qHi = netTorque(hi);
+    const qLo = netTorque(lo);
+    if (qLo <= 0 && qHi > 0) {
+      prerotationOmega = lo + (hi - lo) * (qLo / (qLo - qHi));
+      selfStarting = false;
+      break;
+    }
+  }
+
+  // --- Settling ---
+  // Least-squares RPM slope over the last SETTLE_WINDOW seconds
+  const settleStart = options.duration - SETTLE_WINDOW;
+  const tail = history.filter(h => h.time >= settleStart);
+  let settled = false;
+  if (settleStart >= 0 && tail.length >= 3) {
+    const meanTime = tail.reduce((sum, h) => sum + h.time, 0) / tail.length;
+    const meanRpm = tail.reduce((sum, h) => sum + h.rpm, 0) / tail.length;
+    const sxy = tail.reduce((sum, h) => sum + (h.time - meanTime) * (h.rpm - meanRpm), 0);
+    const sxx = tail.reduce((sum, h) => sum + Math.pow(h.time - meanTime, 2), 0);
+    const slope = sxx > 0 ? sxy / sxx : 0;
+    settled = meanRpm > 10 && Math.abs(slope) * SETTLE_WINDOW <= SETTLE_TOLERANCE * meanRpm;
+  }
+
+  const steadyRpm = toRpm(steadyOmega);
+  const firstAbove = history.findIndex(h => steadyRpm > 0 && h.rpm >= 0.9 * steadyRpm);
+
+  // Overshoot only applies to a spin-up from below the equilibrium
+  let overshoot = 0;
+  if (firstAbove >= 0 && options.initialRpm < steadyRpm) {
+    const peakRpm = Math.max(...history.slice(firstAbove).map(h => h.rpm));
+    overshoot = Math.max(0, ((peakRpm - steadyRpm) / steadyRpm) * 100);
+  }
+
+  return {
+    history,
+    steadyRpm: Math.round(steadyRpm),
+    spinUpTime: firstAbove >= 0 ? history[firstAbove].time : null,
+    overshoot: parseFloat(overshoot.toFixed(1)),
+    autorotationReached: settled,
+    selfStarting,
+    prerotationRpm: Math.ceil(toRpm(prerotationOmega)),
+    statistics: {
+      rpm: computeRunStatistics(history.map(h => h.rpm)),
+      lineTension: computeRunStatistics(history.map(h => h.lineTension)),
+      windSpeed: computeRunStatistics(history.map(h => h.windSpeed))
+    }
+  };
+};
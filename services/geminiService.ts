@@ -1,5 +1,5 @@
 import { GoogleGenAI } from "@google/genai";
-import { DesignParams, SimulationResult } from '../types';
+import { DesignParams, PlanformDistribution, SimulationResult } from '../types';
 
 let genAI: GoogleGenAI | null = null;
 
@@ -13,12 +13,12 @@ try {
 
 const SYSTEM_INSTRUCTION = `
 You are a senior Aerospace Engineer specializing in rotary-wing aerodynamics, specifically autogyros and gyro-kites.
-The user is designing a 2-bladed, teetering autogyro rotor that mounts coaxially on a tensioned kite line.
+The user is designing an autogyro rotor (usually 2-bladed and teetering; 3 or more blades use a gimbal or flapping hinges) that mounts coaxially on a tensioned kite line.
 Your goal is to assist them in optimizing the design for stability and thrust generation (adding tension to the line).
 
 Key Physics Concepts to Apply:
 1. **Autorotation:** Explain how the wind passing through the rotor disc drives rotation.
-2. **Teetering Hinge:** Explain how this manages asymmetry of lift (advancing vs retreating blade) to prevent roll moments on the line.
+2. **Teetering, Gimbal or Flapping Hinges:** Explain how the hub manages asymmetry of lift (advancing vs retreating blade) to prevent roll moments on the line.
 3. **Coaxial Mounting:** Discuss friction, bearings, and how the rotor must spin freely around the static line.
 4. **Safety:** Mention blade strikes, material stress, and line abrasion.
 
@@ -38,15 +38,20 @@ export const sendMessageToGemini = async (
   const contextString = `
     Current Design Configuration:
     - Blade Length: ${context.params.bladeLength} m
-    - Blade Chord: ${context.params.bladeChord} m
-    - Pitch: ${context.params.bladePitch} deg
-    - Line Angle: ${context.params.lineAngle} deg
+    - Blade Chord: ${context.params.bladeChord} m at the root (${context.params.planform.distribution} planform${context.params.planform.distribution === PlanformDistribution.LINEAR ? `, taper ${context.params.planform.taperRatio}, twist ${context.params.planform.twist} deg` : ''}, ${context.params.planform.tipShape} tip, root cut-out ${context.params.planform.rootCutout} R)
+    - Pitch: ${context.params.bladePitch} deg at 75% span
+    - Blades: ${context.params.bladeCount} on a ${context.results.teeter.hubType} hub
+    - Line Angle: ${context.results.kite.lineAngle} deg
+    - Kite Pull at Hub: ${context.results.kite.lineTension} N
     - Wind Speed: ${context.params.windSpeed} m/s
     
     Simulation Results:
     - RPM: ${context.results.rpm}
     - Generated Tension (Thrust): ${context.results.generatedThrust} N
-    - Stability Score: ${context.results.stabilityScore}/100
+    - Electrical Power (${context.results.drivetrain.mode} drivetrain): ${context.results.powerOutput} W
+    - Stability Score: ${context.results.stabilityScore}/100 (least damped mode ζ = ${context.results.stability.minDampingRatio}${context.results.stability.stable ? '' : ', UNSTABLE: ' + context.results.stability.modes.filter(m => !m.stable).map(m => m.kind).join(', ')})
+    - Teeter/Flap Amplitude: ${context.results.teeter.amplitude} deg${context.results.teeter.stopContact ? ' (hitting hub stops)' : ''}
+    - Blade Spar: peak ${context.results.structure.maxStress} MPa, safety factor ${context.results.structure.yieldSafetyFactor} (yield) / ${context.results.structure.fatigueSafetyFactor} (fatigue)
   `;
 
   try {
@@ -0,0 +1,109 @@
+
+import { DesignParams, KiteEquilibrium, KitePreset, KiteSettings, ModelSettings } from '../types';
+import { getRotorHeight, getWindSpeedAtHeight } from './windField';
+import { upperTensionAtHub, Vec } from './tetherModel';
+
+type KiteShape = Pick<KiteSettings, 'area' | 'liftCoefficient' | 'dragCoefficient' | 'mass'>;
+
+// Lifter-sized kites. Coefficients are for the bridled flying angle, on flat area.
+export const KITE_PRESETS: Record<Exclude<KitePreset, KitePreset.CUSTOM>, KiteShape & { name: string }> = {
+  [KitePreset.DELTA]: { name: 'Delta', area: 3.0, liftCoefficient: 0.8, dragCoefficient: 0.3, mass: 0.6 },
+  [KitePreset.SLED]: { name: 'Sled', area: 2.5, liftCoefficient: 0.7, dragCoefficient: 0.4, mass: 0.3 },
+  [KitePreset.PARAFOIL]: { name: 'Parafoil', area: 4.0, liftCoefficient: 0.9, dragCoefficient: 0.3, mass: 0.8 },
+  [KitePreset.ROKKAKU]: { name: 'Rokkaku', area: 3.5, liftCoefficient: 0.75, dragCoefficient: 0.35, mass: 0.9 }
+};
+
+export const DEFAULT_KITE: KiteSettings = {
+  preset: KitePreset.ROKKAKU,
+  area: KITE_PRESETS[KitePreset.ROKKAKU].area,
+  liftCoefficient: KITE_PRESETS[KitePreset.ROKKAKU].liftCoefficient,
+  dragCoefficient: KITE_PRESETS[KitePreset.ROKKAKU].dragCoefficient,
+  mass: KITE_PRESETS[KitePreset.ROKKAKU].mass,
+  overrideLineTension: false,
+  overrideLineAngle: false
+};
+
+// Same range as the line elevation control; keeps the rotor geometry defined
+const MIN_LINE_ANGLE = 5;
+const MAX_LINE_ANGLE = 85;
+
+const clampAngle = (deg: number) => Math.max(MIN_LINE_ANGLE, Math.min(MAX_LINE_ANGLE, deg));
+
+const MAX_ITERATIONS = 30;
+const ANGLE_TOLERANCE = 0.01; // deg
+const TENSION_TOLERANCE = 1e-4; // relative
+
+/**
+ * Kite equilibrium in the current wind. The kite flies where its lift, drag and
+ * weight balance the line pull; that pull is carried down the upper line to the
+ * hub, which gives the tension and elevation the rotor sees. hubForce is what
+ * the rotor adds at the hub (drag, and lift less weight); with the upper line
+ * pull it sets the lower line's direction and so the hub's height. Kite
+ * height, and with it the sheared wind, depends on both, so the balance is
+ * iterated until the hub angle and tension settle.
+ */
+export const solveKite = (
+  params: DesignParams,
+  settings: ModelSettings,
+  airDensity: number,
+  hubForce: Vec = { x: 0, y: 0 }
+): KiteEquilibrium => {
+  const kite = settings.kite;
+  const weight = kite.mass * 9.81;
+
+  let lineAngle = params.lineAngle;
+  let lineTension = params.lineTension;
+  let kiteHeight = 0;
+  let windSpeed = 0;
+  let lift = 0;
+  let drag = 0;
+  // Lower line elevation, from the line pull and rotor loads at the hub
+  let lowerAngle = lineAngle;
+  let converged = false;
+  let iterations = 0;
+
+  while (!converged && iterations < MAX_ITERATIONS) {
+    iterations++;
+    const hubHeight = getRotorHeight({ ...params, lineAngle: lowerAngle }, settings.tether.lowerLength);
+    kiteHeight = hubHeight + settings.tether.upperLength * Math.sin(lineAngle * (Math.PI / 180));
+    windSpeed = getWindSpeedAtHeight(params, settings.wind, kiteHeight);
+
+    const q = 0.5 * airDensity * windSpeed * windSpeed;
+    lift = q * kite.area * kite.liftCoefficient;
+    drag = q * kite.area * kite.dragCoefficient;
+
+    const atHub = upperTensionAtHub(params, settings, { x: drag, y: lift - weight }, hubHeight, airDensity);
+    const nextTension = kite.overrideLineTension ? params.lineTension : Math.hypot(atHub.x, atHub.y);
+    const nextAngle = kite.overrideLineAngle
+      ? params.lineAngle
+      : clampAngle(Math.atan2(atHub.y, atHub.x) * (180 / Math.PI));
+    const angleRad = nextAngle * (Math.PI / 180);
+    const nextLowerAngle = clampAngle(Math.atan2(
+      nextTension * Math.sin(angleRad) + hubForce.y,
+      nextTension * Math.cos(angleRad) + hubForce.x
+    ) * (180 / Math.PI));
+
+    converged = iterations > 1
+      && Math.abs(nextAngle - lineAngle) < ANGLE_TOLERANCE
+      && Math.abs(nextLowerAngle - lowerAngle) < ANGLE_TOLERANCE
+      && Math.abs(nextTension - lineTension) <= TENSION_TOLERANCE * Math.max(nextTension, 1);
+    lineTension = nextTension;
+    lineAngle = nextAngle;
+    lowerAngle = nextLowerAngle;
+  }
+
+  return {
+    lift: parseFloat(lift.toFixed(2)),
+    drag: parseFloat(drag.toFixed(2)),
+    weight: parseFloat(weight.toFixed(2)),
+    pull: parseFloat(Math.hypot(drag, lift - weight).toFixed(2)),
+    elevation: parseFloat((Math.atan2(lift - weight, drag) * (180 / Math.PI)).toFixed(1)),
+    windSpeed: parseFloat(windSpeed.toFixed(2)),
+    kiteHeight: parseFloat(kiteHeight.toFixed(2)),
+    lineTension: parseFloat(lineTension.toFixed(2)),
+    lineAngle: parseFloat(lineAngle.toFixed(1)),
+    airborne: lift > weight,
+    converged,
+    iterations
+  };
+};
@@ -0,0 +1,134 @@
+import { DesignParams, LineTrainSettings, ModelSettings, RotorGeometry, TrainRotor } from '../types';
+
+export const DEFAULT_LINE_TRAIN: LineTrainSettings = {
+  enabled: false,
+  rotors: [],
+  wakeInterference: true,
+  wakeExpansion: 0.1
+};
+
+// The design's own rotor, always in the train at tether.lowerLength
+export const DESIGN_ROTOR_ID = 'design';
+
+const MAX_INDUCTION = 0.4; // momentum theory breaks down towards a = 0.5
+const MAX_DOWNWASH = 0.5; // wake descent per metre downwind
+const MAX_DEFICIT = 0.9;
+
+/**
+ * The geometric part of a design, as a train rotor carries it.
+ */
+export const rotorGeometryOf = (params: DesignParams): RotorGeometry => ({
+  bladeLength: params.bladeLength,
+  bladeChord: params.bladeChord,
+  bladePitch: params.bladePitch,
+  bladeCount: params.bladeCount,
+  planform: params.planform,
+  rotorMass: params.rotorMass,
+  hubDiameter: params.hubDiameter,
+  rotorTilt: params.rotorTilt,
+  airfoilId: params.airfoilId
+});
+
+/**
+ * Every rotor on the line, the design's own included, from the kite down.
+ * Rotors placed off the end of the line are left out.
+ */
+export const trainMembers = (params: DesignParams, settings: ModelSettings): TrainRotor[] => {
+  const lineLength = settings.tether.lowerLength + settings.tether.upperLength;
+  const design: TrainRotor = {
+    id: DESIGN_ROTOR_ID,
+    name: 'Design rotor',
+    position: settings.tether.lowerLength,
+    geometry: rotorGeometryOf(params)
+  };
+  const extra = settings.lineTrain.enabled
+    ? settings.lineTrain.rotors.filter(r => r.position > 0 && r.position < lineLength)
+    : [];
+  return [design, ...extra].sort((a, b) => b.position - a.position);
+};
+
+/**
+ * A copy of the design's rotor placed in the middle of the longest free
+ * stretch of line.
+ */
+export const newTrainRotor = (params: DesignParams, settings: ModelSettings): TrainRotor => {
+  const lineLength = settings.tether.lowerLength + settings.tether.upperLength;
+  const stops = [0, lineLength, ...trainMembers(params, settings).map(r => r.position)].sort((a, b) => a - b);
+  let gap = 0;
+  for (let i = 1; i < stops.length - 1; i++) {
+    if (stops[i + 1] - stops[i] > stops[gap + 1] - stops[gap]) gap = i;
+  }
+  return {
+    id: `rotor-${Date.now().toString(36)}`,
+    name: `Rotor ${settings.lineTrain.rotors.length + 2}`,
+    position: parseFloat(((stops[gap] + stops[gap + 1]) / 2).toFixed(1)),
+    geometry: rotorGeometryOf(params)
+  };
+};
+
+export interface RotorWake {
+  x: number; // m downwind of the anchor, at the hub
+  y: number; // m above the anchor
+  radius: number; // m, of the rotor that shed it
+  induction: number; // axial induction factor a at the disk
+  downwash: number; // m the wake centre falls per metre downwind
+}
+
+/**
+ * Wake of a solved rotor from actuator-disk momentum: the streamwise force
+ * coefficient on the disk, 4a(1 - a), gives the induction, and the lift it
+ * makes turns the wake downward at lift / (rho A U^2).
+ */
+export const rotorWake = (
+  x: number,
+  y: number,
+  radius: number,
+  lift: number,
+  drag: number,
+  windSpeed: number,
+  airDensity: number
+): RotorWake => {
+  const q = 0.5 * airDensity * windSpeed * windSpeed * Math.PI * radius * radius;
+  const dragCoefficient = q > 0 ? Math.max(drag, 0) / q : 0;
+  const induction = Math.min((1 - Math.sqrt(Math.max(0, 1 - Math.min(dragCoefficient, 1)))) / 2, MAX_INDUCTION);
+  return {
+    x,
+    y,
+    radius,
+    induction,
+    downwash: q > 0 ? Math.min(Math.max(lift, 0) / (2 * q), MAX_DOWNWASH) : 0
+  };
+};
+
+// Area shared by two circles whose centres are d apart
+const circleOverlap = (d: number, r1: number, r2: number): number => {
+  if (d >= r1 + r2) return 0;
+  if (d <= Math.abs(r1 - r2)) return Math.PI * Math.min(r1, r2) ** 2;
+  const a1 = r1 * r1 * Math.acos((d * d + r1 * r1 - r2 * r2) / (2 * d * r1));
+  const a2 = r2 * r2 * Math.acos((d * d + r2 * r2 - r1 * r1) / (2 * d * r2));
+  const lens = 0.5 * Math.sqrt((-d + r1 + r2) * (d + r1 - r2) * (d - r1 + r2) * (d + r1 + r2));
+  return a1 + a2 - lens;
+};
+
+/**
+ * Fraction of the wind a rotor at (x, y) loses to the wakes upwind of it.
+ * Each wake leaves the disk at its fully expanded momentum-theory deficit 2a,
+ * then spreads linearly (Jensen) so the deficit falls with its area, while
+ * sinking under the rotor's downwash. The overlap with the downstream disk
+ * scales each deficit, and several wakes combine root-sum-square.
+ */
+export const wakeDeficit = (wakes: RotorWake[], x: number, y: number, radius: number, expansion: number): number => {
+  let sumSq = 0;
+  for (const wake of wakes) {
+    const dx = x - wake.x;
+    if (dx <= 0) continue;
+    const a = wake.induction;
+    const start = wake.radius * Math.sqrt((1 - a) / (1 - 2 * a));
+    const spread = start + expansion * dx;
+    const deficit = 2 * a * (start / spread) ** 2;
+    const centre = wake.y - wake.downwash * dx;
+    const covered = circleOverlap(Math.abs(y - centre), spread, radius) / (Math.PI * radius * radius);
+    sumSq += (deficit * covered) ** 2;
+  }
+  return Math.min(Math.sqrt(sumSq), MAX_DEFICIT);
+};
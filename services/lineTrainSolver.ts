@@ -0,0 +1,151 @@
+import { DesignParams, DrivetrainMode, LineTrainSolution, ModelSettings, TetherSegment, TrainRotorResult } from '../types';
+import { calculatePhysics, getRotorAtmosphere } from './physicsEngine';
+import { solveKite } from './kiteModel';
+import { hangSegment, Vec } from './tetherModel';
+import { solvePumpingCycle } from './drivetrainModel';
+import { DESIGN_ROTOR_ID, RotorWake, rotorWake, trainMembers, wakeDeficit } from './lineTrainModel';
+
+// The first pass places the rotors and sheds their wakes; the second flies them in those wakes
+const PASSES = 2;
+const MIN_LINE_ANGLE = 5;
+const MAX_LINE_ANGLE = 85;
+
+/**
+ * Several rotors stacked on one kite line. Working down from the kite, each
+ * stretch of line is hung from the tension above it; a rotor flies in the
+ * tension and angle it finds there and adds its own lift, drag and weight
+ * before the next stretch. The anchor takes what arrives at the bottom.
+ * Upwind rotors sit lower on the line, so their wakes reach the rotors above
+ * them; those deficits come from the previous pass.
+ */
+export const solveLineTrain = (params: DesignParams, settings: ModelSettings): LineTrainSolution => {
+  const { tether, lineTrain } = settings;
+  const lineLength = tether.lowerLength + tether.upperLength;
+  const airDensity = getRotorAtmosphere(params, settings).density;
+  const members = trainMembers(params, settings);
+  const kite = solveKite(params, settings, airDensity);
+
+  // Kite pull at the top of the line, or the overridden line load
+  const overridden = settings.kite.overrideLineTension || settings.kite.overrideLineAngle;
+  const kiteAngle = kite.lineAngle * (Math.PI / 180);
+  const pull: Vec = overridden
+    ? { x: kite.lineTension * Math.cos(kiteAngle), y: kite.lineTension * Math.sin(kiteAngle) }
+    : { x: kite.drag, y: kite.lift - kite.weight };
+
+  // Height of the line at a distance from the anchor, straight at first
+  let heightAt = (s: number) => s * Math.sin(kiteAngle);
+  let wakes = new Map<string, RotorWake>();
+  let rotors: TrainRotorResult[] = [];
+  let segments: TetherSegment[] = [];
+  let anchorForce: Vec = { x: 0, y: 0 };
+
+  for (let pass = 0; pass < PASSES; pass++) {
+    let tension = pull;
+    let top = lineLength;
+    // Ends of each stretch relative to the kite, built top-down
+    let upper: Vec = { x: 0, y: 0 };
+    const hung: { segment: TetherSegment; lower: Vec }[] = [];
+    const solved: TrainRotorResult[] = [];
+
+    for (const member of members) {
+      const { segment, lowerTension } = hangSegment(params, settings, tension, top - member.position, heightAt(top), airDensity);
+      const end = segment.points[segment.points.length - 1];
+      const lower = { x: upper.x - end.x, y: upper.y - end.y };
+      hung.push({ segment, lower });
+
+      const lineTension = Math.hypot(lowerTension.x, lowerTension.y);
+      const lineAngle = Math.max(MIN_LINE_ANGLE, Math.min(MAX_LINE_ANGLE, Math.atan2(lowerTension.y, lowerTension.x) * (180 / Math.PI)));
+      const previous = rotors.find(r => r.id === member.id);
+      const upwind = [...wakes.entries()].filter(([id]) => id !== member.id).map(([, wake]) => wake);
+      const deficit = lineTrain.wakeInterference && previous
+        ? wakeDeficit(upwind, previous.x, previous.y, member.geometry.bladeLength, lineTrain.wakeExpansion)
+        : 0;
+
+      const rotorParams: DesignParams = {
+        ...params,
+        ...member.geometry,
+        lineTension,
+        lineAngle,
+        windSpeed: params.windSpeed * (1 - deficit)
+      };
+      // The train supplies the line load; the rotor's height follows from its place on the line
+      const result = calculatePhysics(rotorParams, {
+        ...settings,
+        tether: { ...tether, lowerLength: member.position },
+        kite: { ...settings.kite, overrideLineTension: true, overrideLineAngle: true }
+      });
+
+      solved.push({
+        id: member.id,
+        name: member.name,
+        position: member.position,
+        x: lower.x,
+        y: lower.y,
+        params: rotorParams,
+        wakeDeficit: parseFloat(deficit.toFixed(3)),
+        lineTension: parseFloat(lineTension.toFixed(2)),
+        lineAngle: parseFloat(lineAngle.toFixed(1)),
+        result
+      });
+
+      tension = { x: lowerTension.x + result.drag, y: lowerTension.y + result.lift - result.gravity };
+      top = member.position;
+      upper = lower;
+    }
+
+    // Last stretch down to the anchor
+    const last = hangSegment(params, settings, tension, top, heightAt(top), airDensity);
+    const end = last.segment.points[last.segment.points.length - 1];
+    const anchor = { x: upper.x - end.x, y: upper.y - end.y };
+    hung.push({ segment: last.segment, lower: anchor });
+    anchorForce = last.lowerTension;
+
+    // Re-origin everything at the anchor, ordered anchor to kite
+    const shift = (p: Vec) => ({ x: p.x - anchor.x, y: p.y - anchor.y });
+    rotors = solved.reverse().map(r => ({ ...r, ...shift(r) }));
+    segments = hung.reverse().map(({ segment, lower }) => {
+      const origin = shift(lower);
+      return {
+        ...segment,
+        points: segment.points.map(p => ({
+          ...p,
+          x: parseFloat((p.x + origin.x).toFixed(3)),
+          y: parseFloat((p.y + origin.y).toFixed(3))
+        }))
+      };
+    });
+
+    // Line heights and wakes for the next pass
+    const stations = [{ s: 0, y: 0 }, ...rotors.map(r => ({ s: r.position, y: r.y })), { s: lineLength, y: -anchor.y }];
+    heightAt = (s: number) => {
+      const i = Math.max(1, stations.findIndex(st => st.s >= s));
+      const a = stations[i - 1];
+      const b = stations[Math.min(i, stations.length - 1)];
+      return b.s > a.s ? a.y + ((s - a.s) / (b.s - a.s)) * (b.y - a.y) : a.y;
+    };
+    wakes = new Map(rotors.map(r => [
+      r.id,
+      rotorWake(r.x, r.y, r.params.bladeLength, r.result.lift, r.result.drag, r.result.hubWindSpeed, airDensity)
+    ]));
+  }
+
+  const anchorTension = Math.hypot(anchorForce.x, anchorForce.y);
+  const anchorAngle = Math.atan2(anchorForce.y, anchorForce.x) * (180 / Math.PI);
+
+  // Rotary rotors each drive their own generator; pumping has one winch for the whole line
+  const design = rotors.find(r => r.id === DESIGN_ROTOR_ID) ?? rotors[0];
+  const totalPower = settings.drivetrain.mode === DrivetrainMode.PUMPING
+    ? solvePumpingCycle(settings.drivetrain, anchorTension, design.result.hubWindSpeed, anchorAngle).electricalPower
+    : rotors.reduce((sum, r) => sum + r.result.powerOutput, 0);
+
+  return {
+    rotors,
+    segments,
+    kite,
+    totalThrust: parseFloat(rotors.reduce((sum, r) => sum + r.result.generatedThrust, 0).toFixed(2)),
+    totalPower: parseFloat(totalPower.toFixed(2)),
+    anchorTension: parseFloat(anchorTension.toFixed(2)),
+    anchorAngle: parseFloat(anchorAngle.toFixed(1)),
+    lineWeight: parseFloat(((tether.linearDensity / 1000) * 9.81 * lineLength).toFixed(2))
+  };
+};
@@ -0,0 +1,117 @@
+import { DesignParams, ModalFrequencies, ModelSettings, ResonanceCrossing, TetherSegment, TetherSolution } from '../types';
+import { sparProperties } from './structureModel';
+import { bladeMassProperties } from './teeterModel';
+
+export const MODE_LABELS: Record<keyof ModalFrequencies, string> = {
+  flap: 'Blade Flap',
+  lag: 'Blade Lead-Lag',
+  teeter: 'Teeter / Flap',
+  hubWhirl: 'Hub Whirl (line)',
+  lowerLine: 'Lower Line',
+  upperLine: 'Upper Line'
+};
+
+/**
+ * Rotor harmonics that drive an N-bladed rotor: 1P imbalance, NP blade
+ * passing and 2NP its harmonic (1P, 2P and 4P for two blades).
+ */
+export const excitationOrders = (bladeCount: number): number[] => [1, bladeCount, 2 * bladeCount];
+
+// Southwell coefficient of the first cantilever bending mode; lag loses one Omega^2
+const SOUTHWELL_FLAP = 1.19;
+const SOUTHWELL_LAG = SOUTHWELL_FLAP - 1;
+// Share of a uniform cantilever's mass that moves with the tip in its first mode
+const EFFECTIVE_ROD_MASS = 0.24;
+
+const toHz = (omega: number) => omega / (2 * Math.PI);
+
+// First transverse mode of a taut line, mean segment tension over its loaded length
+const stringFrequency = (segment: TetherSegment, linearDensity: number): number => {
+  const tension = (segment.lowerTension + segment.upperTension) / 2;
+  const mass = Math.max(linearDensity / 1000, 1e-6);
+  return Math.sqrt(Math.max(tension, 0) / mass) / (2 * Math.max(segment.stretchedLength, 1e-3));
+};
+
+/**
+ * Sideways stiffness of the line at the hub: both spans' tension over their length.
+ */
+export const lateralLineStiffness = ({ lower, upper }: TetherSolution): number =>
+  lower.upperTension / Math.max(lower.stretchedLength, 1e-3)
+  + upper.lowerTension / Math.max(upper.stretchedLength, 1e-3);
+
+/**
+ * Natural frequencies of the rotor and its line at one operating point.
+ * Blades are cantilevers from the hub with the spar's stiffness, stiffened
+ * in rotation by Southwell's rule; the tip mass moves with the tip. The hub
+ * whirl mode is the rotor mass held across the line by both spans' tension.
+ */
+export const solveModes = (
+  params: DesignParams,
+  settings: ModelSettings,
+  omega: number,
+  tether: TetherSolution,
+  airDensity: number
+): ModalFrequencies => {
+  const radius = params.bladeLength;
+  const { bladeMass, tipMass, flapFrequencySq } = bladeMassProperties(params, settings.teeter, airDensity);
+  const spar = sparProperties(settings.structure);
+  const modulus = settings.structure.elasticModulus * 1e9;
+  const tipEffectiveMass = tipMass + EFFECTIVE_ROD_MASS * (bladeMass - tipMass);
+
+  const cantilever = (inertia: number) => (3 * modulus * inertia) / (tipEffectiveMass * Math.pow(radius, 3));
+  const omegaSq = omega * omega;
+  const flap = Math.sqrt(cantilever(spar.flapInertia) + SOUTHWELL_FLAP * omegaSq);
+  const lag = Math.sqrt(cantilever(spar.lagInertia) + SOUTHWELL_LAG * omegaSq);
+
+  const hubWhirl = Math.sqrt(lateralLineStiffness(tether) / Math.max(params.rotorMass, 1e-3));
+
+  const round = (hz: number) => parseFloat(hz.toFixed(2));
+  return {
+    flap: round(toHz(flap)),
+    lag: round(toHz(lag)),
+    teeter: round(toHz(Math.sqrt(flapFrequencySq) * omega)),
+    hubWhirl: round(toHz(hubWhirl)),
+    lowerLine: round(stringFrequency(tether.lower, settings.tether.linearDensity)),
+    upperLine: round(stringFrequency(tether.upper, settings.tether.linearDensity))
+  };
+};
+
+export interface CampbellPoint {
+  windSpeed: number;
+  rpm: number;
+  modes: ModalFrequencies;
+}
+
+/**
+ * Where a natural frequency meets a rotor harmonic across a wind sweep: the
+ * sign of (mode - n x rotor frequency) flips between neighbouring points.
+ * Wind, RPM and frequency are interpolated to the crossing.
+ */
+export const findResonances = (points: CampbellPoint[], orders: number[]): ResonanceCrossing[] => {
+  const crossings: ResonanceCrossing[] = [];
+  // Teeter and flap sit near 1P by design and are aerodynamically damped; drawn but not flagged
+  const modes = (Object.keys(MODE_LABELS) as (keyof ModalFrequencies)[]).filter(mode => mode !== 'teeter');
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (a.rpm <= 0 || b.rpm <= 0) continue;
+    for (const mode of modes) {
+      for (const order of orders) {
+        const gapA = a.modes[mode] - (order * a.rpm) / 60;
+        const gapB = b.modes[mode] - (order * b.rpm) / 60;
+        if (gapA === 0 || gapA * gapB > 0) continue;
+        const f = gapA / (gapA - gapB);
+        const rpm = a.rpm + f * (b.rpm - a.rpm);
+        crossings.push({
+          mode,
+          order,
+          windSpeed: parseFloat((a.windSpeed + f * (b.windSpeed - a.windSpeed)).toFixed(1)),
+          rpm: Math.round(rpm),
+          frequency: parseFloat(((order * rpm) / 60).toFixed(2))
+        });
+      }
+    }
+  }
+  return crossings;
+};
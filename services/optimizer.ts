@@ -0,0 +1,393 @@
+
+import {
+  DesignParams,
+  ModelSettings,
+  OptimizationCandidate,
+  OptimizationConstraints,
+  OptimizationObjective,
+  OptimizationProblem,
+  OptimizationResult,
+  OptimizerMethod,
+  ParamBound
+} from '../types';
+import { calculatePhysics } from './physicsEngine';
+import { createRandom } from './windField';
+
+export const DEFAULT_PARAM_BOUNDS: ParamBound[] = [
+  { key: 'bladeLength', min: 0.5, max: 2.5, enabled: true },
+  { key: 'bladeChord', min: 0.08, max: 0.3, enabled: true },
+  { key: 'bladePitch', min: -2, max: 10, enabled: true },
+  { key: 'bladeCount', min: 2, max: 4, enabled: false },
+  { key: 'rotorTilt', min: -20, max: 20, enabled: true },
+  { key: 'rotorMass', min: 0.5, max: 4, enabled: false },
+  { key: 'hubDiameter', min: 0.02, max: 0.1, enabled: false },
+  { key: 'lineAngle', min: 5, max: 85, enabled: false },
+  { key: 'lineTension', min: 50, max: 800, enabled: false },
+  { key: 'windSpeed', min: 3, max: 20, enabled: false }
+];
+
+export const OBJECTIVE_INFO: Record<OptimizationObjective, { label: string; unit: string; maximise: boolean }> = {
+  [OptimizationObjective.MAX_THRUST]: { label: 'Generated Thrust', unit: 'N', maximise: true },
+  [OptimizationObjective.MAX_POWER]: { label: 'Power Output', unit: 'W', maximise: true },
+  [OptimizationObjective.MIN_ANCHOR_TENSION]: { label: 'Anchor Tension', unit: 'N', maximise: false }
+};
+
+export const DEFAULT_OPTIMIZATION_PROBLEM: OptimizationProblem = {
+  bounds: DEFAULT_PARAM_BOUNDS,
+  objectives: [OptimizationObjective.MAX_THRUST, OptimizationObjective.MIN_ANCHOR_TENSION],
+  constraints: { minStabilityScore: 60, maxTipSpeed: 80, noReverseFlow: true },
+  method: OptimizerMethod.GENETIC,
+  populationSize: 24,
+  iterations: 15,
+  seed: 1
+};
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Let the browser paint between model runs
+const yieldToUi = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+function constraintViolation(
+  constraints: OptimizationConstraints,
+  stabilityScore: number,
+  tipSpeed: number,
+  retreatingVelocity: number
+): number {
+  let violation = 0;
+  if (constraints.minStabilityScore !== null) {
+    violation += Math.max(0, constraints.minStabilityScore - stabilityScore) / 100;
+  }
+  if (constraints.maxTipSpeed !== null && constraints.maxTipSpeed > 0) {
+    violation += Math.max(0, tipSpeed - constraints.maxTipSpeed) / constraints.maxTipSpeed;
+  }
+  if (constraints.noReverseFlow && retreatingVelocity <= 0) {
+    violation += (1 - retreatingVelocity) / 10;
+  }
+  return violation;
+}
+
+/**
+ * Scores one design against the problem's objectives and constraints.
+ */
+export const evaluateDesign = (
+  params: DesignParams,
+  settings: ModelSettings,
+  problem: Pick<OptimizationProblem, 'objectives' | 'constraints'>
+): OptimizationCandidate => {
+  const results = calculatePhysics(params, settings);
+  const values: Record<OptimizationObjective, number> = {
+    [OptimizationObjective.MAX_THRUST]: results.generatedThrust,
+    [OptimizationObjective.MAX_POWER]: results.powerOutput,
+    [OptimizationObjective.MIN_ANCHOR_TENSION]: results.anchorAnalysis.anchorTension
+  };
+
+  const objectives: Partial<Record<OptimizationObjective, number>> = {};
+  problem.objectives.forEach(o => { objectives[o] = values[o]; });
+
+  return {
+    params,
+    objectives,
+    violation: constraintViolation(
+      problem.constraints,
+      results.stabilityScore,
+      results.tipSpeed,
+      results.bladeAerodynamics.retreatingVelocity
+    ),
+    generatedThrust: results.generatedThrust,
+    powerOutput: results.powerOutput,
+    anchorTension: results.anchorAnalysis.anchorTension,
+    stabilityScore: results.stabilityScore,
+    tipSpeed: results.tipSpeed,
+    rpm: results.rpm
+  };
+};
+
+// Objective values as costs to minimise
+function costs(candidate: OptimizationCandidate, objectives: OptimizationObjective[]): number[] {
+  return objectives.map(o => (OBJECTIVE_INFO[o].maximise ? -1 : 1) * (candidate.objectives[o] ?? 0));
+}
+
+/**
+ * Constraint-domination: feasible beats infeasible, lower violation beats
+ * higher, and among feasible designs ordinary Pareto dominance applies.
+ */
+function dominates(a: OptimizationCandidate, b: OptimizationCandidate, objectives: OptimizationObjective[]): boolean {
+  if (a.violation > 0 || b.violation > 0) return a.violation < b.violation;
+  const ca = costs(a, objectives);
+  const cb = costs(b, objectives);
+  let strictlyBetter = false;
+  for (let i = 0; i < ca.length; i++) {
+    if (ca[i] > cb[i]) return false;
+    if (ca[i] < cb[i]) strictlyBetter = true;
+  }
+  return strictlyBetter;
+}
+
+// Fast non-dominated sort (NSGA-II); returns front index per member
+function nonDominatedRanks(pop: OptimizationCandidate[], objectives: OptimizationObjective[]): number[] {
+  const ranks = new Array(pop.length).fill(0);
+  const dominatedBy: number[][] = pop.map(() => []);
+  const dominationCount = new Array(pop.length).fill(0);
+  let front: number[] = [];
+
+  for (let p = 0; p < pop.length; p++) {
+    for (let q = 0; q < pop.length; q++) {
+      if (p === q) continue;
+      if (dominates(pop[p], pop[q], objectives)) dominatedBy[p].push(q);
+      else if (dominates(pop[q], pop[p], objectives)) dominationCount[p]++;
+    }
+    if (dominationCount[p] === 0) front.push(p);
+  }
+
+  let rank = 0;
+  while (front.length > 0) {
+    const next: number[] = [];
+    for (const p of front) {
+      ranks[p] = rank;
+      for (const q of dominatedBy[p]) {
+        if (--dominationCount[q] === 0) next.push(q);
+      }
+    }
+    front = next;
+    rank++;
+  }
+  return ranks;
+}
+
+function crowdingDistances(pop: OptimizationCandidate[], members: number[], objectives: OptimizationObjective[]): Map<number, number> {
+  const distance = new Map<number, number>(members.map(i => [i, 0]));
+  objectives.forEach((_, k) => {
+    const sorted = [...members].sort((a, b) => costs(pop[a], objectives)[k] - costs(pop[b], objectives)[k]);
+    const lo = costs(pop[sorted[0]], objectives)[k];
+    const hi = costs(pop[sorted[sorted.length - 1]], objectives)[k];
+    distance.set(sorted[0], Infinity);
+    distance.set(sorted[sorted.length - 1], Infinity);
+    if (hi - lo < 1e-9) return;
+    for (let i = 1; i < sorted.length - 1; i++) {
+      const gap = costs(pop[sorted[i + 1]], objectives)[k] - costs(pop[sorted[i - 1]], objectives)[k];
+      distance.set(sorted[i], (distance.get(sorted[i]) ?? 0) + gap / (hi - lo));
+    }
+  });
+  return distance;
+}
+
+/**
+ * Feasible, non-dominated designs, without duplicates, sorted by the first objective.
+ */
+export const paretoFront = (
+  candidates: OptimizationCandidate[],
+  objectives: OptimizationObjective[]
+): OptimizationCandidate[] => {
+  const feasible = candidates.filter(c => c.violation === 0);
+  const front = feasible.filter(c => !feasible.some(o => o !== c && dominates(o, c, objectives)));
+
+  const seen = new Set<string>();
+  const unique = front.filter(c => {
+    const key = costs(c, objectives).map(v => v.toFixed(2)).join('|');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return unique.sort((a, b) => costs(a, objectives)[0] - costs(b, objectives)[0]);
+};
+
+/**
+ * Searches the enabled DesignParams bounds for designs that trade off the
+ * chosen objectives under the constraints. The genetic method is an NSGA-II
+ * style search; Nelder-Mead runs one simplex per weighted sum of the
+ * objectives. Every evaluated design is archived and the Pareto front is taken
+ * over the archive.
+ */
+export const runOptimization = async (
+  base: DesignParams,
+  settings: ModelSettings,
+  problem: OptimizationProblem,
+  onProgress?: (fraction: number) => void
+): Promise<OptimizationResult> => {
+  const active = problem.bounds.filter(b => b.enabled && b.max > b.min);
+  if (active.length === 0) throw new Error('Enable at least one parameter to optimise.');
+  if (problem.objectives.length === 0) throw new Error('Choose at least one objective.');
+
+  const random = createRandom(problem.seed);
+  const archive: OptimizationCandidate[] = [];
+  const objectives = problem.objectives;
+
+  // Line loads being optimised are the design's, not the kite's
+  const optimised = active.map(b => b.key);
+  const lineSettings: ModelSettings = {
+    ...settings,
+    kite: {
+      ...settings.kite,
+      overrideLineTension: settings.kite.overrideLineTension || optimised.includes('lineTension'),
+      overrideLineAngle: settings.kite.overrideLineAngle || optimised.includes('lineAngle')
+    }
+  };
+
+  const decode = (x: number[]): DesignParams => {
+    const params = { ...base };
+    active.forEach((b, i) => { params[b.key] = parseFloat((b.min + clamp01(x[i]) * (b.max - b.min)).toFixed(3)); });
+    // Blades come whole
+    params.bladeCount = Math.round(params.bladeCount);
+    return params;
+  };
+  const encode = (params: DesignParams): number[] =>
+    active.map(b => clamp01((params[b.key] - b.min) / (b.max - b.min)));
+
+  // Each design is a full model run, so the UI gets a turn after every one
+  const evaluate = async (x: number[]): Promise<OptimizationCandidate> => {
+    const candidate = evaluateDesign(decode(x), lineSettings, problem);
+    archive.push(candidate);
+    await yieldToUi();
+    return candidate;
+  };
+
+  if (problem.method === OptimizerMethod.GENETIC) {
+    await runGenetic(problem, active.length, random, encode(base), evaluate, encode, onProgress);
+  } else {
+    await runNelderMead(problem, active.length, random, encode(base), evaluate, onProgress);
+  }
+
+  return {
+    paretoFront: paretoFront(archive, objectives),
+    evaluations: archive.length,
+    feasibleCount: archive.filter(c => c.violation === 0).length
+  };
+};
+
+async function runGenetic(
+  problem: OptimizationProblem,
+  dims: number,
+  random: () => number,
+  start: number[],
+  evaluate: (x: number[]) => Promise<OptimizationCandidate>,
+  encode: (params: DesignParams) => number[],
+  onProgress?: (fraction: number) => void
+): Promise<void> {
+  const objectives = problem.objectives;
+  const size = Math.max(4, Math.round(problem.populationSize));
+  const gaussian = () => Math.sqrt(-2 * Math.log(random() + 1e-12)) * Math.cos(2 * Math.PI * random());
+
+  // Seed the population with the current design
+  let pop: OptimizationCandidate[] = [await evaluate(start)];
+  while (pop.length < size) {
+    pop.push(await evaluate(Array.from({ length: dims }, random)));
+  }
+
+  for (let gen = 0; gen < problem.iterations; gen++) {
+    const ranks = nonDominatedRanks(pop, objectives);
+    const crowding = crowdingDistances(pop, pop.map((_, i) => i), objectives);
+    const tournament = () => {
+      const a = Math.floor(random() * pop.length);
+      const b = Math.floor(random() * pop.length);
+      if (ranks[a] !== ranks[b]) return ranks[a] < ranks[b] ? a : b;
+      return (crowding.get(a) ?? 0) >= (crowding.get(b) ?? 0) ? a : b;
+    };
+
+    // Blend crossover (BLX-0.5) with Gaussian mutation
+    const offspring: OptimizationCandidate[] = [];
+    while (offspring.length < size) {
+      const x1 = encode(pop[tournament()].params);
+      const x2 = encode(pop[tournament()].params);
+      const child = x1.map((v, i) => {
+        const lo = Math.min(v, x2[i]);
+        const span = Math.abs(v - x2[i]);
+        let c = lo - 0.5 * span + random() * 2 * span;
+        if (random() < 1 / dims) c += 0.1 * gaussian();
+        return clamp01(c);
+      });
+      offspring.push(await evaluate(child));
+    }
+
+    // Elitist survival: fill by front, then by crowding distance
+    const combined = [...pop, ...offspring];
+    const combinedRanks = nonDominatedRanks(combined, objectives);
+    const next: number[] = [];
+    for (let rank = 0; next.length < size; rank++) {
+      const front = combined.map((_, i) => i).filter(i => combinedRanks[i] === rank);
+      if (front.length === 0) break;
+      if (next.length + front.length <= size) {
+        next.push(...front);
+      } else {
+        const distance = crowdingDistances(combined, front, objectives);
+        front.sort((a, b) => (distance.get(b) ?? 0) - (distance.get(a) ?? 0));
+        next.push(...front.slice(0, size - next.length));
+      }
+    }
+    pop = next.map(i => combined[i]);
+
+    onProgress?.((gen + 1) / problem.iterations);
+  }
+}
+
+async function runNelderMead(
+  problem: OptimizationProblem,
+  dims: number,
+  random: () => number,
+  start: number[],
+  evaluate: (x: number[]) => Promise<OptimizationCandidate>,
+  onProgress?: (fraction: number) => void
+): Promise<void> {
+  const objectives = problem.objectives;
+  const runs = objectives.length > 1 ? Math.max(2, Math.round(problem.populationSize / 4)) : Math.max(1, Math.round(problem.populationSize / 8));
+
+  // Objectives are scaled by their value at the current design
+  const reference = costs(await evaluate(start), objectives).map(v => Math.abs(v) + 1);
+
+  for (let run = 0; run < runs; run++) {
+    // Spread weights across the front: the ends first, then random mixes
+    let weights: number[];
+    if (objectives.length === 1) {
+      weights = [1];
+    } else if (run < objectives.length) {
+      weights = objectives.map((_, i) => (i === run ? 1 : 0.05));
+    } else {
+      weights = objectives.map(() => random());
+    }
+    const total = weights.reduce((a, b) => a + b, 0);
+    weights = weights.map(w => w / total);
+
+    const scalar = async (x: number[]) => {
+      const candidate = await evaluate(x);
+      const c = costs(candidate, objectives);
+      return c.reduce((sum, v, i) => sum + weights[i] * v / reference[i], 0) + 10 * candidate.violation;
+    };
+
+    // The first run starts from the current design, later ones from random points
+    const origin = run === 0 ? start : Array.from({ length: dims }, random);
+    let simplex = [origin, ...origin.map((_, i) => origin.map((v, j) => clamp01(i === j ? v + (v > 0.5 ? -0.25 : 0.25) : v)))];
+    let values: number[] = [];
+    for (const p of simplex) values.push(await scalar(p));
+
+    for (let it = 0; it < problem.iterations; it++) {
+      const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+      simplex = order.map(i => simplex[i]);
+      values = order.map(i => values[i]);
+
+      const worst = simplex[dims];
+      const centroid = worst.map((_, j) => simplex.slice(0, dims).reduce((sum, p) => sum + p[j], 0) / dims);
+      const along = (t: number) => centroid.map((c, j) => clamp01(c + t * (worst[j] - c)));
+
+      const reflected = along(-1);
+      const fr = await scalar(reflected);
+      if (fr < values[0]) {
+        const expanded = along(-2);
+        const fe = await scalar(expanded);
+        [simplex[dims], values[dims]] = fe < fr ? [expanded, fe] : [reflected, fr];
+      } else if (fr < values[dims - 1]) {
+        [simplex[dims], values[dims]] = [reflected, fr];
+      } else {
+        const contracted = along(0.5);
+        const fc = await scalar(contracted);
+        if (fc < values[dims]) {
+          [simplex[dims], values[dims]] = [contracted, fc];
+        } else {
+          // Shrink towards the best vertex
+          simplex = simplex.map((p, i) => (i === 0 ? p : p.map((v, j) => simplex[0][j] + 0.5 * (v - simplex[0][j]))));
+          for (let i = 1; i <= dims; i++) values[i] = await scalar(simplex[i]);
+        }
+      }
+    }
+
+    onProgress?.((run + 1) / runs);
+  }
+}
@@ -1,6 +1,52 @@
 
 
-import { DesignParams, SimulationResult } from '../types';
+import { AeroModel, AtmosphereState, DrivetrainMode, DesignParams, KiteEquilibrium, ModelSettings, SimulationResult } from '../types';
+import { evaluateRotor, solveAutorotation, AutorotationSolution, RotorCondition, RotorLoads } from './bemtSolver';
+import { DEFAULT_AIRFOIL_ID, getAirfoil, getStallAngle } from './airfoilDatabase';
+import { DEFAULT_WIND_FIELD, getHubWindSpeed, getRotorHeight } from './windField';
+import { atmosphereAt, DEFAULT_ATMOSPHERE } from './atmosphereModel';
+import { DEFAULT_TETHER, solveTether, Vec } from './tetherModel';
+import { DEFAULT_KITE, solveKite } from './kiteModel';
+import { bladeCountOf, DEFAULT_TEETER, solveTeeter } from './teeterModel';
+import { bearingFrictionTorque, DEFAULT_BEARING, lineBearingLoads, minimumWindToSpin, rotorBearingLoads, solveBearing } from './bearingModel';
+import { DEFAULT_STRUCTURE, solveBladeStructure } from './structureModel';
+import { lateralLineStiffness, solveModes } from './modalModel';
+import { DEFAULT_STABILITY, solveStability, stabilityScoreFor } from './stabilityModel';
+import { bladeSection, DEFAULT_PLANFORM, planformProperties } from './planformModel';
+import { DEFAULT_LINE_TRAIN } from './lineTrainModel';
+import { DEFAULT_DRIVETRAIN, rotaryLoadTorque, solvePumpingCycle, solveRotaryDrivetrain } from './drivetrainModel';
+import { calibrationFactorsOf, DEFAULT_CALIBRATION } from './calibrationModel';
+
+export const DEFAULT_DESIGN_PARAMS: DesignParams = {
+  bladeLength: 1.2,
+  bladeChord: 0.15,
+  bladePitch: 4.0,
+  bladeCount: 2,
+  planform: DEFAULT_PLANFORM,
+  rotorMass: 1.5,
+  lineTension: 200, // Initial static tension
+  lineAngle: 50, // degrees
+  windSpeed: 10,
+  hubDiameter: 0.05,
+  rotorTilt: -10, // Default aligned
+  airfoilId: DEFAULT_AIRFOIL_ID
+};
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  aeroModel: AeroModel.BEMT,
+  radialStations: 20,
+  wind: DEFAULT_WIND_FIELD,
+  atmosphere: DEFAULT_ATMOSPHERE,
+  tether: DEFAULT_TETHER,
+  kite: DEFAULT_KITE,
+  teeter: DEFAULT_TEETER,
+  bearing: DEFAULT_BEARING,
+  structure: DEFAULT_STRUCTURE,
+  stability: DEFAULT_STABILITY,
+  drivetrain: DEFAULT_DRIVETRAIN,
+  lineTrain: DEFAULT_LINE_TRAIN,
+  calibration: DEFAULT_CALIBRATION
+};
 
 // Empirical Data from PCA-2 Autogyro Tests (NASA TM 20080022367, Page 45)
 // X: Hub Plane Angle of Attack (Degrees)
@@ -44,90 +90,201 @@ function interpolateCoefficients(alpha: number): { cl: number, cd: number } {
 }
 
 /**
- * A simplified Blade Element Momentum Theory (BEMT) approximation 
- * for a kite-mounted autogyro.
+ * Air at rotor height from the site atmosphere.
+ */
+export const getRotorAtmosphere = (params: DesignParams, settings: ModelSettings = DEFAULT_MODEL_SETTINGS): AtmosphereState =>
+  atmosphereAt(settings.atmosphere, getRotorHeight(params, settings.tether.lowerLength));
+
+/**
+ * Hub plane angle of attack (degrees) from line elevation and rotor tilt.
+ */
+export const getDiskAngleOfAttack = (params: DesignParams): number => {
+  // lineAngle is 'Elevation' from ground (0 = horizontal, 90 = vertical).
+  // Rotor Axis is aligned with Line.
+  // Disk Plane is perpendicular to Rotor Axis.
+  // Wind is Horizontal.
+  // Base Alpha = 90 - lineAngle.
+  // Rotor Tilt modifies this: Positive tilt tips the disk BACK (increasing AoA).
+  const alpha = (90 - params.lineAngle) + (params.rotorTilt || 0);
+
+  // Clamp geometry for sanity
+  return Math.max(-90, Math.min(90, alpha));
+};
+
+/**
+ * Design parameters with lineTension and lineAngle taken from the kite
+ * equilibrium, unless the kite settings mark them as overridden. hubForce is
+ * the rotor's load at the hub; without one the rotor hangs on the line by its
+ * weight alone.
+ */
+export const resolveLineLoads = (
+  design: DesignParams,
+  settings: ModelSettings = DEFAULT_MODEL_SETTINGS,
+  hubForce: Vec = { x: 0, y: -design.rotorMass * 9.81 }
+): { params: DesignParams; kite: KiteEquilibrium } => {
+  // The design's own line angle places the rotor for the air density; the kite then sets the final angle
+  const kite = solveKite(design, settings, getRotorAtmosphere(design, settings).density, hubForce);
+  return {
+    params: { ...design, lineTension: kite.lineTension, lineAngle: kite.lineAngle },
+    kite
+  };
+};
+
+/**
+ * Blade element description of the design at its mean rotor-height wind speed,
+ * shared by the steady BEMT solve and the time-domain simulator. Expects
+ * params already resolved against the kite (see resolveLineLoads).
  */
-export const calculatePhysics = (params: DesignParams): SimulationResult => {
+export const buildRotorCondition = (
+  params: DesignParams,
+  settings: ModelSettings = DEFAULT_MODEL_SETTINGS
+): RotorCondition => {
+  const air = getRotorAtmosphere(params, settings);
+  return {
+    radius: params.bladeLength,
+    chord: params.bladeChord,
+    pitchDeg: params.bladePitch,
+    planform: params.planform,
+    bladeCount: bladeCountOf(params),
+    windSpeed: getHubWindSpeed(params, settings),
+    alphaDeg: getDiskAngleOfAttack(params),
+    airDensity: air.density,
+    kinematicViscosity: air.kinematicViscosity,
+    airfoil: getAirfoil(params.airfoilId),
+    radialStations: settings.radialStations
+  };
+};
+
+// Rotor solves at most this many line angles while the kite settles under its loads
+const MAX_LINE_PASSES = 3;
+
+/**
+ * Rotor performance for a kite-mounted autogyro. Forces and autorotation RPM come
+ * either from the radial-station BEMT solver or from the PCA-2 empirical curves.
+ */
+export const calculatePhysics = (
+  design: DesignParams,
+  settings: ModelSettings = DEFAULT_MODEL_SETTINGS
+): SimulationResult => solveOperatingPoint(design, settings, { x: 0, y: -design.rotorMass * 9.81 }, 1);
+
+// One pass of calculatePhysics with the kite flown against hubForce at the hub
+const solveOperatingPoint = (
+  design: DesignParams,
+  settings: ModelSettings,
+  hubForce: Vec,
+  pass: number
+): SimulationResult => {
+  // Line tension and elevation at the hub come from the kite
+  const { params } = resolveLineLoads(design, settings, hubForce);
+
   const {
     bladeLength,
-    bladeChord,
-    bladePitch,
-    windSpeed,
     lineAngle,
     rotorMass,
-    rotorTilt = 0
+    rotorTilt = 0,
+    airfoilId
   } = params;
 
-  // Constants
-  const airDensity = 1.225; // kg/m^3
-  const bladeCount = 2;
+  // Steady analysis uses the mean wind at rotor height (shear applied, no turbulence)
+  const windSpeed = getHubWindSpeed(params, settings);
+
+  // Air at rotor height
+  const atmosphere = getRotorAtmosphere(params, settings);
+  const airDensity = atmosphere.density;
+  const kinematicViscosity = atmosphere.kinematicViscosity;
+  const airfoil = getAirfoil(airfoilId);
+  const bladeCount = bladeCountOf(params);
   const rotorRadius = bladeLength;
   const rotorDiskArea = Math.PI * Math.pow(rotorRadius, 2);
+  // Blade section where the advancing/retreating analysis is sampled
+  const referenceSection = bladeSection(params, 0.75);
   // Solidity is mostly for reference in this empirical model, 
   // but could scale the base PCA-2 coeffs if design deviates significantly from standard solidity (~0.05-0.1)
-  const bladeArea = bladeCount * bladeLength * bladeChord;
+  const bladeArea = bladeCount * planformProperties(params).area;
   const solidity = bladeArea / rotorDiskArea; 
   
   // --- Geometric Calculations ---
-  // lineAngle is 'Elevation' from ground (0 = horizontal, 90 = vertical).
-  // Rotor Axis is aligned with Line.
-  // Disk Plane is perpendicular to Rotor Axis.
-  // Wind is Horizontal.
-  // Base Alpha = 90 - lineAngle.
-  // Rotor Tilt modifies this: Positive tilt tips the disk BACK (increasing AoA).
-  
-  let effectiveAlphaDeg = (90 - lineAngle) + rotorTilt;
-  
-  // Clamp geometry for sanity
-  if (effectiveAlphaDeg < -90) effectiveAlphaDeg = -90;
-  if (effectiveAlphaDeg > 90) effectiveAlphaDeg = 90;
-
+  const effectiveAlphaDeg = getDiskAngleOfAttack(params);
   const alphaRad = effectiveAlphaDeg * (Math.PI / 180);
 
   // --- Aerodynamic Simulation ---
 
-  // 1. Tip Speed Ratio (TSR) Calculation
   let expectedTipSpeedRatio = 0;
-
-  if (effectiveAlphaDeg <= 1.5) {
-    // Dead zone / No Inflow
-    expectedTipSpeedRatio = 0;
-  } else {
-    // A simplified curve that peaks around 12 degrees and decays towards 90
-    // Based on typical autogyro performance curves (e.g. PCA-2 data trends)
-    const peakAlpha = 15; 
-    const peakTSR = 8.5; // High efficiency rotor in autorotation
-    const windmillTSR = 3.5; // High drag windmill state
-    
-    if (effectiveAlphaDeg < peakAlpha) {
-       // Ramp up from 0 to Peak
-       expectedTipSpeedRatio = (effectiveAlphaDeg / peakAlpha) * peakTSR; 
+  let bemt: AutorotationSolution | null = null;
+  let inducedVelocity = 0;
+  let converged = true;
+  // Where BEMT torque balances the resisting torque, before any calibration
+  let autorotationOmega = 0;
+
+  // Below this wind bearing friction outweighs the rotor's driving torque
+  const rotorCondition = buildRotorCondition(params, settings);
+  const weight = rotorMass * 9.81;
+  const minWindToSpin = minimumWindToSpin(params, settings.bearing, rotorCondition, weight);
+  const canSpin = minWindToSpin !== null && windSpeed >= minWindToSpin;
+  const frictionAt = (loads: RotorLoads) => {
+    const { radial, axial } = rotorBearingLoads(loads, effectiveAlphaDeg, weight, lineAngle);
+    return bearingFrictionTorque(settings.bearing, params.hubDiameter, radial, axial);
+  };
+  // Bearing friction plus the rotary generator's load
+  const resistingAt = (loads: RotorLoads, omega: number) => frictionAt(loads) + rotaryLoadTorque(settings.drivetrain, omega);
+
+  if (settings.aeroModel === AeroModel.PCA2) {
+    // 1. Tip Speed Ratio (TSR) Calculation
+    if (effectiveAlphaDeg <= 1.5) {
+      // Dead zone / No Inflow
+      expectedTipSpeedRatio = 0;
     } else {
-       // Decay from Peak to Windmill State
-       // At 90 degrees, we are a windmill.
-       const t = (effectiveAlphaDeg - peakAlpha) / (90 - peakAlpha);
-       expectedTipSpeedRatio = peakTSR * (1 - t) + windmillTSR * t;
+      // A simplified curve that peaks around 12 degrees and decays towards 90
+      // Based on typical autogyro performance curves (e.g. PCA-2 data trends)
+      const peakAlpha = 15; 
+      const peakTSR = 8.5; // High efficiency rotor in autorotation
+      const windmillTSR = 3.5; // High drag windmill state
+    
+      if (effectiveAlphaDeg < peakAlpha) {
+         // Ramp up from 0 to Peak
+         expectedTipSpeedRatio = (effectiveAlphaDeg / peakAlpha) * peakTSR; 
+      } else {
+         // Decay from Peak to Windmill State
+         // At 90 degrees, we are a windmill.
+         const t = (effectiveAlphaDeg - peakAlpha) / (90 - peakAlpha);
+         expectedTipSpeedRatio = peakTSR * (1 - t) + windmillTSR * t;
+      }
     }
+
+    // --- Mass / Inertia Damping ---
+    const empiricalMinWind = (rotorMass * 0.5) + 1;
+    if (windSpeed < empiricalMinWind) {
+       expectedTipSpeedRatio *= Math.max(0, (windSpeed / empiricalMinWind));
+    }
+  } else {
+    // Autorotation RPM is where rotor torque balances bearing friction and generator load
+    bemt = solveAutorotation(rotorCondition, resistingAt);
+    if (!canSpin) bemt = { ...bemt, omega: 0 };
+    autorotationOmega = bemt.omega;
+    expectedTipSpeedRatio = windSpeed > 0 ? (bemt.omega * rotorRadius) / windSpeed : 0;
+    inducedVelocity = bemt.inducedVelocity;
+    converged = bemt.converged;
   }
 
-  // --- Mass / Inertia Damping ---
-  const minWindToSpin = (rotorMass * 0.5) + 1; 
-  if (windSpeed < minWindToSpin) {
-     expectedTipSpeedRatio *= Math.max(0, (windSpeed / minWindToSpin));
+  // A calibrated model scales the tip speed ratio either model arrives at.
+  // BEMT loads are taken again at the scaled rotor speed; the PCA-2 curves
+  // don't depend on it.
+  const calibration = calibrationFactorsOf(settings);
+  expectedTipSpeedRatio *= calibration.tipSpeedScale;
+  if (bemt && bemt.omega > 0 && calibration.tipSpeedScale !== 1) {
+    const omega = bemt.omega * calibration.tipSpeedScale;
+    bemt = { ...bemt, ...evaluateRotor(rotorCondition, omega), omega };
+    inducedVelocity = bemt.inducedVelocity;
   }
 
   const tipSpeed = windSpeed * expectedTipSpeedRatio;
   const radsPerSecond = tipSpeed / rotorRadius;
   const rpm = (radsPerSecond * 60) / (2 * Math.PI);
 
-  // --- Force Calculation using PCA-2 Empirical Curves ---
-  
-  let liftForce = 0; 
-  let dragForce = 0; 
   let totalRotorThrust = 0; 
   let lift = 0; 
   let drag = 0; 
-  let gravity = rotorMass * 9.81;
+  let gravity = weight;
 
   // Variables for Blade Aerodynamics Analysis
   let advVel = 0;
@@ -136,42 +293,60 @@ export const calculatePhysics = (params: DesignParams): SimulationResult => {
   let advAoA = 0;
   let retAoA = 0;
   let advanceRatio = 0;
-  const kinematicViscosity = 1.48e-5; // Air at 15C
   let reynolds = 0;
 
   if (rpm > 10) {
       
-      // 1. Get Coefficients from Curve
-      // The PCA-2 data gives us Global Cl and Cd based on Hub Plane Angle of Attack
-      const { cl, cd } = interpolateCoefficients(effectiveAlphaDeg);
-
-      // 2. Calculate Dynamic Pressure
-      // Note: Rotor coefficients are typically applied to Disk Area and Free Stream Velocity
-      const q = 0.5 * airDensity * Math.pow(windSpeed, 2);
-
-      // 3. Calculate Global Forces (Wind Frame)
-      // Lift is perpendicular to wind, Drag is parallel to wind
-      lift = cl * q * rotorDiskArea;
-      drag = cd * q * rotorDiskArea;
-
-      // 4. Resolve into Rotor Axis Thrust
-      // Thrust is the component of the Total Aerodynamic Force aligned with the Rotor Axis
-      // Rotor Axis is tilted 'alphaRad' back from vertical (perpendicular to wind)??
-      // No, Rotor Axis is tilted 'alphaRad' back from the vertical-to-wind plane.
-      // Let's use vector projection.
-      // Lift Vector: [0, 1] (Up)
-      // Drag Vector: [1, 0] (Downwind)
-      // Rotor Axis Vector (tilted back by alpha): [sin(alpha), cos(alpha)]
-      
-      // Total Thrust = Lift * cos(alpha) + Drag * sin(alpha)
-      totalRotorThrust = lift * Math.cos(alphaRad) + drag * Math.sin(alphaRad);
+      if (bemt) {
+        // --- Force Calculation from BEMT ---
+        // Thrust acts along the rotor axis, H-force in the disk plane (downwind).
+        // Rotor Axis Vector (tilted back by alpha): [sin(alpha), cos(alpha)]
+        // In-plane Downwind Vector: [cos(alpha), -sin(alpha)]
+        totalRotorThrust = bemt.thrust;
+        lift = bemt.thrust * Math.cos(alphaRad) - bemt.hForce * Math.sin(alphaRad);
+        drag = bemt.thrust * Math.sin(alphaRad) + bemt.hForce * Math.cos(alphaRad);
+      } else {
+        // --- Force Calculation using PCA-2 Empirical Curves ---
+
+        // 1. Get Coefficients from Curve
+        // The PCA-2 data gives us Global Cl and Cd based on Hub Plane Angle of Attack
+        const { cl, cd } = interpolateCoefficients(effectiveAlphaDeg);
+
+        // 2. Calculate Dynamic Pressure
+        // Note: Rotor coefficients are typically applied to Disk Area and Free Stream Velocity
+        const q = 0.5 * airDensity * Math.pow(windSpeed, 2);
+
+        // 3. Calculate Global Forces (Wind Frame)
+        // Lift is perpendicular to wind, Drag is parallel to wind
+        lift = cl * q * rotorDiskArea;
+        drag = cd * q * rotorDiskArea;
+
+        // 4. Resolve into Rotor Axis Thrust
+        // Thrust is the component of the Total Aerodynamic Force aligned with the Rotor Axis
+        // Rotor Axis is tilted 'alphaRad' back from vertical (perpendicular to wind)??
+        // No, Rotor Axis is tilted 'alphaRad' back from the vertical-to-wind plane.
+        // Let's use vector projection.
+        // Lift Vector: [0, 1] (Up)
+        // Drag Vector: [1, 0] (Downwind)
+        // Rotor Axis Vector (tilted back by alpha): [sin(alpha), cos(alpha)]
+        
+        // Total Thrust = Lift * cos(alpha) + Drag * sin(alpha)
+        totalRotorThrust = lift * Math.cos(alphaRad) + drag * Math.sin(alphaRad);
+      }
+
+      // Calibrated lift and drag, with the thrust along the axis that goes with them
+      if (settings.calibration.enabled) {
+        lift *= calibration.liftScale;
+        drag *= calibration.dragScale;
+        totalRotorThrust = lift * Math.cos(alphaRad) + drag * Math.sin(alphaRad);
+      }
 
       // --- Detailed Blade Aerodynamics (Advancing vs Retreating) ---
-      // This section is kept for the Analysis Tab visualization, using the BEMT logic
-      // just to derive local velocities and angles, even though global force comes from PCA-2 curves.
+      // Local velocities and angles at 75% span for the Analysis Tab. The PCA-2 model has
+      // no induced velocity, so its inflow is the raw wind component through the disk.
       
       const v_tan_75 = tipSpeed * 0.75;
-      v_inflow = windSpeed * Math.sin(alphaRad);
+      v_inflow = windSpeed * Math.sin(alphaRad) - inducedVelocity;
 
       const v_parallel = windSpeed * Math.cos(alphaRad);
       advanceRatio = v_parallel / tipSpeed;
@@ -181,14 +356,14 @@ export const calculatePhysics = (params: DesignParams): SimulationResult => {
       retVel = v_tan_75 - v_parallel;
 
       // Local Angles of Attack
-      const effPitchRad = params.bladePitch * (Math.PI / 180);
+      const effPitchRad = referenceSection.pitch * (Math.PI / 180);
       const phi_adv = Math.atan2(v_inflow, advVel);
       const phi_ret = Math.atan2(v_inflow, retVel);
 
       advAoA = (phi_adv + effPitchRad) * (180/Math.PI);
       retAoA = (phi_ret + effPitchRad) * (180/Math.PI);
       
-      reynolds = (v_tan_75 * bladeChord) / kinematicViscosity;
+      reynolds = (v_tan_75 * referenceSection.chord) / kinematicViscosity;
 
   } else {
       // Stationary / Bluff Body
@@ -209,27 +384,108 @@ export const calculatePhysics = (params: DesignParams): SimulationResult => {
   const tiltRad = rotorTilt * (Math.PI / 180);
   const generatedThrust = totalRotorThrust * Math.cos(tiltRad);
   
-  // Stability
-  const stabilityScore = Math.min(100, Math.max(0, 100 - (expectedTipSpeedRatio * 3) - Math.abs(rotorTilt) * 2));
-
-  // Power
-  const powerOutput = generatedThrust * windSpeed * 0.3;
+  // Teeter response to the advancing/retreating lift asymmetry
+  const teeter = solveTeeter(
+    params,
+    settings.teeter,
+    rpm > 10 ? radsPerSecond : 0,
+    {
+      advancingVelocity: advVel,
+      retreatingVelocity: retVel,
+      advancingAoA: advAoA,
+      retreatingAoA: retAoA,
+      kinematicViscosity
+    },
+    airfoil,
+    airDensity
+  );
+
+  // Bearing duty at the operating point
+  const { radial, axial } = lineBearingLoads(lift, drag, gravity, lineAngle);
+  const bearing = solveBearing(params, settings.bearing, radial, axial, rpm > 10 ? radsPerSecond : 0, minWindToSpin);
+
+  // Blade spar stresses; in-plane aero torque balances bearing friction and generator load
+  const structure = solveBladeStructure(params, settings, {
+    omega: rpm > 10 ? radsPerSecond : 0,
+    rotorThrust: totalRotorThrust,
+    frictionTorque: bearing.frictionTorque + rotaryLoadTorque(settings.drivetrain, rpm > 10 ? radsPerSecond : 0),
+    bladeMoment: teeter.bladeMoment,
+    airDensity
+  });
+
+  // --- Kite Against the Rotor Loads ---
+  // The rotor's lift, drag and weight move the hub and with it the kite. A new
+  // line angle changes the rotor's inflow, so the rotor is solved again; a new
+  // tension only changes the line loads below.
+  const f_rotor_y = lift - gravity;
+  const f_rotor_x = drag;
+  const loaded = resolveLineLoads(design, settings, { x: f_rotor_x, y: f_rotor_y });
+  const settled = loaded.kite.lineAngle === params.lineAngle;
+  if (!settled && pass < MAX_LINE_PASSES) {
+    return solveOperatingPoint(design, settings, { x: f_rotor_x, y: f_rotor_y }, pass + 1);
+  }
+  const kite: KiteEquilibrium = { ...loaded.kite, lineAngle: params.lineAngle, converged: loaded.kite.converged && settled };
 
   // --- Vector Resolution for System Deformation ---
-  const kiteAngleRad = params.lineAngle * (Math.PI / 180);
-  const f_kite_y = params.lineTension * Math.sin(kiteAngleRad); 
-  const f_kite_x = params.lineTension * Math.cos(kiteAngleRad); 
+  const kiteAngleRad = kite.lineAngle * (Math.PI / 180);
+  const f_kite_y = kite.lineTension * Math.sin(kiteAngleRad); 
+  const f_kite_x = kite.lineTension * Math.cos(kiteAngleRad); 
 
-  const f_rotor_y = lift - gravity;
-  const f_rotor_x = drag;
+  // Lower line tension at the hub, carried to the anchor through the sagged line
+  const f_hub_x = f_kite_x + f_rotor_x;
+  const f_hub_y = f_kite_y + f_rotor_y;
 
-  const f_anchor_total_x = f_kite_x + f_rotor_x;
-  const f_anchor_total_y = f_kite_y + f_rotor_y;
+  const { solution: tether, anchorForce } = solveTether(
+    params,
+    settings,
+    { x: f_hub_x, y: f_hub_y },
+    { x: f_kite_x, y: f_kite_y },
+    airDensity
+  );
+
+  const f_anchor_total_x = anchorForce.x;
+  const f_anchor_total_y = anchorForce.y;
 
   const anchorTension = Math.sqrt(Math.pow(f_anchor_total_x, 2) + Math.pow(f_anchor_total_y, 2));
   const anchorAngleRad = Math.atan2(f_anchor_total_y, f_anchor_total_x);
   const anchorAngleDeg = anchorAngleRad * (180 / Math.PI);
 
+  // Electrical power: rotor torque down the line, or line tension on a pumping winch.
+  // The PCA-2 model has no torque balance, so its rotary load doesn't feed back on RPM.
+  const solvedDrivetrain = settings.drivetrain.mode === DrivetrainMode.PUMPING
+    ? solvePumpingCycle(settings.drivetrain, anchorTension, windSpeed, anchorAngleDeg)
+    : solveRotaryDrivetrain(settings.drivetrain, rpm > 10 ? radsPerSecond : 0);
+  // A calibrated efficiency scale stops at 100% efficiency
+  const efficiencyScale = solvedDrivetrain.efficiency > 0
+    ? Math.min(calibration.efficiencyScale, 1 / solvedDrivetrain.efficiency)
+    : calibration.efficiencyScale;
+  const drivetrain = settings.calibration.enabled
+    ? {
+        ...solvedDrivetrain,
+        electricalPower: solvedDrivetrain.electricalPower * efficiencyScale,
+        current: solvedDrivetrain.current * efficiencyScale,
+        efficiency: solvedDrivetrain.efficiency * efficiencyScale
+      }
+    : solvedDrivetrain;
+  const powerOutput = drivetrain.electricalPower;
+
+  // Natural frequencies of the blades and line at this operating point
+  const modes = solveModes(params, settings, rpm > 10 ? radsPerSecond : 0, tether, airDensity);
+
+  // Linearised stability of the rotor on the line. The spin mode is taken
+  // about the BEMT torque balance whichever model set the rotor speed.
+  if (!bemt && rpm > 10 && canSpin) autorotationOmega = solveAutorotation(rotorCondition, resistingAt).omega;
+  const stability = solveStability(params, settings, {
+    omega: rpm > 10 ? radsPerSecond : 0,
+    autorotationOmega,
+    condition: rotorCondition,
+    rotorThrust: totalRotorThrust,
+    drag,
+    lineStiffness: lateralLineStiffness(tether),
+    resistingTorque: resistingAt
+  });
+  const stabilityScore = stabilityScoreFor(stability);
+
 
   return {
     rpm: Math.round(rpm),
@@ -240,15 +496,28 @@ export const calculatePhysics = (params: DesignParams): SimulationResult => {
     gravity: parseFloat(gravity.toFixed(2)),
     tipSpeed: parseFloat(tipSpeed.toFixed(2)),
     tipSpeedRatio: parseFloat(expectedTipSpeedRatio.toFixed(2)),
-    stabilityScore: Math.round(stabilityScore),
+    stabilityScore,
     powerOutput: parseFloat(powerOutput.toFixed(2)),
     angleOfAttack: parseFloat(effectiveAlphaDeg.toFixed(1)),
+    hubWindSpeed: parseFloat(windSpeed.toFixed(2)),
+    atmosphere: {
+      altitude: parseFloat(atmosphere.altitude.toFixed(1)),
+      temperature: parseFloat(atmosphere.temperature.toFixed(1)),
+      pressure: parseFloat(atmosphere.pressure.toFixed(1)),
+      density: parseFloat(atmosphere.density.toFixed(4)),
+      kinematicViscosity: parseFloat(atmosphere.kinematicViscosity.toPrecision(4)),
+      densityAltitude: Math.round(atmosphere.densityAltitude)
+    },
+    aeroModel: settings.aeroModel,
+    converged,
     anchorAnalysis: {
         anchorTension: parseFloat(anchorTension.toFixed(2)),
         anchorAngle: parseFloat(anchorAngleDeg.toFixed(1)),
         lowerLineTensionX: parseFloat(f_anchor_total_x.toFixed(2)),
         lowerLineTensionY: parseFloat(f_anchor_total_y.toFixed(2))
     },
+    tether,
+    kite,
     bladeAerodynamics: {
       advancingVelocity: parseFloat(advVel.toFixed(1)),
       retreatingVelocity: parseFloat(retVel.toFixed(1)),
@@ -256,7 +525,25 @@ export const calculatePhysics = (params: DesignParams): SimulationResult => {
       advancingAoA: parseFloat(advAoA.toFixed(1)),
       retreatingAoA: parseFloat(retAoA.toFixed(1)),
       advanceRatio: parseFloat(advanceRatio.toFixed(2)),
-      reynoldsNumber: Math.round(reynolds)
+      reynoldsNumber: Math.round(reynolds),
+      inducedVelocity: parseFloat(inducedVelocity.toFixed(2)),
+      stallAngle: parseFloat(getStallAngle(airfoil, reynolds).toFixed(1))
+    },
+    teeter,
+    bearing,
+    structure,
+    modes,
+    stability,
+    drivetrain: {
+      mode: drivetrain.mode,
+      shaftPower: parseFloat(drivetrain.shaftPower.toFixed(2)),
+      generatorRpm: Math.round(drivetrain.generatorRpm),
+      generatorTorque: parseFloat(drivetrain.generatorTorque.toFixed(3)),
+      current: parseFloat(drivetrain.current.toFixed(2)),
+      electricalPower: parseFloat(drivetrain.electricalPower.toFixed(2)),
+      efficiency: parseFloat(drivetrain.efficiency.toFixed(3)),
+      lineTension: parseFloat(drivetrain.lineTension.toFixed(2)),
+      cutIn: drivetrain.cutIn
     }
   };
 };
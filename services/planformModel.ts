@@ -0,0 +1,204 @@
+import { BladePlanform, DesignParams, PlanformControlPoint, PlanformDistribution, TipShape } from '../types';
+
+export const DEFAULT_PLANFORM: BladePlanform = {
+  distribution: PlanformDistribution.LINEAR,
+  taperRatio: 1,
+  twist: 0,
+  rootCutout: 0.15,
+  tipShape: TipShape.SQUARE,
+  controlPoints: [
+    { span: 0.15, chord: 1, twist: 0 },
+    { span: 0.4, chord: 1, twist: 0 },
+    { span: 0.75, chord: 1, twist: 0 },
+    { span: 1, chord: 1, twist: 0 }
+  ]
+};
+
+export const TIP_SHAPES: Record<TipShape, { name: string }> = {
+  [TipShape.SQUARE]: { name: 'Square' },
+  [TipShape.ROUNDED]: { name: 'Rounded' },
+  [TipShape.POINTED]: { name: 'Pointed' }
+};
+
+const PITCH_REFERENCE = 0.75; // span fraction where bladePitch applies
+const TIP_REGION_MAX = 0.3; // span fraction a shaped tip may take
+const MIN_CHORD_FRACTION = 0.01; // keeps Reynolds numbers finite at a shaped tip
+const INTEGRATION_STEPS = 40;
+
+export interface BladeSection {
+  chord: number; // m
+  pitch: number; // degrees, relative to the disk plane
+}
+
+/**
+ * Monotone cubic (Fritsch-Carlson) through the points: smooth, but never
+ * overshoots between control points, so chord stays positive.
+ */
+const monotoneSpline = (xs: number[], ys: number[], x: number): number => {
+  const n = xs.length;
+  if (n === 0) return 0;
+  if (n === 1 || x <= xs[0]) return ys[0];
+  if (x >= xs[n - 1]) return ys[n - 1];
+
+  const h = xs.slice(1).map((xi, i) => Math.max(xi - xs[i], 1e-9));
+  const delta = h.map((hi, i) => (ys[i + 1] - ys[i]) / hi);
+  const m = xs.map((_, i) => {
+    if (i === 0) return delta[0];
+    if (i === n - 1) return delta[n - 2];
+    return delta[i - 1] * delta[i] <= 0 ? 0 : (delta[i - 1] + delta[i]) / 2;
+  });
+  for (let i = 0; i < n - 1; i++) {
+    if (delta[i] === 0) {
+      m[i] = 0;
+      m[i + 1] = 0;
+      continue;
+    }
+    const a = m[i] / delta[i];
+    const b = m[i + 1] / delta[i];
+    const norm = a * a + b * b;
+    if (norm > 9) {
+      const t = 3 / Math.sqrt(norm);
+      m[i] = t * a * delta[i];
+      m[i + 1] = t * b * delta[i];
+    }
+  }
+
+  const i = Math.max(0, xs.findIndex(xi => xi > x) - 1);
+  const t = (x - xs[i]) / h[i];
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (2 * t3 - 3 * t2 + 1) * ys[i] + (t3 - 2 * t2 + t) * h[i] * m[i] + (-2 * t3 + 3 * t2) * ys[i + 1] + (t3 - t2) * h[i] * m[i + 1];
+};
+
+/**
+ * Chord and pitch at a span fraction. Inboard of the root cut-out there is no
+ * aerofoil, and the section there takes the root values.
+ */
+export const planformSection = (
+  planform: BladePlanform,
+  radius: number,
+  rootChord: number,
+  pitch: number,
+  span: number
+): BladeSection => {
+  const root = planform.rootCutout;
+  const s = Math.min(1, Math.max(root, span));
+
+  let chordFraction: number;
+  let twist: number;
+  if (planform.distribution === PlanformDistribution.SPLINE && planform.controlPoints.length > 0) {
+    const spans = planform.controlPoints.map(p => p.span);
+    chordFraction = monotoneSpline(spans, planform.controlPoints.map(p => p.chord), s);
+    twist = monotoneSpline(spans, planform.controlPoints.map(p => p.twist), s);
+  } else {
+    const along = (s - root) / Math.max(1 - root, 1e-6);
+    chordFraction = 1 + (planform.taperRatio - 1) * along;
+    twist = (planform.twist * (s - PITCH_REFERENCE)) / Math.max(1 - root, 1e-6);
+  }
+
+  // Shaped tips close over about one tip chord
+  if (planform.tipShape !== TipShape.SQUARE && radius > 0) {
+    const tipChord = rootChord * (planform.distribution === PlanformDistribution.SPLINE && planform.controlPoints.length > 0
+      ? planform.controlPoints[planform.controlPoints.length - 1].chord
+      : planform.taperRatio);
+    const region = Math.min(TIP_REGION_MAX, tipChord / radius, 1 - root);
+    const u = region > 0 ? (s - (1 - region)) / region : 0;
+    if (u > 0) {
+      chordFraction *= planform.tipShape === TipShape.ROUNDED ? Math.sqrt(Math.max(0, 1 - u * u)) : 1 - u;
+    }
+  }
+
+  return {
+    chord: rootChord * Math.max(chordFraction, MIN_CHORD_FRACTION),
+    pitch: pitch + twist
+  };
+};
+
+/**
+ * Section of this design's blade at a span fraction.
+ */
+export const bladeSection = (params: DesignParams, span: number): BladeSection =>
+  planformSection(params.planform, params.bladeLength, params.bladeChord, params.bladePitch, span);
+
+export interface PlanformProperties {
+  area: number; // m^2 per blade
+  meanChord: number; // m, over the aerofoil span
+  equivalentChord: number; // m, weighted by r^3 as thrust and flapping moment are
+  tipChord: number; // m, before tip shaping
+}
+
+/**
+ * Blade area and the chords that stand in for it in the lumped models.
+ */
+export const planformProperties = (params: DesignParams): PlanformProperties => {
+  const root = params.planform.rootCutout;
+  const ds = (1 - root) / INTEGRATION_STEPS;
+  let chordSum = 0;
+  let weightedSum = 0;
+  let weightSum = 0;
+  for (let i = 0; i < INTEGRATION_STEPS; i++) {
+    const s = root + (i + 0.5) * ds;
+    const { chord } = bladeSection(params, s);
+    const weight = s * s * s;
+    chordSum += chord * ds;
+    weightedSum += chord * weight * ds;
+    weightSum += weight * ds;
+  }
+
+  const { planform } = params;
+  const tipFraction = planform.distribution === PlanformDistribution.SPLINE && planform.controlPoints.length > 0
+    ? planform.controlPoints[planform.controlPoints.length - 1].chord
+    : planform.taperRatio;
+
+  return {
+    area: chordSum * params.bladeLength,
+    meanChord: chordSum / Math.max(1 - root, 1e-6),
+    equivalentChord: weightSum > 0 ? weightedSum / weightSum : params.bladeChord,
+    tipChord: params.bladeChord * tipFraction
+  };
+};
+
+/**
+ * Control points that reproduce the linear taper and twist, so switching to
+ * spline editing starts from the current blade.
+ */
+export const controlPointsFromLinear = (planform: BladePlanform, count: number = 5): PlanformControlPoint[] => {
+  const linear = { ...planform, distribution: PlanformDistribution.LINEAR, tipShape: TipShape.SQUARE };
+  return Array.from({ length: count }, (_, i) => {
+    const span = planform.rootCutout + ((1 - planform.rootCutout) * i) / (count - 1);
+    const section = planformSection(linear, 0, 1, 0, span);
+    return {
+      span: parseFloat(span.toFixed(3)),
+      chord: parseFloat(section.chord.toFixed(3)),
+      twist: parseFloat(section.pitch.toFixed(2))
+    };
+  });
+};
+
+/**
+ * Switches the chord and twist distribution, carrying the current shape over.
+ */
+export const planformForDistribution = (distribution: PlanformDistribution, current: BladePlanform): BladePlanform => ({
+  ...current,
+  distribution,
+  controlPoints: distribution === PlanformDistribution.SPLINE ? controlPointsFromLinear(current) : current.controlPoints
+});
+
+/**
+ * Keeps control points sorted, inside the aerofoil span and with positive
+ * chord; the first and last stay pinned to the root cut-out and the tip.
+ */
+export const normalizeControlPoints = (points: PlanformControlPoint[], rootCutout: number): PlanformControlPoint[] => {
+  const sorted = [...points]
+    .map(p => ({
+      span: Math.min(1, Math.max(rootCutout, p.span)),
+      chord: Math.max(MIN_CHORD_FRACTION, p.chord),
+      twist: p.twist
+    }))
+    .sort((a, b) => a.span - b.span);
+  if (sorted.length > 0) {
+    sorted[0].span = rootCutout;
+    sorted[sorted.length - 1].span = 1;
+  }
+  return sorted;
+};
@@ -0,0 +1,201 @@
+import { DesignParams, SimulationResult } from '../types';
+import { bladeSection } from './planformModel';
+
+// Points in the disk frame: x downwind in the disk plane (towards azimuth 0),
+// y towards the advancing side (azimuth 90°), z along the rotor axis
+export type Vec3 = { x: number; y: number; z: number };
+
+const MAX_INFLOW_GRADIENT = 1; // Coleman k_x = tan(chi / 2) reaches 1 for an edgewise wake
+const MIN_WAKE_RISE = 0.05; // keeps a near-edgewise wake from running off to infinity
+const EDGE_WIDTH = 0.15; // fraction of R over which the wake tube edge blends into the free stream
+const SEED_DISTANCE = 2; // rotor radii upstream of the disk
+const SEED_SPREAD = 1.3; // rotor radii, seed patch around the wake axis
+
+export interface RotorFlow {
+  radius: number; // m
+  rootCutout: number; // span fraction
+  omega: number; // rad/s
+  freeStream: Vec3; // m/s, hub wind in the disk frame
+  inducedVelocity: number; // m/s, mean over the disk
+  inflowGradient: number; // k_x, fore-aft growth of the induced velocity across the disk
+  wakeAxis: Vec3; // unit, direction the wake convects from the disk
+  skewAngle: number; // degrees between the wake and the rotor axis
+  advanceRatio: number; // mu
+}
+
+/**
+ * The operating point behind a flow picture. The mean induced velocity is the
+ * one bladeAerodynamics reports (BEMT); the PCA-2 curves have none, so it is
+ * taken from Glauert's momentum relation T = 2 rho A v V' on the solved
+ * thrust. The wake leaves along the mean velocity through the disk, and its
+ * skew sets Coleman's fore-aft inflow gradient.
+ */
+export const rotorFlowFor = (params: DesignParams, results: SimulationResult): RotorFlow => {
+  const radius = params.bladeLength;
+  const windSpeed = results.hubWindSpeed;
+  const alpha = results.angleOfAttack * (Math.PI / 180);
+  const parallel = windSpeed * Math.cos(alpha);
+  const through = windSpeed * Math.sin(alpha);
+
+  let induced = results.bladeAerodynamics.inducedVelocity;
+  if (induced <= 0 && results.totalRotorThrust > 0) {
+    const massFlux = 2 * results.atmosphere.density * Math.PI * radius * radius;
+    for (let i = 0; i < 20; i++) {
+      induced = results.totalRotorThrust / (massFlux * Math.max(Math.hypot(parallel, through - induced), 0.1));
+    }
+  }
+
+  const rise = through - induced;
+  const speed = Math.max(Math.hypot(parallel, rise), 1e-6);
+  const skew = Math.atan2(parallel, Math.abs(rise));
+
+  return {
+    radius,
+    rootCutout: params.planform.rootCutout,
+    omega: (results.rpm * 2 * Math.PI) / 60,
+    freeStream: { x: parallel, y: 0, z: through },
+    inducedVelocity: induced,
+    inflowGradient: Math.min(Math.tan(skew / 2), MAX_INFLOW_GRADIENT),
+    wakeAxis: { x: parallel / speed, y: 0, z: rise / speed },
+    skewAngle: skew * (180 / Math.PI),
+    advanceRatio: results.bladeAerodynamics.advanceRatio
+  };
+};
+
+// Induced velocity at the disk, linear fore-aft (Glauert/Coleman): more at the back
+const diskInflow = (flow: RotorFlow, x: number): number =>
+  flow.inducedVelocity * (1 + flow.inflowGradient * Math.max(-1, Math.min(1, x / flow.radius)));
+
+/**
+ * Air velocity at a point around the rotor, in the disk frame. Momentum
+ * theory in a skewed cylindrical wake: inside the tube swept from the disk
+ * along the wake axis the induced velocity, normal to the disk, grows from
+ * nothing far upstream through its disk value to twice that far downstream
+ * (the vortex-cylinder axial law 1 + s / sqrt(s^2 + R^2)); outside the tube
+ * it fades out over a thin edge.
+ */
+export const flowVelocity = (flow: RotorFlow, p: Vec3): Vec3 => {
+  const { radius, wakeAxis } = flow;
+  const rise = Math.sign(wakeAxis.z || 1) * Math.max(Math.abs(wakeAxis.z), MIN_WAKE_RISE);
+  // Distance along the wake axis from the disk plane, and where that line crosses the disk
+  const s = p.z / rise;
+  const x = p.x - s * wakeAxis.x;
+  const y = p.y - s * wakeAxis.y;
+  const fromAxis = Math.hypot(x, y);
+
+  const axial = 1 + s / Math.sqrt(s * s + radius * radius);
+  const edge = fromAxis <= radius ? 1 : Math.exp(-(((fromAxis - radius) / (EDGE_WIDTH * radius)) ** 2));
+  const induced = diskInflow(flow, x) * axial * edge;
+
+  return { x: flow.freeStream.x, y: flow.freeStream.y, z: flow.freeStream.z - induced };
+};
+
+export interface DiskPoint {
+  inducedVelocity: number; // m/s, down through the disk
+  tangentialVelocity: number; // m/s, U_T, negative in reverse flow
+  perpendicularVelocity: number; // m/s, U_P, up through the disk
+  velocity: number; // m/s, resultant at the blade section
+  angleOfAttack: number; // degrees, pitch plus inflow angle
+  reverseFlow: boolean; // air meets the trailing edge
+}
+
+/**
+ * Flow a blade section sees at a span fraction and azimuth (radians, 0
+ * downwind, 90° advancing): rotation plus the in-plane wind component for
+ * U_T, the wind through the disk less the local induced velocity for U_P.
+ * Flapping is left out, as in bladeAerodynamics.
+ */
+export const diskPoint = (flow: RotorFlow, params: DesignParams, span: number, azimuth: number): DiskPoint => {
+  const r = span * flow.radius;
+  const induced = diskInflow(flow, r * Math.cos(azimuth));
+  const tangential = flow.omega * r + flow.freeStream.x * Math.sin(azimuth);
+  const perpendicular = flow.freeStream.z - induced;
+  const pitch = bladeSection(params, span).pitch;
+
+  return {
+    inducedVelocity: induced,
+    tangentialVelocity: tangential,
+    perpendicularVelocity: perpendicular,
+    velocity: Math.hypot(tangential, perpendicular),
+    angleOfAttack: pitch + Math.atan2(perpendicular, tangential) * (180 / Math.PI),
+    reverseFlow: tangential < 0
+  };
+};
+
+export interface DiskField {
+  spans: number[]; // span fractions, root cutout to tip
+  azimuths: number[]; // radians, 0 downwind, once round without repeating 0
+  points: DiskPoint[][]; // [span][azimuth]
+}
+
+/**
+ * diskPoint over a polar grid covering the aerofoil part of the disk.
+ */
+export const diskField = (flow: RotorFlow, params: DesignParams, rings: number, sectors: number): DiskField => {
+  const spans = Array.from({ length: rings + 1 }, (_, i) => flow.rootCutout + ((1 - flow.rootCutout) * i) / rings);
+  const azimuths = Array.from({ length: sectors }, (_, j) => (2 * Math.PI * j) / sectors);
+  return {
+    spans,
+    azimuths,
+    points: spans.map(span => azimuths.map(azimuth => diskPoint(flow, params, span, azimuth)))
+  };
+};
+
+/**
+ * The retreating-side circle inside which U_T < 0: diameter mu R, centred on
+ * azimuth 270°. Returned as its centre (disk frame) and radius in metres.
+ */
+export const reverseFlowCircle = (flow: RotorFlow): { centre: Vec3; radius: number } => {
+  const radius = flow.omega > 0 ? flow.freeStream.x / (2 * flow.omega) : 0;
+  return { centre: { x: 0, y: -radius, z: 0 }, radius };
+};
+
+/**
+ * Start points for streamlines or particles: a patch across the wake axis,
+ * a couple of radii upstream of the disk. u and v in [-1, 1] place the point
+ * across the patch.
+ */
+export const seedPoint = (flow: RotorFlow, u: number, v: number): Vec3 => {
+  const { radius, wakeAxis } = flow;
+  // The patch spans y and the in-plane direction normal to the wake axis
+  const across = { x: -wakeAxis.z, y: 0, z: wakeAxis.x };
+  const back = SEED_DISTANCE * radius;
+  const spread = SEED_SPREAD * radius;
+  return {
+    x: -back * wakeAxis.x + spread * u * across.x,
+    y: spread * v,
+    z: -back * wakeAxis.z + spread * u * across.z
+  };
+};
+
+/**
+ * A streamline through the field from a start point, by midpoint steps of a
+ * fixed length (metres), with the speed at each point for colouring.
+ */
+export const traceStreamline = (
+  flow: RotorFlow,
+  start: Vec3,
+  length: number,
+  step: number
+): { points: Vec3[]; speeds: number[] } => {
+  const points = [start];
+  const speeds: number[] = [];
+  const direction = (p: Vec3) => {
+    const v = flowVelocity(flow, p);
+    const speed = Math.hypot(v.x, v.y, v.z);
+    return { speed, d: speed > 1e-6 ? { x: v.x / speed, y: v.y / speed, z: v.z / speed } : null };
+  };
+
+  let p = start;
+  for (let travelled = 0; travelled < length; travelled += step) {
+    const here = direction(p);
+    speeds.push(here.speed);
+    if (!here.d) break;
+    const mid = direction({ x: p.x + 0.5 * step * here.d.x, y: p.y + 0.5 * step * here.d.y, z: p.z + 0.5 * step * here.d.z });
+    const d = mid.d ?? here.d;
+    p = { x: p.x + step * d.x, y: p.y + step * d.y, z: p.z + step * d.z };
+    points.push(p);
+  }
+  speeds.push(direction(p).speed);
+  return { points, speeds };
+};
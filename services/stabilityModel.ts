@@ -0,0 +1,274 @@
+import {
+  DesignParams,
+  ModelSettings,
+  StabilityMode,
+  StabilityModeKind,
+  StabilitySettings,
+  StabilitySolution
+} from '../types';
+import { evaluateRotor, RotorCondition, RotorLoads } from './bemtSolver';
+import { bladeMassProperties } from './teeterModel';
+
+export const DEFAULT_STABILITY: StabilitySettings = {
+  mastHeight: 0.15,
+  controlStiffness: 30,
+  controlDamping: 1
+};
+
+export const STABILITY_MODE_INFO: Record<StabilityModeKind, { name: string; explanation: string }> = {
+  [StabilityModeKind.NUTATION]: {
+    name: 'Nutation',
+    explanation: 'Fast wobble of the spinning disk about the bearing. Neither flapping lag nor the control linkage damps it; add control damping or raise the mast so the disk lag acts on a longer arm.'
+  },
+  [StabilityModeKind.PRECESSION]: {
+    name: 'Precession',
+    explanation: 'Slow drift of the rotor axis. The tilt control spring is weaker than the H-force and weight acting above the bearing; stiffen the control linkage or lower the mast.'
+  },
+  [StabilityModeKind.SWING]: {
+    name: 'Lateral Swing',
+    explanation: 'The rotor swings sideways on the line faster than its drag can damp it; more line tension or a shorter lower line stiffens the swing.'
+  },
+  [StabilityModeKind.SPIN]: {
+    name: 'Rotor Speed',
+    explanation: 'Driving torque rises with RPM, so rotor speed runs away from the autorotation point instead of settling; reduce blade pitch or check the bearing friction.'
+  }
+};
+
+// Least damping ratio that scores 100
+const TARGET_DAMPING = 0.1;
+const GRAVITY = 9.81;
+const ALPHA_STEP = 1; // degrees, for the H-force slope
+const OMEGA_STEP = 0.02; // fraction of rotor speed, for the torque slope
+
+type Complex = { re: number; im: number };
+type Matrix = number[][];
+
+const multiply = (a: Matrix, b: Matrix): Matrix =>
+  a.map(row => b[0].map((_, j) => row.reduce((sum, v, k) => sum + v * b[k][j], 0)));
+
+const invert = (m: Matrix): Matrix => {
+  const n = m.length;
+  const a = m.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = a[r][col];
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= f * a[col][j];
+    }
+  }
+  return a.map(row => row.slice(n));
+};
+
+// Characteristic polynomial by Faddeev-LeVerrier; coeffs[k] multiplies lambda^k
+const characteristicPolynomial = (a: Matrix): number[] => {
+  const n = a.length;
+  const coeffs = new Array(n + 1).fill(0);
+  coeffs[n] = 1;
+  let m: Matrix = a.map(row => row.map(() => 0));
+  for (let k = 1; k <= n; k++) {
+    m = multiply(a, m);
+    for (let i = 0; i < n; i++) m[i][i] += coeffs[n - k + 1];
+    const am = multiply(a, m);
+    coeffs[n - k] = -am.reduce((sum, row, i) => sum + row[i], 0) / k;
+  }
+  return coeffs;
+};
+
+const cMul = (a: Complex, b: Complex): Complex => ({ re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re });
+const cDiv = (a: Complex, b: Complex): Complex => {
+  const d = b.re * b.re + b.im * b.im;
+  return { re: (a.re * b.re + a.im * b.im) / d, im: (a.im * b.re - a.re * b.im) / d };
+};
+const cAbs = (a: Complex) => Math.hypot(a.re, a.im);
+
+// Roots of a monic polynomial by Durand-Kerner iteration
+const polynomialRoots = (coeffs: number[]): Complex[] => {
+  const n = coeffs.length - 1;
+  // Fujiwara bound on the root magnitudes sets the starting circle
+  const bound = 2 * Math.max(1e-6, ...coeffs.slice(0, n).map((c, k) => Math.pow(Math.abs(c), 1 / (n - k))));
+  const roots: Complex[] = Array.from({ length: n }, (_, k) => ({
+    re: bound * Math.cos((2 * Math.PI * k) / n + 0.4),
+    im: bound * Math.sin((2 * Math.PI * k) / n + 0.4)
+  }));
+
+  for (let iter = 0; iter < 2000; iter++) {
+    let shift = 0;
+    for (let i = 0; i < n; i++) {
+      let value: Complex = { re: 1, im: 0 };
+      for (let k = n - 1; k >= 0; k--) value = { re: value.re * roots[i].re - value.im * roots[i].im + coeffs[k], im: value.re * roots[i].im + value.im * roots[i].re };
+      let denom: Complex = { re: 1, im: 0 };
+      for (let j = 0; j < n; j++) {
+        if (j !== i) denom = cMul(denom, { re: roots[i].re - roots[j].re, im: roots[i].im - roots[j].im });
+      }
+      const delta = cDiv(value, denom);
+      roots[i] = { re: roots[i].re - delta.re, im: roots[i].im - delta.im };
+      shift = Math.max(shift, cAbs(delta) / (1 + cAbs(roots[i])));
+    }
+    if (shift < 1e-13) break;
+  }
+  return roots;
+};
+
+/**
+ * Eigenvalues of M q'' + C q' + K q = 0 through its first-order state matrix.
+ */
+const secondOrderEigenvalues = (mass: Matrix, damping: Matrix, stiffness: Matrix): Complex[] => {
+  const n = mass.length;
+  const mInv = invert(mass);
+  const mk = multiply(mInv, stiffness);
+  const mc = multiply(mInv, damping);
+  const state: Matrix = [
+    ...Array.from({ length: n }, (_, i) => [...new Array(n).fill(0), ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]),
+    ...Array.from({ length: n }, (_, i) => [...mk[i].map(v => -v), ...mc[i].map(v => -v)])
+  ];
+  return polynomialRoots(characteristicPolynomial(state)).map(root => {
+    // Snap numerically real roots onto the axis
+    const tiny = 1e-7 * (1 + Math.abs(root.re));
+    return Math.abs(root.im) < tiny ? { re: root.re, im: 0 } : root;
+  });
+};
+
+const toMode = (kind: StabilityModeKind, root: Complex): StabilityMode => {
+  const magnitude = cAbs(root);
+  return {
+    kind,
+    real: parseFloat(root.re.toFixed(4)),
+    imag: parseFloat(Math.abs(root.im).toFixed(4)),
+    dampingRatio: parseFloat((magnitude > 0 ? -root.re / magnitude : 1).toFixed(3)),
+    period: root.im !== 0 ? parseFloat(((2 * Math.PI) / Math.abs(root.im)).toFixed(3)) : null,
+    timeToDouble: Math.abs(root.re) > 1e-9 ? parseFloat((Math.LN2 / Math.abs(root.re)).toFixed(3)) : null,
+    stable: root.re < 0
+  };
+};
+
+export interface StabilityInputs {
+  omega: number; // rad/s at trim
+  autorotationOmega: number; // rad/s where BEMT torque balances resistingTorque
+  condition: RotorCondition; // trim flow at the disk
+  rotorThrust: number; // N along the rotor axis
+  drag: number; // N, rotor drag along the wind
+  lineStiffness: number; // N/m, sideways at the hub
+  resistingTorque: (loads: RotorLoads, omega: number) => number; // N·m, bearing friction and generator load
+}
+
+/**
+ * Linearised stability of the rotor on its line. Degrees of freedom are pitch
+ * and yaw of the rotor about the spherical bearing, sideways swing of the
+ * bearing on the line, and rotor speed.
+ *
+ * The tilt control linkage is a torsional spring and damper. The hub sits
+ * mastHeight above the bearing, so the rotor's weight and the H-force's slope
+ * with disk angle act against the spring, and the disk's flapping lag behind
+ * a tilt rate (16 q / gamma Omega for a teetering rotor) damps it. Spin couples
+ * pitch and yaw gyroscopically into nutation and precession. Yaw also swings
+ * the hub sideways, coupling it to the line, which is damped by the rotor's
+ * drag turning with the relative wind. Aerodynamic slopes come from BEMT for
+ * both aerodynamic models. The rotor speed mode is linearised at the BEMT
+ * autorotation speed, the only speed where its torques balance, even when the
+ * PCA-2 curves or a calibration set the trim speed.
+ */
+export const solveStability = (
+  params: DesignParams,
+  settings: ModelSettings,
+  inputs: StabilityInputs
+): StabilitySolution => {
+  const { mastHeight: h, controlStiffness, controlDamping } = settings.stability;
+  const { omega, condition } = inputs;
+  const spinning = omega > 1;
+  const m = Math.max(params.rotorMass, 1e-3);
+  const { polarInertia, lockNumber } = bladeMassProperties(params, settings.teeter, condition.airDensity);
+
+  // Diametral inertia of the disk about the bearing
+  const diametral = polarInertia / 2 + m * h * h;
+  const gyro = polarInertia * omega;
+
+  // H-force slope with disk angle at constant rotor speed
+  let hForceSlope = 0;
+  if (spinning) {
+    const at = (alphaDeg: number) => evaluateRotor({ ...condition, alphaDeg }, omega).hForce;
+    hForceSlope = (at(condition.alphaDeg + ALPHA_STEP) - at(condition.alphaDeg - ALPHA_STEP)) / (2 * ALPHA_STEP * (Math.PI / 180));
+  }
+
+  // Rotor axis inclination from the vertical sets how much weight acts as an inverted pendulum
+  const zenithRad = (90 - params.lineAngle + (params.rotorTilt || 0)) * (Math.PI / 180);
+  const pendulum = m * GRAVITY * h * Math.cos(zenithRad);
+  const flapDamping = spinning ? (16 * h * Math.max(inputs.rotorThrust, 0)) / (Math.max(lockNumber, 1e-3) * omega) : 0;
+  const tiltDamping = controlDamping + flapDamping;
+  const swingDamping = condition.windSpeed > 0 ? Math.max(inputs.drag, 0) / condition.windSpeed : 0;
+
+  // q = [pitch, yaw, swing]; the hub moves sideways by swing + h * yaw
+  const mass: Matrix = [
+    [diametral, 0, 0],
+    [0, diametral, m * h],
+    [0, m * h, m]
+  ];
+  const damping: Matrix = [
+    [tiltDamping, gyro, 0],
+    [-gyro, tiltDamping + swingDamping * h * h, swingDamping * h],
+    [0, swingDamping * h, swingDamping]
+  ];
+  const stiffness: Matrix = [
+    [controlStiffness - pendulum - h * hForceSlope, 0, 0],
+    [0, controlStiffness - pendulum, 0],
+    [0, 0, inputs.lineStiffness]
+  ];
+  const coupled = secondOrderEigenvalues(mass, damping, stiffness);
+
+  // Label coupled roots by the nearest root of the uncoupled tilt and swing problems
+  const tilt = secondOrderEigenvalues(
+    [[mass[0][0], 0], [0, mass[1][1]]],
+    [[damping[0][0], gyro], [-gyro, tiltDamping]],
+    [[stiffness[0][0], 0], [0, stiffness[1][1]]]
+  ).sort((a, b) => cAbs(b) - cAbs(a));
+  const swing = secondOrderEigenvalues([[m]], [[swingDamping]], [[inputs.lineStiffness]]);
+  const references = [
+    ...tilt.map((root, i) => ({ root, kind: i < 2 ? StabilityModeKind.NUTATION : StabilityModeKind.PRECESSION })),
+    ...swing.map(root => ({ root, kind: StabilityModeKind.SWING }))
+  ];
+  const modes: StabilityMode[] = [];
+  coupled.forEach(root => {
+    let best = 0;
+    references.forEach((ref, i) => {
+      const distance = cAbs({ re: ref.root.re - root.re, im: ref.root.im - root.im });
+      if (distance < cAbs({ re: references[best].root.re - root.re, im: references[best].root.im - root.im })) best = i;
+    });
+    const [{ kind }] = references.splice(best, 1);
+    // One entry per conjugate pair
+    if (root.im >= 0) modes.push(toMode(kind, root));
+  });
+
+  // Rotor speed: net torque slope over polar inertia, about the torque balance
+  const balance = inputs.autorotationOmega;
+  if (spinning && balance > 1) {
+    const netTorque = (w: number) => {
+      const loads = evaluateRotor(condition, w);
+      return loads.torque - inputs.resistingTorque(loads, w);
+    };
+    const step = OMEGA_STEP * balance;
+    const torqueSlope = (netTorque(balance + step) - netTorque(balance - step)) / (2 * step);
+    modes.push(toMode(StabilityModeKind.SPIN, { re: torqueSlope / Math.max(polarInertia, 1e-6), im: 0 }));
+  }
+
+  const minDampingRatio = Math.min(...modes.map(mode => mode.dampingRatio));
+  return {
+    modes,
+    minDampingRatio,
+    stable: modes.every(mode => mode.stable),
+    spinning
+  };
+};
+
+/**
+ * Stability score, 0-100: the least damped mode's damping ratio against the
+ * target; zero when any mode is unstable or neutral, or the rotor isn't
+ * spinning.
+ */
+export const stabilityScoreFor = (solution: StabilitySolution): number => {
+  if (!solution.stable || !solution.spinning) return 0;
+  return Math.round(100 * Math.min(1, Math.max(0, solution.minDampingRatio / TARGET_DAMPING)));
+};
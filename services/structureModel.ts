@@ -0,0 +1,185 @@
+import {
+  BladeMaterial,
+  BladeStation,
+  DesignParams,
+  ModelSettings,
+  SparSection,
+  StructuralSolution,
+  StructuralStatus,
+  StructureSettings
+} from '../types';
+import { bladeMassProperties } from './teeterModel';
+
+type MaterialProperties = Pick<StructureSettings, 'elasticModulus' | 'yieldStrength' | 'fatigueStrength'>;
+
+// Spar materials. Composite strengths are ultimate; fatigue is the alternating stress for ~1e7 cycles.
+export const BLADE_MATERIALS: Record<BladeMaterial, MaterialProperties & { name: string }> = {
+  [BladeMaterial.BALSA_GLASS]: { name: 'Balsa / Glass', elasticModulus: 10, yieldStrength: 150, fatigueStrength: 45 },
+  [BladeMaterial.CARBON_SPAR]: { name: 'Carbon Spar', elasticModulus: 120, yieldStrength: 1000, fatigueStrength: 350 },
+  [BladeMaterial.PETG]: { name: '3D-Printed PETG', elasticModulus: 2.0, yieldStrength: 50, fatigueStrength: 14 },
+  [BladeMaterial.ALUMINIUM]: { name: 'Aluminium 6061-T6', elasticModulus: 69, yieldStrength: 276, fatigueStrength: 96 }
+};
+
+export const DEFAULT_STRUCTURE: StructureSettings = {
+  material: BladeMaterial.BALSA_GLASS,
+  ...materialProperties(BladeMaterial.BALSA_GLASS),
+  sparSection: SparSection.RECTANGULAR,
+  sparWidth: 60,
+  sparHeight: 15,
+  sparWall: 2
+};
+
+function materialProperties(material: BladeMaterial): MaterialProperties {
+  const { elasticModulus, yieldStrength, fatigueStrength } = BLADE_MATERIALS[material];
+  return { elasticModulus, yieldStrength, fatigueStrength };
+}
+
+/**
+ * Structure settings for a material, keeping the current spar section.
+ */
+export const structureForMaterial = (material: BladeMaterial, current: StructureSettings): StructureSettings => ({
+  ...current,
+  material,
+  ...materialProperties(material)
+});
+
+// Safety factor bands for the red/amber/green readout
+export const MARGINAL_SAFETY_FACTOR = 1.5;
+const STATION_COUNT = 10;
+const DEFLECTION_STEPS = 40;
+const GRAVITY = 9.81;
+
+interface SparProperties {
+  area: number; // m^2
+  flapModulus: number; // m^3, I/c flapwise
+  lagModulus: number; // m^3, I/c chordwise
+  flapInertia: number; // m^4
+  lagInertia: number; // m^4
+}
+
+export const sparProperties = (structure: StructureSettings): SparProperties => {
+  const h = structure.sparHeight / 1000;
+  if (structure.sparSection === SparSection.TUBE) {
+    const inner = Math.max(h - 2 * (structure.sparWall / 1000), 0);
+    const inertia = (Math.PI / 64) * (Math.pow(h, 4) - Math.pow(inner, 4));
+    return {
+      area: (Math.PI / 4) * (h * h - inner * inner),
+      flapModulus: inertia / (h / 2),
+      lagModulus: inertia / (h / 2),
+      flapInertia: inertia,
+      lagInertia: inertia
+    };
+  }
+  const b = structure.sparWidth / 1000;
+  return {
+    area: b * h,
+    flapModulus: (b * h * h) / 6,
+    lagModulus: (h * b * b) / 6,
+    flapInertia: (b * Math.pow(h, 3)) / 12,
+    lagInertia: (h * Math.pow(b, 3)) / 12
+  };
+};
+
+// Bending moment at x from a load growing with r^2 along the blade, per unit total load
+const bendingShape = (x: number, radius: number): number => {
+  const r3 = Math.pow(radius, 3);
+  return (3 / r3) * ((Math.pow(radius, 4) - Math.pow(x, 4)) / 4 - (x * (r3 - Math.pow(x, 3))) / 3);
+};
+
+const statusFor = (safetyFactor: number): StructuralStatus => {
+  if (safetyFactor < 1) return StructuralStatus.OVERSTRESSED;
+  if (safetyFactor < MARGINAL_SAFETY_FACTOR) return StructuralStatus.MARGINAL;
+  return StructuralStatus.OK;
+};
+
+export interface BladeLoadInputs {
+  omega: number; // rad/s
+  rotorThrust: number; // N, all blades, along the rotor axis
+  frictionTorque: number; // N·m, balanced by the blades' in-plane aerodynamic loads
+  bladeMoment: number; // N·m, 1/rev flap moment amplitude on one blade
+  airDensity: number;
+}
+
+/**
+ * Spar stresses along one blade. The spar carries everything: centrifugal
+ * tension, flapwise bending from thrust and lead-lag bending from the torque
+ * that balances bearing friction, all distributed like lift (growing with r^2).
+ * The 1/rev alternating part is the lift asymmetry moment plus the in-plane
+ * swing of the blade's weight. Yield uses peak stress; fatigue uses Goodman.
+ */
+export const solveBladeStructure = (
+  params: DesignParams,
+  settings: ModelSettings,
+  inputs: BladeLoadInputs
+): StructuralSolution => {
+  const { structure } = settings;
+  const radius = params.bladeLength;
+  const { bladeMass, tipMass, bladeCount } = bladeMassProperties(params, settings.teeter, inputs.airDensity);
+  const rodMass = bladeMass - tipMass;
+  const spar = sparProperties(structure);
+  const omegaSq = inputs.omega * inputs.omega;
+
+  // Root loads, per blade
+  const flapMoment = (inputs.rotorThrust / bladeCount) * bendingShape(0, radius);
+  const leadLagMoment = inputs.frictionTorque / bladeCount;
+  const flapAlternating = Math.abs(inputs.bladeMoment);
+  const cgRadius = (rodMass * radius / 2 + tipMass * radius) / Math.max(bladeMass, 1e-9);
+  const lagAlternating = bladeMass * GRAVITY * Math.cos(params.lineAngle * (Math.PI / 180)) * cgRadius;
+
+  const centrifugalAt = (x: number) => omegaSq * ((rodMass / radius) * (radius * radius - x * x) / 2 + tipMass * radius);
+
+  const stations: BladeStation[] = [];
+  let yieldSafetyFactor = Infinity;
+  let fatigueSafetyFactor = Infinity;
+  let maxStress = 0;
+
+  for (let i = 0; i < STATION_COUNT; i++) {
+    const x = (i / STATION_COUNT) * radius;
+    const shape = bendingShape(x, radius) / bendingShape(0, radius);
+    const mean = (centrifugalAt(x) / spar.area
+      + (flapMoment * shape) / spar.flapModulus
+      + (leadLagMoment * shape) / spar.lagModulus) / 1e6;
+    const alternating = ((flapAlternating * shape) / spar.flapModulus
+      + (lagAlternating * shape) / spar.lagModulus) / 1e6;
+    const peak = mean + alternating;
+
+    const yieldSf = peak > 0 ? structure.yieldStrength / peak : Infinity;
+    const fatigueSf = 1 / Math.max(alternating / structure.fatigueStrength + mean / structure.yieldStrength, 1e-9);
+    const safetyFactor = Math.min(yieldSf, fatigueSf);
+
+    yieldSafetyFactor = Math.min(yieldSafetyFactor, yieldSf);
+    fatigueSafetyFactor = Math.min(fatigueSafetyFactor, fatigueSf);
+    maxStress = Math.max(maxStress, peak);
+    stations.push({
+      r: parseFloat(x.toFixed(3)),
+      stress: parseFloat(peak.toFixed(2)),
+      safetyFactor: parseFloat(Math.min(safetyFactor, 99).toFixed(2)),
+      status: statusFor(safetyFactor)
+    });
+  }
+
+  // Tip deflection: integrate curvature M/EI times the lever arm to the tip
+  const stiffness = structure.elasticModulus * 1e9 * spar.flapInertia;
+  let tipDeflection = 0;
+  const dx = radius / DEFLECTION_STEPS;
+  for (let i = 0; i < DEFLECTION_STEPS; i++) {
+    const x = (i + 0.5) * dx;
+    const moment = (inputs.rotorThrust / bladeCount) * bendingShape(x, radius);
+    tipDeflection += (moment / stiffness) * (radius - x) * dx;
+  }
+
+  const safetyFactor = Math.min(yieldSafetyFactor, fatigueSafetyFactor);
+  return {
+    centrifugalForce: parseFloat(centrifugalAt(0).toFixed(1)),
+    centrifugalStress: parseFloat((centrifugalAt(0) / spar.area / 1e6).toFixed(2)),
+    flapMoment: parseFloat(flapMoment.toFixed(2)),
+    leadLagMoment: parseFloat(leadLagMoment.toFixed(3)),
+    alternatingMoment: parseFloat(Math.hypot(flapAlternating, lagAlternating).toFixed(2)),
+    tipDeflection: parseFloat((tipDeflection * 1000).toFixed(1)),
+    maxStress: parseFloat(maxStress.toFixed(2)),
+    yieldSafetyFactor: parseFloat(Math.min(yieldSafetyFactor, 99).toFixed(2)),
+    fatigueSafetyFactor: parseFloat(Math.min(fatigueSafetyFactor, 99).toFixed(2)),
+    status: statusFor(safetyFactor),
+    stations
+  };
+};
@@ -0,0 +1,8 @@
+
+import { handleSweepRequest, SweepMessage, SweepRequest } from './sweepEngine';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<SweepRequest>) => {
+  handleSweepRequest(e.data, (msg: SweepMessage) => ctx.postMessage(msg));
+};
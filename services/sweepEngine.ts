@@ -0,0 +1,256 @@
+
+import { Airfoil, DesignParams, ModelSettings, SimulationResult, SweepAxis, SweepResult, SweepSpec } from '../types';
+import { calculatePhysics } from './physicsEngine';
+import { getAirfoil, registerAirfoil } from './airfoilDatabase';
+
+// Large grids run in a worker, but keep a single run to a few minutes
+export const MAX_SWEEP_POINTS = 5000;
+
+export const DEFAULT_SWEEP_SPEC: SweepSpec = {
+  x: { key: 'lineAngle', min: 20, max: 70, step: 5 },
+  y: { key: 'rotorTilt', min: -20, max: 20, step: 4 },
+  metric: 'generatedThrust'
+};
+
+export interface SweepRequest {
+  spec: SweepSpec;
+  params: DesignParams;
+  modelSettings: ModelSettings;
+  airfoil: Airfoil; // sent along so imported polars resolve inside the worker
+}
+
+export type SweepMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; result: SweepResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Dotted paths of every numeric value in a result, including nested groups
+ * such as bladeAerodynamics and anchorAnalysis. Arrays (line shapes) are skipped.
+ */
+export const listMetrics = (result: SimulationResult): string[] => {
+  const paths: string[] = [];
+  const walk = (value: unknown, prefix: string) => {
+    if (typeof value === 'number') {
+      paths.push(prefix);
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.entries(value).forEach(([key, v]) => walk(v, prefix ? `${prefix}.${key}` : key));
+    }
+  };
+  walk(result, '');
+  return paths;
+};
+
+export const readMetric = (result: SimulationResult, path: string): number => {
+  const value = path.split('.').reduce<any>((obj, key) => (obj == null ? undefined : obj[key]), result);
+  return typeof value === 'number' ? value : NaN;
+};
+
+/**
+ * Grid values from min to max inclusive. The last value is snapped to max
+ * when the step does not divide the range.
+ */
+export const axisValues = (axis: SweepAxis): number[] => {
+  if (!(axis.step > 0)) throw new Error(`${axis.key}: step must be positive.`);
+  if (axis.max < axis.min) throw new Error(`${axis.key}: max is below min.`);
+  const count = Math.floor((axis.max - axis.min) / axis.step + 1e-9) + 1;
+  const values = Array.from({ length: count }, (_, i) => parseFloat((axis.min + i * axis.step).toFixed(6)));
+  if (values[values.length - 1] < axis.max - 1e-9) values.push(axis.max);
+  return values;
+};
+
+export const countSweepPoints = (spec: SweepSpec): number => {
+  return axisValues(spec.x).length * (spec.y ? axisValues(spec.y).length : 1);
+};
+
+/**
+ * Evaluates calculatePhysics over the grid. Sweeping line tension or
+ * elevation overrides the kite model for that value, otherwise the kite
+ * equilibrium would replace the swept value.
+ */
+export const runSweep = (
+  params: DesignParams,
+  modelSettings: ModelSettings,
+  spec: SweepSpec,
+  onProgress?: (progress: number) => void
+): SweepResult => {
+  const xValues = axisValues(spec.x);
+  const yValues = spec.y ? axisValues(spec.y) : [];
+  const total = xValues.length * Math.max(1, yValues.length);
+  if (total > MAX_SWEEP_POINTS) {
+    throw new Error(`Grid has ${total} points; the limit is ${MAX_SWEEP_POINTS}. Increase the step size.`);
+  }
+
+  const swept = [spec.x.key, spec.y?.key];
+  const settings: ModelSettings = {
+    ...modelSettings,
+    kite: {
+      ...modelSettings.kite,
+      overrideLineTension: modelSettings.kite.overrideLineTension || swept.includes('lineTension'),
+      overrideLineAngle: modelSettings.kite.overrideLineAngle || swept.includes('lineAngle')
+    }
+  };
+
+  const rows = spec.y ? yValues : [NaN];
+  const values: number[][] = [];
+  let done = 0;
+  rows.forEach(y => {
+    const row: number[] = [];
+    xValues.forEach(x => {
+      const point: DesignParams = { ...params, [spec.x.key]: x };
+      if (spec.y) point[spec.y.key] = y;
+      row.push(readMetric(calculatePhysics(point, settings), spec.metric));
+      done++;
+    });
+    values.push(row);
+    onProgress?.(done / total);
+  });
+
+  const finite = values.flat().filter(Number.isFinite);
+  return {
+    spec,
+    xValues,
+    yValues,
+    values,
+    min: finite.length ? Math.min(...finite) : 0,
+    max: finite.length ? Math.max(...finite) : 0
+  };
+};
+
+/**
+ * Runs a sweep in a Web Worker, falling back to the main thread where
+ * workers are unavailable.
+ */
+export const runSweepInWorker = (
+  params: DesignParams,
+  modelSettings: ModelSettings,
+  spec: SweepSpec,
+  onProgress: (progress: number) => void
+): { promise: Promise<SweepResult>; cancel: () => void } => {
+  if (typeof Worker === 'undefined') {
+    return {
+      promise: new Promise((resolve, reject) => {
+        try {
+          resolve(runSweep(params, modelSettings, spec, onProgress));
+        } catch (err) {
+          reject(err);
+        }
+      }),
+      cancel: () => {}
+    };
+  }
+
+  const worker = new Worker(new URL('./sweep.worker.ts', import.meta.url), { type: 'module' });
+  let rejectRun: (err: Error) => void = () => {};
+  const promise = new Promise<SweepResult>((resolve, reject) => {
+    rejectRun = reject;
+    worker.onmessage = (e: MessageEvent<SweepMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        onProgress(msg.progress);
+        return;
+      }
+      worker.terminate();
+      if (msg.type === 'result') resolve(msg.result);
+      else reject(new Error(msg.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Sweep worker failed.'));
+    };
+  });
+
+  const request: SweepRequest = { spec, params, modelSettings, airfoil: getAirfoil(params.airfoilId) };
+  worker.postMessage(request);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectRun(new Error('Sweep cancelled.'));
+    }
+  };
+};
+
+/**
+ * Worker side of runSweepInWorker.
+ */
+export const handleSweepRequest = (request: SweepRequest, post: (msg: SweepMessage) => void): void => {
+  try {
+    if (!request.airfoil.builtIn) registerAirfoil(request.airfoil);
+    const result = runSweep(request.params, request.modelSettings, request.spec, progress => post({ type: 'progress', progress }));
+    post({ type: 'result', result });
+  } catch (err: any) {
+    post({ type: 'error', message: err.message || 'Sweep failed.' });
+  }
+};
+
+/**
+ * One row per grid point: x, y (2D only) and the metric.
+ */
+export const sweepToCsv = (result: SweepResult): string => {
+  const { spec, xValues, yValues, values } = result;
+  const header = spec.y ? [spec.x.key, spec.y.key, spec.metric] : [spec.x.key, spec.metric];
+  const lines = [header.join(',')];
+  values.forEach((row, r) => {
+    row.forEach((v, c) => {
+      const cells = spec.y ? [xValues[c], yValues[r], v] : [xValues[c], v];
+      lines.push(cells.map(n => (Number.isFinite(n) ? String(n) : '')).join(','));
+    });
+  });
+  return lines.join('\n');
+};
+
+// --- Contours (marching squares) ---
+
+export interface ContourSegment {
+  // Endpoints in fractional grid coordinates (column, row)
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Iso-line segments of a grid at one level. Saddle cells are resolved with
+ * the cell-centre average.
+ */
+export const contourSegments = (values: number[][], level: number): ContourSegment[] => {
+  const segments: ContourSegment[] = [];
+  for (let r = 0; r < values.length - 1; r++) {
+    for (let c = 0; c < values[r].length - 1; c++) {
+      // Corners counter-clockwise from (c, r)
+      const corners: [number, number, number][] = [
+        [c, r, values[r][c]],
+        [c + 1, r, values[r][c + 1]],
+        [c + 1, r + 1, values[r + 1][c + 1]],
+        [c, r + 1, values[r + 1][c]]
+      ];
+      if (corners.some(([, , v]) => !Number.isFinite(v))) continue;
+
+      const crossings: [number, number][] = [];
+      for (let k = 0; k < 4; k++) {
+        const [xa, ya, a] = corners[k];
+        const [xb, yb, b] = corners[(k + 1) % 4];
+        if ((a < level) !== (b < level)) {
+          const t = (level - a) / (b - a);
+          crossings.push([xa + t * (xb - xa), ya + t * (yb - ya)]);
+        }
+      }
+
+      if (crossings.length === 2) {
+        segments.push({ x1: crossings[0][0], y1: crossings[0][1], x2: crossings[1][0], y2: crossings[1][1] });
+      } else if (crossings.length === 4) {
+        const centre = corners.reduce((s, [, , v]) => s + v, 0) / 4;
+        // Cut off the two corners on the opposite side from the centre
+        const start = (centre < level) === (corners[0][2] < level) ? 0 : 1;
+        for (let k = 0; k < 2; k++) {
+          const p = crossings[(start + 2 * k) % 4];
+          const q = crossings[(start + 2 * k + 1) % 4];
+          segments.push({ x1: p[0], y1: p[1], x2: q[0], y2: q[1] });
+        }
+      }
+    }
+  }
+  return segments;
+};
@@ -0,0 +1,203 @@
+import { Airfoil, DesignParams, HubType, TeeterSettings, TeeterSolution } from '../types';
+import { lookupCoefficients } from './airfoilDatabase';
+import { bladeSection, planformProperties } from './planformModel';
+
+export const DEFAULT_TEETER: TeeterSettings = {
+  hubType: HubType.TEETERING,
+  bladeMassFraction: 0.8,
+  tipMassFraction: 0,
+  undersling: 0.005,
+  delta3: 0,
+  hingeOffset: 0.05,
+  stopAngle: 10
+};
+
+export const HUB_TYPES: Record<HubType, { name: string; motion: string; description: string }> = {
+  [HubType.TEETERING]: {
+    name: 'Teetering',
+    motion: 'Teeter',
+    description: 'Two blades rock together on a single pin.'
+  },
+  [HubType.GIMBAL]: {
+    name: 'Gimbal',
+    motion: 'Gimbal Tilt',
+    description: 'The whole disk tilts on a universal joint; needs three or more blades to be dynamically symmetric.'
+  },
+  [HubType.ARTICULATED]: {
+    name: 'Flapping Hinges',
+    motion: 'Blade Flap',
+    description: 'Each blade flaps on its own offset hinge, passing a hub moment through the offset.'
+  }
+};
+
+const LIFT_SLOPE = 5.73; // per rad, for the Lock number
+const REFERENCE_STATION = 0.75; // span fraction where bladeAerodynamics is sampled
+const MIN_BLADES = 2;
+const MAX_BLADES = 6;
+
+/**
+ * Whole number of blades the models work with.
+ */
+export const bladeCountOf = (params: DesignParams): number =>
+  Math.min(MAX_BLADES, Math.max(MIN_BLADES, Math.round(params.bladeCount)));
+
+/**
+ * The hub actually modelled: a single teeter pin only carries two blades, and a
+ * two-bladed gimbal is not dynamically symmetric, so those fall back to each
+ * other. Flapping hinges work with any count.
+ */
+export const hubTypeFor = (bladeCount: number, requested: HubType): HubType => {
+  if (requested === HubType.ARTICULATED) return requested;
+  return bladeCount > 2 ? HubType.GIMBAL : HubType.TEETERING;
+};
+
+export interface BladeMassProperties {
+  hubType: HubType;
+  bladeCount: number;
+  bladeMass: number; // kg per blade, distributed part plus tip weight
+  tipMass: number; // kg per blade
+  polarInertia: number; // kg·m^2 about the spin axis, all blades
+  flapInertia: number; // kg·m^2 about the teeter pin or gimbal axis (all blades), or one flapping hinge
+  lockNumber: number; // gamma = rho a c R^4 / I_blade
+  flapFrequencySq: number; // nu^2, squared flap natural frequency per rev (centrifugal, hinge offset and delta-3)
+  hingeStiffnessSq: number; // nu^2 - 1 from the hinge offset alone (articulated), else 0
+}
+
+/**
+ * Mass properties of the rotor for its hub. Each blade is a uniform rod plus
+ * an optional tip weight. On a teeter pin or gimbal the blades flap as one
+ * body: undersling puts their mass below the pivot, which adds to the flap
+ * inertia and takes a little off the centrifugal stiffness, and a gimbal's
+ * inertia about a diameter is half the blades' total. Flapping hinges let each
+ * blade move alone about a hinge offset eR, which stiffens it to
+ * nu^2 = 1 + 3e / 2(1 - e). Delta-3 feeds flap back into pitch, an aerodynamic
+ * spring of (gamma/8) tan(delta3).
+ */
+export const bladeMassProperties = (
+  params: DesignParams,
+  teeter: TeeterSettings,
+  airDensity: number
+): BladeMassProperties => {
+  const radius = params.bladeLength;
+  const bladeCount = bladeCountOf(params);
+  const hubType = hubTypeFor(bladeCount, teeter.hubType);
+  const bladeMass = Math.max((teeter.bladeMassFraction * params.rotorMass) / bladeCount, 1e-6);
+  const tipMass = bladeMass * teeter.tipMassFraction;
+  const rodMass = bladeMass - tipMass;
+
+  // Second moment about the spin axis, per blade
+  const spanMoment = (rodMass * radius * radius) / 3 + tipMass * radius * radius;
+  const underslingMoment = bladeMass * teeter.undersling * teeter.undersling;
+  const polarInertia = bladeCount * spanMoment;
+  const chord = planformProperties(params).equivalentChord;
+
+  let flapInertia: number;
+  let bladeInertia: number; // about the flap axis, per blade
+  let centrifugal: number;
+  let hingeStiffnessSq = 0;
+  if (hubType === HubType.ARTICULATED) {
+    const offset = Math.min(Math.max(teeter.hingeOffset, 0), 0.5);
+    const arm = radius * (1 - offset);
+    bladeInertia = (rodMass * arm * arm) / 3 + tipMass * arm * arm;
+    flapInertia = bladeInertia;
+    hingeStiffnessSq = (3 * offset) / (2 * (1 - offset));
+    centrifugal = 1 + hingeStiffnessSq;
+  } else {
+    bladeInertia = spanMoment;
+    flapInertia = (hubType === HubType.TEETERING ? 2 : bladeCount / 2) * (spanMoment + underslingMoment);
+    centrifugal = (spanMoment - underslingMoment) / (spanMoment + underslingMoment);
+  }
+
+  const lockNumber = (airDensity * LIFT_SLOPE * chord * Math.pow(radius, 4)) / Math.max(bladeInertia, 1e-9);
+  const pitchFlap = (lockNumber / 8) * Math.tan(teeter.delta3 * (Math.PI / 180));
+
+  return {
+    hubType,
+    bladeCount,
+    bladeMass,
+    tipMass,
+    polarInertia,
+    flapInertia,
+    lockNumber,
+    flapFrequencySq: Math.max(centrifugal + pitchFlap, 0.01),
+    hingeStiffnessSq
+  };
+};
+
+export interface BladeSideLoads {
+  advancingVelocity: number; // m/s at 75% span
+  retreatingVelocity: number; // m/s at 75% span
+  advancingAoA: number; // degrees
+  retreatingAoA: number; // degrees
+  kinematicViscosity: number;
+}
+
+/**
+ * First-harmonic flapping response. The advancing and retreating lift at 75%
+ * span set each blade's 1/rev flap moment (lift taken to grow with r^2 along
+ * the blade). A teeter pin sums two opposite blades, a gimbal resolves N of
+ * them onto a diameter (N/2 of the blade moment), and a hinged blade answers
+ * alone; in every case the flapping is a damped oscillator forced once per
+ * rev, with aerodynamic damping gamma/8 and stiffness nu^2. Hinged blades pass
+ * a moment to the hub only through the hinge offset.
+ */
+export const solveTeeter = (
+  params: DesignParams,
+  teeter: TeeterSettings,
+  omega: number,
+  sides: BladeSideLoads,
+  airfoil: Airfoil,
+  airDensity: number
+): TeeterSolution => {
+  const props = bladeMassProperties(params, teeter, airDensity);
+  const radius = params.bladeLength;
+  const chord = bladeSection(params, REFERENCE_STATION).chord;
+
+  let hubMoment = 0;
+  let bladeMoment = 0;
+  let amplitude = 0;
+  let phaseLag = 90;
+
+  if (omega > 1) {
+    const sectionLift = (velocity: number, aoa: number) => {
+      const reynolds = (Math.abs(velocity) * chord) / sides.kinematicViscosity;
+      const { cl } = lookupCoefficients(airfoil, aoa, reynolds);
+      // Reverse flow keeps its sign through velocity * |velocity|
+      return 0.5 * airDensity * velocity * Math.abs(velocity) * chord * cl;
+    };
+    const armFactor = (radius * radius) / (4 * REFERENCE_STATION * REFERENCE_STATION);
+    const advancing = sectionLift(sides.advancingVelocity, sides.advancingAoA) * armFactor;
+    const retreating = sectionLift(sides.retreatingVelocity, sides.retreatingAoA) * armFactor;
+
+    // One blade's flap moment swings between the two sides once per rev
+    bladeMoment = (advancing - retreating) / 2;
+    const flapMoment = props.hubType === HubType.TEETERING
+      ? 2 * bladeMoment
+      : props.hubType === HubType.GIMBAL
+        ? (props.bladeCount / 2) * bladeMoment
+        : bladeMoment;
+
+    const damping = props.lockNumber / 8;
+    const detuning = props.flapFrequencySq - 1;
+    const forcing = flapMoment / (props.flapInertia * omega * omega);
+    const flapRad = Math.abs(forcing) / Math.hypot(detuning, damping);
+    amplitude = flapRad * (180 / Math.PI);
+    phaseLag = Math.atan2(damping, detuning) * (180 / Math.PI);
+
+    hubMoment = props.hubType === HubType.ARTICULATED
+      ? (props.bladeCount / 2) * props.hingeStiffnessSq * props.flapInertia * omega * omega * flapRad
+      : flapMoment;
+  }
+
+  return {
+    amplitude: parseFloat(amplitude.toFixed(2)),
+    phaseLag: parseFloat(phaseLag.toFixed(1)),
+    naturalFrequency: parseFloat(Math.sqrt(props.flapFrequencySq).toFixed(3)),
+    lockNumber: parseFloat(props.lockNumber.toFixed(2)),
+    flapInertia: parseFloat(props.flapInertia.toFixed(4)),
+    hubMoment: parseFloat(hubMoment.toFixed(2)),
+    bladeMoment: parseFloat(bladeMoment.toFixed(2)),
+    hubType: props.hubType,
+    stopContact: amplitude > teeter.stopAngle
+  };
+};
@@ -0,0 +1,131 @@
+import { TelemetryRecording } from '../types';
+import { createLineSplitter, formatTelemetryLine } from './telemetryModel';
+
+const REPLAY_TICK_MS = 50;
+
+export interface TelemetryLink {
+  close: () => void;
+}
+
+export interface LinkHandlers {
+  onOpen: () => void;
+  onLine: (line: string) => void;
+  onClose: (error: string | null) => void; // the link ended by itself, with an error or not
+}
+
+// The parts of Web Serial we use; the DOM typings don't carry it yet
+interface SerialPortLike {
+  readable: ReadableStream<Uint8Array> | null;
+  open: (options: { baudRate: number }) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+interface SerialLike {
+  requestPort: () => Promise<SerialPortLike>;
+}
+
+const serialApi = (): SerialLike | undefined => (navigator as Navigator & { serial?: SerialLike }).serial;
+
+export const serialSupported = () => typeof navigator !== 'undefined' && serialApi() !== undefined;
+
+/**
+ * A WebSocket carrying the line protocol, e.g. the local bridge or mock
+ * server. Lines end in "\n" as on the serial port and may be split across
+ * messages.
+ */
+export const openWebSocketLink = (url: string, handlers: LinkHandlers): TelemetryLink => {
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(url);
+  } catch {
+    throw new Error(`Not a WebSocket address: ${url}`);
+  }
+  socket.binaryType = 'arraybuffer';
+  const decoder = new TextDecoder();
+  const split = createLineSplitter(handlers.onLine);
+  let closed = false;
+
+  socket.onopen = () => handlers.onOpen();
+  socket.onmessage = (e: MessageEvent) => {
+    split(typeof e.data === 'string' ? e.data : decoder.decode(e.data as ArrayBuffer, { stream: true }));
+  };
+  socket.onclose = (e: CloseEvent) => {
+    if (!closed) handlers.onClose(e.wasClean ? null : `Connection to ${url} failed or was lost.`);
+  };
+
+  return {
+    close: () => {
+      closed = true;
+      socket.close();
+    }
+  };
+};
+
+/**
+ * A serial port read straight from the browser through Web Serial (Chrome
+ * and Edge). The browser asks which port to use.
+ */
+export const openSerialLink = async (baudRate: number, handlers: LinkHandlers): Promise<TelemetryLink> => {
+  const serial = serialApi();
+  if (!serial) throw new Error('This browser has no Web Serial; use Chrome or Edge, or the WebSocket bridge.');
+  const port = await serial.requestPort();
+  await port.open({ baudRate });
+  if (!port.readable) {
+    await port.close();
+    throw new Error('The serial port cannot be read.');
+  }
+
+  const reader = port.readable.getReader();
+  const decoder = new TextDecoder();
+  const split = createLineSplitter(handlers.onLine);
+  let closed = false;
+  handlers.onOpen();
+
+  (async () => {
+    let error: string | null = null;
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        if (value) split(decoder.decode(value, { stream: true }));
+      }
+    } catch (err: any) {
+      error = err.message || 'Serial read failed.';
+    } finally {
+      reader.releaseLock();
+      await port.close().catch(() => undefined);
+    }
+    if (!closed) handlers.onClose(error);
+  })();
+
+  return {
+    close: () => {
+      closed = true;
+      reader.cancel().catch(() => undefined);
+    }
+  };
+};
+
+/**
+ * Plays a recording back in real time as protocol lines, ending by itself
+ * after the last sample.
+ */
+export const openReplayLink = (recording: TelemetryRecording, handlers: LinkHandlers): TelemetryLink => {
+  const { samples } = recording;
+  const started = performance.now();
+  let index = 0;
+  handlers.onOpen();
+
+  const timer = setInterval(() => {
+    const elapsed = (performance.now() - started) / 1000;
+    while (index < samples.length && samples[index].time <= elapsed) {
+      handlers.onLine(formatTelemetryLine(samples[index++]));
+    }
+    if (index >= samples.length) {
+      clearInterval(timer);
+      handlers.onClose(null);
+    }
+  }, REPLAY_TICK_MS);
+
+  return { close: () => clearInterval(timer) };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { completeSample, createLineSplitter, parseTelemetryLine } from './telemetryModel';
+
+describe('parseTelemetryLine', () => {
+  it('reads key=value fields in any order', () => {
+    expect(parseTelemetryLine(' wind=8.3, rpm=612 ,t=12.35,ten=215.4,ang=34.8,roll=1.2,pitch=-9.5\r', {})).toEqual({
+      time: 12.35,
+      rpm: 612,
+      lineTension: 215.4,
+      windSpeed: 8.3,
+      lineAngle: 34.8,
+      roll: 1.2,
+      pitch: -9.5
+    });
+  });
+
+  it('keeps fields a line leaves out and ignores unknown or non-numeric ones', () => {
+    const previous = { rpm: 600, lineTension: 200 };
+    expect(parseTelemetryLine('rpm=610,foo=1,ten=abc', previous)).toEqual({ rpm: 610, lineTension: 200 });
+    expect(previous).toEqual({ rpm: 600, lineTension: 200 });
+  });
+
+  it('returns null for blank lines, comments and lines with no known field', () => {
+    expect(parseTelemetryLine('   ', {})).toBeNull();
+    expect(parseTelemetryLine('# gyrokite-telemetry name=test', {})).toBeNull();
+    expect(parseTelemetryLine('foo=1,bar=2', {})).toBeNull();
+  });
+});
+
+describe('completeSample', () => {
+  it('waits for rpm, tension, wind and angle, then starts the attitude level', () => {
+    const fields = parseTelemetryLine('rpm=600,ten=200,wind=8', {})!;
+    expect(completeSample(fields, false, 1)).toBeNull();
+    expect(completeSample(parseTelemetryLine('ang=40', fields)!, false, 1)).toEqual({
+      time: 1, rpm: 600, lineTension: 200, windSpeed: 8, lineAngle: 40, roll: 0, pitch: 0
+    });
+  });
+
+  it('uses the line time only when the source sends one', () => {
+    const fields = parseTelemetryLine('t=5,rpm=600,ten=200,wind=8,ang=40', {})!;
+    expect(completeSample(fields, true, 9)?.time).toBe(5);
+    expect(completeSample(fields, false, 9)?.time).toBe(9);
+  });
+});
+
+describe('createLineSplitter', () => {
+  it('holds a partial line back until the rest arrives', () => {
+    const lines: string[] = [];
+    const push = createLineSplitter(line => lines.push(line));
+    push('rpm=600,te');
+    expect(lines).toEqual([]);
+    push('n=200\r\nwind=8\n');
+    expect(lines).toEqual(['rpm=600,ten=200', 'wind=8']);
+  });
+});
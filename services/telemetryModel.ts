@@ -0,0 +1,166 @@
+import { SimulationResult, TelemetryPoint, TelemetryRecording, TelemetrySample } from '../types';
+import { lineTensionAtRotor } from './tetherModel';
+
+/*
+ * Telemetry line protocol
+ *
+ * The rig sends one sample per line of ASCII text, ended by "\n" ("\r\n" is
+ * accepted), as comma-separated key=value fields in any order:
+ *
+ *   t      s     time since the rig started (optional, arrival time otherwise)
+ *   rpm    rpm   rotor speed
+ *   ten    N     line tension at the rotor
+ *   wind   m/s   wind speed at the rotor
+ *   ang    deg   line elevation angle
+ *   roll   deg   IMU roll, rotor axis leaning to the advancing side
+ *   pitch  deg   IMU pitch, rotor axis tilt in the sense of the design's rotor tilt
+ *
+ * e.g. "t=12.35,rpm=612,ten=215.4,wind=8.3,ang=34.8,roll=1.2,pitch=-9.5"
+ *
+ * Fields left out keep their last value, so slow sensors can report less
+ * often; nothing is shown until rpm, ten, wind and ang have all been seen.
+ * The attitude starts level. Unknown keys are ignored and lines starting
+ * with "#" are comments. Recordings are the same lines, every one with t,
+ * under a "# gyrokite-telemetry" header.
+ */
+
+const FIELD_KEYS: Record<string, keyof TelemetrySample> = {
+  t: 'time',
+  rpm: 'rpm',
+  ten: 'lineTension',
+  wind: 'windSpeed',
+  ang: 'lineAngle',
+  roll: 'roll',
+  pitch: 'pitch'
+};
+
+const REQUIRED_FIELDS: (keyof TelemetrySample)[] = ['rpm', 'lineTension', 'windSpeed', 'lineAngle'];
+
+const RECORDING_HEADER = '# gyrokite-telemetry';
+
+export const HISTORY_SECONDS = 60; // rolling window of the live charts
+
+export type PartialSample = Partial<TelemetrySample>;
+
+/**
+ * Reads one protocol line over the fields seen so far. Returns the merged
+ * fields, or null for blank lines, comments and lines with no known field.
+ */
+export const parseTelemetryLine = (line: string, previous: PartialSample): PartialSample | null => {
+  const text = line.trim();
+  if (!text || text.startsWith('#')) return null;
+
+  const next: PartialSample = { ...previous };
+  let known = 0;
+  text.split(',').forEach(field => {
+    const [key, value] = field.split('=').map(part => part.trim());
+    const name = FIELD_KEYS[key?.toLowerCase()];
+    const v = parseFloat(value);
+    if (name && Number.isFinite(v)) {
+      next[name] = v;
+      known++;
+    }
+  });
+  return known > 0 ? next : null;
+};
+
+/**
+ * A full sample once every required field has been seen, stamped with the
+ * line's own time or else the arrival time.
+ */
+export const completeSample = (fields: PartialSample, hasTime: boolean, arrivalTime: number): TelemetrySample | null => {
+  if (REQUIRED_FIELDS.some(key => fields[key] === undefined)) return null;
+  return {
+    time: hasTime && fields.time !== undefined ? fields.time : arrivalTime,
+    rpm: fields.rpm!,
+    lineTension: fields.lineTension!,
+    windSpeed: fields.windSpeed!,
+    lineAngle: fields.lineAngle!,
+    roll: fields.roll ?? 0,
+    pitch: fields.pitch ?? 0
+  };
+};
+
+export const formatTelemetryLine = (s: TelemetrySample): string =>
+  `t=${s.time.toFixed(3)},rpm=${s.rpm},ten=${s.lineTension},wind=${s.windSpeed},ang=${s.lineAngle},roll=${s.roll},pitch=${s.pitch}`;
+
+/**
+ * Splits a byte or message stream into lines, holding back a trailing
+ * partial line until the rest of it arrives.
+ */
+export const createLineSplitter = (onLine: (line: string) => void) => {
+  let buffer = '';
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    lines.forEach(onLine);
+  };
+};
+
+export const formatRecording = (recording: TelemetryRecording): string =>
+  [
+    `${RECORDING_HEADER} name=${recording.name} started=${recording.startedAt}`,
+    ...recording.samples.map(formatTelemetryLine)
+  ].join('\n') + '\n';
+
+/**
+ * Reads a recording back. Any file in the line protocol will do; times are
+ * shifted to start at zero.
+ */
+export const parseRecording = (text: string, fileName: string): TelemetryRecording => {
+  const lines = text.split(/\r?\n/);
+  const header = lines[0]?.startsWith(RECORDING_HEADER) ? lines[0] : '';
+  const name = /name=(.*?)\s+started=/.exec(header)?.[1] || fileName;
+  const startedAt = /started=(\S+)/.exec(header)?.[1] || new Date().toISOString();
+
+  let fields: PartialSample = {};
+  const samples: TelemetrySample[] = [];
+  lines.forEach((line, i) => {
+    const next = parseTelemetryLine(line, fields);
+    if (!next) return;
+    fields = next;
+    if (next.time === undefined) throw new Error(`Recording line ${i + 1}: every sample needs a time (t=).`);
+    const sample = completeSample(next, true, next.time);
+    if (sample) samples.push(sample);
+  });
+
+  if (samples.length === 0) throw new Error('No complete telemetry samples found in the recording.');
+  const start = samples[0].time;
+  return { name, startedAt, samples: samples.map(s => ({ ...s, time: parseFloat((s.time - start).toFixed(3)) })) };
+};
+
+/**
+ * The model's prediction with the measured values laid over it, for the 3D
+ * view and overlay: the rotor spins at the logged speed, sits at the logged
+ * line angle and the line below it carries the logged tension.
+ */
+export const measuredResults = (predicted: SimulationResult, sample: TelemetrySample, bladeLength: number): SimulationResult => ({
+  ...predicted,
+  rpm: sample.rpm,
+  tipSpeed: parseFloat(((sample.rpm * 2 * Math.PI) / 60 * bladeLength).toFixed(1)),
+  hubWindSpeed: sample.windSpeed,
+  kite: { ...predicted.kite, lineAngle: sample.lineAngle },
+  tether: { ...predicted.tether, lower: { ...predicted.tether.lower, upperTension: sample.lineTension } }
+});
+
+export const telemetryPoint = (sample: TelemetrySample, predicted: SimulationResult): TelemetryPoint => ({
+  time: sample.time,
+  windSpeed: sample.windSpeed,
+  rpm: sample.rpm,
+  predictedRpm: predicted.rpm,
+  lineTension: sample.lineTension,
+  predictedTension: lineTensionAtRotor(predicted.tether)
+});
+
+/**
+ * RMS of measured less predicted over the points, null while there are none.
+ */
+export const telemetryErrors = (points: TelemetryPoint[]): { rpm: number; tension: number } | null => {
+  if (points.length === 0) return null;
+  const rms = (d: (p: TelemetryPoint) => number) => Math.sqrt(points.reduce((sum, p) => sum + d(p) ** 2, 0) / points.length);
+  return {
+    rpm: parseFloat(rms(p => p.rpm - p.predictedRpm).toFixed(1)),
+    tension: parseFloat(rms(p => p.lineTension - p.predictedTension).toFixed(1))
+  };
+};
@@ -0,0 +1,231 @@
+
+import { DesignParams, LineMaterial, ModelSettings, TetherPoint, TetherSegment, TetherSettings, TetherSolution } from '../types';
+import { getRotorHeight, getWindSpeedAtHeight } from './windField';
+
+interface LineMaterialProperties {
+  name: string;
+  fibreDensity: number; // kg/m^3
+  elasticModulus: number; // GPa, effective over the nominal rope section
+  dragCoefficient: number;
+}
+
+// Braided kite line. Modulus is the rope value, well below the bare fibre.
+export const LINE_MATERIALS: Record<LineMaterial, LineMaterialProperties> = {
+  [LineMaterial.DYNEEMA]: { name: 'Dyneema (UHMWPE)', fibreDensity: 975, elasticModulus: 60, dragCoefficient: 1.0 },
+  [LineMaterial.POLYESTER]: { name: 'Polyester', fibreDensity: 1380, elasticModulus: 8, dragCoefficient: 1.1 },
+  [LineMaterial.NYLON]: { name: 'Nylon', fibreDensity: 1140, elasticModulus: 2.5, dragCoefficient: 1.2 }
+};
+
+const FILL_FACTOR = 0.6; // fibre fraction of a braided line's nominal section
+const ELEMENTS_PER_SEGMENT = 40;
+const MIN_TENSION = 1e-3; // N, keeps the line direction defined when slack
+
+/**
+ * Line settings for a material and diameter, with linear density, modulus and
+ * drag taken from the material table.
+ */
+export const tetherForMaterial = (
+  material: LineMaterial,
+  diameter: number,
+  lengths: Pick<TetherSettings, 'lowerLength' | 'upperLength'>
+): TetherSettings => {
+  const props = LINE_MATERIALS[material];
+  const area = Math.PI * Math.pow(diameter / 1000, 2) / 4;
+  return {
+    material,
+    diameter,
+    linearDensity: parseFloat((props.fibreDensity * FILL_FACTOR * area * 1000).toFixed(2)),
+    elasticModulus: props.elasticModulus,
+    dragCoefficient: props.dragCoefficient,
+    ...lengths
+  };
+};
+
+export const DEFAULT_TETHER: TetherSettings = tetherForMaterial(LineMaterial.DYNEEMA, 2, { lowerLength: 20, upperLength: 30 });
+
+export type Vec = { x: number; y: number };
+
+/**
+ * Integrates one line segment element by element (midpoint rule) from the
+ * hub end. Distributed loads are line weight and cross-flow drag; each element
+ * stretches by T/EA. direction = -1 walks down to the anchor, +1 up to the kite.
+ */
+function integrateSegment(
+  tether: TetherSettings,
+  length: number,
+  hubTension: Vec,
+  direction: 1 | -1,
+  distributedLoad: (tangent: Vec, height: number) => Vec,
+  hubHeight: number
+): { points: TetherPoint[]; end: Vec; endTension: Vec; stretchedLength: number } {
+  const ds = Math.max(length, 0) / ELEMENTS_PER_SEGMENT;
+  const ea = tether.elasticModulus * 1e9 * Math.PI * Math.pow(tether.diameter / 1000, 2) / 4;
+
+  let T: Vec = { ...hubTension };
+  let r: Vec = { x: 0, y: 0 };
+  let stretchedLength = 0;
+  const points: TetherPoint[] = [{ x: 0, y: 0, tension: Math.hypot(T.x, T.y) }];
+
+  const tangentOf = (t: Vec): Vec => {
+    const mag = Math.max(Math.hypot(t.x, t.y), MIN_TENSION);
+    return { x: t.x / mag, y: t.y / mag };
+  };
+
+  for (let i = 0; i < ELEMENTS_PER_SEGMENT; i++) {
+    // Walking down, tension gains the element's load; walking up it sheds it
+    const q1 = distributedLoad(tangentOf(T), hubHeight + r.y);
+    const Tmid = { x: T.x - direction * q1.x * ds / 2, y: T.y - direction * q1.y * ds / 2 };
+    const tMid = tangentOf(Tmid);
+    const rMid = { x: r.x + direction * tMid.x * ds / 2, y: r.y + direction * tMid.y * ds / 2 };
+    const q2 = distributedLoad(tMid, hubHeight + rMid.y);
+
+    const strain = 1 + Math.hypot(Tmid.x, Tmid.y) / Math.max(ea, 1);
+    T = { x: T.x - direction * q2.x * ds, y: T.y - direction * q2.y * ds };
+    r = { x: r.x + direction * tMid.x * strain * ds, y: r.y + direction * tMid.y * strain * ds };
+    stretchedLength += strain * ds;
+    points.push({ x: r.x, y: r.y, tension: Math.hypot(T.x, T.y) });
+  }
+
+  return { points, end: r, endTension: T, stretchedLength };
+}
+
+function buildSegment(points: TetherPoint[], unstretchedLength: number, stretchedLength: number): TetherSegment {
+  const a = points[0];
+  const b = points[points.length - 1];
+  const chord = Math.hypot(b.x - a.x, b.y - a.y);
+  let sag = 0;
+  if (chord > 1e-6) {
+    for (const p of points) {
+      const offset = Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / chord;
+      sag = Math.max(sag, offset);
+    }
+  }
+  return {
+    points: points.map(p => ({
+      x: parseFloat(p.x.toFixed(3)),
+      y: parseFloat(p.y.toFixed(3)),
+      tension: parseFloat(p.tension.toFixed(2))
+    })),
+    unstretchedLength,
+    stretchedLength: parseFloat(stretchedLength.toFixed(3)),
+    stretch: parseFloat((stretchedLength - unstretchedLength).toFixed(3)),
+    lowerTension: parseFloat(a.tension.toFixed(2)),
+    upperTension: parseFloat(b.tension.toFixed(2)),
+    sag: parseFloat(sag.toFixed(3))
+  };
+}
+
+// Line weight plus cross-flow drag per metre for a line with the given tangent
+function lineLoad(params: DesignParams, settings: ModelSettings, airDensity: number) {
+  const tether = settings.tether;
+  const weightPerLength = (tether.linearDensity / 1000) * 9.81;
+  const diameter = tether.diameter / 1000;
+
+  return (tangent: Vec, height: number): Vec => {
+    // Cross-flow principle: only the wind component normal to the line loads it
+    const u = getWindSpeedAtHeight(params, settings.wind, Math.max(height, 0));
+    const along = u * tangent.x;
+    const vn = { x: u - along * tangent.x, y: -along * tangent.y };
+    const vnMag = Math.hypot(vn.x, vn.y);
+    const k = 0.5 * airDensity * tether.dragCoefficient * diameter * vnMag;
+    return { x: k * vn.x, y: k * vn.y - weightPerLength };
+  };
+}
+
+/**
+ * Upper line tension at the hub for a kite pulling with kitePull at the top
+ * end, found by shooting up the line and correcting the hub-end guess.
+ */
+export const upperTensionAtHub = (
+  params: DesignParams,
+  settings: ModelSettings,
+  kitePull: Vec,
+  hubHeight: number,
+  airDensity: number
+): Vec => {
+  const load = lineLoad(params, settings, airDensity);
+  let guess: Vec = { ...kitePull };
+  for (let i = 0; i < 4; i++) {
+    const { endTension } = integrateSegment(settings.tether, settings.tether.upperLength, guess, 1, load, hubHeight);
+    guess = { x: guess.x + kitePull.x - endTension.x, y: guess.y + kitePull.y - endTension.y };
+  }
+  return guess;
+};
+
+/**
+ * Sagged, stretched shape of both line segments. hubForce is the pull of the
+ * lower line on the anchor side of the hub (kite pull plus rotor loads);
+ * kiteForce is the upper line tension at the hub. The catenary is integrated
+ * outward from the hub, so the anchor angle and tension include line weight
+ * and drag.
+ */
+export const solveTether = (
+  params: DesignParams,
+  settings: ModelSettings,
+  hubForce: Vec,
+  kiteForce: Vec,
+  airDensity: number
+): { solution: TetherSolution; anchorForce: Vec } => {
+  const tether = settings.tether;
+  const weightPerLength = (tether.linearDensity / 1000) * 9.81;
+  const distributedLoad = lineLoad(params, settings, airDensity);
+
+  // Two passes: the first places the hub from the straight-line estimate,
+  // the second evaluates wind shear at the sagged heights
+  let hubHeight = getRotorHeight(params, tether.lowerLength);
+  let lower = integrateSegment(tether, tether.lowerLength, hubForce, -1, distributedLoad, hubHeight);
+  hubHeight = Math.max(-lower.end.y, 0);
+  lower = integrateSegment(tether, tether.lowerLength, hubForce, -1, distributedLoad, hubHeight);
+  hubHeight = -lower.end.y;
+  const upper = integrateSegment(tether, tether.upperLength, kiteForce, 1, distributedLoad, hubHeight);
+
+  // Re-origin at the anchor, ordered anchor -> hub -> kite
+  const anchor = lower.end;
+  const lowerPoints = [...lower.points].reverse().map(p => ({ ...p, x: p.x - anchor.x, y: p.y - anchor.y }));
+  const upperPoints = upper.points.map(p => ({ ...p, x: p.x - anchor.x, y: p.y - anchor.y }));
+
+  // Drag is what remains of the tension change once the line weight is removed
+  const lowerDrag = Math.hypot(lower.endTension.x - hubForce.x, lower.endTension.y - hubForce.y + weightPerLength * tether.lowerLength);
+  const upperDrag = Math.hypot(upper.endTension.x - kiteForce.x, upper.endTension.y - kiteForce.y - weightPerLength * tether.upperLength);
+
+  return {
+    solution: {
+      lower: buildSegment(lowerPoints, tether.lowerLength, lower.stretchedLength),
+      upper: buildSegment(upperPoints, tether.upperLength, upper.stretchedLength),
+      hubHeight: parseFloat(hubHeight.toFixed(2)),
+      kiteHeight: parseFloat(upperPoints[upperPoints.length - 1].y.toFixed(2)),
+      lineWeight: parseFloat((weightPerLength * (tether.lowerLength + tether.upperLength)).toFixed(2)),
+      lineDrag: parseFloat((lowerDrag + upperDrag).toFixed(2))
+    },
+    anchorForce: lower.endTension
+  };
+};
+
+/**
+ * Tension in the lower line where it meets the hub, which is what a load cell
+ * between the rotor and the line below it reads.
+ */
+export const lineTensionAtRotor = (tether: TetherSolution): number => tether.lower.upperTension;
+
+/**
+ * A length of line hung from its upper end, where the tension is known, down
+ * to its lower end. Points are relative to the lower end; lowerTension is the
+ * pull the line exerts on whatever holds that end (another rotor, or the
+ * anchor).
+ */
+export const hangSegment = (
+  params: DesignParams,
+  settings: ModelSettings,
+  upperTension: Vec,
+  length: number,
+  upperHeight: number,
+  airDensity: number
+): { segment: TetherSegment; lowerTension: Vec } => {
+  const hung = integrateSegment(settings.tether, length, upperTension, -1, lineLoad(params, settings, airDensity), upperHeight);
+  const end = hung.end;
+  const points = [...hung.points].reverse().map(p => ({ ...p, x: p.x - end.x, y: p.y - end.y }));
+  return {
+    segment: buildSegment(points, length, hung.stretchedLength),
+    lowerTension: hung.endTension
+  };
+};
@@ -0,0 +1,156 @@
+
+import { DesignParams, ModelSettings, ShearModel, TurbulenceModel, WindFieldSettings, WindSeries } from '../types';
+
+export const DEFAULT_WIND_FIELD: WindFieldSettings = {
+  referenceHeight: 10,
+  shearModel: ShearModel.NONE,
+  shearExponent: 0.14, // open terrain
+  roughnessLength: 0.03, // grassland
+  turbulenceModel: TurbulenceModel.NONE,
+  turbulenceIntensity: 0.12,
+  gusts: [],
+  seed: 1
+};
+
+const MIN_HEIGHT = 0.5; // m, keeps shear laws finite at ground level
+const MAX_SPECTRAL_LINES = 600;
+
+/**
+ * Rotor hub height above the anchor from the lower line length and elevation.
+ */
+export const getRotorHeight = (params: DesignParams, lowerLineLength: number): number => {
+  return Math.max(MIN_HEIGHT, lowerLineLength * Math.sin(params.lineAngle * (Math.PI / 180)));
+};
+
+/**
+ * Mean wind at height z. params.windSpeed is the speed at the reference height.
+ */
+export const getWindSpeedAtHeight = (params: DesignParams, wind: WindFieldSettings, height: number): number => {
+  const z = Math.max(MIN_HEIGHT, height);
+  const zRef = Math.max(MIN_HEIGHT, wind.referenceHeight);
+
+  switch (wind.shearModel) {
+    case ShearModel.POWER_LAW:
+      return params.windSpeed * Math.pow(z / zRef, wind.shearExponent);
+    case ShearModel.LOG_LAW: {
+      const z0 = Math.max(1e-4, wind.roughnessLength);
+      if (z <= z0) return 0;
+      return params.windSpeed * Math.log(z / z0) / Math.log(Math.max(zRef, z0 * 1.01) / z0);
+    }
+    default:
+      return params.windSpeed;
+  }
+};
+
+/**
+ * Mean wind at rotor height.
+ */
+export const getHubWindSpeed = (params: DesignParams, settings: ModelSettings): number => {
+  return getWindSpeedAtHeight(params, settings.wind, getRotorHeight(params, settings.tether.lowerLength));
+};
+
+// Seeded PRNG (mulberry32) so a run is repeatable for the same seed
+export function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * One-sided longitudinal turbulence spectrum S(f) in (m/s)^2/Hz, with
+ * IEC 61400-1 length scales (Lambda = 0.7 * min(z, 60)).
+ */
+function turbulenceSpectrum(model: TurbulenceModel, f: number, sigma: number, meanSpeed: number, z: number): number {
+  const lambda = 0.7 * Math.min(z, 60);
+
+  if (model === TurbulenceModel.KAIMAL) {
+    const L = 8.1 * lambda;
+    return (sigma * sigma * 4 * L / meanSpeed) / Math.pow(1 + 6 * f * L / meanSpeed, 5 / 3);
+  }
+  if (model === TurbulenceModel.VON_KARMAN) {
+    const L = 3.5 * lambda;
+    return (sigma * sigma * 4 * L / meanSpeed) / Math.pow(1 + 70.8 * Math.pow(f * L / meanSpeed, 2), 5 / 6);
+  }
+  return 0;
+}
+
+/**
+ * 1-cosine discrete gust velocity at time t.
+ */
+function gustVelocity(wind: WindFieldSettings, t: number): number {
+  let u = 0;
+  for (const gust of wind.gusts) {
+    if (gust.duration <= 0) continue;
+    const tau = t - gust.startTime;
+    if (tau >= 0 && tau <= gust.duration) {
+      u += 0.5 * gust.amplitude * (1 - Math.cos((2 * Math.PI * tau) / gust.duration));
+    }
+  }
+  return u;
+}
+
+/**
+ * Wind speed time series at rotor height: sheared mean plus turbulence
+ * synthesised from the spectrum as a sum of random-phase harmonics, plus gusts.
+ */
+export const generateWindSeries = (
+  params: DesignParams,
+  settings: ModelSettings,
+  duration: number,
+  timeStep: number
+): WindSeries => {
+  const wind = settings.wind;
+  const rotorHeight = getRotorHeight(params, settings.tether.lowerLength);
+  const hubMeanSpeed = getHubWindSpeed(params, settings);
+  const n = Math.max(1, Math.round(duration / timeStep)) + 1;
+
+  const time: number[] = [];
+  const speed: number[] = [];
+  for (let i = 0; i < n; i++) {
+    time.push(i * timeStep);
+    speed.push(hubMeanSpeed);
+  }
+
+  // --- Turbulence ---
+  const sigma = wind.turbulenceIntensity * hubMeanSpeed;
+  if (wind.turbulenceModel !== TurbulenceModel.NONE && sigma > 0 && hubMeanSpeed > 0) {
+    const random = createRandom(wind.seed);
+    const df = 1 / duration;
+    const nyquistLines = Math.floor(1 / (2 * timeStep * df));
+    const lines = Math.min(nyquistLines, MAX_SPECTRAL_LINES);
+
+    for (let k = 1; k <= lines; k++) {
+      const f = k * df;
+      const amplitude = Math.sqrt(2 * turbulenceSpectrum(wind.turbulenceModel, f, sigma, hubMeanSpeed, rotorHeight) * df);
+      const phase = 2 * Math.PI * random();
+      const w = 2 * Math.PI * f;
+      for (let i = 0; i < n; i++) {
+        speed[i] += amplitude * Math.cos(w * time[i] + phase);
+      }
+    }
+  }
+
+  // --- Gusts ---
+  for (let i = 0; i < n; i++) {
+    speed[i] = Math.max(0, speed[i] + gustVelocity(wind, time[i]));
+  }
+
+  return { time, speed, hubMeanSpeed, rotorHeight };
+};
+
+/**
+ * Linearly interpolated wind speed from a series at time t.
+ */
+export const windAt = (series: WindSeries, t: number): number => {
+  const dt = series.time.length > 1 ? series.time[1] - series.time[0] : 1;
+  const x = Math.max(0, t / dt);
+  const i = Math.min(series.speed.length - 1, Math.floor(x));
+  const next = Math.min(series.speed.length - 1, i + 1);
+  const f = x - i;
+  return series.speed[i] + f * (series.speed[next] - series.speed[i]);
+};
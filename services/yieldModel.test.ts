@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseWindHistogram } from './yieldModel';
+
+const HOURS_PER_YEAR = 8760;
+
+describe('parseWindHistogram', () => {
+  it('scales a speed,count histogram to a year, skipping headers and merging repeats', () => {
+    const bins = parseWindHistogram('speed,count\n4,1\n2,2\n4,1\n');
+    expect(bins).toEqual([
+      { speed: 2, hours: HOURS_PER_YEAR / 2 },
+      { speed: 4, hours: HOURS_PER_YEAR / 2 }
+    ]);
+  });
+
+  it('bins single-column speed samples at 1 m/s', () => {
+    const bins = parseWindHistogram('# anemometer\n3.2\n3.9\n5.0\n');
+    expect(bins.map(b => b.speed)).toEqual([3.5, 5.5]);
+    expect(bins[0].hours).toBeCloseTo((HOURS_PER_YEAR * 2) / 3);
+  });
+
+  it('refuses negative speeds or counts, and a histogram row missing its count', () => {
+    expect(() => parseWindHistogram('-1\n2')).toThrow(/Invalid wind data row/);
+    expect(() => parseWindHistogram('2 5\n3 -1')).toThrow(/Invalid wind data row/);
+    expect(() => parseWindHistogram('2 5\n3')).toThrow(/Invalid wind data row/);
+  });
+
+  it('refuses text without wind data', () => {
+    expect(() => parseWindHistogram('speed,count\n')).toThrow(/No wind speed data found/);
+    expect(() => parseWindHistogram('2,0\n')).toThrow(/No wind speed data found/);
+  });
+});
@@ -0,0 +1,202 @@
+import { DesignParams, DrivetrainMode, DrivetrainOptimum, ModalFrequencies, ModelSettings, WindBin, WindDistribution, YieldOptions, YieldResult } from '../types';
+import { calculatePhysics } from './physicsEngine';
+import { solvePumpingCycle } from './drivetrainModel';
+import { lineTensionAtRotor } from './tetherModel';
+
+export const DEFAULT_YIELD_OPTIONS: YieldOptions = {
+  distribution: WindDistribution.WEIBULL,
+  weibullK: 2,
+  weibullC: 7,
+  measured: [],
+  payloadThrust: 100,
+  overspeedRpm: 900
+};
+
+const HOURS_PER_YEAR = 8760;
+const MAX_WIND = 30; // m/s, top of the distribution
+const BIN_WIDTH = 1; // m/s
+const CURVE_STEP = 2; // m/s between calculatePhysics points; bins interpolate
+const GEAR_RATIO_MIN = 1;
+const GEAR_RATIO_MAX = 30;
+const GEAR_RATIO_STEPS = 12; // log-spaced, one steady solution each
+const REEL_OUT_STEPS = 60;
+const REEL_OUT_MAX = 15; // m/s
+
+export interface PerformancePoint {
+  windSpeed: number; // m/s at the reference height
+  power: number; // W, electrical
+  shaftPower: number; // W into the drivetrain
+  thrust: number; // N
+  lineTension: number; // N, in the line just below the rotor
+  rpm: number;
+  modes: ModalFrequencies; // for the Campbell diagram
+}
+
+/**
+ * Power, thrust, line tension, RPM and natural frequencies against
+ * reference-height wind speed from the steady model.
+ */
+export const buildPerformanceCurve = (params: DesignParams, settings: ModelSettings): PerformancePoint[] => {
+  const curve: PerformancePoint[] = [];
+  for (let w = 0; w <= MAX_WIND; w += CURVE_STEP) {
+    const res = calculatePhysics({ ...params, windSpeed: w }, settings);
+    curve.push({
+      windSpeed: w,
+      power: Math.max(res.powerOutput, 0),
+      shaftPower: res.drivetrain.shaftPower,
+      thrust: res.generatedThrust,
+      lineTension: lineTensionAtRotor(res.tether),
+      rpm: res.rpm,
+      modes: res.modes
+    });
+  }
+  return curve;
+};
+
+/**
+ * Drivetrain loading giving the most electrical power at the design wind. For
+ * a rotary drivetrain that is the gear ratio, and each candidate needs a full
+ * steady solution because the generator load sets the rotor speed. For a
+ * pumping winch it is the reel-out speed, which leaves the stationary solution
+ * alone and only scales the pull.
+ */
+export const findOptimumLoading = (params: DesignParams, settings: ModelSettings): DrivetrainOptimum => {
+  const { drivetrain } = settings;
+  let best: DrivetrainOptimum = { loading: 0, electricalPower: -Infinity, rpm: 0 };
+
+  if (drivetrain.mode === DrivetrainMode.PUMPING) {
+    const res = calculatePhysics(params, settings);
+    const { anchorTension, anchorAngle } = res.anchorAnalysis;
+    // Beyond this speed the line outruns the wind and the pull vanishes
+    const stall = res.hubWindSpeed / Math.max(Math.cos(anchorAngle * (Math.PI / 180)), 1e-3);
+    const top = Math.min(stall, REEL_OUT_MAX);
+    for (let i = 1; i <= REEL_OUT_STEPS; i++) {
+      const speed = (top * i) / REEL_OUT_STEPS;
+      const cycle = solvePumpingCycle(drivetrain, anchorTension, res.hubWindSpeed, anchorAngle, speed);
+      if (cycle.electricalPower > best.electricalPower) {
+        best = { loading: speed, electricalPower: cycle.electricalPower, rpm: res.rpm };
+      }
+    }
+  } else {
+    for (let i = 0; i <= GEAR_RATIO_STEPS; i++) {
+      const gearRatio = GEAR_RATIO_MIN * Math.pow(GEAR_RATIO_MAX / GEAR_RATIO_MIN, i / GEAR_RATIO_STEPS);
+      const res = calculatePhysics(params, { ...settings, drivetrain: { ...drivetrain, gearRatio } });
+      if (res.powerOutput > best.electricalPower) {
+        best = { loading: gearRatio, electricalPower: res.powerOutput, rpm: res.rpm };
+      }
+    }
+  }
+
+  return {
+    loading: parseFloat(best.loading.toFixed(2)),
+    electricalPower: parseFloat(Math.max(best.electricalPower, 0).toFixed(2)),
+    rpm: best.rpm
+  };
+};
+
+const interpolateCurve = (curve: PerformancePoint[], speed: number): Omit<PerformancePoint, 'modes'> => {
+  if (speed <= curve[0].windSpeed) return curve[0];
+  const last = curve[curve.length - 1];
+  if (speed >= last.windSpeed) return last;
+  const i = curve.findIndex(p => p.windSpeed > speed);
+  const a = curve[i - 1];
+  const b = curve[i];
+  const f = (speed - a.windSpeed) / (b.windSpeed - a.windSpeed);
+  return {
+    windSpeed: speed,
+    power: a.power + f * (b.power - a.power),
+    shaftPower: a.shaftPower + f * (b.shaftPower - a.shaftPower),
+    thrust: a.thrust + f * (b.thrust - a.thrust),
+    lineTension: a.lineTension + f * (b.lineTension - a.lineTension),
+    rpm: a.rpm + f * (b.rpm - a.rpm)
+  };
+};
+
+/**
+ * Hours per year in 1 m/s bins for a Weibull distribution. The top bin takes
+ * everything above it.
+ */
+export const weibullBins = (k: number, c: number): WindBin[] => {
+  const cdf = (v: number) => 1 - Math.exp(-Math.pow(v / Math.max(c, 1e-6), Math.max(k, 1e-3)));
+  const bins: WindBin[] = [];
+  for (let lo = 0; lo < MAX_WIND; lo += BIN_WIDTH) {
+    const hi = lo + BIN_WIDTH;
+    const p = (hi >= MAX_WIND ? 1 : cdf(hi)) - cdf(lo);
+    bins.push({ speed: lo + BIN_WIDTH / 2, hours: p * HOURS_PER_YEAR });
+  }
+  return bins;
+};
+
+/**
+ * Reads measured wind from CSV or whitespace-separated text. Two numeric
+ * columns are a histogram (speed, then count, hours or frequency); a single
+ * column is raw speed samples, binned at 1 m/s. Either way the total is scaled
+ * to a year. Header and comment lines are skipped.
+ */
+export const parseWindHistogram = (text: string): WindBin[] => {
+  const histogram = new Map<number, number>();
+  let twoColumn: boolean | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const tokens = rawLine.trim().split(/[\s,;]+/).filter(Boolean);
+    const values = tokens.map(Number);
+    if (tokens.length === 0 || !Number.isFinite(values[0])) continue;
+
+    const rowIsPair = values.length >= 2 && Number.isFinite(values[1]);
+    if (twoColumn === null) twoColumn = rowIsPair;
+    if (values[0] < 0 || (twoColumn && (!rowIsPair || values[1] < 0))) {
+      throw new Error(`Invalid wind data row: "${rawLine.trim()}"`);
+    }
+
+    if (twoColumn) {
+      histogram.set(values[0], (histogram.get(values[0]) ?? 0) + values[1]);
+    } else {
+      const centre = Math.floor(values[0] / BIN_WIDTH) * BIN_WIDTH + BIN_WIDTH / 2;
+      histogram.set(centre, (histogram.get(centre) ?? 0) + 1);
+    }
+  }
+
+  const total = [...histogram.values()].reduce((sum, v) => sum + v, 0);
+  if (histogram.size === 0 || total <= 0) {
+    throw new Error('No wind speed data found. Expected speed samples or speed,count rows.');
+  }
+  return [...histogram.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([speed, weight]) => ({ speed, hours: (weight / total) * HOURS_PER_YEAR }));
+};
+
+/**
+ * Annual yield: the performance curve weighted by hours per wind bin.
+ */
+export const estimateYield = (curve: PerformancePoint[], options: YieldOptions): YieldResult => {
+  const distribution = options.distribution === WindDistribution.MEASURED && options.measured.length > 0
+    ? options.measured
+    : weibullBins(options.weibullK, options.weibullC);
+
+  const bins = distribution.map(bin => {
+    const point = interpolateCurve(curve, bin.speed);
+    return {
+      speed: bin.speed,
+      hours: parseFloat(bin.hours.toFixed(1)),
+      power: parseFloat(point.power.toFixed(2)),
+      thrust: parseFloat(point.thrust.toFixed(2)),
+      rpm: Math.round(point.rpm),
+      energy: parseFloat(((point.power * bin.hours) / 1000).toFixed(3))
+    };
+  });
+
+  const annualEnergy = bins.reduce((sum, b) => sum + b.energy, 0);
+  const ratedPower = Math.max(0, ...curve.map(p => p.power));
+  const hoursAbovePayload = bins.filter(b => b.thrust >= options.payloadThrust).reduce((sum, b) => sum + b.hours, 0);
+  const hoursOverspeed = bins.filter(b => b.rpm > options.overspeedRpm).reduce((sum, b) => sum + b.hours, 0);
+
+  return {
+    bins,
+    annualEnergy: parseFloat(annualEnergy.toFixed(1)),
+    meanPower: parseFloat(((annualEnergy * 1000) / HOURS_PER_YEAR).toFixed(2)),
+    ratedPower: parseFloat(ratedPower.toFixed(2)),
+    capacityFactor: ratedPower > 0 ? parseFloat(((annualEnergy * 1000) / (ratedPower * HOURS_PER_YEAR)).toFixed(3)) : 0,
+    hoursAbovePayload: Math.round(hoursAbovePayload),
+    hoursOverspeed: Math.round(hoursOverspeed)
+  };
+};
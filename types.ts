@@ -1,20 +1,353 @@
 
 
+export enum PlanformDistribution {
+  LINEAR = 'linear', // straight taper and linear twist
+  SPLINE = 'spline' // chord and twist through control points
+}
+
+export enum TipShape {
+  SQUARE = 'square',
+  ROUNDED = 'rounded',
+  POINTED = 'pointed'
+}
+
+export interface PlanformControlPoint {
+  span: number; // fraction of rotor radius
+  chord: number; // fraction of bladeChord
+  twist: number; // degrees added to bladePitch
+}
+
+export interface BladePlanform {
+  distribution: PlanformDistribution;
+  taperRatio: number; // tip chord / root chord (linear)
+  twist: number; // degrees from root to tip, negative washes the tip out; zero at 75% span (linear)
+  rootCutout: number; // fraction of radius inboard of the aerofoil
+  tipShape: TipShape;
+  controlPoints: PlanformControlPoint[]; // sorted by span (spline)
+}
+
 export interface DesignParams {
   bladeLength: number; // meters
-  bladeChord: number; // meters
-  bladePitch: number; // degrees
+  bladeChord: number; // meters, at the root of the aerofoil
+  bladePitch: number; // degrees, at 75% span
+  bladeCount: number; // 2 teeters; more need a gimbal or flapping hinges
+  planform: BladePlanform;
   rotorMass: number; // kg
-  lineTension: number; // Newtons (initial)
+  lineTension: number; // Newtons at the hub (used when the kite model is overridden)
   lineAngle: number; // degrees relative to ground
   windSpeed: number; // m/s
   hubDiameter: number; // meters (the hole for the line)
   rotorTilt: number; // degrees, misalignment relative to line (spherical bearing control)
+  airfoilId: string; // key into the airfoil polar database
+}
+
+export interface PolarPoint {
+  alpha: number; // degrees
+  cl: number;
+  cd: number;
+  cm: number;
+}
+
+export interface ReynoldsPolar {
+  reynolds: number;
+  points: PolarPoint[]; // sorted by alpha
+}
+
+export interface Airfoil {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  polars: ReynoldsPolar[]; // sorted by reynolds
+}
+
+export enum AeroModel {
+  BEMT = 'bemt',
+  PCA2 = 'pca2'
+}
+
+export enum ShearModel {
+  NONE = 'none',
+  POWER_LAW = 'power',
+  LOG_LAW = 'log'
+}
+
+export enum TurbulenceModel {
+  NONE = 'none',
+  KAIMAL = 'kaimal',
+  VON_KARMAN = 'vonKarman'
+}
+
+export interface DiscreteGust {
+  startTime: number; // s
+  duration: number; // s
+  amplitude: number; // m/s (peak of the 1-cosine shape)
+}
+
+export interface WindFieldSettings {
+  referenceHeight: number; // m (height at which windSpeed is measured)
+  shearModel: ShearModel;
+  shearExponent: number; // power law alpha
+  roughnessLength: number; // m (log law z0)
+  turbulenceModel: TurbulenceModel;
+  turbulenceIntensity: number; // sigma_u / U (0-1)
+  gusts: DiscreteGust[];
+  seed: number;
+}
+
+export interface AtmosphereSettings {
+  elevation: number; // m, launch site above sea level
+  temperatureOffset: number; // K, deviation from ISA temperature
+  pressureOffset: number; // hPa, deviation from ISA pressure at the site
+  relativeHumidity: number; // %
+}
+
+export interface AtmosphereState {
+  altitude: number; // m above sea level
+  temperature: number; // deg C
+  pressure: number; // hPa
+  density: number; // kg/m^3, moist air
+  kinematicViscosity: number; // m^2/s
+  densityAltitude: number; // m, ISA altitude with the same density
+}
+
+export interface WindSeries {
+  time: number[]; // s
+  speed: number[]; // m/s at rotor height
+  hubMeanSpeed: number; // m/s (after shear)
+  rotorHeight: number; // m
+}
+
+export enum LineMaterial {
+  DYNEEMA = 'dyneema',
+  POLYESTER = 'polyester',
+  NYLON = 'nylon'
+}
+
+export interface TetherSettings {
+  material: LineMaterial;
+  diameter: number; // mm
+  linearDensity: number; // g/m
+  elasticModulus: number; // GPa (effective, rope construction included)
+  dragCoefficient: number; // cross-flow Cd of the line
+  lowerLength: number; // m unstretched, anchor to rotor hub
+  upperLength: number; // m unstretched, rotor hub to kite
+}
+
+export enum KitePreset {
+  DELTA = 'delta',
+  SLED = 'sled',
+  PARAFOIL = 'parafoil',
+  ROKKAKU = 'rokkaku',
+  CUSTOM = 'custom'
+}
+
+export interface KiteSettings {
+  preset: KitePreset;
+  area: number; // m^2
+  liftCoefficient: number;
+  dragCoefficient: number;
+  mass: number; // kg
+  overrideLineTension: boolean; // use DesignParams.lineTension instead of the kite pull
+  overrideLineAngle: boolean; // use DesignParams.lineAngle instead of the kite elevation
+}
+
+export enum HubType {
+  TEETERING = 'teetering', // two blades rocking on one pin
+  GIMBAL = 'gimbal', // three or more blades tilting together on a universal joint
+  ARTICULATED = 'articulated' // each blade on its own flapping hinge
+}
+
+export interface TeeterSettings {
+  hubType: HubType; // teetering needs two blades; gimbals three or more
+  bladeMassFraction: number; // share of rotorMass in the blades (rest is hub)
+  tipMassFraction: number; // share of blade mass concentrated at the tip (tip weights)
+  undersling: number; // m, blade plane below the teeter pin or gimbal centre
+  delta3: number; // degrees, pitch-flap coupling angle of the pin or hinges
+  hingeOffset: number; // fraction of radius from the axis to the flapping hinges (articulated)
+  stopAngle: number; // degrees, flap travel before the blades hit the hub stops
+}
+
+export enum BearingType {
+  PLAIN_BUSHING = 'plainBushing',
+  BALL = 'ball',
+  SPHERICAL_PLAIN = 'sphericalPlain'
+}
+
+export interface BearingSettings {
+  type: BearingType;
+  frictionCoefficient: number; // referred to the bore (hubDiameter)
+  width: number; // m, bearing length along the line
+  dynamicLoadRating: number; // N, C for L10 life (ball bearings)
+  pvLimit: number; // MPa·m/s, pressure-velocity limit (plain bearings)
+}
+
+export enum BladeMaterial {
+  BALSA_GLASS = 'balsaGlass',
+  CARBON_SPAR = 'carbonSpar',
+  PETG = 'petg',
+  ALUMINIUM = 'aluminium'
+}
+
+export enum SparSection {
+  RECTANGULAR = 'rectangular',
+  TUBE = 'tube'
+}
+
+export interface StructureSettings {
+  material: BladeMaterial;
+  elasticModulus: number; // GPa
+  yieldStrength: number; // MPa (ultimate for composites)
+  fatigueStrength: number; // MPa, alternating stress for ~1e7 cycles
+  sparSection: SparSection;
+  sparWidth: number; // mm, chordwise (rectangular)
+  sparHeight: number; // mm, flapwise depth; outer diameter for a tube
+  sparWall: number; // mm, tube wall thickness
+}
+
+export interface StabilitySettings {
+  mastHeight: number; // m, rotor hub above the spherical bearing centre along the rotor axis
+  controlStiffness: number; // N·m/rad, tilt control linkage holding rotorTilt
+  controlDamping: number; // N·m·s/rad, tilt control linkage
+}
+
+export enum DrivetrainMode {
+  ROTARY = 'rotary', // rotor torque carried down the line to a ground generator
+  PUMPING = 'pumping' // line reeled out under tension from a ground winch, then reeled in
+}
+
+export interface DrivetrainSettings {
+  mode: DrivetrainMode;
+  transmissionEfficiency: number; // 0-1, rotary transmission from hub to ground station
+  gearRatio: number; // generator speed / input speed (rotor or winch drum)
+  gearboxEfficiency: number; // 0-1
+  generatorConstant: number; // V·s/rad (= N·m/A), permanent-magnet generator
+  windingResistance: number; // Ohm
+  batteryVoltage: number; // V, DC bus the generator charges
+  converterEfficiency: number; // 0-1, rectifier/charge controller
+  drumRadius: number; // m, winch drum (pumping)
+  reelOutSpeed: number; // m/s (pumping)
+  reelInSpeed: number; // m/s (pumping)
+  reelInTension: number; // fraction of reel-out tension while depowered and reeled in (pumping)
+}
+
+// Rotor shape and mass, without the line loads and wind the line train supplies
+export type RotorGeometry = Pick<
+  DesignParams,
+  'bladeLength' | 'bladeChord' | 'bladePitch' | 'bladeCount' | 'planform' | 'rotorMass' | 'hubDiameter' | 'rotorTilt' | 'airfoilId'
+>;
+
+export interface TrainRotor {
+  id: string;
+  name: string;
+  position: number; // m along the line from the anchor
+  geometry: RotorGeometry;
+}
+
+export interface LineTrainSettings {
+  enabled: boolean;
+  rotors: TrainRotor[]; // besides the design's own rotor, which sits at tether.lowerLength
+  wakeInterference: boolean;
+  wakeExpansion: number; // wake radius growth per metre downwind
+}
+
+// One operating point from a test day: rig load cell and tachometer
+export interface TestPoint {
+  windSpeed: number; // m/s at the rotor
+  rpm: number;
+  lineTension: number; // N, in the line just below the rotor
+  lineAngle: number; // degrees
+  rotorTilt: number; // degrees
+  power: number | null; // W electrical, when logged
+}
+
+export interface TestLog {
+  name: string; // file it came from
+  points: TestPoint[];
+}
+
+// Multipliers on the model's empirical parts, fitted to test data
+export interface CalibrationFactors {
+  tipSpeedScale: number; // tip speed ratio: the PCA-2 TSR curve, or the BEMT autorotation speed
+  liftScale: number; // rotor lift: the PCA-2 lift coefficient table, or the BEMT lift
+  dragScale: number; // rotor drag: the PCA-2 drag coefficient table, or the BEMT drag
+  efficiencyScale: number; // drivetrain electrical output
+}
+
+export interface CalibrationFitSummary {
+  logName: string;
+  aeroModel: AeroModel; // model the factors were fitted for
+  pointCount: number;
+  rpmRms: number; // rpm
+  tensionRms: number; // N
+  powerRms: number | null; // W, when the log has power
+}
+
+export interface CalibrationSettings {
+  enabled: boolean;
+  name: string; // the calibrated model's name
+  factors: CalibrationFactors;
+  fit: CalibrationFitSummary | null; // how well the factors matched their log
+}
+
+export interface ModelSettings {
+  aeroModel: AeroModel;
+  radialStations: number; // BEMT blade elements per blade
+  wind: WindFieldSettings;
+  atmosphere: AtmosphereSettings;
+  tether: TetherSettings;
+  kite: KiteSettings;
+  teeter: TeeterSettings;
+  bearing: BearingSettings;
+  structure: StructureSettings;
+  stability: StabilitySettings;
+  drivetrain: DrivetrainSettings;
+  lineTrain: LineTrainSettings;
+  calibration: CalibrationSettings;
+}
+
+export interface KiteEquilibrium {
+  lift: number; // N
+  drag: number; // N
+  weight: number; // N
+  pull: number; // N, line tension at the kite
+  elevation: number; // deg, line angle at the kite
+  windSpeed: number; // m/s at kite height
+  kiteHeight: number; // m above the anchor, straight-line estimate used for shear
+  lineTension: number; // N at the hub (kite pull or override)
+  lineAngle: number; // deg at the hub (kite elevation or override)
+  airborne: boolean; // false if lift cannot carry the kite's own weight
+  converged: boolean; // hub angle and tension settled within tolerance
+  iterations: number;
+}
+
+export interface TetherPoint {
+  x: number; // m downwind of the anchor
+  y: number; // m above the anchor
+  tension: number; // N
+}
+
+export interface TetherSegment {
+  points: TetherPoint[]; // ordered from the lower end to the upper end
+  unstretchedLength: number; // m
+  stretchedLength: number; // m
+  stretch: number; // m
+  lowerTension: number; // N
+  upperTension: number; // N
+  sag: number; // m, largest offset from the straight chord
+}
+
+export interface TetherSolution {
+  lower: TetherSegment;
+  upper: TetherSegment;
+  hubHeight: number; // m above the anchor
+  kiteHeight: number; // m above the anchor
+  lineWeight: number; // N, both segments
+  lineDrag: number; // N, both segments
 }
 
 export interface AnchorAnalysis {
   anchorTension: number;
-  anchorAngle: number;
+  anchorAngle: number; // true exit angle at the anchor, including line weight and drag
   lowerLineTensionX: number;
   lowerLineTensionY: number;
 }
@@ -27,6 +360,118 @@ export interface BladeAerodynamics {
   retreatingAoA: number; // degrees
   advanceRatio: number; // mu
   reynoldsNumber: number;
+  inducedVelocity: number; // m/s (mean induced velocity through disk, BEMT only)
+  stallAngle: number; // degrees (positive stall angle of the selected polar at reynoldsNumber)
+}
+
+export interface TeeterSolution {
+  hubType: HubType; // the hub actually modelled for this blade count
+  amplitude: number; // degrees, first-harmonic teeter, gimbal tilt or blade flap angle
+  phaseLag: number; // degrees, peak teeter behind peak lift asymmetry
+  naturalFrequency: number; // per rev
+  lockNumber: number;
+  flapInertia: number; // kg·m^2 about the teeter pin, gimbal axis or one flapping hinge
+  hubMoment: number; // N·m, 1/rev moment amplitude on the hub from the lift asymmetry
+  bladeMoment: number; // N·m, 1/rev flap moment amplitude on one blade
+  stopContact: boolean; // amplitude exceeds the hub stop angle
+}
+
+export interface BearingSolution {
+  radialLoad: number; // N, rotor force across the line
+  axialLoad: number; // N, rotor force along the line
+  equivalentLoad: number; // N
+  frictionTorque: number; // N·m, subtracted from the autorotation torque
+  heat: number; // W
+  pv: number; // MPa·m/s
+  pvExceeded: boolean; // plain bearings only
+  l10Hours: number | null; // ball bearings only, null when not spinning
+  minWindToSpin: number | null; // m/s to keep autorotation going once spinning, null if friction always wins
+}
+
+export enum StructuralStatus {
+  OK = 'ok',
+  MARGINAL = 'marginal',
+  OVERSTRESSED = 'overstressed'
+}
+
+export interface BladeStation {
+  r: number; // m from the hub centre
+  stress: number; // MPa, peak (mean + alternating)
+  safetyFactor: number; // lower of yield and fatigue
+  status: StructuralStatus;
+}
+
+export interface StructuralSolution {
+  centrifugalForce: number; // N at the blade root
+  centrifugalStress: number; // MPa
+  flapMoment: number; // N·m, mean flapwise root bending
+  leadLagMoment: number; // N·m, mean lead-lag root bending
+  alternatingMoment: number; // N·m, 1/rev root bending amplitude
+  tipDeflection: number; // mm, flapwise (no centrifugal stiffening)
+  maxStress: number; // MPa
+  yieldSafetyFactor: number;
+  fatigueSafetyFactor: number; // Goodman
+  status: StructuralStatus;
+  stations: BladeStation[]; // root to tip
+}
+
+export interface ModalFrequencies {
+  flap: number; // Hz, first elastic flap bending, centrifugally stiffened
+  lag: number; // Hz, first lead-lag bending
+  teeter: number; // Hz, rigid teeter about the pin
+  hubWhirl: number; // Hz, rotor mass bouncing across the line between its two spans
+  lowerLine: number; // Hz, first transverse string mode, anchor to hub
+  upperLine: number; // Hz, first transverse string mode, hub to kite
+}
+
+export interface ResonanceCrossing {
+  mode: keyof ModalFrequencies;
+  order: number; // excitation harmonic, n per rev
+  windSpeed: number; // m/s
+  rpm: number;
+  frequency: number; // Hz
+}
+
+export enum StabilityModeKind {
+  NUTATION = 'nutation',
+  PRECESSION = 'precession',
+  SWING = 'swing',
+  SPIN = 'spin'
+}
+
+export interface StabilityMode {
+  kind: StabilityModeKind;
+  real: number; // 1/s, eigenvalue real part
+  imag: number; // rad/s, eigenvalue imaginary part (>= 0, one entry per conjugate pair)
+  dampingRatio: number; // -real/|lambda|; negative when unstable
+  period: number | null; // s, null for non-oscillatory modes
+  timeToDouble: number | null; // s to double (unstable) or halve (stable) amplitude; null if neutral
+  stable: boolean;
+}
+
+export interface StabilitySolution {
+  modes: StabilityMode[];
+  minDampingRatio: number;
+  stable: boolean;
+  spinning: boolean; // false when the rotor isn't turning and there is no spin mode
+}
+
+export interface DrivetrainSolution {
+  mode: DrivetrainMode;
+  shaftPower: number; // W into the drivetrain: rotor shaft, or winch drum while reeling out
+  generatorRpm: number;
+  generatorTorque: number; // N·m
+  current: number; // A into the battery
+  electricalPower: number; // W delivered to the battery, cycle-averaged when pumping
+  efficiency: number; // 0-1, electrical over shaft power
+  lineTension: number; // N at the winch while reeling out (pumping), else 0
+  cutIn: boolean; // generator voltage above the battery's
+}
+
+export interface DrivetrainOptimum {
+  loading: number; // gear ratio (rotary) or reel-out speed in m/s (pumping)
+  electricalPower: number; // W at that loading
+  rpm: number; // rotor RPM at that loading
 }
 
 export interface SimulationResult {
@@ -38,11 +483,144 @@ export interface SimulationResult {
   gravity: number; // Newtons (weight of rotor)
   tipSpeed: number; // m/s
   tipSpeedRatio: number;
-  stabilityScore: number; // 0-100
-  powerOutput: number; // Watts (theoretical extraction)
+  stabilityScore: number; // 0-100, from the least damped mode of the stability analysis
+  powerOutput: number; // Watts, electrical output of the drivetrain
   angleOfAttack: number; // degrees (The effective angle between wind and rotor disk)
+  hubWindSpeed: number; // m/s, mean wind at rotor height after shear
+  atmosphere: AtmosphereState; // air at rotor height
+  aeroModel: AeroModel; // Model that produced these results
+  converged: boolean; // False if the BEMT solver hit its iteration limits
   anchorAnalysis: AnchorAnalysis;
+  tether: TetherSolution;
+  kite: KiteEquilibrium;
   bladeAerodynamics: BladeAerodynamics;
+  teeter: TeeterSolution;
+  bearing: BearingSolution;
+  structure: StructuralSolution;
+  modes: ModalFrequencies;
+  stability: StabilitySolution;
+  drivetrain: DrivetrainSolution;
+}
+
+export interface TrainRotorResult {
+  id: string;
+  name: string;
+  position: number; // m along the line from the anchor
+  x: number; // m downwind of the anchor
+  y: number; // m above the anchor
+  params: DesignParams; // geometry with the line loads and wind it flew in
+  wakeDeficit: number; // 0-1, wind lost to the wakes of upwind rotors
+  lineTension: number; // N, line above the rotor
+  lineAngle: number; // degrees, line above the rotor
+  result: SimulationResult;
+}
+
+export interface LineTrainSolution {
+  rotors: TrainRotorResult[]; // anchor to kite
+  segments: TetherSegment[]; // anchor to kite, one more than the rotors
+  kite: KiteEquilibrium;
+  totalThrust: number; // N, added line tension summed over the rotors
+  totalPower: number; // W, summed rotor generators, or the winch in pumping mode
+  anchorTension: number; // N
+  anchorAngle: number; // degrees
+  lineWeight: number; // N
+}
+
+// Model against one test point
+export interface CalibrationResidual {
+  point: TestPoint;
+  rpm: number;
+  lineTension: number; // N, predicted in the line just below the rotor
+  power: number; // W
+}
+
+export interface CalibrationFit {
+  summary: CalibrationFitSummary;
+  residuals: CalibrationResidual[];
+}
+
+export interface CalibrationResult {
+  factors: CalibrationFactors;
+  fitted: (keyof CalibrationFactors)[];
+  before: CalibrationFit; // with the factors the run started from
+  after: CalibrationFit;
+  iterations: number;
+}
+
+export interface TimeSimulationOptions {
+  duration: number; // s
+  timeStep: number; // s (RK4 step)
+  sampleInterval: number; // s (recorded history spacing)
+  initialRpm: number;
+}
+
+export interface TimeSample {
+  time: number; // s
+  rpm: number;
+  thrust: number; // N (along rotor axis)
+  teeterAngle: number; // degrees
+  teeterAmplitude: number; // degrees (1/rev flapping amplitude)
+  azimuth: number; // radians (blade 1 position)
+  hubOffset: number; // m (hub displacement perpendicular to the line, + up/upwind)
+  windSpeed: number; // m/s at rotor height
+  lineTension: number; // N (lower line, at the anchor)
+}
+
+export interface RunStatistics {
+  mean: number;
+  p95: number;
+  peak: number;
+}
+
+export interface TimeSimulationResult {
+  history: TimeSample[];
+  steadyRpm: number; // Equilibrium RPM including bearing friction (0 if none)
+  spinUpTime: number | null; // s to reach 90% of steadyRpm, null if never
+  overshoot: number; // % above steadyRpm
+  autorotationReached: boolean; // RPM settled over the end of the run
+  selfStarting: boolean; // spins up from rest to steadyRpm by itself
+  prerotationRpm: number; // RPM to bring the rotor to before it carries on by itself, 0 if it self-starts
+  statistics: {
+    rpm: RunStatistics;
+    lineTension: RunStatistics;
+    windSpeed: RunStatistics;
+  };
+}
+
+export enum WindDistribution {
+  WEIBULL = 'weibull',
+  MEASURED = 'measured'
+}
+
+export interface WindBin {
+  speed: number; // m/s, bin centre at the reference height
+  hours: number; // per year
+}
+
+export interface YieldOptions {
+  distribution: WindDistribution;
+  weibullK: number; // shape
+  weibullC: number; // m/s, scale
+  measured: WindBin[]; // imported histogram, scaled to a year
+  payloadThrust: number; // N of line tension needed to lift the payload
+  overspeedRpm: number; // rotor speed limit
+}
+
+export interface YieldBin extends WindBin {
+  power: number; // W
+  thrust: number; // N, generated line tension
+  rpm: number;
+  energy: number; // kWh per year in this bin
+}
+
+export interface YieldResult {
+  bins: YieldBin[];
+  annualEnergy: number; // kWh
+  meanPower: number; // W
+  ratedPower: number; // W, peak of the power curve
+  capacityFactor: number; // 0-1
+  hoursAbovePayload: number; // h/yr with generatedThrust >= payloadThrust
+  hoursOverspeed: number; // h/yr above overspeedRpm
 }
 
 export interface ChatMessage {
@@ -51,8 +629,158 @@ export interface ChatMessage {
   isError?: boolean;
 }
 
+export type NumericDesignParam = Exclude<keyof DesignParams, 'airfoilId' | 'planform'>;
+
+export enum OptimizationObjective {
+  MAX_THRUST = 'maxThrust',
+  MAX_POWER = 'maxPower',
+  MIN_ANCHOR_TENSION = 'minAnchorTension'
+}
+
+export enum OptimizerMethod {
+  GENETIC = 'genetic',
+  NELDER_MEAD = 'nelderMead'
+}
+
+export interface ParamBound {
+  key: NumericDesignParam;
+  min: number;
+  max: number;
+  enabled: boolean; // disabled fields stay at the current design value
+}
+
+export interface OptimizationConstraints {
+  minStabilityScore: number | null;
+  maxTipSpeed: number | null; // m/s
+  noReverseFlow: boolean; // retreating blade at 75% span must see forward flow
+}
+
+export interface OptimizationProblem {
+  bounds: ParamBound[];
+  objectives: OptimizationObjective[];
+  constraints: OptimizationConstraints;
+  method: OptimizerMethod;
+  populationSize: number; // GA population, or weight vectors for Nelder-Mead
+  iterations: number; // GA generations, or simplex iterations per weight vector
+  seed: number;
+}
+
+export interface OptimizationCandidate {
+  params: DesignParams;
+  objectives: Partial<Record<OptimizationObjective, number>>;
+  violation: number; // 0 when every constraint holds
+  generatedThrust: number;
+  powerOutput: number;
+  anchorTension: number;
+  stabilityScore: number;
+  tipSpeed: number;
+  rpm: number;
+}
+
+export interface OptimizationResult {
+  paretoFront: OptimizationCandidate[]; // feasible, non-dominated
+  evaluations: number;
+  feasibleCount: number;
+}
+
+export interface SweepAxis {
+  key: NumericDesignParam;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface SweepSpec {
+  x: SweepAxis;
+  y: SweepAxis | null; // null for a 1D sweep
+  metric: string; // dotted path into SimulationResult, e.g. 'anchorAnalysis.anchorTension'
+}
+
+export interface SweepResult {
+  spec: SweepSpec;
+  xValues: number[];
+  yValues: number[]; // empty for a 1D sweep
+  values: number[][]; // values[row][col] at (xValues[col], yValues[row]); a 1D sweep has one row. NaN where the metric is missing
+  min: number;
+  max: number;
+}
+
+export interface SavedDesign {
+  id: string;
+  name: string;
+  notes: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  params: DesignParams;
+  modelSettings: ModelSettings;
+  results?: SimulationResult; // snapshot at save time, absent in migrated legacy files
+  airfoil?: Airfoil; // embedded when the design uses an imported polar
+}
+
+export interface DesignDocument {
+  format: 'gyrokite-design';
+  schemaVersion: number;
+  exportedAt: string; // ISO timestamp
+  design: SavedDesign;
+}
+
+export interface ComparedDesign {
+  id: string;
+  name: string;
+  color: string; // hex, shared by chart lines and the ghost rotor
+  params: DesignParams;
+  modelSettings: ModelSettings;
+}
+
+export enum TelemetrySource {
+  WEBSOCKET = 'websocket',
+  SERIAL = 'serial',
+  REPLAY = 'replay'
+}
+
+export enum TelemetryStatus {
+  IDLE = 'idle',
+  CONNECTING = 'connecting',
+  LIVE = 'live',
+  ERROR = 'error'
+}
+
+// IMU attitude of the rotor relative to the line, degrees
+export interface TelemetryAttitude {
+  roll: number; // rotor axis leaning to the advancing side
+  pitch: number; // rotor axis tilt, same sense as the design's rotor tilt
+}
+
+// One line of the rig's stream
+export interface TelemetrySample extends TelemetryAttitude {
+  time: number; // s since the stream started
+  rpm: number;
+  lineTension: number; // N, at the rotor
+  windSpeed: number; // m/s at the rotor
+  lineAngle: number; // degrees
+}
+
+// A measured sample beside the model's prediction at its wind, angle and tension
+export interface TelemetryPoint {
+  time: number; // s
+  windSpeed: number; // m/s
+  rpm: number;
+  predictedRpm: number;
+  lineTension: number; // N, in the line just below the rotor
+  predictedTension: number; // N
+}
+
+export interface TelemetryRecording {
+  name: string;
+  startedAt: string; // ISO timestamp
+  samples: TelemetrySample[];
+}
+
 export enum Tab {
   DESIGN = 'design',
   ANALYSIS = 'analysis',
+  OPTIMIZE = 'optimize',
+  SWEEP = 'sweep',
+  TELEMETRY = 'telemetry',
   ASSISTANT = 'assistant'
 }
\ No newline at end of file